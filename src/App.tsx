@@ -1,108 +1,279 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import { Routes, Route, Navigate, useNavigate } from 'react-router-dom';
+import { User } from '@supabase/supabase-js';
 import { Header } from './components/Header';
-import { CategoryFilter } from './components/CategoryFilter';
-import { ProductCard } from './components/ProductCard';
 import { Cart } from './components/Cart';
 import { CheckoutModal } from './components/CheckoutModal';
-import { getCategories, getProducts } from './api/products';
-import { getCartItems, addToCart, updateCartItemQuantity, removeFromCart } from './api/cart';
-import { createOrder } from './api/orders';
-import { Category, Product, CartItem } from './types';
+import { AuthModal } from './components/AuthModal';
+import { SavedItemAlerts } from './components/SavedItemAlerts';
+import { StorePage } from './pages/StorePage';
+import { OrdersPage } from './pages/OrdersPage';
+import { OrderDetailPage } from './pages/OrderDetailPage';
+import { ProductDetailPage } from './pages/ProductDetailPage';
+import { SavedItemsPage } from './pages/SavedItemsPage';
+import { OrderConfirmationPage } from './pages/OrderConfirmationPage';
+import { CartRecoveryPage } from './pages/CartRecoveryPage';
+import { AdminLayout } from './pages/admin/AdminLayout';
+import { AdminProductsPage } from './pages/admin/AdminProductsPage';
+import { AdminInventoryPage } from './pages/admin/AdminInventoryPage';
+import { AdminAnalyticsPage } from './pages/admin/AdminAnalyticsPage';
+import { AdminCategoriesPage } from './pages/admin/AdminCategoriesPage';
+import { AdminPromotionsPage } from './pages/admin/AdminPromotionsPage';
+import { AdminReviewsPage } from './pages/admin/AdminReviewsPage';
+import { AdminReturnsPage } from './pages/admin/AdminReturnsPage';
+import { AdminShippingPage } from './pages/admin/AdminShippingPage';
+import { AdminImportPage } from './pages/admin/AdminImportPage';
+import { acknowledgeCartChanges } from './api/cart';
+import { createOrder, CheckoutError, OrderData } from './api/orders';
+import { PaymentError, payForOrder } from './api/payments';
+import { PromotionError } from './api/promotions';
+import { SavedItemError } from './api/savedItems';
+import { getCurrentUser, isStaffUser, onAuthChange, signIn, signUp, signOut } from './api/auth';
+import { subscribeToCart, subscribeToCatalog } from './api/realtime';
+import { Order, Product, ProductVariant, SavedItem } from './types';
+import { getCartTotal } from './lib/variants';
+import { hasBlockingCartChanges, hasCartChanges } from './lib/cartChanges';
+import { loadCurrencies, t, useLocale } from './lib/localeStore';
+import {
+  addCartItem,
+  clearCartLocally,
+  dismissCartError,
+  dropCartItemLocally,
+  loadCart,
+  removeCartItem,
+  setCartItemQuantity,
+  startCartSync,
+  useCart,
+  whenCartSettled,
+} from './lib/cartStore';
+import {
+  dismissSavedItemAlerts,
+  loadSavedItems,
+  moveToCart,
+  removeSaved,
+  saveForLater,
+  useSavedItems,
+} from './lib/savedItemsStore';
 
 function App() {
-  const [categories, setCategories] = useState<Category[]>([]);
-  const [products, setProducts] = useState<Product[]>([]);
-  const [cartItems, setCartItems] = useState<CartItem[]>([]);
-  const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
+  const navigate = useNavigate();
+  const { items: cartItems, queued: queuedCartChanges, error: cartError } = useCart();
+  const { items: savedItems } = useSavedItems();
+  // Re-renders the whole tree when the shopper switches language or currency.
+  useLocale();
+  const [catalogVersion, setCatalogVersion] = useState(0);
   const [isCartOpen, setIsCartOpen] = useState(false);
   const [isCheckoutOpen, setIsCheckoutOpen] = useState(false);
+  const [isAuthOpen, setIsAuthOpen] = useState(false);
+  const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const cartProductIds = useRef<Set<string>>(new Set());
+  const savedProductIds = useRef<Set<string>>(new Set());
 
   useEffect(() => {
     loadData();
+    loadCurrencies();
+    const stopCartSync = startCartSync();
+    const stopAuthListener = onAuthChange(setUser);
+    return () => {
+      stopCartSync();
+      stopAuthListener();
+    };
   }, []);
 
+  // Keeps cart lines current with changes made in other tabs and with live stock
+  // and price updates, so changed lines are flagged before checkout. Saved items
+  // are refreshed the same way so price drops and restocks show up as they happen.
+  // The cart subscription follows the signed-in (or guest) user.
   useEffect(() => {
-    loadProducts();
-  }, [selectedCategory]);
+    const unsubscribeCart = subscribeToCart({
+      onChange: loadCart,
+      onDelete: dropCartItemLocally,
+    });
+    const unsubscribeCatalog = subscribeToCatalog({
+      onProduct: (update) => {
+        if (cartProductIds.current.has(update.id)) loadCart();
+        if (savedProductIds.current.has(update.id)) loadSavedItems();
+      },
+      onVariant: (variant) => {
+        if (cartProductIds.current.has(variant.product_id)) loadCart();
+        if (savedProductIds.current.has(variant.product_id)) loadSavedItems();
+      },
+    });
+
+    return () => {
+      unsubscribeCart();
+      unsubscribeCatalog();
+    };
+  }, [user]);
+
+  useEffect(() => {
+    cartProductIds.current = new Set(cartItems.map((item) => item.product_id));
+  }, [cartItems]);
+
+  useEffect(() => {
+    savedProductIds.current = new Set(savedItems.map((item) => item.product_id));
+  }, [savedItems]);
 
   async function loadData() {
     try {
-      const [categoriesData, cartData] = await Promise.all([
-        getCategories(),
-        getCartItems(),
-      ]);
-      setCategories(categoriesData);
-      setCartItems(cartData);
+      setUser(await getCurrentUser());
+      await loadSavedItems();
     } catch (error) {
-      console.error('Error loading data:', error);
+      console.error('Error loading user:', error);
     } finally {
       setLoading(false);
     }
   }
 
-  async function loadProducts() {
+  function handleAddToCart(product: Product, variant: ProductVariant | null, quantity: number = 1) {
+    addCartItem(product, variant, quantity);
+  }
+
+  async function handleSignIn(email: string, password: string) {
+    await signIn(email, password);
+    setIsAuthOpen(false);
+    await Promise.all([loadCart(), loadSavedItems()]);
+  }
+
+  async function handleSignUp(email: string, password: string) {
+    const newUser = await signUp(email, password);
+    setIsAuthOpen(false);
+    if (newUser && !newUser.email_confirmed_at) {
+      alert(t('auth.confirmEmail'));
+    }
+    await Promise.all([loadCart(), loadSavedItems()]);
+  }
+
+  async function handleSignOut() {
     try {
-      const productsData = await getProducts(selectedCategory || undefined);
-      setProducts(productsData);
+      await signOut();
+      await Promise.all([loadCart(), loadSavedItems()]);
     } catch (error) {
-      console.error('Error loading products:', error);
+      console.error('Error signing out:', error);
     }
   }
 
-  async function handleAddToCart(productId: string) {
+  async function handleSaveForLater(cartItemId: string) {
     try {
-      await addToCart(productId, 1);
-      const updatedCart = await getCartItems();
-      setCartItems(updatedCart);
+      await saveForLater(cartItemId);
     } catch (error) {
-      console.error('Error adding to cart:', error);
-      alert('Failed to add item to cart');
+      console.error('Error saving item for later:', error);
+      alert(t('saved.saveFailed'));
     }
   }
 
-  async function handleUpdateQuantity(cartItemId: string, quantity: number) {
+  async function handleMoveToCart(item: SavedItem) {
     try {
-      await updateCartItemQuantity(cartItemId, quantity);
-      const updatedCart = await getCartItems();
-      setCartItems(updatedCart);
+      await moveToCart(item.id);
     } catch (error) {
-      console.error('Error updating quantity:', error);
+      console.error('Error moving item to cart:', error);
+      if (error instanceof SavedItemError && error.code === 'variant_required') {
+        alert(error.message);
+        setIsCartOpen(false);
+        navigate(`/products/${item.product_id}`);
+      } else {
+        alert(error instanceof SavedItemError ? error.message : t('saved.moveFailed'));
+      }
     }
   }
 
-  async function handleRemoveItem(cartItemId: string) {
+  async function handleRemoveSavedItem(savedItemId: string) {
     try {
-      await removeFromCart(cartItemId);
-      const updatedCart = await getCartItems();
-      setCartItems(updatedCart);
+      await removeSaved(savedItemId);
     } catch (error) {
-      console.error('Error removing item:', error);
+      console.error('Error removing saved item:', error);
+      alert(t('saved.removeFailed'));
     }
   }
 
-  async function handleCheckout(orderData: {
-    customer_name: string;
-    customer_email: string;
-    shipping_address: string;
-  }) {
+  async function handleDismissSavedItemAlerts(savedItemIds: string[]) {
     try {
-      await createOrder(cartItems, orderData);
-      setCartItems([]);
-      setIsCheckoutOpen(false);
-      setIsCartOpen(false);
-      alert('Order placed successfully!');
+      await dismissSavedItemAlerts(savedItemIds);
+    } catch (error) {
+      console.error('Error dismissing saved item alerts:', error);
+    }
+  }
+
+  async function handleProceedToCheckout() {
+    if (hasBlockingCartChanges(cartItems)) {
+      alert(t('checkout.blockingChanges'));
+      return;
+    }
+    if (hasCartChanges(cartItems)) {
+      if (!confirm(t('checkout.confirmPriceChanges'))) return;
+      try {
+        await acknowledgeCartChanges();
+        await loadCart();
+      } catch (error) {
+        console.error('Error accepting cart changes:', error);
+      }
+    }
+    setIsCartOpen(false);
+    setIsCheckoutOpen(true);
+  }
+
+  async function handleCheckout(orderData: OrderData, paymentMethod: string) {
+    let order: Order;
+    try {
+      await whenCartSettled();
+      order = await createOrder(orderData);
     } catch (error) {
       console.error('Error creating order:', error);
-      alert('Failed to place order');
+      if (error instanceof CheckoutError && error.code === 'insufficient_stock') {
+        const lines = error.lines
+          .map((line) =>
+            t('checkout.stockLine', {
+              product: line.product_name,
+              available: line.available,
+              requested: line.requested,
+            })
+          )
+          .join('\n');
+        alert(t('checkout.insufficientStock', { lines }));
+        await loadCart();
+        setCatalogVersion((version) => version + 1);
+      } else if (error instanceof CheckoutError && error.code === 'cart_empty') {
+        alert(t('cart.empty'));
+      } else if (error instanceof CheckoutError && error.code === 'invalid_address') {
+        alert(t('checkout.invalidAddress'));
+      } else if (error instanceof CheckoutError && error.code === 'shipping_unavailable') {
+        alert(t('checkout.shippingUnavailable'));
+      } else if (error instanceof CheckoutError && error.code === 'invalid_currency') {
+        alert(t('checkout.invalidCurrency'));
+        await loadCurrencies();
+      } else if (error instanceof PromotionError) {
+        alert(error.message);
+      } else {
+        alert(t('checkout.failed'));
+      }
+      return;
+    }
+
+    // The order now holds the stock and the cart has been emptied, so from here
+    // on a failed payment leaves a pending order the customer can pay from its page.
+    let paid = false;
+    try {
+      await payForOrder(order.id, paymentMethod, `${orderData.idempotency_key}:payment`);
+      paid = true;
+    } catch (error) {
+      console.error('Error paying for order:', error);
+      alert(
+        t('checkout.orderSaved', {
+          reason: error instanceof PaymentError ? error.message : t('checkout.paymentFailed'),
+        })
+      );
     }
+
+    clearCartLocally();
+    setIsCheckoutOpen(false);
+    setIsCartOpen(false);
+    setCatalogVersion((version) => version + 1);
+    navigate(paid ? `/orders/${order.id}/confirmation` : `/orders/${order.id}`);
   }
 
   const cartCount = cartItems.reduce((sum, item) => sum + item.quantity, 0);
-  const cartTotal = cartItems.reduce(
-    (sum, item) => sum + (item.product?.price || 0) * item.quantity,
-    0
-  );
+  const cartTotal = getCartTotal(cartItems);
 
   if (loading) {
     return (
@@ -117,42 +288,72 @@ function App() {
 
   return (
     <div className="min-h-screen bg-gray-50">
-      <Header cartCount={cartCount} onCartClick={() => setIsCartOpen(true)} />
+      <Header
+        cartCount={cartCount}
+        savedCount={savedItems.length}
+        onCartClick={() => setIsCartOpen(true)}
+        userEmail={user?.email ?? null}
+        isStaff={isStaffUser(user)}
+        onSignInClick={() => setIsAuthOpen(true)}
+        onSignOut={handleSignOut}
+      />
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <CategoryFilter
-          categories={categories}
-          selectedCategory={selectedCategory}
-          onSelectCategory={setSelectedCategory}
-        />
-
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-          {products.map((product) => (
-            <ProductCard
-              key={product.id}
-              product={product}
-              onAddToCart={handleAddToCart}
-            />
-          ))}
-        </div>
-
-        {products.length === 0 && (
-          <div className="text-center py-12 text-gray-500">
-            <p>No products found in this category</p>
-          </div>
-        )}
+        <Routes>
+          <Route
+            path="/"
+            element={<StorePage onAddToCart={handleAddToCart} refreshKey={catalogVersion} />}
+          />
+          <Route
+            path="/products/:productId"
+            element={
+              <ProductDetailPage
+                onAddToCart={handleAddToCart}
+                user={user}
+                onSignInClick={() => setIsAuthOpen(true)}
+              />
+            }
+          />
+          <Route
+            path="/saved"
+            element={<SavedItemsPage onMoveToCart={handleMoveToCart} onRemove={handleRemoveSavedItem} />}
+          />
+          <Route path="/orders" element={<OrdersPage />} />
+          <Route path="/orders/:orderId" element={<OrderDetailPage />} />
+          <Route path="/orders/:orderId/confirmation" element={<OrderConfirmationPage />} />
+          <Route path="/cart/recover" element={<CartRecoveryPage onOpenCart={() => setIsCartOpen(true)} />} />
+          <Route
+            path="/admin"
+            element={isStaffUser(user) ? <AdminLayout /> : <Navigate to="/" replace />}
+          >
+            <Route index element={<Navigate to="products" replace />} />
+            <Route path="products" element={<AdminProductsPage />} />
+            <Route path="inventory" element={<AdminInventoryPage />} />
+            <Route path="analytics" element={<AdminAnalyticsPage />} />
+            <Route path="categories" element={<AdminCategoriesPage />} />
+            <Route path="promotions" element={<AdminPromotionsPage />} />
+            <Route path="reviews" element={<AdminReviewsPage />} />
+            <Route path="returns" element={<AdminReturnsPage />} />
+            <Route path="shipping" element={<AdminShippingPage />} />
+            <Route path="import" element={<AdminImportPage />} />
+          </Route>
+        </Routes>
       </main>
 
       <Cart
         isOpen={isCartOpen}
         onClose={() => setIsCartOpen(false)}
         cartItems={cartItems}
-        onUpdateQuantity={handleUpdateQuantity}
-        onRemoveItem={handleRemoveItem}
-        onCheckout={() => {
-          setIsCartOpen(false);
-          setIsCheckoutOpen(true);
-        }}
+        onUpdateQuantity={setCartItemQuantity}
+        onRemoveItem={removeCartItem}
+        onSaveForLater={handleSaveForLater}
+        savedForLater={savedItems.filter((item) => item.list === 'saved_for_later')}
+        onMoveToCart={handleMoveToCart}
+        onRemoveSavedItem={handleRemoveSavedItem}
+        queuedChanges={queuedCartChanges}
+        error={cartError && t(`cart.${cartError}`)}
+        onDismissError={dismissCartError}
+        onCheckout={handleProceedToCheckout}
       />
 
       <CheckoutModal
@@ -161,6 +362,15 @@ function App() {
         onSubmit={handleCheckout}
         total={cartTotal}
       />
+
+      <SavedItemAlerts items={savedItems} onDismiss={handleDismissSavedItemAlerts} />
+
+      <AuthModal
+        isOpen={isAuthOpen}
+        onClose={() => setIsAuthOpen(false)}
+        onSignIn={handleSignIn}
+        onSignUp={handleSignUp}
+      />
     </div>
   );
 }
@@ -0,0 +1,531 @@
+import { supabase } from '../lib/supabase';
+import {
+  Category,
+  InventoryMovement,
+  LowStockReportRow,
+  MovementType,
+  Product,
+  ProductImage,
+  ProductOption,
+  ProductVariant,
+  Promotion,
+  Review,
+  ReviewStatus,
+  ShippingRate,
+  TaxRate,
+} from '../types';
+import { CatalogFormat, CatalogRow, serializeCatalog } from '../lib/catalogFile';
+
+const PRODUCT_IMAGES_BUCKET = 'product-images';
+
+// A blank slug is generated from the name.
+export interface CategoryInput {
+  parent_id: string | null;
+  slug: string;
+  name: string;
+  description: string;
+  position: number;
+}
+
+export interface ProductOptionInput {
+  name: string;
+  values: string[];
+}
+
+export interface ProductImageInput {
+  url: string;
+  alt_text: string;
+}
+
+export interface VariantInput {
+  sku: string;
+  options: Record<string, string>;
+  price: number | null;
+  image_url: string;
+}
+
+export interface ProductInput {
+  sku: string;
+  category_id: string | null;
+  name: string;
+  description: string;
+  price: number;
+  image_url: string;
+  weight_grams: number;
+  low_stock_threshold: number;
+}
+
+export type PromotionInput = Omit<Promotion, 'id' | 'active' | 'created_at' | 'updated_at'>;
+
+export type ShippingRateInput = Omit<ShippingRate, 'id' | 'created_at'>;
+
+export type TaxRateInput = Omit<TaxRate, 'id' | 'created_at'>;
+
+// Sales, cancellations and opening stock are only ever recorded by the database.
+export type StockMovementType = Exclude<MovementType, 'opening' | 'sale' | 'cancellation'>;
+
+// Staff RLS policies return archived rows as well, so these listings include them.
+export async function getAdminCategories(): Promise<Category[]> {
+  const { data, error } = await supabase
+    .from('categories')
+    .select('*')
+    .order('position')
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function getAdminProducts(): Promise<Product[]> {
+  const { data, error } = await supabase
+    .from('products')
+    .select(`
+      *,
+      options:product_options(*),
+      variants:product_variants(*),
+      images:product_images(*)
+    `)
+    .order('name')
+    .order('position', { referencedTable: 'product_images' });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createCategory(input: CategoryInput): Promise<Category> {
+  const { data, error } = await supabase
+    .from('categories')
+    .insert(input)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateCategory(categoryId: string, input: CategoryInput): Promise<Category> {
+  const { data, error } = await supabase
+    .from('categories')
+    .update(input)
+    .eq('id', categoryId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function setCategoryArchived(categoryId: string, archived: boolean): Promise<void> {
+  const { error } = await supabase
+    .from('categories')
+    .update({ archived_at: archived ? new Date().toISOString() : null })
+    .eq('id', categoryId);
+
+  if (error) throw error;
+}
+
+// New products start with zero stock; stock is only changed through adjustStock
+// so that every change carries a reason.
+export async function createProduct(input: ProductInput): Promise<Product> {
+  const { data, error } = await supabase
+    .from('products')
+    .insert(input)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateProduct(productId: string, input: ProductInput): Promise<Product> {
+  const { data, error } = await supabase
+    .from('products')
+    .update(input)
+    .eq('id', productId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function setProductArchived(productId: string, archived: boolean): Promise<void> {
+  const { error } = await supabase
+    .from('products')
+    .update({ archived_at: archived ? new Date().toISOString() : null })
+    .eq('id', productId);
+
+  if (error) throw error;
+}
+
+// Products with variants must be adjusted per variant. The reason is stored as the
+// movement's note.
+export async function adjustStock(
+  productId: string,
+  delta: number,
+  reason: string,
+  variantId: string | null = null,
+  type: StockMovementType = 'adjustment'
+): Promise<Product> {
+  const { data, error } = await supabase.rpc('adjust_stock', {
+    p_product_id: productId,
+    p_delta: delta,
+    p_reason: reason,
+    p_variant_id: variantId,
+    p_type: type,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+export async function getInventoryMovements(
+  productId: string,
+  variantId: string | null = null,
+  limit = 50
+): Promise<InventoryMovement[]> {
+  let query = supabase
+    .from('inventory_movements')
+    .select('*')
+    .eq('product_id', productId);
+
+  query = variantId ? query.eq('variant_id', variantId) : query.is('variant_id', null);
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Products and variants at or below their low-stock threshold, with sales velocity
+// over the last `days` days.
+export async function getLowStockReport(days = 30): Promise<LowStockReportRow[]> {
+  const { data, error } = await supabase.rpc('get_low_stock_report', { p_days: days });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function getInventoryDriftCount(): Promise<number> {
+  const { data, error } = await supabase.rpc('get_inventory_drift');
+
+  if (error) throw error;
+  return (data || []).length;
+}
+
+// Resets stock levels that disagree with the ledger; returns how many were fixed.
+export async function reconcileInventory(): Promise<number> {
+  const { data, error } = await supabase.rpc('reconcile_inventory');
+
+  if (error) throw error;
+  return data ?? 0;
+}
+
+// Replaces the product's option axes; positions follow the given order.
+export async function saveProductOptions(
+  productId: string,
+  options: ProductOptionInput[]
+): Promise<ProductOption[]> {
+  const { error: deleteError } = await supabase
+    .from('product_options')
+    .delete()
+    .eq('product_id', productId);
+
+  if (deleteError) throw deleteError;
+  if (options.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('product_options')
+    .insert(
+      options.map((option, position) => ({ ...option, product_id: productId, position }))
+    )
+    .select();
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Replaces the product's gallery; positions follow the given order.
+export async function saveProductImages(
+  productId: string,
+  images: ProductImageInput[]
+): Promise<ProductImage[]> {
+  const { error: deleteError } = await supabase
+    .from('product_images')
+    .delete()
+    .eq('product_id', productId);
+
+  if (deleteError) throw deleteError;
+  if (images.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('product_images')
+    .insert(images.map((image, position) => ({ ...image, product_id: productId, position })))
+    .select();
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createVariant(productId: string, input: VariantInput): Promise<ProductVariant> {
+  const { data, error } = await supabase
+    .from('product_variants')
+    .insert({ ...input, product_id: productId })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateVariant(variantId: string, input: VariantInput): Promise<ProductVariant> {
+  const { data, error } = await supabase
+    .from('product_variants')
+    .update(input)
+    .eq('id', variantId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function setVariantArchived(variantId: string, archived: boolean): Promise<void> {
+  const { error } = await supabase
+    .from('product_variants')
+    .update({ archived_at: archived ? new Date().toISOString() : null })
+    .eq('id', variantId);
+
+  if (error) throw error;
+}
+
+export async function uploadProductImage(file: File): Promise<string> {
+  const extension = file.name.split('.').pop()?.toLowerCase() || 'jpg';
+  const path = `${crypto.randomUUID()}.${extension}`;
+
+  const { error } = await supabase.storage
+    .from(PRODUCT_IMAGES_BUCKET)
+    .upload(path, file, { contentType: file.type, upsert: false });
+
+  if (error) throw error;
+
+  const { data } = supabase.storage.from(PRODUCT_IMAGES_BUCKET).getPublicUrl(path);
+  return data.publicUrl;
+}
+
+export async function getPromotions(): Promise<Promotion[]> {
+  const { data, error } = await supabase
+    .from('promotions')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createPromotion(input: PromotionInput): Promise<Promotion> {
+  const { data, error } = await supabase
+    .from('promotions')
+    .insert({ ...input, code: input.code.trim().toUpperCase() })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updatePromotion(promotionId: string, input: PromotionInput): Promise<Promotion> {
+  const { data, error } = await supabase
+    .from('promotions')
+    .update({ ...input, code: input.code.trim().toUpperCase() })
+    .eq('id', promotionId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function setPromotionActive(promotionId: string, active: boolean): Promise<void> {
+  const { error } = await supabase
+    .from('promotions')
+    .update({ active })
+    .eq('id', promotionId);
+
+  if (error) throw error;
+}
+
+export type ReviewQueueFilter = 'reported' | 'hidden' | 'all';
+
+// The moderation queue: reviews with unresolved reports by default, oldest report first.
+export async function getReviewsForModeration(
+  filter: ReviewQueueFilter = 'reported'
+): Promise<Review[]> {
+  const reportsJoin = filter === 'reported' ? 'review_reports!inner' : 'review_reports';
+  let query = supabase
+    .from('reviews')
+    .select(`
+      *,
+      product:products(id, name, image_url),
+      reports:${reportsJoin}(*)
+    `)
+    .order('created_at', { ascending: filter === 'reported' });
+
+  if (filter === 'reported') {
+    query = query.is('reports.resolved_at', null);
+  } else if (filter === 'hidden') {
+    query = query.eq('status', 'hidden');
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function moderateReview(
+  reviewId: string,
+  status: ReviewStatus,
+  note: string = ''
+): Promise<Review> {
+  const { data, error } = await supabase.rpc('moderate_review', {
+    p_review_id: reviewId,
+    p_status: status,
+    p_note: note,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+export async function getShippingRates(): Promise<ShippingRate[]> {
+  const { data, error } = await supabase
+    .from('shipping_rates')
+    .select('*')
+    .order('country', { nullsFirst: true })
+    .order('min_value');
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createShippingRate(input: ShippingRateInput): Promise<ShippingRate> {
+  const { data, error } = await supabase
+    .from('shipping_rates')
+    .insert(input)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateShippingRate(rateId: string, input: ShippingRateInput): Promise<ShippingRate> {
+  const { data, error } = await supabase
+    .from('shipping_rates')
+    .update(input)
+    .eq('id', rateId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteShippingRate(rateId: string): Promise<void> {
+  const { error } = await supabase
+    .from('shipping_rates')
+    .delete()
+    .eq('id', rateId);
+
+  if (error) throw error;
+}
+
+export async function getTaxRates(): Promise<TaxRate[]> {
+  const { data, error } = await supabase
+    .from('tax_rates')
+    .select('*')
+    .order('country')
+    .order('region', { nullsFirst: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createTaxRate(input: TaxRateInput): Promise<TaxRate> {
+  const { data, error } = await supabase
+    .from('tax_rates')
+    .insert(input)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateTaxRate(rateId: string, input: TaxRateInput): Promise<TaxRate> {
+  const { data, error } = await supabase
+    .from('tax_rates')
+    .update(input)
+    .eq('id', rateId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteTaxRate(rateId: string): Promise<void> {
+  const { error } = await supabase
+    .from('tax_rates')
+    .delete()
+    .eq('id', rateId);
+
+  if (error) throw error;
+}
+
+export interface ImportResult {
+  line: number;
+  sku: string;
+  action: 'create' | 'update';
+  category_created: boolean;
+  // The row's stock was not applied: the product has variants, whose stock it sums.
+  stock_ignored: boolean;
+}
+
+// Rows must already have passed parseCatalogFile validation. A dry run reports
+// what would change without writing anything.
+export async function importProducts(
+  rows: CatalogRow[],
+  dryRun: boolean
+): Promise<ImportResult[]> {
+  const { data, error } = await supabase.rpc('import_products', {
+    p_rows: rows,
+    p_dry_run: dryRun,
+  });
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Exports active products in the same shape importProducts accepts.
+export async function exportCatalog(format: CatalogFormat): Promise<string> {
+  const [products, categories] = await Promise.all([getAdminProducts(), getAdminCategories()]);
+  const categoryNames = new Map(categories.map((category) => [category.id, category.name]));
+
+  const rows = products
+    .filter((product) => !product.archived_at)
+    .map((product) => ({
+      sku: product.sku,
+      name: product.name,
+      description: product.description,
+      price: Number(product.price),
+      stock: product.stock,
+      category: categoryNames.get(product.category_id) ?? '',
+      image_url: product.image_url,
+    }));
+
+  return serializeCatalog(rows, format);
+}
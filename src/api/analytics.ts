@@ -0,0 +1,72 @@
+import { supabase } from '../lib/supabase';
+import {
+  CartConversion,
+  CartRecovery,
+  SalesInterval,
+  SalesPeriod,
+  TopCategoryRow,
+  TopProductRow,
+} from '../types';
+
+// Staff-only reports. Ranges are whole days (YYYY-MM-DD), inclusive, in UTC.
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export async function getSalesOverTime(
+  range: DateRange,
+  interval: SalesInterval = 'day'
+): Promise<SalesPeriod[]> {
+  const { data, error } = await supabase.rpc('get_sales_over_time', {
+    p_from: range.from,
+    p_to: range.to,
+    p_interval: interval,
+  });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function getTopProducts(range: DateRange, limit = 10): Promise<TopProductRow[]> {
+  const { data, error } = await supabase.rpc('get_top_products', {
+    p_from: range.from,
+    p_to: range.to,
+    p_limit: limit,
+  });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function getTopCategories(range: DateRange, limit = 10): Promise<TopCategoryRow[]> {
+  const { data, error } = await supabase.rpc('get_top_categories', {
+    p_from: range.from,
+    p_to: range.to,
+    p_limit: limit,
+  });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function getCartConversion(range: DateRange): Promise<CartConversion> {
+  const { data, error } = await supabase.rpc('get_cart_conversion', {
+    p_from: range.from,
+    p_to: range.to,
+  });
+
+  if (error) throw error;
+  return data[0];
+}
+
+// Recovery emails sent in the range and the orders placed from them.
+export async function getCartRecovery(range: DateRange): Promise<CartRecovery> {
+  const { data, error } = await supabase.rpc('get_cart_recovery', {
+    p_from: range.from,
+    p_to: range.to,
+  });
+
+  if (error) throw error;
+  return data[0];
+}
@@ -0,0 +1,60 @@
+import { Session, User } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { isDemoMode } from '../lib/demo';
+import { completeGuestTransfer, isGuestSession, startGuestTransfer } from '../lib/session';
+
+// Anonymous guest sessions are not surfaced as signed-in users.
+function toCustomer(session: Session | null): User | null {
+  return session && !isGuestSession(session) ? session.user : null;
+}
+
+export function isStaffUser(user: User | null): boolean {
+  return user?.app_metadata?.role === 'staff';
+}
+
+// Demo mode has no accounts, so the shopper is always a guest.
+export async function getCurrentUser(): Promise<User | null> {
+  if (isDemoMode) return null;
+
+  const { data } = await supabase.auth.getSession();
+  return toCustomer(data.session);
+}
+
+export function onAuthChange(callback: (user: User | null) => void): () => void {
+  if (isDemoMode) return () => {};
+
+  const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+    callback(toCustomer(session));
+  });
+  return () => data.subscription.unsubscribe();
+}
+
+export async function signUp(email: string, password: string): Promise<User | null> {
+  const transfer = await startGuestTransfer();
+  const { data, error } = await supabase.auth.signUp({ email, password });
+
+  if (error) throw error;
+
+  // Without email confirmation the user is signed in straight away; otherwise
+  // the guest session stays active and the merge happens on first sign-in.
+  if (data.session) {
+    await completeGuestTransfer(transfer);
+  }
+  return data.user;
+}
+
+export async function signIn(email: string, password: string): Promise<User> {
+  const transfer = await startGuestTransfer();
+  const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+
+  if (error) throw error;
+
+  await completeGuestTransfer(transfer);
+  return data.user;
+}
+
+export async function signOut(): Promise<void> {
+  const { error } = await supabase.auth.signOut();
+
+  if (error) throw error;
+}
@@ -1,54 +1,17 @@
-import { supabase } from '../lib/supabase';
-import { CartItem } from '../types';
-
-function getSessionId(): string {
-  let sessionId = localStorage.getItem('session_id');
-  if (!sessionId) {
-    sessionId = crypto.randomUUID();
-    localStorage.setItem('session_id', sessionId);
-  }
-  return sessionId;
-}
+import { getRepositories } from '../data/provider';
+import { Address, CartItem, CartQuote } from '../types';
 
 export async function getCartItems(): Promise<CartItem[]> {
-  const sessionId = getSessionId();
-
-  const { data, error } = await supabase
-    .from('cart_items')
-    .select(`
-      *,
-      product:products(*)
-    `)
-    .eq('session_id', sessionId);
-
-  if (error) throw error;
-  return data || [];
+  return getRepositories().cart.getItems();
 }
 
-export async function addToCart(productId: string, quantity: number = 1): Promise<void> {
-  const sessionId = getSessionId();
-
-  const { data: existingItem } = await supabase
-    .from('cart_items')
-    .select('*')
-    .eq('session_id', sessionId)
-    .eq('product_id', productId)
-    .maybeSingle();
-
-  if (existingItem) {
-    const { error } = await supabase
-      .from('cart_items')
-      .update({ quantity: existingItem.quantity + quantity })
-      .eq('id', existingItem.id);
-
-    if (error) throw error;
-  } else {
-    const { error } = await supabase
-      .from('cart_items')
-      .insert({ session_id: sessionId, product_id: productId, quantity });
-
-    if (error) throw error;
-  }
+// Returns the line the quantity was added to, without its product joins.
+export async function addToCart(
+  productId: string,
+  quantity: number = 1,
+  variantId: string | null = null
+): Promise<CartItem> {
+  return getRepositories().cart.addItem(productId, quantity, variantId);
 }
 
 export async function updateCartItemQuantity(cartItemId: string, quantity: number): Promise<void> {
@@ -57,30 +20,28 @@ export async function updateCartItemQuantity(cartItemId: string, quantity: numbe
     return;
   }
 
-  const { error } = await supabase
-    .from('cart_items')
-    .update({ quantity })
-    .eq('id', cartItemId);
-
-  if (error) throw error;
+  await getRepositories().cart.updateQuantity(cartItemId, quantity);
 }
 
 export async function removeFromCart(cartItemId: string): Promise<void> {
-  const { error } = await supabase
-    .from('cart_items')
-    .delete()
-    .eq('id', cartItemId);
-
-  if (error) throw error;
+  await getRepositories().cart.removeItem(cartItemId);
 }
 
 export async function clearCart(): Promise<void> {
-  const sessionId = getSessionId();
+  await getRepositories().cart.clear();
+}
 
-  const { error } = await supabase
-    .from('cart_items')
-    .delete()
-    .eq('session_id', sessionId);
+// Accepts the current prices on every cart line, clearing the price-change flags.
+export async function acknowledgeCartChanges(): Promise<void> {
+  await getRepositories().cart.acknowledgeChanges();
+}
 
-  if (error) throw error;
+// Prices the current cart with the same routine checkout uses, so the breakdown
+// shown before checkout matches the order that gets created. Without an address,
+// tax is not calculated and shipping is an estimate.
+export async function quoteCart(
+  promoCode: string = '',
+  address: Partial<Address> | null = null
+): Promise<CartQuote> {
+  return getRepositories().cart.quote(promoCode, address);
 }
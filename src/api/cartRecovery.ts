@@ -0,0 +1,46 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { isDemoMode } from '../lib/demo';
+import { ensureSession } from '../lib/session';
+
+export type CartRecoveryErrorCode = 'invalid_signature' | 'recovery_not_found' | 'recovery_expired';
+
+const CART_RECOVERY_ERROR_MESSAGES: Record<CartRecoveryErrorCode, string> = {
+  invalid_signature: 'This link is not valid',
+  recovery_not_found: 'This cart could not be found',
+  recovery_expired: 'This link has expired',
+};
+
+export class CartRecoveryError extends Error {
+  code: CartRecoveryErrorCode;
+
+  constructor(code: CartRecoveryErrorCode) {
+    super(CART_RECOVERY_ERROR_MESSAGES[code]);
+    this.name = 'CartRecoveryError';
+    this.code = code;
+  }
+}
+
+async function toCartRecoveryError(error: unknown): Promise<CartRecoveryError | unknown> {
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => null);
+    if (body?.error in CART_RECOVERY_ERROR_MESSAGES) return new CartRecoveryError(body.error);
+  }
+  return error;
+}
+
+// Puts the items from a recovery email back into the current cart, guest or
+// signed in, and returns how many lines were restored. Items that have been
+// archived since are skipped; quantities already in the cart are never lowered.
+export async function restoreCart(recoveryId: string, signature: string): Promise<number> {
+  // Recovery emails are not part of the in-memory backend.
+  if (isDemoMode) throw new CartRecoveryError('recovery_not_found');
+
+  await ensureSession();
+  const { data, error } = await supabase.functions.invoke('cart-recovery', {
+    body: { recovery_id: recoveryId, signature },
+  });
+
+  if (error) throw await toCartRecoveryError(error);
+  return data.restored;
+}
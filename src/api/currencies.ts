@@ -0,0 +1,6 @@
+import { getRepositories } from '../data/provider';
+import { Currency } from '../types';
+
+export async function getCurrencies(): Promise<Currency[]> {
+  return getRepositories().catalog.getCurrencies();
+}
@@ -1,93 +1,61 @@
-import { supabase } from '../lib/supabase';
-import { Order, OrderItem, CartItem } from '../types';
-import { clearCart } from './cart';
-
-function getSessionId(): string {
-  return localStorage.getItem('session_id') || crypto.randomUUID();
+import { getRepositories } from '../data/provider';
+import { OrderData } from '../data/repositories';
+import { OrderTransitionError } from '../data/errors';
+import {
+  Order,
+  OrderDiscount,
+  OrderItem,
+  OrderStatus,
+  OrderStatusHistory,
+} from '../types';
+import { canTransition } from '../lib/orderStatus';
+
+export type { OrderData } from '../data/repositories';
+export { CheckoutError, OrderTransitionError } from '../data/errors';
+export type { CheckoutErrorCode } from '../data/errors';
+
+// Prices, stock, the cart contents, the promotion, shipping and tax are all
+// evaluated by the backend when the order is placed; the client only supplies
+// the customer details, the address and the code to apply. The order stays
+// pending until payForOrder records a capture.
+export async function createOrder(orderData: OrderData): Promise<Order> {
+  return getRepositories().orders.createOrder(orderData);
 }
 
-interface OrderData {
-  customer_name: string;
-  customer_email: string;
-  shipping_address: string;
+export async function getOrders(): Promise<Order[]> {
+  return getRepositories().orders.getOrders();
 }
 
-export async function createOrder(
-  cartItems: CartItem[],
-  orderData: OrderData
-): Promise<Order> {
-  const sessionId = getSessionId();
-  const totalAmount = cartItems.reduce(
-    (sum, item) => sum + (item.product?.price || 0) * item.quantity,
-    0
-  );
-
-  const { data: order, error: orderError } = await supabase
-    .from('orders')
-    .insert({
-      session_id: sessionId,
-      total_amount: totalAmount,
-      status: 'pending',
-      customer_name: orderData.customer_name,
-      customer_email: orderData.customer_email,
-      shipping_address: orderData.shipping_address,
-    })
-    .select()
-    .single();
-
-  if (orderError) throw orderError;
-
-  const orderItems = cartItems.map(item => ({
-    order_id: order.id,
-    product_id: item.product_id,
-    quantity: item.quantity,
-    price: item.product?.price || 0,
-  }));
-
-  const { error: itemsError } = await supabase
-    .from('order_items')
-    .insert(orderItems);
-
-  if (itemsError) throw itemsError;
-
-  await clearCart();
-
-  return order;
+export async function getOrderById(orderId: string): Promise<Order | null> {
+  return getRepositories().orders.getOrderById(orderId);
 }
 
-export async function getOrders(): Promise<Order[]> {
-  const sessionId = getSessionId();
+export async function getOrderItems(orderId: string): Promise<OrderItem[]> {
+  return getRepositories().orders.getOrderItems(orderId);
+}
 
-  const { data, error } = await supabase
-    .from('orders')
-    .select('*')
-    .eq('session_id', sessionId)
-    .order('created_at', { ascending: false });
+export async function getOrderDiscounts(orderId: string): Promise<OrderDiscount[]> {
+  return getRepositories().orders.getOrderDiscounts(orderId);
+}
 
-  if (error) throw error;
-  return data || [];
+export async function getOrderStatusHistory(orderId: string): Promise<OrderStatusHistory[]> {
+  return getRepositories().orders.getOrderStatusHistory(orderId);
 }
 
-export async function getOrderById(orderId: string): Promise<Order | null> {
-  const { data, error } = await supabase
-    .from('orders')
-    .select('*')
-    .eq('id', orderId)
-    .maybeSingle();
+export async function transitionOrder(
+  orderId: string,
+  to: OrderStatus,
+  reason: string = ''
+): Promise<Order> {
+  const order = await getOrderById(orderId);
+  if (!order) throw new Error(`Order ${orderId} not found`);
+  if (!canTransition(order.status, to)) {
+    throw new OrderTransitionError(order.status, to);
+  }
 
-  if (error) throw error;
-  return data;
+  return getRepositories().orders.transitionOrder(orderId, to, reason);
 }
 
-export async function getOrderItems(orderId: string): Promise<OrderItem[]> {
-  const { data, error } = await supabase
-    .from('order_items')
-    .select(`
-      *,
-      product:products(*)
-    `)
-    .eq('order_id', orderId);
-
-  if (error) throw error;
-  return data || [];
+export async function cancelOrder(orderId: string, reason: string = ''): Promise<Order> {
+  return transitionOrder(orderId, 'cancelled', reason);
 }
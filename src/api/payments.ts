@@ -0,0 +1,126 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { OrderTransitionError } from '../data/errors';
+import { getRepositories } from '../data/provider';
+import { isDemoMode } from '../lib/demo';
+import { t } from '../lib/localeStore';
+import { BASE_CURRENCY } from '../lib/money';
+import { supabase } from '../lib/supabase';
+import { Payment } from '../types';
+
+const PAYMENT_ERROR_CODES = [
+  'card_declined',
+  'insufficient_funds',
+  'expired_card',
+  'processing_error',
+  'invalid_payment_method',
+  'order_not_payable',
+  'payment_in_progress',
+  'idempotency_key_reused',
+] as const;
+
+type KnownPaymentErrorCode = (typeof PAYMENT_ERROR_CODES)[number];
+
+function isKnownPaymentErrorCode(code: string): code is KnownPaymentErrorCode {
+  return (PAYMENT_ERROR_CODES as readonly string[]).includes(code);
+}
+
+// Why a recorded payment failed, in the shopper's language.
+export function formatPaymentFailure(code: string): string {
+  return isKnownPaymentErrorCode(code) ? t(`payment.${code}`) : t('checkout.paymentFailed');
+}
+
+// Codes the storefront knows are shown in the shopper's language; anything else
+// falls back to the provider's own message.
+export class PaymentError extends Error {
+  code: string;
+
+  constructor(code: string, message?: string | null) {
+    super(isKnownPaymentErrorCode(code) ? t(`payment.${code}`) : message ?? t('checkout.paymentFailed'));
+    this.name = 'PaymentError';
+    this.code = code;
+  }
+}
+
+// The payments function answers errors with `{ error, message }`; surface the
+// code rather than the generic non-2xx error supabase-js raises.
+async function toPaymentError(error: unknown): Promise<PaymentError | unknown> {
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => null);
+    if (body?.error) return new PaymentError(body.error, body.message);
+  }
+  return error;
+}
+
+async function invokePayments(body: Record<string, string>): Promise<Payment> {
+  const { data, error } = await supabase.functions.invoke('payments', { body });
+
+  if (error) throw await toPaymentError(error);
+  return data.payment;
+}
+
+// The in-memory backend has no gateway: the order is marked paid as if the card
+// had been captured. Nothing is recorded, so getOrderPayments stays empty.
+async function payInMemory(orderId: string): Promise<Payment> {
+  let order;
+  try {
+    order = await getRepositories().orders.transitionOrder(orderId, 'paid', t('payment.demo'));
+  } catch (error) {
+    if (error instanceof OrderTransitionError) throw new PaymentError('order_not_payable');
+    throw error;
+  }
+
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    order_id: order.id,
+    provider: 'demo',
+    provider_payment_id: null,
+    status: 'captured',
+    amount: order.total_amount,
+    refunded_amount: 0,
+    currency: BASE_CURRENCY,
+    failure_code: null,
+    failure_message: null,
+    created_at: now,
+    updated_at: now,
+  };
+}
+
+// Charges the order total through the configured provider. Retrying with the
+// same idempotency key returns the original attempt instead of charging twice.
+export async function payForOrder(
+  orderId: string,
+  paymentMethod: string,
+  idempotencyKey: string
+): Promise<Payment> {
+  if (isDemoMode) return payInMemory(orderId);
+
+  const payment = await invokePayments({
+    action: 'pay',
+    order_id: orderId,
+    payment_method: paymentMethod,
+    idempotency_key: idempotencyKey,
+  });
+
+  if (payment.status === 'failed') {
+    throw new PaymentError(payment.failure_code ?? 'payment_failed', payment.failure_message);
+  }
+  return payment;
+}
+
+export async function refundOrder(orderId: string): Promise<Payment> {
+  return invokePayments({ action: 'refund', order_id: orderId });
+}
+
+export async function getOrderPayments(orderId: string): Promise<Payment[]> {
+  if (isDemoMode) return [];
+
+  const { data, error } = await supabase
+    .from('payments')
+    .select('*')
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
@@ -1,50 +1,52 @@
-import { supabase } from '../lib/supabase';
+import { getRepositories } from '../data/provider';
+import {
+  ProductFacetParams,
+  ProductFacets,
+  ProductPage,
+  ProductSearchParams,
+} from '../data/repositories';
 import { Product, Category } from '../types';
 
-export async function getCategories(): Promise<Category[]> {
-  const { data, error } = await supabase
-    .from('categories')
-    .select('*')
-    .order('name');
+export type {
+  PriceBucket,
+  ProductFacetParams,
+  ProductFacets,
+  ProductPage,
+  ProductSearchParams,
+  ProductSort,
+} from '../data/repositories';
 
-  if (error) throw error;
-  return data || [];
+export async function getCategories(): Promise<Category[]> {
+  return getRepositories().catalog.getCategories();
 }
 
-export async function getProducts(categoryId?: string): Promise<Product[]> {
-  let query = supabase
-    .from('products')
-    .select('*')
-    .order('created_at', { ascending: false });
-
-  if (categoryId) {
-    query = query.eq('category_id', categoryId);
-  }
-
-  const { data, error } = await query;
-
-  if (error) throw error;
-  return data || [];
+// Product counts per category, price band and availability for a search; see
+// ProductFacets for which filters each count ignores.
+export async function getProductFacets(params: ProductFacetParams = {}): Promise<ProductFacets> {
+  return getRepositories().catalog.getFacets(params);
 }
 
+// Everything the product detail page shows: variants, the gallery in display
+// order and the category for breadcrumbs.
 export async function getProductById(productId: string): Promise<Product | null> {
-  const { data, error } = await supabase
-    .from('products')
-    .select('*')
-    .eq('id', productId)
-    .maybeSingle();
-
-  if (error) throw error;
-  return data;
+  return getRepositories().catalog.getProductById(productId);
 }
 
-export async function searchProducts(searchTerm: string): Promise<Product[]> {
-  const { data, error } = await supabase
-    .from('products')
-    .select('*')
-    .or(`name.ilike.%${searchTerm}%,description.ilike.%${searchTerm}%`)
-    .order('created_at', { ascending: false });
+// Omitting sort orders by relevance when there is a query and by newest
+// otherwise. Pass the returned next_cursor back in to load the following page.
+export async function searchProducts(params: ProductSearchParams = {}): Promise<ProductPage> {
+  return getRepositories().catalog.searchProducts(params);
+}
 
-  if (error) throw error;
-  return data || [];
+// Other in-stock products from the same category or its subcategories, newest first.
+export async function getRelatedProducts(product: Product, limit: number = 4): Promise<Product[]> {
+  if (!product.category_id) return [];
+
+  const page = await searchProducts({
+    categoryId: product.category_id,
+    inStock: true,
+    sort: 'newest',
+    limit: limit + 1,
+  });
+  return page.items.filter((related) => related.id !== product.id).slice(0, limit);
 }
@@ -0,0 +1,49 @@
+import { formatPrice, t } from '../lib/localeStore';
+
+export type PromotionErrorCode =
+  | 'promotion_not_found'
+  | 'promotion_not_started'
+  | 'promotion_expired'
+  | 'promotion_exhausted'
+  | 'promotion_account_required'
+  | 'promotion_already_used'
+  | 'promotion_min_subtotal'
+  | 'promotion_not_applicable';
+
+const PROMOTION_ERROR_CODES: PromotionErrorCode[] = [
+  'promotion_not_found',
+  'promotion_not_started',
+  'promotion_expired',
+  'promotion_exhausted',
+  'promotion_account_required',
+  'promotion_already_used',
+  'promotion_min_subtotal',
+  'promotion_not_applicable',
+];
+
+export class PromotionError extends Error {
+  code: PromotionErrorCode;
+  minSubtotal: number | null;
+
+  constructor(code: PromotionErrorCode, minSubtotal: number | null = null) {
+    super(
+      minSubtotal === null
+        ? t(`promotion.${code}`)
+        : t('promotion.minSubtotal', { amount: formatPrice(minSubtotal) })
+    );
+    this.name = 'PromotionError';
+    this.code = code;
+    this.minSubtotal = minSubtotal;
+  }
+}
+
+export function toPromotionError(
+  error: { message: string; details?: string | null }
+): PromotionError | null {
+  const code = PROMOTION_ERROR_CODES.find((candidate) => candidate === error.message);
+  if (!code) return null;
+  return new PromotionError(
+    code,
+    code === 'promotion_min_subtotal' ? Number(error.details) : null
+  );
+}
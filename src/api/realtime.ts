@@ -0,0 +1,127 @@
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { isDemoMode } from '../lib/demo';
+import { getOwnerId } from '../lib/session';
+import { Product, ProductVariant } from '../types';
+
+// Columns a realtime row may carry that the storefront renders. Catalog rows
+// also include internal columns such as the search vector; those are dropped.
+const LIVE_PRODUCT_FIELDS = [
+  'name',
+  'description',
+  'price',
+  'image_url',
+  'stock',
+  'rating_average',
+  'rating_count',
+  'archived_at',
+] as const;
+
+export type LiveProductUpdate = Pick<Product, 'id'> &
+  Partial<Pick<Product, (typeof LIVE_PRODUCT_FIELDS)[number]>>;
+
+// Channels sharing a topic are shared by the client, so each subscriber gets its
+// own topic and can unsubscribe without cutting off the others.
+let nextChannelId = 0;
+
+export interface CatalogChangeHandlers {
+  onProduct: (update: LiveProductUpdate) => void;
+  onVariant: (variant: ProductVariant) => void;
+}
+
+function toProductUpdate(row: Record<string, unknown>): LiveProductUpdate {
+  const update: Record<string, unknown> = { id: row.id };
+  LIVE_PRODUCT_FIELDS.forEach((field) => {
+    if (field in row) update[field] = row[field];
+  });
+  return update as LiveProductUpdate;
+}
+
+// Merge live rows into products already on screen so cards re-render with fresh
+// stock and prices.
+export function applyProductUpdate(product: Product, update: LiveProductUpdate): Product {
+  return product.id === update.id ? { ...product, ...update } : product;
+}
+
+export function applyVariantUpdate(product: Product, variant: ProductVariant): Product {
+  if (product.id !== variant.product_id || !product.variants) return product;
+  return {
+    ...product,
+    variants: variant.archived_at
+      ? product.variants.filter((current) => current.id !== variant.id)
+      : product.variants.map((current) => (current.id === variant.id ? variant : current)),
+  };
+}
+
+// Demo mode has no realtime server, so both subscriptions are no-ops there.
+export function subscribeToCatalog(handlers: CatalogChangeHandlers): () => void {
+  if (isDemoMode) return () => {};
+
+  const channel = supabase
+    .channel(`catalog:${++nextChannelId}`)
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'products' },
+      (payload: RealtimePostgresChangesPayload<Record<string, unknown>>) => {
+        if (payload.eventType === 'UPDATE') handlers.onProduct(toProductUpdate(payload.new));
+      }
+    )
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'product_variants' },
+      (payload: RealtimePostgresChangesPayload<ProductVariant>) => {
+        if (payload.eventType === 'UPDATE') handlers.onVariant(payload.new);
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+export interface CartChangeHandlers {
+  onChange: () => void;
+  onDelete: (cartItemId: string) => void;
+}
+
+// Fires whenever the current shopper's cart changes, including from another tab
+// or device. Realtime cannot filter delete events, so those arrive for every cart
+// with only the row id; callers drop the line if it is theirs.
+export function subscribeToCart(handlers: CartChangeHandlers): () => void {
+  if (isDemoMode) return () => {};
+
+  let unsubscribed = false;
+  let channel: ReturnType<typeof supabase.channel> | null = null;
+
+  getOwnerId()
+    .then((userId) => {
+      if (unsubscribed) return;
+      channel = supabase
+        .channel(`cart:${userId}:${++nextChannelId}`)
+        .on(
+          'postgres_changes',
+          { event: 'INSERT', schema: 'public', table: 'cart_items', filter: `user_id=eq.${userId}` },
+          handlers.onChange
+        )
+        .on(
+          'postgres_changes',
+          { event: 'UPDATE', schema: 'public', table: 'cart_items', filter: `user_id=eq.${userId}` },
+          handlers.onChange
+        )
+        .on(
+          'postgres_changes',
+          { event: 'DELETE', schema: 'public', table: 'cart_items' },
+          (payload: RealtimePostgresChangesPayload<{ id: string }>) => {
+            if (payload.eventType === 'DELETE' && payload.old.id) handlers.onDelete(payload.old.id);
+          }
+        )
+        .subscribe();
+    })
+    .catch((error) => console.error('Error subscribing to cart:', error));
+
+  return () => {
+    unsubscribed = true;
+    if (channel) supabase.removeChannel(channel);
+  };
+}
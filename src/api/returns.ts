@@ -0,0 +1,129 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { isDemoMode } from '../lib/demo';
+import { supabase } from '../lib/supabase';
+import { ReturnRequest, ReturnStatus } from '../types';
+
+export interface ReturnLineInput {
+  order_item_id: string;
+  quantity: number;
+}
+
+const RETURN_ERROR_MESSAGES: Record<string, string> = {
+  return_not_allowed: 'Items can only be returned once the order has been delivered',
+  reason_required: 'Tell us why you are returning these items',
+  invalid_return_quantity: 'Some of these items have already been returned',
+  illegal_return_transition: 'This return has already been handled',
+  return_not_refundable: 'Only received returns can be refunded',
+  no_captured_payment: 'This order has no payment to refund',
+  refund_failed: 'The payment provider declined the refund',
+};
+
+export class ReturnError extends Error {
+  code: string;
+
+  constructor(code: string, message?: string | null) {
+    super(RETURN_ERROR_MESSAGES[code] ?? message ?? 'The return could not be updated');
+    this.name = 'ReturnError';
+    this.code = code;
+  }
+}
+
+function toReturnError(error: { message: string }): ReturnError | null {
+  if (!(error.message in RETURN_ERROR_MESSAGES)) return null;
+  return new ReturnError(error.message);
+}
+
+const RETURN_SELECT = `
+  *,
+  items:return_request_items(*, order_item:order_items(*, product:products(*)))
+`;
+
+export async function getOrderReturns(orderId: string): Promise<ReturnRequest[]> {
+  // Returns are not part of the in-memory backend.
+  if (isDemoMode) return [];
+
+  const { data, error } = await supabase
+    .from('return_requests')
+    .select(RETURN_SELECT)
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function requestReturn(
+  orderId: string,
+  items: ReturnLineInput[],
+  reason: string
+): Promise<ReturnRequest> {
+  const { data, error } = await supabase.rpc('request_return', {
+    p_order_id: orderId,
+    p_items: items,
+    p_reason: reason,
+  });
+
+  if (error) throw toReturnError(error) || error;
+  return data;
+}
+
+export type ReturnQueueFilter = Extract<ReturnStatus, 'requested' | 'approved' | 'received'> | 'all';
+
+// The staff queue, oldest first so nothing waits too long.
+export async function getReturnsForReview(filter: ReturnQueueFilter = 'requested'): Promise<ReturnRequest[]> {
+  let query = supabase
+    .from('return_requests')
+    .select(`${RETURN_SELECT}, order:orders(*)`)
+    .order('created_at', { ascending: filter !== 'all' });
+
+  if (filter !== 'all') {
+    query = query.eq('status', filter);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function reviewReturn(
+  returnId: string,
+  approve: boolean,
+  note: string = ''
+): Promise<ReturnRequest> {
+  const { data, error } = await supabase.rpc('review_return', {
+    p_return_id: returnId,
+    p_approve: approve,
+    p_note: note,
+  });
+
+  if (error) throw toReturnError(error) || error;
+  return data;
+}
+
+// Puts the returned items back in stock unless `restock` is false.
+export async function receiveReturn(returnId: string, restock: boolean = true): Promise<ReturnRequest> {
+  const { data, error } = await supabase.rpc('receive_return', {
+    p_return_id: returnId,
+    p_restock: restock,
+  });
+
+  if (error) throw toReturnError(error) || error;
+  return data;
+}
+
+// Refunds the approved amount through the payment provider.
+export async function refundReturn(returnId: string): Promise<ReturnRequest> {
+  const { data, error } = await supabase.functions.invoke('payments', {
+    body: { action: 'refund_return', return_id: returnId },
+  });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const body = await error.context.json().catch(() => null);
+      if (body?.error) throw new ReturnError(body.error, body.message);
+    }
+    throw error;
+  }
+  return data.return;
+}
@@ -0,0 +1,90 @@
+import { supabase } from '../lib/supabase';
+import { Review } from '../types';
+
+export type ReviewSort = 'newest' | 'highest' | 'lowest';
+
+export interface ReviewInput {
+  rating: number;
+  title: string;
+  body: string;
+  author_name: string;
+}
+
+const REVIEW_ORDER: Record<ReviewSort, { column: string; ascending: boolean }> = {
+  newest: { column: 'created_at', ascending: false },
+  highest: { column: 'rating', ascending: false },
+  lowest: { column: 'rating', ascending: true },
+};
+
+// Published reviews only; the caller's own review is fetched separately so a
+// hidden one can still be shown to its author.
+export async function getProductReviews(
+  productId: string,
+  sort: ReviewSort = 'newest'
+): Promise<Review[]> {
+  const order = REVIEW_ORDER[sort];
+
+  const { data, error } = await supabase
+    .from('reviews')
+    .select('*')
+    .eq('product_id', productId)
+    .eq('status', 'published')
+    .order(order.column, { ascending: order.ascending })
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function getMyReview(productId: string, userId: string): Promise<Review | null> {
+  const { data, error } = await supabase
+    .from('reviews')
+    .select('*')
+    .eq('product_id', productId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function createReview(productId: string, input: ReviewInput): Promise<Review> {
+  const { data, error } = await supabase
+    .from('reviews')
+    .insert({ ...input, product_id: productId })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateReview(reviewId: string, input: ReviewInput): Promise<Review> {
+  const { data, error } = await supabase
+    .from('reviews')
+    .update(input)
+    .eq('id', reviewId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteReview(reviewId: string): Promise<void> {
+  const { error } = await supabase
+    .from('reviews')
+    .delete()
+    .eq('id', reviewId);
+
+  if (error) throw error;
+}
+
+// Reporting the same review twice is a no-op.
+export async function reportReview(reviewId: string, reason: string): Promise<void> {
+  const { error } = await supabase
+    .from('review_reports')
+    .insert({ review_id: reviewId, reason });
+
+  if (error && error.code !== '23505') throw error;
+}
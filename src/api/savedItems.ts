@@ -0,0 +1,94 @@
+import { supabase } from '../lib/supabase';
+import { isDemoMode } from '../lib/demo';
+import { t } from '../lib/localeStore';
+import { getOwnerId } from '../lib/session';
+import { CartItem, SavedItem } from '../types';
+
+const SAVED_ITEM_ERROR_CODES = ['variant_required', 'product_unavailable'] as const;
+
+export type SavedItemErrorCode = (typeof SAVED_ITEM_ERROR_CODES)[number];
+
+function isSavedItemErrorCode(code: string): code is SavedItemErrorCode {
+  return (SAVED_ITEM_ERROR_CODES as readonly string[]).includes(code);
+}
+
+export class SavedItemError extends Error {
+  code: SavedItemErrorCode;
+
+  constructor(code: SavedItemErrorCode) {
+    super(t(`saved.${code}`));
+    this.name = 'SavedItemError';
+    this.code = code;
+  }
+}
+
+function toSavedItemError(error: { message: string }): SavedItemError | null {
+  return isSavedItemErrorCode(error.message) ? new SavedItemError(error.message) : null;
+}
+
+// Saved items are not part of the in-memory backend, so demo mode has none.
+export async function getSavedItems(): Promise<SavedItem[]> {
+  if (isDemoMode) return [];
+
+  const userId = await getOwnerId();
+
+  const { data, error } = await supabase
+    .from('saved_items')
+    .select(`
+      *,
+      product:products(*, options:product_options(*), variants:product_variants(*)),
+      variant:product_variants(*)
+    `)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Saving a product that is already on the wishlist is a no-op.
+export async function addToWishlist(productId: string, variantId: string | null = null): Promise<void> {
+  const userId = await getOwnerId();
+
+  const { error } = await supabase
+    .from('saved_items')
+    .insert({ user_id: userId, list: 'wishlist', product_id: productId, variant_id: variantId });
+
+  if (error && error.code !== '23505') throw error;
+}
+
+export async function removeSavedItem(savedItemId: string): Promise<void> {
+  const { error } = await supabase
+    .from('saved_items')
+    .delete()
+    .eq('id', savedItemId);
+
+  if (error) throw error;
+}
+
+export async function saveCartItemForLater(cartItemId: string): Promise<SavedItem> {
+  const { data, error } = await supabase.rpc('save_cart_item_for_later', {
+    p_cart_item_id: cartItemId,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+// Returns the cart line the item was added to, without its product joins.
+export async function moveSavedItemToCart(savedItemId: string): Promise<CartItem> {
+  const { data, error } = await supabase.rpc('move_saved_item_to_cart', {
+    p_saved_item_id: savedItemId,
+  });
+
+  if (error) throw toSavedItemError(error) || error;
+  return data;
+}
+
+export async function acknowledgeSavedItemAlerts(savedItemIds: string[]): Promise<void> {
+  const { error } = await supabase.rpc('acknowledge_saved_item_alerts', {
+    p_item_ids: savedItemIds,
+  });
+
+  if (error) throw error;
+}
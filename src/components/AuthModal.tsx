@@ -0,0 +1,115 @@
+import { X } from 'lucide-react';
+import { useState } from 'react';
+import { t } from '../lib/localeStore';
+
+type AuthMode = 'signIn' | 'signUp';
+
+interface AuthModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSignIn: (email: string, password: string) => Promise<void>;
+  onSignUp: (email: string, password: string) => Promise<void>;
+}
+
+export function AuthModal({ isOpen, onClose, onSignIn, onSignUp }: AuthModalProps) {
+  const [mode, setMode] = useState<AuthMode>('signIn');
+  const [formData, setFormData] = useState({ email: '', password: '' });
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSubmitting(true);
+    try {
+      if (mode === 'signIn') {
+        await onSignIn(formData.email, formData.password);
+      } else {
+        await onSignUp(formData.email, formData.password);
+      }
+      setFormData({ email: '', password: '' });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('auth.failed'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen px-4">
+        <div className="fixed inset-0 bg-black bg-opacity-50" onClick={onClose} />
+        <div className="relative bg-white rounded-lg shadow-xl max-w-md w-full p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-2xl font-bold">
+              {mode === 'signIn' ? t('auth.signIn') : t('auth.createAccount')}
+            </h2>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <X size={24} />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {t('auth.email')}
+              </label>
+              <input
+                type="email"
+                required
+                autoComplete="email"
+                value={formData.email}
+                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {t('auth.password')}
+              </label>
+              <input
+                type="password"
+                required
+                minLength={6}
+                autoComplete={mode === 'signIn' ? 'current-password' : 'new-password'}
+                value={formData.password}
+                onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <button
+              type="submit"
+              disabled={submitting}
+              className="w-full bg-blue-600 text-white py-3 rounded-lg hover:bg-blue-700 transition-colors font-semibold disabled:bg-gray-400"
+            >
+              {mode === 'signIn' ? t('auth.signIn') : t('auth.createAccount')}
+            </button>
+
+            <p className="text-sm text-center text-gray-600">
+              {mode === 'signIn' ? t('auth.noAccount') : t('auth.haveAccount')}{' '}
+              <button
+                type="button"
+                onClick={() => {
+                  setMode(mode === 'signIn' ? 'signUp' : 'signIn');
+                  setError(null);
+                }}
+                className="text-blue-600 hover:text-blue-700 font-medium"
+              >
+                {mode === 'signIn' ? t('auth.createOne') : t('auth.signInInstead')}
+              </button>
+            </p>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { t } from '../lib/localeStore';
+import { CardDetails, formatCardNumber, MOCK_TEST_CARDS } from '../lib/payments';
+
+interface CardPaymentFieldsProps {
+  card: CardDetails;
+  onChange: (card: CardDetails) => void;
+  error?: string | null;
+}
+
+export function CardPaymentFields({ card, onChange, error }: CardPaymentFieldsProps) {
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <fieldset className="space-y-3">
+      <legend className="block text-sm font-medium text-gray-700 mb-1">{t('payment.title')}</legend>
+      <input
+        type="text"
+        inputMode="numeric"
+        autoComplete="cc-number"
+        required
+        placeholder={t('payment.cardNumber')}
+        value={card.number}
+        onChange={(e) => onChange({ ...card, number: formatCardNumber(e.target.value) })}
+        className={inputClass}
+      />
+      <div className="grid grid-cols-2 gap-3">
+        <input
+          type="text"
+          inputMode="numeric"
+          autoComplete="cc-exp"
+          required
+          placeholder={t('payment.expiry')}
+          maxLength={5}
+          value={card.expiry}
+          onChange={(e) => onChange({ ...card, expiry: e.target.value })}
+          className={inputClass}
+        />
+        <input
+          type="text"
+          inputMode="numeric"
+          autoComplete="cc-csc"
+          required
+          placeholder={t('payment.cvc')}
+          maxLength={4}
+          value={card.cvc}
+          onChange={(e) => onChange({ ...card, cvc: e.target.value.replace(/\D/g, '') })}
+          className={inputClass}
+        />
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {import.meta.env.DEV && (
+        <p className="text-xs text-gray-500">
+          {t('payment.testCards', {
+            cards: MOCK_TEST_CARDS.map(
+              (testCard) => `${testCard.number} (${t(`mockCard.${testCard.outcome}`)})`
+            ).join(', '),
+          })}
+        </p>
+      )}
+    </fieldset>
+  );
+}
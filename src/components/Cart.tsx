@@ -1,5 +1,11 @@
-import { X, Plus, Minus, ShoppingBag } from 'lucide-react';
-import { CartItem } from '../types';
+import { X, Plus, Minus, ShoppingBag, AlertTriangle, CloudOff } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { quoteCart } from '../api/cart';
+import { CartItem, CartQuote, SavedItem } from '../types';
+import { formatVariantLabel, getCartItemPrice, getCartTotal, getUnitPrice } from '../lib/variants';
+import { describeCartLineChange, getCartLineChanges, hasCartChanges } from '../lib/cartChanges';
+import { formatPrice, t } from '../lib/localeStore';
+import { PriceBreakdown } from './PriceBreakdown';
 
 interface CartProps {
   isOpen: boolean;
@@ -7,7 +13,14 @@ interface CartProps {
   cartItems: CartItem[];
   onUpdateQuantity: (cartItemId: string, quantity: number) => void;
   onRemoveItem: (cartItemId: string) => void;
+  onSaveForLater: (cartItemId: string) => void;
+  savedForLater: SavedItem[];
+  onMoveToCart: (item: SavedItem) => void;
+  onRemoveSavedItem: (savedItemId: string) => void;
   onCheckout: () => void;
+  queuedChanges: number;
+  error: string | null;
+  onDismissError: () => void;
 }
 
 export function Cart({
@@ -16,12 +29,25 @@ export function Cart({
   cartItems,
   onUpdateQuantity,
   onRemoveItem,
+  onSaveForLater,
+  savedForLater,
+  onMoveToCart,
+  onRemoveSavedItem,
   onCheckout,
+  queuedChanges,
+  error,
+  onDismissError,
 }: CartProps) {
-  const total = cartItems.reduce(
-    (sum, item) => sum + (item.product?.price || 0) * item.quantity,
-    0
-  );
+  const total = getCartTotal(cartItems);
+  const changed = hasCartChanges(cartItems);
+  const [quote, setQuote] = useState<CartQuote | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || cartItems.length === 0) return;
+    quoteCart()
+      .then(setQuote)
+      .catch((error) => console.error('Error pricing cart:', error));
+  }, [isOpen, cartItems]);
 
   if (!isOpen) return null;
 
@@ -33,7 +59,7 @@ export function Cart({
           <div className="flex items-center justify-between p-4 border-b">
             <h2 className="text-xl font-bold flex items-center gap-2">
               <ShoppingBag size={24} />
-              Shopping Cart
+              {t('cart.title')}
             </h2>
             <button
               onClick={onClose}
@@ -44,75 +70,169 @@ export function Cart({
           </div>
 
           <div className="flex-1 overflow-y-auto p-4">
+            {error && (
+              <div className="flex items-start justify-between gap-2 mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                <span>{error}</span>
+                <button onClick={onDismissError} className="text-red-700 hover:text-red-800">
+                  <X size={16} />
+                </button>
+              </div>
+            )}
+            {queuedChanges > 0 && (
+              <p className="flex items-center gap-2 mb-4 text-sm text-gray-600">
+                <CloudOff size={16} />
+                {t('cart.offline')}
+              </p>
+            )}
             {cartItems.length === 0 ? (
               <div className="text-center py-12 text-gray-500">
                 <ShoppingBag size={48} className="mx-auto mb-4 opacity-50" />
-                <p>Your cart is empty</p>
+                <p>{t('cart.empty')}</p>
               </div>
             ) : (
               <div className="space-y-4">
-                {cartItems.map((item) => (
-                  <div
-                    key={item.id}
-                    className="flex gap-4 bg-gray-50 p-3 rounded-lg"
-                  >
-                    <img
-                      src={item.product?.image_url}
-                      alt={item.product?.name}
-                      className="w-20 h-20 object-cover rounded"
-                    />
-                    <div className="flex-1">
-                      <h3 className="font-semibold text-sm mb-1">
-                        {item.product?.name}
-                      </h3>
-                      <p className="text-lg font-bold text-gray-900 mb-2">
-                        ${item.product?.price.toFixed(2)}
-                      </p>
-                      <div className="flex items-center gap-2">
-                        <button
-                          onClick={() =>
-                            onUpdateQuantity(item.id, item.quantity - 1)
-                          }
-                          className="p-1 hover:bg-gray-200 rounded"
-                        >
-                          <Minus size={16} />
-                        </button>
-                        <span className="w-8 text-center font-medium">
-                          {item.quantity}
-                        </span>
+                {cartItems.map((item) => {
+                  const changes = getCartLineChanges(item);
+                  return (
+                    <div
+                      key={item.id}
+                      className={`flex gap-4 p-3 rounded-lg ${
+                        changes.length > 0 ? 'bg-amber-50 border border-amber-200' : 'bg-gray-50'
+                      }`}
+                    >
+                      <img
+                        src={item.variant?.image_url || item.product?.image_url}
+                        alt={item.product?.name}
+                        className="w-20 h-20 object-cover rounded"
+                      />
+                      <div className="flex-1">
+                        <h3 className="font-semibold text-sm mb-1">
+                          {item.product?.name ?? t('common.productUnavailable')}
+                        </h3>
+                        {item.variant && (
+                          <p className="text-xs text-gray-500 mb-1">
+                            {formatVariantLabel(item.variant, item.product?.options)}
+                          </p>
+                        )}
+                        <p className="text-lg font-bold text-gray-900 mb-2">
+                          {formatPrice(getCartItemPrice(item))}
+                        </p>
+                        {changes.map((change) => (
+                          <p key={change.kind} className="text-xs text-amber-700 mb-1">
+                            {describeCartLineChange(change)}
+                          </p>
+                        ))}
+                        <div className="flex items-center gap-2">
+                          <button
+                            onClick={() =>
+                              onUpdateQuantity(item.id, item.quantity - 1)
+                            }
+                            className="p-1 hover:bg-gray-200 rounded"
+                          >
+                            <Minus size={16} />
+                          </button>
+                          <span className="w-8 text-center font-medium">
+                            {item.quantity}
+                          </span>
+                          <button
+                            onClick={() =>
+                              onUpdateQuantity(item.id, item.quantity + 1)
+                            }
+                            className="p-1 hover:bg-gray-200 rounded"
+                          >
+                            <Plus size={16} />
+                          </button>
+                          <button
+                            onClick={() => onSaveForLater(item.id)}
+                            disabled={queuedChanges > 0}
+                            className="ml-auto text-blue-600 hover:text-blue-700 text-sm disabled:text-gray-400"
+                          >
+                            {t('cart.saveForLater')}
+                          </button>
+                          <button
+                            onClick={() => onRemoveItem(item.id)}
+                            className="text-red-600 hover:text-red-700 text-sm"
+                          >
+                            {t('common.remove')}
+                          </button>
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+            {savedForLater.length > 0 && (
+              <div className="mt-6">
+                <h3 className="font-semibold text-gray-900 mb-2">
+                  {t('cart.savedForLater', { count: savedForLater.length })}
+                </h3>
+                <div className="space-y-2">
+                  {savedForLater.map((item) => (
+                    <div key={item.id} className="flex items-center gap-3 p-2 rounded-lg border border-gray-200">
+                      <img
+                        src={item.variant?.image_url || item.product?.image_url}
+                        alt={item.product?.name}
+                        className="w-12 h-12 object-cover rounded"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate">
+                          {item.product?.name ?? t('common.productUnavailable')}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {item.variant && `${formatVariantLabel(item.variant, item.product?.options)} · `}
+                          {item.product && `${formatPrice(getUnitPrice(item.product, item.variant))} · `}
+                          {t('cart.quantity', { quantity: item.quantity })}
+                        </p>
+                      </div>
+                      <div className="flex flex-col items-end gap-1">
                         <button
-                          onClick={() =>
-                            onUpdateQuantity(item.id, item.quantity + 1)
-                          }
-                          className="p-1 hover:bg-gray-200 rounded"
+                          onClick={() => onMoveToCart(item)}
+                          disabled={!item.product || !!item.product.archived_at}
+                          className="text-blue-600 hover:text-blue-700 text-xs font-medium disabled:text-gray-400"
                         >
-                          <Plus size={16} />
+                          {t('cart.moveToCart')}
                         </button>
                         <button
-                          onClick={() => onRemoveItem(item.id)}
-                          className="ml-auto text-red-600 hover:text-red-700 text-sm"
+                          onClick={() => onRemoveSavedItem(item.id)}
+                          className="text-red-600 hover:text-red-700 text-xs"
                         >
-                          Remove
+                          {t('common.remove')}
                         </button>
                       </div>
                     </div>
-                  </div>
-                ))}
+                  ))}
+                </div>
               </div>
             )}
           </div>
 
           {cartItems.length > 0 && (
             <div className="border-t p-4 space-y-4">
-              <div className="flex justify-between text-xl font-bold">
-                <span>Total:</span>
-                <span>${total.toFixed(2)}</span>
+              {changed && (
+                <p className="flex items-start gap-2 text-sm text-amber-700">
+                  <AlertTriangle size={16} className="mt-0.5 flex-shrink-0" />
+                  {t('cart.changed')}
+                </p>
+              )}
+              <div>
+                <PriceBreakdown
+                  subtotal={quote?.subtotal ?? total}
+                  discounts={[]}
+                  shipping={quote?.shipping ?? null}
+                  shippingMethod={quote?.shipping_method}
+                  tax={null}
+                  total={quote?.total ?? total}
+                  totalLabel={t('cart.estimatedTotal')}
+                />
+                <p className="text-sm text-gray-500 mt-1">{t('cart.promoAtCheckout')}</p>
               </div>
               <button
                 onClick={onCheckout}
-                className="w-full bg-blue-600 text-white py-3 rounded-lg hover:bg-blue-700 transition-colors font-semibold"
+                disabled={queuedChanges > 0}
+                className="w-full bg-blue-600 text-white py-3 rounded-lg hover:bg-blue-700 transition-colors font-semibold disabled:bg-gray-400"
               >
-                Proceed to Checkout
+                {t('cart.checkout')}
               </button>
             </div>
           )}
@@ -1,44 +1,153 @@
+import { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
 import { Category } from '../types';
+import { buildCategoryTree, CategoryNode, getCategoryPath } from '../lib/categories';
+import { t } from '../lib/localeStore';
 
 interface CategoryFilterProps {
   categories: Category[];
-  selectedCategory: string | null;
-  onSelectCategory: (categoryId: string | null) => void;
+  // Matching products per category, subcategories included.
+  counts: Map<string, number>;
+  selectedCategoryId: string | null;
+  onSelectCategory: (category: Category | null) => void;
 }
 
+function Count({ value }: { value: number }) {
+  return <span className="ml-1 text-xs opacity-75">({value})</span>;
+}
+
+// The subcategories of a top-level category, nested as far as they go.
+function CategoryLinks({
+  nodes,
+  counts,
+  selectedCategoryId,
+  onSelectCategory,
+}: Omit<CategoryFilterProps, 'categories'> & { nodes: CategoryNode[] }) {
+  return (
+    <ul className="space-y-1">
+      {nodes.map((node) => (
+        <li key={node.id}>
+          <button
+            onClick={() => onSelectCategory(node)}
+            className={`text-left text-sm transition-colors ${
+              selectedCategoryId === node.id
+                ? 'text-blue-600 font-semibold'
+                : 'text-gray-700 hover:text-blue-600'
+            }`}
+          >
+            {node.name}
+            <Count value={counts.get(node.id) ?? 0} />
+          </button>
+          {node.children.length > 0 && (
+            <div className="pl-3 mt-1 border-l border-gray-200">
+              <CategoryLinks
+                nodes={node.children}
+                counts={counts}
+                selectedCategoryId={selectedCategoryId}
+                onSelectCategory={onSelectCategory}
+              />
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Top-level categories in a row; pointing at one opens a panel with its
+// subcategories, and the panel of the selected category stays open.
 export function CategoryFilter({
   categories,
-  selectedCategory,
+  counts,
+  selectedCategoryId,
   onSelectCategory,
 }: CategoryFilterProps) {
+  const tree = useMemo(() => buildCategoryTree(categories), [categories]);
+  const [previewRootId, setPreviewRootId] = useState<string | null>(null);
+
+  const path = selectedCategoryId ? getCategoryPath(categories, selectedCategoryId) : [];
+  const openRootId = previewRootId ?? path[0]?.id ?? null;
+  const openRoot = tree.find((node) => node.id === openRootId);
+
   return (
-    <div className="bg-white rounded-lg shadow-md p-4 mb-6">
-      <h2 className="text-lg font-semibold mb-3">Categories</h2>
+    <div
+      className="bg-white rounded-lg shadow-md p-4 mb-6"
+      onMouseLeave={() => setPreviewRootId(null)}
+    >
+      <h2 className="text-lg font-semibold mb-3">{t('categories.title')}</h2>
       <div className="flex flex-wrap gap-2">
         <button
           onClick={() => onSelectCategory(null)}
           className={`px-4 py-2 rounded-lg font-medium transition-colors ${
-            selectedCategory === null
+            selectedCategoryId === null
               ? 'bg-blue-600 text-white'
               : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
           }`}
         >
-          All Products
+          {t('categories.all')}
         </button>
-        {categories.map((category) => (
+        {tree.map((node) => (
           <button
-            key={category.id}
-            onClick={() => onSelectCategory(category.id)}
-            className={`px-4 py-2 rounded-lg font-medium transition-colors ${
-              selectedCategory === category.id
+            key={node.id}
+            onClick={() => onSelectCategory(node)}
+            onMouseEnter={() => setPreviewRootId(node.id)}
+            className={`flex items-center px-4 py-2 rounded-lg font-medium transition-colors ${
+              path[0]?.id === node.id
                 ? 'bg-blue-600 text-white'
                 : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
             }`}
           >
-            {category.name}
+            {node.name}
+            <Count value={counts.get(node.id) ?? 0} />
+            {node.children.length > 0 && <ChevronDown size={16} className="ml-1" />}
           </button>
         ))}
       </div>
+
+      {openRoot && openRoot.children.length > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-6 mt-4 pt-4 border-t">
+          {openRoot.children.map((child) => (
+            <div key={child.id}>
+              <button
+                onClick={() => onSelectCategory(child)}
+                className={`text-left font-semibold transition-colors ${
+                  selectedCategoryId === child.id ? 'text-blue-600' : 'text-gray-900 hover:text-blue-600'
+                }`}
+              >
+                {child.name}
+                <Count value={counts.get(child.id) ?? 0} />
+              </button>
+              {child.children.length > 0 && (
+                <div className="mt-2">
+                  <CategoryLinks
+                    nodes={child.children}
+                    counts={counts}
+                    selectedCategoryId={selectedCategoryId}
+                    onSelectCategory={onSelectCategory}
+                  />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {path.length > 1 && (
+        <nav className="flex flex-wrap items-center gap-1 mt-4 text-sm text-gray-500">
+          {path.map((category, index) => (
+            <span key={category.id} className="flex items-center gap-1">
+              {index > 0 && <ChevronRight size={14} />}
+              {index === path.length - 1 ? (
+                <span className="text-gray-900">{category.name}</span>
+              ) : (
+                <button onClick={() => onSelectCategory(category)} className="hover:text-blue-600">
+                  {category.name}
+                </button>
+              )}
+            </span>
+          ))}
+        </nav>
+      )}
     </div>
   );
 }
@@ -1,14 +1,21 @@
 import { X } from 'lucide-react';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { quoteCart } from '../api/cart';
+import { OrderData } from '../api/orders';
+import { PromotionError } from '../api/promotions';
+import { Address, CartQuote } from '../types';
+import { COUNTRIES, EMPTY_ADDRESS } from '../lib/address';
+import { formatTaxLabel } from '../lib/format';
+import { formatBasePrice, getCurrency, t } from '../lib/localeStore';
+import { BASE_CURRENCY } from '../lib/money';
+import { CardDetails, EMPTY_CARD, tokenizeCard, validateCard } from '../lib/payments';
+import { CardPaymentFields } from './CardPaymentFields';
+import { PriceBreakdown } from './PriceBreakdown';
 
 interface CheckoutModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSubmit: (data: {
-    customer_name: string;
-    customer_email: string;
-    shipping_address: string;
-  }) => void;
+  onSubmit: (data: OrderData, paymentMethod: string) => Promise<void>;
   total: number;
 }
 
@@ -16,14 +23,100 @@ export function CheckoutModal({ isOpen, onClose, onSubmit, total }: CheckoutModa
   const [formData, setFormData] = useState({
     customer_name: '',
     customer_email: '',
-    shipping_address: '',
   });
+  const [address, setAddress] = useState<Address>(EMPTY_ADDRESS);
+  const [codeInput, setCodeInput] = useState('');
+  const [appliedCode, setAppliedCode] = useState('');
+  const [quote, setQuote] = useState<CartQuote | null>(null);
+  const [codeError, setCodeError] = useState<string | null>(null);
+  const [applying, setApplying] = useState(false);
+  const [card, setCard] = useState<CardDetails>(EMPTY_CARD);
+  const [cardError, setCardError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [checkoutKey, setCheckoutKey] = useState('');
 
-  const handleSubmit = (e: React.FormEvent) => {
+  // One key per opening of the checkout: resubmitting (a double click, a retry
+  // after a dropped connection) reuses it, so the server returns the order and
+  // payment it already created instead of placing and charging a second one.
+  useEffect(() => {
+    if (isOpen) setCheckoutKey(crypto.randomUUID());
+  }, [isOpen]);
+
+  // Shipping and tax only depend on the country and region, so the quote is
+  // refreshed when those change rather than on every keystroke.
+  useEffect(() => {
+    if (!isOpen) return;
+    quoteCart(appliedCode, { country: address.country, region: address.region })
+      .then(setQuote)
+      .catch((error) => {
+        // The cart may have changed since the code was applied.
+        if (error instanceof PromotionError) {
+          setAppliedCode('');
+          setCodeError(error.message);
+        } else {
+          console.error('Error pricing cart:', error);
+        }
+      });
+  }, [isOpen, total, appliedCode, address.country, address.region]);
+
+  const handleApplyCode = async () => {
+    if (!codeInput.trim()) return;
+    setApplying(true);
+    setCodeError(null);
+    try {
+      setQuote(
+        await quoteCart(codeInput, { country: address.country, region: address.region })
+      );
+      setAppliedCode(codeInput.trim().toUpperCase());
+    } catch (error) {
+      if (error instanceof PromotionError) {
+        setCodeError(error.message);
+      } else {
+        console.error('Error applying code:', error);
+        setCodeError(t('checkout.codeFailed'));
+      }
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const handleRemoveCode = () => {
+    setAppliedCode('');
+    setCodeInput('');
+    setCodeError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    onSubmit(formData);
+    if (submitting) return;
+
+    const invalid = validateCard(card);
+    setCardError(invalid);
+    if (invalid) return;
+
+    setSubmitting(true);
+    try {
+      await onSubmit(
+        {
+          ...formData,
+          address,
+          promo_code: appliedCode,
+          currency: getCurrency().code,
+          idempotency_key: checkoutKey,
+        },
+        await tokenizeCard(card)
+      );
+      setCard(EMPTY_CARD);
+    } finally {
+      setSubmitting(false);
+    }
   };
 
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500';
+  const shippingUnavailable = quote !== null && quote.shipping === null;
+  const chargedInBase = getCurrency().code !== BASE_CURRENCY;
+
   if (!isOpen) return null;
 
   return (
@@ -32,7 +125,7 @@ export function CheckoutModal({ isOpen, onClose, onSubmit, total }: CheckoutModa
         <div className="fixed inset-0 bg-black bg-opacity-50" onClick={onClose} />
         <div className="relative bg-white rounded-lg shadow-xl max-w-md w-full p-6">
           <div className="flex items-center justify-between mb-4">
-            <h2 className="text-2xl font-bold">Checkout</h2>
+            <h2 className="text-2xl font-bold">{t('checkout.title')}</h2>
             <button
               onClick={onClose}
               className="p-2 hover:bg-gray-100 rounded-full transition-colors"
@@ -44,7 +137,7 @@ export function CheckoutModal({ isOpen, onClose, onSubmit, total }: CheckoutModa
           <form onSubmit={handleSubmit} className="space-y-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
-                Full Name
+                {t('checkout.fullName')}
               </label>
               <input
                 type="text"
@@ -59,7 +152,7 @@ export function CheckoutModal({ isOpen, onClose, onSubmit, total }: CheckoutModa
 
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
-                Email Address
+                {t('checkout.email')}
               </label>
               <input
                 type="email"
@@ -72,31 +165,128 @@ export function CheckoutModal({ isOpen, onClose, onSubmit, total }: CheckoutModa
               />
             </div>
 
+            <fieldset className="space-y-3">
+              <legend className="block text-sm font-medium text-gray-700 mb-1">
+                {t('checkout.shippingAddress')}
+              </legend>
+              <input
+                type="text"
+                required
+                placeholder={t('checkout.line1')}
+                value={address.line1}
+                onChange={(e) => setAddress({ ...address, line1: e.target.value })}
+                className={inputClass}
+              />
+              <input
+                type="text"
+                placeholder={t('checkout.line2')}
+                value={address.line2}
+                onChange={(e) => setAddress({ ...address, line2: e.target.value })}
+                className={inputClass}
+              />
+              <div className="grid grid-cols-2 gap-3">
+                <input
+                  type="text"
+                  required
+                  placeholder={t('checkout.city')}
+                  value={address.city}
+                  onChange={(e) => setAddress({ ...address, city: e.target.value })}
+                  className={inputClass}
+                />
+                <input
+                  type="text"
+                  placeholder={t('checkout.region')}
+                  value={address.region}
+                  onChange={(e) => setAddress({ ...address, region: e.target.value.toUpperCase() })}
+                  className={inputClass}
+                />
+                <input
+                  type="text"
+                  required
+                  placeholder={t('checkout.postalCode')}
+                  value={address.postal_code}
+                  onChange={(e) => setAddress({ ...address, postal_code: e.target.value })}
+                  className={inputClass}
+                />
+                <select
+                  value={address.country}
+                  onChange={(e) => setAddress({ ...address, country: e.target.value })}
+                  className={inputClass}
+                >
+                  {COUNTRIES.map((country) => (
+                    <option key={country.code} value={country.code}>
+                      {country.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {shippingUnavailable && (
+                <p className="text-sm text-red-600">{t('checkout.shippingUnavailable')}</p>
+              )}
+            </fieldset>
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
-                Shipping Address
+                {t('checkout.promoCode')}
               </label>
-              <textarea
-                required
-                value={formData.shipping_address}
-                onChange={(e) =>
-                  setFormData({ ...formData, shipping_address: e.target.value })
-                }
-                rows={3}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-              />
+              {appliedCode ? (
+                <div className="flex items-center justify-between px-3 py-2 bg-green-50 border border-green-200 rounded-lg">
+                  <span className="font-medium text-green-700">{appliedCode}</span>
+                  <button
+                    type="button"
+                    onClick={handleRemoveCode}
+                    className="text-sm text-gray-600 hover:text-gray-800"
+                  >
+                    {t('common.remove')}
+                  </button>
+                </div>
+              ) : (
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={codeInput}
+                    onChange={(e) => setCodeInput(e.target.value)}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <button
+                    type="button"
+                    onClick={handleApplyCode}
+                    disabled={applying || !codeInput.trim()}
+                    className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors font-medium disabled:opacity-50"
+                  >
+                    {t('checkout.applyCode')}
+                  </button>
+                </div>
+              )}
+              {codeError && <p className="text-sm text-red-600 mt-1">{codeError}</p>}
             </div>
 
+            <CardPaymentFields card={card} onChange={setCard} error={cardError} />
+
             <div className="border-t pt-4 mt-4">
-              <div className="flex justify-between text-xl font-bold mb-4">
-                <span>Total:</span>
-                <span>${total.toFixed(2)}</span>
+              <div className="mb-4">
+                <PriceBreakdown
+                  subtotal={quote?.subtotal ?? total}
+                  discounts={quote?.discounts ?? []}
+                  shipping={quote?.shipping ?? null}
+                  shippingMethod={quote?.shipping_method}
+                  freeShipping={quote?.free_shipping}
+                  tax={quote?.tax ?? null}
+                  taxLabel={formatTaxLabel(quote?.tax_name ?? null, quote?.tax_rate ?? null)}
+                  total={quote?.total ?? total}
+                />
+                {chargedInBase && (
+                  <p className="text-sm text-gray-500 mt-2">
+                    {t('checkout.chargedInBase', { amount: formatBasePrice(quote?.total ?? total) })}
+                  </p>
+                )}
               </div>
               <button
                 type="submit"
-                className="w-full bg-blue-600 text-white py-3 rounded-lg hover:bg-blue-700 transition-colors font-semibold"
+                disabled={shippingUnavailable || submitting}
+                className="w-full bg-blue-600 text-white py-3 rounded-lg hover:bg-blue-700 transition-colors font-semibold disabled:bg-gray-400"
               >
-                Place Order
+                {submitting ? t('checkout.processing') : t('checkout.placeOrder')}
               </button>
             </div>
           </form>
@@ -0,0 +1,95 @@
+import { PriceBucket, ProductFacets } from '../api/products';
+import { formatPrice, getCurrency, t } from '../lib/localeStore';
+import { convertAmount } from '../lib/money';
+import { ProductFilterValues } from './ProductFilters';
+
+interface FacetFiltersProps {
+  facets: ProductFacets | null;
+  values: ProductFilterValues;
+  onChange: (values: ProductFilterValues) => void;
+}
+
+// Price bands come in the base currency; choosing one sets the price filters in
+// the shopper's currency. The upper edge is exclusive like the band's, so the
+// band shows the products it counted.
+function bucketValues(
+  bucket: PriceBucket
+): Pick<ProductFilterValues, 'minPrice' | 'maxPrice' | 'priceBelow'> {
+  const currency = getCurrency();
+  return {
+    minPrice: bucket.min_price > 0 ? String(convertAmount(bucket.min_price, currency)) : '',
+    maxPrice: '',
+    priceBelow: bucket.max_price === null ? '' : String(convertAmount(bucket.max_price, currency)),
+  };
+}
+
+const ANY_PRICE = { minPrice: '', maxPrice: '', priceBelow: '' };
+
+function sameAmount(a: string, b: string): boolean {
+  return a === b || (a !== '' && b !== '' && Number(a) === Number(b));
+}
+
+function bucketLabel(bucket: PriceBucket): string {
+  if (bucket.max_price === null) return t('facets.priceFrom', { min: formatPrice(bucket.min_price) });
+  if (bucket.min_price === 0) return t('facets.priceUnder', { max: formatPrice(bucket.max_price) });
+  return t('facets.priceRange', {
+    min: formatPrice(bucket.min_price),
+    max: formatPrice(bucket.max_price),
+  });
+}
+
+export function FacetFilters({ facets, values, onChange }: FacetFiltersProps) {
+  const hasPrice = values.minPrice !== '' || values.maxPrice !== '' || values.priceBelow !== '';
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4 space-y-6">
+      <div>
+        <h3 className="font-semibold text-gray-900 mb-2">{t('facets.price')}</h3>
+        <ul className="space-y-1 text-sm">
+          {facets?.price_buckets.map((bucket) => {
+            const range = bucketValues(bucket);
+            const selected =
+              sameAmount(range.minPrice, values.minPrice) &&
+              values.maxPrice === '' &&
+              sameAmount(range.priceBelow, values.priceBelow);
+            return (
+              <li key={bucket.min_price}>
+                <button
+                  onClick={() => onChange({ ...values, ...(selected ? ANY_PRICE : range) })}
+                  className={`text-left transition-colors ${
+                    selected ? 'text-blue-600 font-semibold' : 'text-gray-700 hover:text-blue-600'
+                  }`}
+                >
+                  {bucketLabel(bucket)}
+                  <span className="ml-1 text-xs text-gray-500">({bucket.count})</span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+        {hasPrice && (
+          <button
+            onClick={() => onChange({ ...values, ...ANY_PRICE })}
+            className="mt-2 text-sm text-blue-600 hover:text-blue-700 font-medium"
+          >
+            {t('facets.anyPrice')}
+          </button>
+        )}
+      </div>
+
+      <div>
+        <h3 className="font-semibold text-gray-900 mb-2">{t('facets.availability')}</h3>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={values.inStock}
+            onChange={(e) => onChange({ ...values, inStock: e.target.checked })}
+            className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          {t('filters.inStock')}
+          {facets && <span className="text-xs text-gray-500">({facets.in_stock})</span>}
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -1,30 +1,153 @@
-import { ShoppingCart, Store } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { Heart, LayoutDashboard, LogOut, Package, Search, ShoppingCart, Store, User } from 'lucide-react';
+import { Locale, LOCALES, setCurrency, setLocale, t, useLocale } from '../lib/localeStore';
 
 interface HeaderProps {
   cartCount: number;
+  savedCount: number;
   onCartClick: () => void;
+  userEmail: string | null;
+  isStaff: boolean;
+  onSignInClick: () => void;
+  onSignOut: () => void;
 }
 
-export function Header({ cartCount, onCartClick }: HeaderProps) {
+export function Header({
+  cartCount,
+  savedCount,
+  onCartClick,
+  userEmail,
+  isStaff,
+  onSignInClick,
+  onSignOut,
+}: HeaderProps) {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const currentQuery = searchParams.get('q') || '';
+  const [searchTerm, setSearchTerm] = useState(currentQuery);
+  const { locale, currencyCode, currencies } = useLocale();
+
+  useEffect(() => {
+    setSearchTerm(currentQuery);
+  }, [currentQuery]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const term = searchTerm.trim();
+    navigate(term ? `/?q=${encodeURIComponent(term)}` : '/');
+  };
+
   return (
     <header className="bg-white shadow-md sticky top-0 z-40">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex items-center justify-between h-16">
-          <div className="flex items-center gap-2">
+          <Link to="/" className="flex items-center gap-2">
             <Store size={32} className="text-blue-600" />
             <h1 className="text-2xl font-bold text-gray-900">ShopHub</h1>
-          </div>
-          <button
-            onClick={onCartClick}
-            className="relative p-2 hover:bg-gray-100 rounded-full transition-colors"
-          >
-            <ShoppingCart size={28} className="text-gray-700" />
-            {cartCount > 0 && (
-              <span className="absolute -top-1 -right-1 bg-red-600 text-white text-xs font-bold rounded-full h-6 w-6 flex items-center justify-center">
-                {cartCount}
-              </span>
+          </Link>
+          <form onSubmit={handleSearch} className="flex-1 max-w-md mx-4">
+            <div className="relative">
+              <Search
+                size={18}
+                className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400"
+              />
+              <input
+                type="search"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                placeholder={t('header.search')}
+                className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </form>
+          <div className="flex items-center gap-2">
+            <select
+              value={locale}
+              onChange={(e) => setLocale(e.target.value as Locale)}
+              title={t('header.language')}
+              className="hidden md:block px-2 py-1 border border-gray-300 rounded-lg text-sm text-gray-700"
+            >
+              {LOCALES.map((option) => (
+                <option key={option.code} value={option.code}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            {currencies.length > 1 && (
+              <select
+                value={currencyCode}
+                onChange={(e) => setCurrency(e.target.value)}
+                title={t('header.currency')}
+                className="px-2 py-1 border border-gray-300 rounded-lg text-sm text-gray-700"
+              >
+                {currencies.map((currency) => (
+                  <option key={currency.code} value={currency.code}>
+                    {currency.code}
+                  </option>
+                ))}
+              </select>
+            )}
+            {isStaff && (
+              <Link
+                to="/admin"
+                className="flex items-center gap-2 px-3 py-2 hover:bg-gray-100 rounded-lg transition-colors text-gray-700 font-medium"
+              >
+                <LayoutDashboard size={24} />
+                <span className="hidden sm:inline">{t('header.admin')}</span>
+              </Link>
             )}
-          </button>
+            <Link
+              to="/orders"
+              className="flex items-center gap-2 px-3 py-2 hover:bg-gray-100 rounded-lg transition-colors text-gray-700 font-medium"
+            >
+              <Package size={24} />
+              <span className="hidden sm:inline">{t('header.orders')}</span>
+            </Link>
+            <Link
+              to="/saved"
+              title={t('header.saved')}
+              className="relative p-2 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <Heart size={24} className="text-gray-700" />
+              {savedCount > 0 && (
+                <span className="absolute -top-1 -right-1 bg-red-600 text-white text-xs font-bold rounded-full h-5 w-5 flex items-center justify-center">
+                  {savedCount}
+                </span>
+              )}
+            </Link>
+            {userEmail ? (
+              <div className="flex items-center gap-2">
+                <span className="hidden sm:inline text-sm text-gray-600">{userEmail}</span>
+                <button
+                  onClick={onSignOut}
+                  title={t('header.signOut')}
+                  className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+                >
+                  <LogOut size={24} className="text-gray-700" />
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={onSignInClick}
+                className="flex items-center gap-2 px-3 py-2 hover:bg-gray-100 rounded-lg transition-colors text-gray-700 font-medium"
+              >
+                <User size={24} />
+                <span className="hidden sm:inline">{t('header.signIn')}</span>
+              </button>
+            )}
+            <button
+              onClick={onCartClick}
+              className="relative p-2 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <ShoppingCart size={28} className="text-gray-700" />
+              {cartCount > 0 && (
+                <span className="absolute -top-1 -right-1 bg-red-600 text-white text-xs font-bold rounded-full h-6 w-6 flex items-center justify-center">
+                  {cartCount}
+                </span>
+              )}
+            </button>
+          </div>
         </div>
       </div>
     </header>
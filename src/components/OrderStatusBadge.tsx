@@ -0,0 +1,27 @@
+import { OrderStatus } from '../types';
+import { formatOrderStatus } from '../lib/orderStatus';
+
+const STATUS_STYLES: Record<OrderStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  paid: 'bg-blue-100 text-blue-800',
+  packed: 'bg-indigo-100 text-indigo-800',
+  shipped: 'bg-purple-100 text-purple-800',
+  delivered: 'bg-green-100 text-green-800',
+  partially_refunded: 'bg-orange-100 text-orange-800',
+  cancelled: 'bg-gray-200 text-gray-700',
+  refunded: 'bg-red-100 text-red-800',
+};
+
+interface OrderStatusBadgeProps {
+  status: OrderStatus;
+}
+
+export function OrderStatusBadge({ status }: OrderStatusBadgeProps) {
+  return (
+    <span
+      className={`inline-block px-3 py-1 rounded-full text-xs font-semibold ${STATUS_STYLES[status]}`}
+    >
+      {formatOrderStatus(status)}
+    </span>
+  );
+}
@@ -0,0 +1,48 @@
+import { Check } from 'lucide-react';
+import { OrderStatus, OrderStatusHistory } from '../types';
+import { ORDER_FULFILLMENT_STEPS, formatOrderStatus } from '../lib/orderStatus';
+import { formatDateTime } from '../lib/format';
+
+interface OrderStatusTimelineProps {
+  status: OrderStatus;
+  history: OrderStatusHistory[];
+}
+
+export function OrderStatusTimeline({ status, history }: OrderStatusTimelineProps) {
+  const currentStep = ORDER_FULFILLMENT_STEPS.indexOf(status);
+
+  return (
+    <div>
+      {currentStep >= 0 && (
+        <ol className="flex items-center mb-6">
+          {ORDER_FULFILLMENT_STEPS.map((step, index) => (
+            <li key={step} className="flex-1 flex flex-col items-center text-center">
+              <div
+                className={`h-8 w-8 rounded-full flex items-center justify-center mb-1 ${
+                  index <= currentStep ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-500'
+                }`}
+              >
+                {index < currentStep ? <Check size={16} /> : index + 1}
+              </div>
+              <span className="text-xs text-gray-600">{formatOrderStatus(step)}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <ul className="space-y-3">
+        {history.map((entry) => (
+          <li key={entry.id} className="flex justify-between gap-4 text-sm">
+            <div>
+              <p className="font-medium text-gray-900">{formatOrderStatus(entry.to_status)}</p>
+              {entry.reason && <p className="text-gray-500">{entry.reason}</p>}
+            </div>
+            <span className="text-gray-500 whitespace-nowrap">
+              {formatDateTime(entry.created_at)}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { formatPrice, t } from '../lib/localeStore';
+
+interface PriceBreakdownProps {
+  subtotal: number;
+  discounts: { code: string; description: string; amount: number }[];
+  shipping: number | null;
+  shippingMethod?: string | null;
+  freeShipping?: boolean;
+  tax: number | null;
+  taxLabel?: string | null;
+  total: number;
+  totalLabel?: string;
+  // Amounts are in the base currency; orders pass their own formatter so they
+  // keep the rate they were placed at.
+  formatAmount?: (amount: number) => string;
+}
+
+// Shipping or tax passed as null have not been calculated yet (no address).
+export function PriceBreakdown({
+  subtotal,
+  discounts,
+  shipping,
+  shippingMethod,
+  freeShipping = false,
+  tax,
+  taxLabel,
+  total,
+  totalLabel = t('price.total'),
+  formatAmount = formatPrice,
+}: PriceBreakdownProps) {
+  return (
+    <div>
+      <div className="space-y-1 text-gray-600 mb-2">
+        <div className="flex justify-between">
+          <span>{t('price.subtotal')}</span>
+          <span>{formatAmount(subtotal)}</span>
+        </div>
+        {discounts.map((discount) => (
+          <div key={discount.code} className="flex justify-between text-green-700">
+            <span>
+              {discount.description || t('price.discount')} ({discount.code})
+            </span>
+            <span>-{formatAmount(discount.amount)}</span>
+          </div>
+        ))}
+        <div className="flex justify-between">
+          <span>
+            {shippingMethod ? t('price.shippingMethod', { method: shippingMethod }) : t('price.shipping')}
+          </span>
+          {shipping === null ? (
+            <span>{t('price.calculatedAtCheckout')}</span>
+          ) : Number(shipping) === 0 ? (
+            <span className={freeShipping ? 'text-green-700' : ''}>{t('price.free')}</span>
+          ) : (
+            <span>{formatAmount(shipping)}</span>
+          )}
+        </div>
+        <div className="flex justify-between">
+          <span>{taxLabel || t('price.tax')}</span>
+          <span>{tax === null ? t('price.calculatedAtCheckout') : formatAmount(tax)}</span>
+        </div>
+      </div>
+      <div className="flex justify-between text-xl font-bold">
+        <span>{totalLabel}</span>
+        <span>{formatAmount(total)}</span>
+      </div>
+    </div>
+  );
+}
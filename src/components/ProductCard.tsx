@@ -1,48 +1,79 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { ShoppingCart } from 'lucide-react';
-import { Product } from '../types';
+import { Product, ProductVariant } from '../types';
+import { hasVariants, resolveSelection, sortOptions } from '../lib/variants';
+import { formatPrice, t } from '../lib/localeStore';
+import { VariantOptions } from './VariantOptions';
+import { StarRating } from './StarRating';
+import { WishlistButton } from './WishlistButton';
 
 interface ProductCardProps {
   product: Product;
-  onAddToCart: (productId: string) => void;
+  onAddToCart: (product: Product, variant: ProductVariant | null) => void;
 }
 
 export function ProductCard({ product, onAddToCart }: ProductCardProps) {
+  const [selection, setSelection] = useState<Record<string, string>>({});
+  const { variant, price, imageUrl, canAdd, stockLabel } = resolveSelection(product, selection);
+
   return (
     <div className="bg-white rounded-lg shadow-md overflow-hidden hover:shadow-xl transition-shadow duration-300">
-      <div className="relative h-48 overflow-hidden bg-gray-100">
-        <img
-          src={product.image_url}
-          alt={product.name}
-          className="w-full h-full object-cover hover:scale-105 transition-transform duration-300"
-        />
-        {product.stock === 0 && (
-          <div className="absolute inset-0 bg-black bg-opacity-50 flex items-center justify-center">
-            <span className="text-white font-semibold text-lg">Out of Stock</span>
-          </div>
-        )}
+      <div className="relative">
+        <Link to={`/products/${product.id}`} className="block relative h-48 overflow-hidden bg-gray-100">
+          <img
+            src={imageUrl}
+            alt={product.name}
+            className="w-full h-full object-cover hover:scale-105 transition-transform duration-300"
+          />
+          {product.stock === 0 && (
+            <div className="absolute inset-0 bg-black bg-opacity-50 flex items-center justify-center">
+              <span className="text-white font-semibold text-lg">{t('product.outOfStock')}</span>
+            </div>
+          )}
+        </Link>
+        <WishlistButton product={product} className="absolute top-2 right-2" />
       </div>
       <div className="p-4">
         <h3 className="text-lg font-semibold text-gray-900 mb-2 line-clamp-1">
-          {product.name}
+          <Link to={`/products/${product.id}`} className="hover:text-blue-600">
+            {product.name}
+          </Link>
         </h3>
+        {product.rating_count ? (
+          <div className="flex items-center gap-1 mb-2">
+            <StarRating value={Number(product.rating_average)} size={14} />
+            <span className="text-xs text-gray-500">({product.rating_count})</span>
+          </div>
+        ) : null}
         <p className="text-sm text-gray-600 mb-3 line-clamp-2">
           {product.description}
         </p>
+        {hasVariants(product) && (
+          <div className="mb-3">
+            <VariantOptions
+              options={sortOptions(product.options)}
+              variants={product.variants ?? []}
+              selection={selection}
+              onChange={setSelection}
+            />
+          </div>
+        )}
         <div className="flex items-center justify-between">
           <span className="text-2xl font-bold text-gray-900">
-            ${product.price.toFixed(2)}
+            {formatPrice(price)}
           </span>
           <button
-            onClick={() => onAddToCart(product.id)}
-            disabled={product.stock === 0}
+            onClick={() => onAddToCart(product, variant)}
+            disabled={!canAdd}
             className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
           >
             <ShoppingCart size={18} />
-            <span className="text-sm font-medium">Add</span>
+            <span className="text-sm font-medium">{t('product.add')}</span>
           </button>
         </div>
         <p className="text-xs text-gray-500 mt-2">
-          {product.stock > 0 ? `${product.stock} in stock` : 'Out of stock'}
+          {stockLabel}
         </p>
       </div>
     </div>
@@ -0,0 +1,62 @@
+import { ProductSort } from '../api/products';
+import { getCurrency, t } from '../lib/localeStore';
+
+// Prices are entered in the shopper's currency. Availability is set from the
+// facets next to the results, and so is priceBelow: the exclusive upper edge of a
+// chosen price band, which typing a price replaces.
+export interface ProductFilterValues {
+  minPrice: string;
+  maxPrice: string;
+  priceBelow: string;
+  inStock: boolean;
+  sort: ProductSort | '';
+}
+
+interface ProductFiltersProps {
+  values: ProductFilterValues;
+  hasQuery: boolean;
+  onChange: (values: ProductFilterValues) => void;
+}
+
+export function ProductFilters({ values, hasQuery, onChange }: ProductFiltersProps) {
+  const currency = getCurrency().code;
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4 mb-6 flex flex-wrap items-end gap-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">{t('filters.minPrice', { currency })}</label>
+        <input
+          type="number"
+          min={0}
+          step="0.01"
+          value={values.minPrice}
+          onChange={(e) => onChange({ ...values, minPrice: e.target.value, priceBelow: '' })}
+          className="w-28 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">{t('filters.maxPrice', { currency })}</label>
+        <input
+          type="number"
+          min={0}
+          step="0.01"
+          value={values.maxPrice}
+          onChange={(e) => onChange({ ...values, maxPrice: e.target.value, priceBelow: '' })}
+          className="w-28 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+      <div className="ml-auto">
+        <label className="block text-sm font-medium text-gray-700 mb-1">{t('filters.sortBy')}</label>
+        <select
+          value={values.sort}
+          onChange={(e) => onChange({ ...values, sort: e.target.value as ProductSort | '' })}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">{hasQuery ? t('filters.bestMatch') : t('filters.newest')}</option>
+          {hasQuery && <option value="newest">{t('filters.newest')}</option>}
+          <option value="price_asc">{t('filters.priceAsc')}</option>
+          <option value="price_desc">{t('filters.priceDesc')}</option>
+        </select>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,290 @@
+import { useCallback, useEffect, useState } from 'react';
+import { BadgeCheck } from 'lucide-react';
+import { User } from '@supabase/supabase-js';
+import {
+  createReview,
+  deleteReview,
+  getMyReview,
+  getProductReviews,
+  reportReview,
+  ReviewSort,
+  updateReview,
+} from '../api/reviews';
+import { Product, Review } from '../types';
+import { formatDate } from '../lib/format';
+import { t } from '../lib/localeStore';
+import { StarRating } from './StarRating';
+
+interface ProductReviewsProps {
+  product: Product;
+  user: User | null;
+  onSignInClick: () => void;
+}
+
+const REVIEW_SORTS: ReviewSort[] = ['newest', 'highest', 'lowest'];
+
+export function ProductReviews({ product, user, onSignInClick }: ProductReviewsProps) {
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [myReview, setMyReview] = useState<Review | null>(null);
+  const [sort, setSort] = useState<ReviewSort>('newest');
+  const [editing, setEditing] = useState(false);
+  const [formData, setFormData] = useState({ rating: 0, title: '', body: '', author_name: '' });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReviews = useCallback(async () => {
+    try {
+      const [reviewsData, myReviewData] = await Promise.all([
+        getProductReviews(product.id, sort),
+        user ? getMyReview(product.id, user.id) : Promise.resolve(null),
+      ]);
+      setReviews(reviewsData);
+      setMyReview(myReviewData);
+    } catch (error) {
+      console.error('Error loading reviews:', error);
+    }
+  }, [product.id, sort, user]);
+
+  useEffect(() => {
+    loadReviews();
+  }, [loadReviews]);
+
+  function startEditing() {
+    setFormData(
+      myReview
+        ? {
+            rating: myReview.rating,
+            title: myReview.title,
+            body: myReview.body,
+            author_name: myReview.author_name,
+          }
+        : { rating: 0, title: '', body: '', author_name: user?.email?.split('@')[0] ?? '' }
+    );
+    setError(null);
+    setEditing(true);
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (formData.rating === 0) {
+      setError(t('reviews.chooseRating'));
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      const input = {
+        rating: formData.rating,
+        title: formData.title.trim(),
+        body: formData.body.trim(),
+        author_name: formData.author_name.trim(),
+      };
+      if (myReview) {
+        await updateReview(myReview.id, input);
+      } else {
+        await createReview(product.id, input);
+      }
+      setEditing(false);
+      await loadReviews();
+    } catch (err) {
+      console.error('Error saving review:', err);
+      setError(t('reviews.saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete() {
+    if (!myReview || !confirm(t('reviews.confirmDelete'))) return;
+    try {
+      await deleteReview(myReview.id);
+      await loadReviews();
+    } catch (error) {
+      console.error('Error deleting review:', error);
+      alert(t('reviews.deleteFailed'));
+    }
+  }
+
+  async function handleReport(review: Review) {
+    const reason = prompt(t('reviews.reportPrompt'));
+    if (reason === null) return;
+    try {
+      await reportReview(review.id, reason.trim());
+      alert(t('reviews.reported'));
+    } catch (error) {
+      console.error('Error reporting review:', error);
+      alert(t('reviews.reportFailed'));
+    }
+  }
+
+  const otherReviews = reviews.filter((review) => review.id !== myReview?.id);
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <section>
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-xl font-semibold text-gray-900">{t('reviews.title')}</h3>
+          {product.rating_count ? (
+            <div className="flex items-center gap-2 mt-1">
+              <StarRating value={Number(product.rating_average)} size={18} />
+              <span className="text-sm text-gray-600">
+                {t('reviews.average', { rating: Number(product.rating_average).toFixed(1) })} ·{' '}
+                {product.rating_count === 1
+                  ? t('product.reviewsOne')
+                  : t('product.reviewsMany', { count: product.rating_count })}
+              </span>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500 mt-1">{t('reviews.none')}</p>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value as ReviewSort)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {REVIEW_SORTS.map((key) => (
+              <option key={key} value={key}>
+                {t(`reviewSort.${key}`)}
+              </option>
+            ))}
+          </select>
+          {!editing && (
+            <button
+              onClick={user ? startEditing : onSignInClick}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
+            >
+              {!user ? t('reviews.signIn') : myReview ? t('reviews.edit') : t('reviews.write')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {editing && (
+        <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-md p-6 mb-6 space-y-4 max-w-2xl">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('reviews.rating')}</label>
+            <StarRating
+              value={formData.rating}
+              size={24}
+              onChange={(rating) => setFormData({ ...formData, rating })}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('reviews.reviewTitle')}</label>
+            <input
+              type="text"
+              required
+              maxLength={120}
+              value={formData.title}
+              onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('reviews.body')}</label>
+            <textarea
+              required
+              rows={4}
+              value={formData.body}
+              onChange={(e) => setFormData({ ...formData, body: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('reviews.displayName')}</label>
+            <input
+              type="text"
+              required
+              value={formData.author_name}
+              onChange={(e) => setFormData({ ...formData, author_name: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:bg-gray-400"
+            >
+              {saving ? t('reviews.saving') : t('reviews.submit')}
+            </button>
+            <button
+              type="button"
+              onClick={() => setEditing(false)}
+              className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors font-medium"
+            >
+              {t('reviews.cancel')}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="space-y-4">
+        {myReview && !editing && (
+          <ReviewItem review={myReview} isOwn>
+            {myReview.status === 'hidden' && (
+              <p className="text-sm text-amber-700 mt-2">
+                {myReview.moderation_note
+                  ? t('reviews.hiddenWithNote', { note: myReview.moderation_note })
+                  : t('reviews.hidden')}
+              </p>
+            )}
+            <button
+              onClick={handleDelete}
+              className="text-sm text-red-600 hover:text-red-700 font-medium mt-2"
+            >
+              {t('reviews.delete')}
+            </button>
+          </ReviewItem>
+        )}
+        {otherReviews.map((review) => (
+          <ReviewItem key={review.id} review={review}>
+            {user && (
+              <button
+                onClick={() => handleReport(review)}
+                className="text-xs text-gray-500 hover:text-gray-700 mt-2"
+              >
+                {t('reviews.report')}
+              </button>
+            )}
+          </ReviewItem>
+        ))}
+      </div>
+    </section>
+  );
+}
+
+interface ReviewItemProps {
+  review: Review;
+  isOwn?: boolean;
+  children?: React.ReactNode;
+}
+
+function ReviewItem({ review, isOwn = false, children }: ReviewItemProps) {
+  return (
+    <article className={`bg-white rounded-lg shadow-md p-5 ${isOwn ? 'border border-blue-200' : ''}`}>
+      <div className="flex flex-wrap items-center gap-3 mb-1">
+        <StarRating value={review.rating} />
+        <h4 className="font-semibold text-gray-900">{review.title}</h4>
+      </div>
+      <p className="text-xs text-gray-500 mb-2 flex items-center gap-2">
+        <span>
+          {isOwn ? t('reviews.yours') : review.author_name} · {formatDate(review.created_at)}
+        </span>
+        {review.verified_purchase && (
+          <span className="inline-flex items-center gap-1 text-green-700">
+            <BadgeCheck size={14} />
+            {t('reviews.verified')}
+          </span>
+        )}
+      </p>
+      <p className="text-gray-700 whitespace-pre-line">{review.body}</p>
+      {children}
+    </article>
+  );
+}
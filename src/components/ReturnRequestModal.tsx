@@ -0,0 +1,154 @@
+import { X } from 'lucide-react';
+import { useState } from 'react';
+import { ReturnError, ReturnLineInput } from '../api/returns';
+import { OrderItem } from '../types';
+import { formatBasePrice, t } from '../lib/localeStore';
+
+const RETURN_REASONS = ['changedMind', 'damaged', 'notAsDescribed', 'wrongItem', 'other'] as const;
+
+type ReturnReason = (typeof RETURN_REASONS)[number];
+
+// Errors the shopper can act on; the rest come from staff actions.
+const SHOPPER_RETURN_ERRORS = ['return_not_allowed', 'reason_required', 'invalid_return_quantity'] as const;
+
+function isShopperReturnError(code: string): code is (typeof SHOPPER_RETURN_ERRORS)[number] {
+  return (SHOPPER_RETURN_ERRORS as readonly string[]).includes(code);
+}
+
+// Staff see the reason the way the shopper chose it, in the shopper's language.
+function formatReturnReason(reason: ReturnReason): string {
+  return t(`returnReason.${reason}`);
+}
+
+interface ReturnRequestModalProps {
+  items: OrderItem[];
+  returnable: Record<string, number>;
+  onClose: () => void;
+  onSubmit: (lines: ReturnLineInput[], reason: string) => Promise<void>;
+}
+
+export function ReturnRequestModal({ items, returnable, onClose, onSubmit }: ReturnRequestModalProps) {
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [reason, setReason] = useState<ReturnReason>(RETURN_REASONS[0]);
+  const [details, setDetails] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const returnableItems = items.filter((item) => (returnable[item.id] ?? 0) > 0);
+  const lines = Object.entries(quantities)
+    .filter(([, quantity]) => quantity > 0)
+    .map(([order_item_id, quantity]) => ({ order_item_id, quantity }));
+  const refundEstimate = lines.reduce((sum, line) => {
+    const item = items.find((candidate) => candidate.id === line.order_item_id);
+    return sum + (item ? Number(item.price) * line.quantity : 0);
+  }, 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (lines.length === 0) {
+      setError(t('returns.chooseItems'));
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      const label = formatReturnReason(reason);
+      await onSubmit(lines, details.trim() ? `${label}: ${details.trim()}` : label);
+    } catch (err) {
+      setError(
+        err instanceof ReturnError && isShopperReturnError(err.code)
+          ? t(`returns.${err.code}`)
+          : t('returns.failed')
+      );
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen px-4">
+        <div className="fixed inset-0 bg-black bg-opacity-50" onClick={onClose} />
+        <div className="relative bg-white rounded-lg shadow-xl max-w-lg w-full p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-2xl font-bold">{t('returns.title')}</h2>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <X size={24} />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="divide-y border rounded-lg">
+              {returnableItems.map((item) => (
+                <div key={item.id} className="flex items-center justify-between gap-4 p-3">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">
+                      {item.product?.name ?? t('common.productUnavailable')}
+                    </p>
+                    {item.variant_label && <p className="text-sm text-gray-500">{item.variant_label}</p>}
+                    <p className="text-sm text-gray-500">{t('returns.each', { price: formatBasePrice(item.price) })}</p>
+                  </div>
+                  <select
+                    value={quantities[item.id] ?? 0}
+                    onChange={(e) => setQuantities({ ...quantities, [item.id]: Number(e.target.value) })}
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {Array.from({ length: returnable[item.id] + 1 }, (_, quantity) => (
+                      <option key={quantity} value={quantity}>
+                        {quantity}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('returns.reason')}</label>
+              <select
+                value={reason}
+                onChange={(e) => setReason(e.target.value as ReturnReason)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {RETURN_REASONS.map((option) => (
+                  <option key={option} value={option}>
+                    {formatReturnReason(option)}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('returns.details')}</label>
+              <textarea
+                required={reason === 'other'}
+                value={details}
+                onChange={(e) => setDetails(e.target.value)}
+                rows={3}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+
+            {lines.length > 0 && (
+              <p className="text-sm text-gray-600">
+                {t('returns.estimate', { amount: formatBasePrice(refundEstimate) })}
+              </p>
+            )}
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <button
+              type="submit"
+              disabled={saving}
+              className="w-full bg-blue-600 text-white py-3 rounded-lg hover:bg-blue-700 transition-colors font-semibold disabled:bg-gray-400"
+            >
+              {t('returns.submit')}
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
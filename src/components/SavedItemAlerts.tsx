@@ -0,0 +1,50 @@
+import { Link } from 'react-router-dom';
+import { Bell, X } from 'lucide-react';
+import { SavedItem } from '../types';
+import { t } from '../lib/localeStore';
+import { describeSavedItemAlert, getItemsWithAlerts, getSavedItemAlerts } from '../lib/savedItemAlerts';
+
+interface SavedItemAlertsProps {
+  items: SavedItem[];
+  onDismiss: (savedItemIds: string[]) => void;
+}
+
+export function SavedItemAlerts({ items, onDismiss }: SavedItemAlertsProps) {
+  const alerted = getItemsWithAlerts(items);
+  if (alerted.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-30 w-full max-w-sm bg-white rounded-lg shadow-xl border border-gray-200 p-4">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+          <Bell size={18} className="text-blue-600" />
+          {t('saved.alertsTitle')}
+        </h3>
+        <button
+          onClick={() => onDismiss(alerted.map((item) => item.id))}
+          title={t('saved.dismiss')}
+          className="p-1 hover:bg-gray-100 rounded-full transition-colors"
+        >
+          <X size={18} />
+        </button>
+      </div>
+      <ul className="space-y-2">
+        {alerted.map((item) => (
+          <li key={item.id} className="text-sm">
+            <Link to={`/products/${item.product_id}`} className="font-medium text-gray-900 hover:text-blue-600">
+              {item.product?.name}
+            </Link>
+            {getSavedItemAlerts(item).map((alert) => (
+              <p key={alert.kind} className="text-green-700">
+                {describeSavedItemAlert(alert)}
+              </p>
+            ))}
+          </li>
+        ))}
+      </ul>
+      <Link to="/saved" className="block mt-3 text-sm text-blue-600 hover:text-blue-700 font-medium">
+        {t('saved.viewAll')}
+      </Link>
+    </div>
+  );
+}
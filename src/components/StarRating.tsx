@@ -0,0 +1,36 @@
+import { Star } from 'lucide-react';
+
+interface StarRatingProps {
+  value: number;
+  size?: number;
+  // Makes the stars clickable for picking a rating.
+  onChange?: (rating: number) => void;
+}
+
+export function StarRating({ value, size = 16, onChange }: StarRatingProps) {
+  return (
+    <div className="flex items-center gap-0.5" aria-label={`${value.toFixed(1)} out of 5 stars`}>
+      {[1, 2, 3, 4, 5].map((star) => {
+        const filled = value >= star - 0.25;
+        const icon = (
+          <Star
+            size={size}
+            className={filled ? 'text-yellow-400 fill-yellow-400' : 'text-gray-300'}
+          />
+        );
+        return onChange ? (
+          <button
+            key={star}
+            type="button"
+            onClick={() => onChange(star)}
+            aria-label={`${star} star${star === 1 ? '' : 's'}`}
+          >
+            {icon}
+          </button>
+        ) : (
+          <span key={star}>{icon}</span>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { ProductOption, ProductVariant } from '../types';
+
+interface VariantOptionsProps {
+  options: ProductOption[];
+  variants: ProductVariant[];
+  selection: Record<string, string>;
+  onChange: (selection: Record<string, string>) => void;
+  size?: 'sm' | 'md';
+}
+
+export function VariantOptions({ options, variants, selection, onChange, size = 'sm' }: VariantOptionsProps) {
+  // A value is available when some in-stock variant has it and matches the
+  // values already chosen on the other axes.
+  const isValueAvailable = (name: string, value: string) =>
+    variants.some(
+      (candidate) =>
+        candidate.options[name] === value &&
+        candidate.stock > 0 &&
+        Object.entries(selection).every(
+          ([otherName, otherValue]) => otherName === name || candidate.options[otherName] === otherValue
+        )
+    );
+
+  const buttonSize = size === 'sm' ? 'px-2 py-1 text-xs' : 'px-3 py-1.5 text-sm';
+
+  return (
+    <div className={size === 'sm' ? 'space-y-2' : 'space-y-4'}>
+      {options.map((option) => (
+        <div key={option.id}>
+          <p className={`${size === 'sm' ? 'text-xs' : 'text-sm'} font-medium text-gray-500 mb-1`}>
+            {option.name}
+          </p>
+          <div className="flex flex-wrap gap-1">
+            {option.values.map((value) => (
+              <button
+                key={value}
+                onClick={() =>
+                  onChange({
+                    ...selection,
+                    [option.name]: selection[option.name] === value ? '' : value,
+                  })
+                }
+                className={`${buttonSize} rounded border transition-colors ${
+                  selection[option.name] === value
+                    ? 'bg-blue-600 border-blue-600 text-white'
+                    : isValueAvailable(option.name, value)
+                      ? 'border-gray-300 text-gray-700 hover:border-blue-500'
+                      : 'border-gray-200 text-gray-400 line-through'
+                }`}
+              >
+                {value}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { Heart } from 'lucide-react';
+import { Product } from '../types';
+import { t } from '../lib/localeStore';
+import { isWishlisted, toggleWishlist, useSavedItems } from '../lib/savedItemsStore';
+
+interface WishlistButtonProps {
+  product: Product;
+  className?: string;
+}
+
+export function WishlistButton({ product, className = '' }: WishlistButtonProps) {
+  const { items } = useSavedItems();
+  const saved = isWishlisted(items, product.id);
+
+  async function handleClick(e: React.MouseEvent) {
+    e.preventDefault();
+    try {
+      await toggleWishlist(product);
+    } catch (error) {
+      console.error('Error updating wishlist:', error);
+      alert(t('wishlist.failed'));
+    }
+  }
+
+  return (
+    <button
+      onClick={handleClick}
+      title={saved ? t('wishlist.remove') : t('wishlist.add')}
+      aria-pressed={saved}
+      className={`p-2 rounded-full bg-white shadow hover:bg-gray-100 transition-colors ${className}`}
+    >
+      <Heart size={18} className={saved ? 'fill-red-500 text-red-500' : 'text-gray-600'} />
+    </button>
+  );
+}
@@ -0,0 +1,147 @@
+import { ArrowDown, ArrowUp, Trash2, Upload, X } from 'lucide-react';
+import { useState } from 'react';
+import { ProductImageInput, saveProductImages, uploadProductImage } from '../../api/admin';
+import { Product } from '../../types';
+
+interface ProductImagesModalProps {
+  product: Product;
+  onClose: () => void;
+  onSaved: () => Promise<void>;
+}
+
+export function ProductImagesModal({ product, onClose, onSaved }: ProductImagesModalProps) {
+  const [images, setImages] = useState<ProductImageInput[]>(
+    [...(product.images ?? [])]
+      .sort((a, b) => a.position - b.position)
+      .map((image) => ({ url: image.url, alt_text: image.alt_text }))
+  );
+  const [uploading, setUploading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    if (files.length === 0) return;
+    setUploading(true);
+    setError(null);
+    try {
+      for (const file of files) {
+        const url = await uploadProductImage(file);
+        setImages((current) => [...current, { url, alt_text: '' }]);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Image upload failed');
+    } finally {
+      setUploading(false);
+      e.target.value = '';
+    }
+  };
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= images.length) return;
+    const next = [...images];
+    [next[index], next[target]] = [next[target], next[index]];
+    setImages(next);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await saveProductImages(product.id, images);
+      await onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save images');
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen px-4 py-8">
+        <div className="fixed inset-0 bg-black bg-opacity-50" onClick={onClose} />
+        <div className="relative bg-white rounded-lg shadow-xl max-w-2xl w-full p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-2xl font-bold">Gallery — {product.name}</h2>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <X size={24} />
+            </button>
+          </div>
+
+          <p className="text-sm text-gray-500 mb-4">
+            The product image is always shown first; these images follow it on the product page.
+          </p>
+
+          {images.length === 0 ? (
+            <p className="text-sm text-gray-500 mb-4">No gallery images yet.</p>
+          ) : (
+            <div className="space-y-2 mb-4">
+              {images.map((image, index) => (
+                <div key={`${image.url}-${index}`} className="flex items-center gap-3">
+                  <img src={image.url} alt="" className="w-16 h-16 object-cover rounded bg-gray-100" />
+                  <input
+                    type="text"
+                    placeholder="Alt text"
+                    value={image.alt_text}
+                    onChange={(e) =>
+                      setImages(images.map((current, i) => (i === index ? { ...current, alt_text: e.target.value } : current)))
+                    }
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <button
+                    onClick={() => move(index, -1)}
+                    disabled={index === 0}
+                    className="p-2 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                  >
+                    <ArrowUp size={18} />
+                  </button>
+                  <button
+                    onClick={() => move(index, 1)}
+                    disabled={index === images.length - 1}
+                    className="p-2 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                  >
+                    <ArrowDown size={18} />
+                  </button>
+                  <button
+                    onClick={() => setImages(images.filter((_, i) => i !== index))}
+                    className="p-2 text-gray-500 hover:text-red-600"
+                  >
+                    <Trash2 size={18} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 px-3 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors text-sm font-medium cursor-pointer">
+              <Upload size={16} />
+              {uploading ? 'Uploading...' : 'Upload images'}
+              <input
+                type="file"
+                accept="image/*"
+                multiple
+                onChange={handleUpload}
+                disabled={uploading}
+                className="hidden"
+              />
+            </label>
+            <button
+              onClick={handleSave}
+              disabled={saving || uploading}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:bg-gray-400"
+            >
+              {saving ? 'Saving...' : 'Save gallery'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+import { X } from 'lucide-react';
+import { useState } from 'react';
+import { PromotionInput } from '../../api/admin';
+import { Category, Promotion, PromotionKind } from '../../types';
+import { PROMOTION_KIND_LABELS } from '../../lib/promotions';
+
+interface PromotionFormModalProps {
+  promotion: Promotion | null;
+  categories: Category[];
+  onClose: () => void;
+  onSubmit: (input: PromotionInput) => Promise<void>;
+}
+
+// <input type="datetime-local"> works in local time without a zone suffix.
+function toLocalInput(value: string | null): string {
+  if (!value) return '';
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+function fromLocalInput(value: string): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+function toOptionalNumber(value: string): number | null {
+  return value.trim() === '' ? null : Number(value);
+}
+
+export function PromotionFormModal({
+  promotion,
+  categories,
+  onClose,
+  onSubmit,
+}: PromotionFormModalProps) {
+  const [formData, setFormData] = useState({
+    code: promotion?.code ?? '',
+    description: promotion?.description ?? '',
+    kind: promotion?.kind ?? ('percentage' as PromotionKind),
+    value: promotion ? String(promotion.value) : '',
+    category_id: promotion?.category_id ?? '',
+    buy_quantity: promotion?.buy_quantity != null ? String(promotion.buy_quantity) : '',
+    get_quantity: promotion?.get_quantity != null ? String(promotion.get_quantity) : '',
+    min_subtotal: promotion ? String(promotion.min_subtotal) : '0',
+    starts_at: toLocalInput(promotion?.starts_at ?? null),
+    ends_at: toLocalInput(promotion?.ends_at ?? null),
+    usage_limit: promotion?.usage_limit != null ? String(promotion.usage_limit) : '',
+    per_customer_limit:
+      promotion?.per_customer_limit != null ? String(promotion.per_customer_limit) : '',
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isBuyXGetY = formData.kind === 'buy_x_get_y';
+  const hasValue = formData.kind === 'percentage' || formData.kind === 'fixed';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      await onSubmit({
+        code: formData.code.trim(),
+        description: formData.description.trim(),
+        kind: formData.kind,
+        value: hasValue ? Number(formData.value) : 0,
+        category_id: formData.category_id || null,
+        buy_quantity: isBuyXGetY ? toOptionalNumber(formData.buy_quantity) : null,
+        get_quantity: isBuyXGetY ? toOptionalNumber(formData.get_quantity) : null,
+        min_subtotal: Number(formData.min_subtotal || 0),
+        starts_at: fromLocalInput(formData.starts_at),
+        ends_at: fromLocalInput(formData.ends_at),
+        usage_limit: toOptionalNumber(formData.usage_limit),
+        per_customer_limit: toOptionalNumber(formData.per_customer_limit),
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save promotion');
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen px-4 py-8">
+        <div className="fixed inset-0 bg-black bg-opacity-50" onClick={onClose} />
+        <div className="relative bg-white rounded-lg shadow-xl max-w-lg w-full p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-2xl font-bold">{promotion ? 'Edit Promotion' : 'New Promotion'}</h2>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <X size={24} />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Code</label>
+                <input
+                  type="text"
+                  required
+                  value={formData.code}
+                  onChange={(e) => setFormData({ ...formData, code: e.target.value.toUpperCase() })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+                <select
+                  value={formData.kind}
+                  onChange={(e) => setFormData({ ...formData, kind: e.target.value as PromotionKind })}
+                  className={inputClass}
+                >
+                  {Object.entries(PROMOTION_KIND_LABELS).map(([kind, label]) => (
+                    <option key={kind} value={kind}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+              <input
+                type="text"
+                placeholder="Shown to shoppers, e.g. 10% off everything"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {hasValue && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {formData.kind === 'percentage' ? 'Percent off' : 'Amount off'}
+                  </label>
+                  <input
+                    type="number"
+                    required
+                    min={0}
+                    max={formData.kind === 'percentage' ? 100 : undefined}
+                    step="0.01"
+                    value={formData.value}
+                    onChange={(e) => setFormData({ ...formData, value: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+              )}
+              {isBuyXGetY && (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Buy</label>
+                    <input
+                      type="number"
+                      required
+                      min={1}
+                      value={formData.buy_quantity}
+                      onChange={(e) => setFormData({ ...formData, buy_quantity: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Get free</label>
+                    <input
+                      type="number"
+                      required
+                      min={1}
+                      value={formData.get_quantity}
+                      onChange={(e) => setFormData({ ...formData, get_quantity: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                </>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+                <select
+                  value={formData.category_id}
+                  onChange={(e) => setFormData({ ...formData, category_id: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">All products</option>
+                  {categories.map((category) => (
+                    <option key={category.id} value={category.id}>
+                      {category.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Minimum subtotal</label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={formData.min_subtotal}
+                  onChange={(e) => setFormData({ ...formData, min_subtotal: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Starts</label>
+                <input
+                  type="datetime-local"
+                  value={formData.starts_at}
+                  onChange={(e) => setFormData({ ...formData, starts_at: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Ends</label>
+                <input
+                  type="datetime-local"
+                  value={formData.ends_at}
+                  onChange={(e) => setFormData({ ...formData, ends_at: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Total uses</label>
+                <input
+                  type="number"
+                  min={1}
+                  placeholder="Unlimited"
+                  value={formData.usage_limit}
+                  onChange={(e) => setFormData({ ...formData, usage_limit: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Uses per customer</label>
+                <input
+                  type="number"
+                  min={1}
+                  placeholder="Unlimited"
+                  value={formData.per_customer_limit}
+                  onChange={(e) => setFormData({ ...formData, per_customer_limit: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <button
+              type="submit"
+              disabled={saving}
+              className="w-full bg-blue-600 text-white py-3 rounded-lg hover:bg-blue-700 transition-colors font-semibold disabled:bg-gray-400"
+            >
+              {promotion ? 'Save Changes' : 'Create Promotion'}
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { SalesInterval, SalesPeriod } from '../../types';
+import { formatPeriod } from '../../lib/analytics';
+
+interface SalesChartProps {
+  periods: SalesPeriod[];
+  interval: SalesInterval;
+}
+
+// Revenue per period as a bar chart; hovering a bar shows its figures.
+export function SalesChart({ periods, interval }: SalesChartProps) {
+  const maxRevenue = Math.max(...periods.map((period) => Number(period.revenue)), 0);
+
+  if (maxRevenue === 0) {
+    return <p className="text-center py-16 text-gray-500">No sales in this range</p>;
+  }
+
+  return (
+    <div>
+      <div className="flex items-end gap-1 h-48">
+        {periods.map((period) => {
+          const revenue = Number(period.revenue);
+          return (
+            <div
+              key={period.period_start}
+              title={`${formatPeriod(period.period_start, interval)}: $${revenue.toFixed(2)} from ${
+                period.order_count
+              } ${period.order_count === 1 ? 'order' : 'orders'}`}
+              className="flex-1 h-full flex items-end group"
+            >
+              <div
+                className="w-full bg-blue-500 group-hover:bg-blue-700 rounded-t transition-colors"
+                style={{ height: `${(revenue / maxRevenue) * 100}%`, minHeight: revenue > 0 ? 2 : 0 }}
+              />
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex justify-between mt-2 text-xs text-gray-500">
+        <span>{formatPeriod(periods[0].period_start, interval)}</span>
+        <span>{formatPeriod(periods[periods.length - 1].period_start, interval)}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+import { X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { getInventoryMovements, StockMovementType } from '../../api/admin';
+import { InventoryMovement, MovementType, Product, ProductVariant } from '../../types';
+import { formatDateTime, formatOrderNumber } from '../../lib/format';
+import { formatVariantLabel } from '../../lib/variants';
+
+const ADJUSTMENT_REASONS: { label: string; type: StockMovementType }[] = [
+  { label: 'Restock', type: 'restock' },
+  { label: 'Customer return', type: 'return' },
+  { label: 'Damaged', type: 'adjustment' },
+  { label: 'Stock count correction', type: 'adjustment' },
+  { label: 'Other', type: 'adjustment' },
+];
+
+const MOVEMENT_LABELS: Record<MovementType, string> = {
+  opening: 'Opening stock',
+  sale: 'Sale',
+  cancellation: 'Cancellation',
+  return: 'Return',
+  restock: 'Restock',
+  adjustment: 'Adjustment',
+};
+
+interface StockAdjustmentModalProps {
+  product: Product;
+  variant?: ProductVariant | null;
+  onClose: () => void;
+  onSubmit: (delta: number, reason: string, type: StockMovementType) => Promise<void>;
+}
+
+export function StockAdjustmentModal({
+  product,
+  variant = null,
+  onClose,
+  onSubmit,
+}: StockAdjustmentModalProps) {
+  const currentStock = variant ? variant.stock : product.stock;
+  const [delta, setDelta] = useState('');
+  const [reason, setReason] = useState(ADJUSTMENT_REASONS[0].label);
+  const [note, setNote] = useState('');
+  const [history, setHistory] = useState<InventoryMovement[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    getInventoryMovements(product.id, variant?.id ?? null)
+      .then(setHistory)
+      .catch((err) => console.error('Error loading stock history:', err));
+  }, [product.id, variant?.id]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = Number(delta);
+    if (!Number.isInteger(amount) || amount === 0) {
+      setError('Enter a whole, non-zero number of units');
+      return;
+    }
+    if (currentStock + amount < 0) {
+      setError(`Only ${currentStock} in stock`);
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      const type = ADJUSTMENT_REASONS.find((option) => option.label === reason)?.type ?? 'adjustment';
+      await onSubmit(amount, note.trim() ? `${reason}: ${note.trim()}` : reason, type);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to adjust stock');
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen px-4">
+        <div className="fixed inset-0 bg-black bg-opacity-50" onClick={onClose} />
+        <div className="relative bg-white rounded-lg shadow-xl max-w-md w-full p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-2xl font-bold">Adjust Stock</h2>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <X size={24} />
+            </button>
+          </div>
+
+          <p className="text-gray-600 mb-4">
+            {product.name}
+            {variant && ` (${formatVariantLabel(variant, product.options)})`} —{' '}
+            <span className="font-semibold">{currentStock} in stock</span>
+          </p>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Change (+/-)
+                </label>
+                <input
+                  type="number"
+                  required
+                  step={1}
+                  value={delta}
+                  onChange={(e) => setDelta(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                <select
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {ADJUSTMENT_REASONS.map((option) => (
+                    <option key={option.label} value={option.label}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Note</label>
+              <input
+                type="text"
+                required={reason === 'Other'}
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <button
+              type="submit"
+              disabled={saving}
+              className="w-full bg-blue-600 text-white py-3 rounded-lg hover:bg-blue-700 transition-colors font-semibold disabled:bg-gray-400"
+            >
+              Apply Adjustment
+            </button>
+          </form>
+
+          {history.length > 0 && (
+            <div className="border-t pt-4 mt-6">
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">Stock history</h3>
+              <ul className="space-y-2 max-h-48 overflow-y-auto">
+                {history.map((entry) => (
+                  <li key={entry.id} className="flex justify-between gap-4 text-sm">
+                    <span className="text-gray-700">
+                      <span className={entry.quantity > 0 ? 'text-green-700' : 'text-red-700'}>
+                        {entry.quantity > 0 ? `+${entry.quantity}` : entry.quantity}
+                      </span>{' '}
+                      {MOVEMENT_LABELS[entry.type]}
+                      {entry.order_id && ` · order #${formatOrderNumber(entry.order_id)}`}
+                      {entry.note && ` · ${entry.note}`}
+                    </span>
+                    <span className="text-gray-500 whitespace-nowrap">
+                      {formatDateTime(entry.created_at)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
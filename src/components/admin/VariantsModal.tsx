@@ -0,0 +1,297 @@
+import { Plus, Trash2, X } from 'lucide-react';
+import { useState } from 'react';
+import {
+  createVariant,
+  ProductOptionInput,
+  saveProductOptions,
+  setVariantArchived,
+  updateVariant,
+  uploadProductImage,
+} from '../../api/admin';
+import { Product, ProductVariant } from '../../types';
+import { findVariant, formatVariantLabel, sortOptions } from '../../lib/variants';
+
+interface VariantsModalProps {
+  product: Product;
+  onClose: () => void;
+  onChanged: () => Promise<void>;
+  onAdjustStock: (variant: ProductVariant) => void;
+}
+
+interface OptionDraft {
+  name: string;
+  values: string;
+}
+
+interface VariantDraft {
+  sku: string;
+  price: string;
+  image_url: string;
+}
+
+function toDraft(variant: ProductVariant): VariantDraft {
+  return {
+    sku: variant.sku,
+    price: variant.price === null ? '' : String(variant.price),
+    image_url: variant.image_url,
+  };
+}
+
+function combinations(options: ProductOptionInput[]): Record<string, string>[] {
+  return options.reduce<Record<string, string>[]>(
+    (combos, option) =>
+      combos.flatMap((combo) => option.values.map((value) => ({ ...combo, [option.name]: value }))),
+    [{}]
+  );
+}
+
+export function VariantsModal({ product, onClose, onChanged, onAdjustStock }: VariantsModalProps) {
+  const options = sortOptions(product.options);
+  const variants = [...(product.variants ?? [])].sort((a, b) => a.position - b.position);
+  const [optionDrafts, setOptionDrafts] = useState<OptionDraft[]>(
+    options.map((option) => ({ name: option.name, values: option.values.join(', ') }))
+  );
+  const [variantDrafts, setVariantDrafts] = useState<Record<string, VariantDraft>>(
+    Object.fromEntries(variants.map((variant) => [variant.id, toDraft(variant)]))
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const parsedOptions: ProductOptionInput[] = optionDrafts
+    .map((draft) => ({
+      name: draft.name.trim(),
+      values: draft.values.split(',').map((value) => value.trim()).filter(Boolean),
+    }))
+    .filter((option) => option.name && option.values.length > 0);
+
+  async function run(action: () => Promise<void>) {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      await onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const handleSaveOptions = () =>
+    run(async () => {
+      await saveProductOptions(product.id, parsedOptions);
+    });
+
+  const handleGenerate = () =>
+    run(async () => {
+      const missing = combinations(parsedOptions).filter(
+        (combo) => !findVariant(variants, combo)
+      );
+      for (const combo of missing) {
+        const suffix = Object.values(combo).join('-').toUpperCase().replace(/\s+/g, '');
+        await createVariant(product.id, {
+          sku: `${product.sku}-${suffix}`,
+          options: combo,
+          price: null,
+          image_url: '',
+        });
+      }
+    });
+
+  const handleSaveVariant = (variant: ProductVariant) =>
+    run(async () => {
+      const draft = variantDrafts[variant.id] ?? toDraft(variant);
+      await updateVariant(variant.id, {
+        sku: draft.sku.trim(),
+        options: variant.options,
+        price: draft.price.trim() === '' ? null : Number(draft.price),
+        image_url: draft.image_url,
+      });
+    });
+
+  const handleVariantImage = (variant: ProductVariant, file: File) =>
+    run(async () => {
+      const url = await uploadProductImage(file);
+      updateDraft(variant, { image_url: url });
+    });
+
+  const updateDraft = (variant: ProductVariant, changes: Partial<VariantDraft>) =>
+    setVariantDrafts((current) => ({
+      ...current,
+      [variant.id]: { ...(current[variant.id] ?? toDraft(variant)), ...changes },
+    }));
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen px-4 py-8">
+        <div className="fixed inset-0 bg-black bg-opacity-50" onClick={onClose} />
+        <div className="relative bg-white rounded-lg shadow-xl max-w-4xl w-full p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-2xl font-bold">Variants — {product.name}</h2>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <X size={24} />
+            </button>
+          </div>
+
+          <section className="mb-6">
+            <h3 className="text-lg font-semibold mb-2">Options</h3>
+            <div className="space-y-2">
+              {optionDrafts.map((draft, index) => (
+                <div key={index} className="flex gap-2">
+                  <input
+                    type="text"
+                    placeholder="Name (e.g. Color)"
+                    value={draft.name}
+                    onChange={(e) =>
+                      setOptionDrafts(optionDrafts.map((d, i) => (i === index ? { ...d, name: e.target.value } : d)))
+                    }
+                    className="w-40 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <input
+                    type="text"
+                    placeholder="Values, comma separated (e.g. Red, Blue)"
+                    value={draft.values}
+                    onChange={(e) =>
+                      setOptionDrafts(optionDrafts.map((d, i) => (i === index ? { ...d, values: e.target.value } : d)))
+                    }
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <button
+                    onClick={() => setOptionDrafts(optionDrafts.filter((_, i) => i !== index))}
+                    className="p-2 text-gray-500 hover:text-red-600"
+                  >
+                    <Trash2 size={18} />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-2 mt-3">
+              <button
+                onClick={() => setOptionDrafts([...optionDrafts, { name: '', values: '' }])}
+                className="flex items-center gap-1 px-3 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors text-sm font-medium"
+              >
+                <Plus size={16} />
+                Add option
+              </button>
+              <button
+                onClick={handleSaveOptions}
+                disabled={busy}
+                className="px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium disabled:bg-gray-400"
+              >
+                Save options
+              </button>
+              <button
+                onClick={handleGenerate}
+                disabled={busy || parsedOptions.length === 0}
+                className="px-3 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors text-sm font-medium disabled:opacity-50"
+              >
+                Generate missing variants
+              </button>
+            </div>
+          </section>
+
+          <section>
+            <h3 className="text-lg font-semibold mb-2">Variants</h3>
+            {variants.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No variants yet. Define options, save them, then generate variants.
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 text-left text-gray-600">
+                    <tr>
+                      <th className="p-2">Variant</th>
+                      <th className="p-2">SKU</th>
+                      <th className="p-2">Price</th>
+                      <th className="p-2">Image</th>
+                      <th className="p-2 text-right">Stock</th>
+                      <th className="p-2" />
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {variants.map((variant) => {
+                      const draft = variantDrafts[variant.id] ?? toDraft(variant);
+                      return (
+                        <tr key={variant.id} className={variant.archived_at ? 'text-gray-400' : ''}>
+                          <td className="p-2 font-medium">{formatVariantLabel(variant, options)}</td>
+                          <td className="p-2">
+                            <input
+                              type="text"
+                              value={draft.sku}
+                              onChange={(e) => updateDraft(variant, { sku: e.target.value })}
+                              className="w-36 px-2 py-1 border border-gray-300 rounded"
+                            />
+                          </td>
+                          <td className="p-2">
+                            <input
+                              type="number"
+                              min={0}
+                              step="0.01"
+                              placeholder={Number(product.price).toFixed(2)}
+                              value={draft.price}
+                              onChange={(e) => updateDraft(variant, { price: e.target.value })}
+                              className="w-24 px-2 py-1 border border-gray-300 rounded"
+                            />
+                          </td>
+                          <td className="p-2">
+                            <label className="flex items-center gap-2 cursor-pointer">
+                              <img
+                                src={draft.image_url || product.image_url}
+                                alt=""
+                                className="w-8 h-8 object-cover rounded bg-gray-100"
+                              />
+                              <span className="text-blue-600 hover:text-blue-700">Change</span>
+                              <input
+                                type="file"
+                                accept="image/*"
+                                className="hidden"
+                                onChange={(e) => {
+                                  const file = e.target.files?.[0];
+                                  if (file) handleVariantImage(variant, file);
+                                }}
+                              />
+                            </label>
+                          </td>
+                          <td className="p-2 text-right">{variant.stock}</td>
+                          <td className="p-2">
+                            <div className="flex justify-end gap-3 whitespace-nowrap">
+                              <button
+                                onClick={() => handleSaveVariant(variant)}
+                                disabled={busy}
+                                className="text-blue-600 hover:text-blue-700 font-medium"
+                              >
+                                Save
+                              </button>
+                              <button
+                                onClick={() => onAdjustStock(variant)}
+                                className="text-blue-600 hover:text-blue-700 font-medium"
+                              >
+                                Stock
+                              </button>
+                              <button
+                                onClick={() => run(() => setVariantArchived(variant.id, !variant.archived_at))}
+                                className="text-gray-600 hover:text-gray-800 font-medium"
+                              >
+                                {variant.archived_at ? 'Restore' : 'Archive'}
+                              </button>
+                            </div>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+
+          {error && <p className="text-sm text-red-600 mt-4">{error}</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import { CheckoutLineError, OrderStatus } from '../types';
+
+export type CheckoutErrorCode =
+  | 'insufficient_stock'
+  | 'cart_empty'
+  | 'invalid_address'
+  | 'shipping_unavailable'
+  | 'invalid_currency';
+
+export class CheckoutError extends Error {
+  code: CheckoutErrorCode;
+  lines: CheckoutLineError[];
+
+  constructor(code: CheckoutErrorCode, lines: CheckoutLineError[] = []) {
+    super(code);
+    this.name = 'CheckoutError';
+    this.code = code;
+    this.lines = lines;
+  }
+}
+
+export class OrderTransitionError extends Error {
+  from: OrderStatus;
+  to: OrderStatus;
+
+  constructor(from: OrderStatus, to: OrderStatus) {
+    super(`Cannot move an order from ${from} to ${to}`);
+    this.name = 'OrderTransitionError';
+    this.from = from;
+    this.to = to;
+  }
+}
@@ -0,0 +1,102 @@
+import { Address, CartItem } from '../../types';
+import { getUnitPrice } from '../../lib/variants';
+import { CartRepository } from '../repositories';
+import { priceLines } from './pricing';
+import { detach, isActive, MemoryStore, newId, timestamp } from './store';
+
+function currentUnitPrice(store: MemoryStore, item: CartItem): number | null {
+  const product = store.products.find((candidate) => candidate.id === item.product_id);
+  if (!product) return null;
+  const variant = store.variants.find((candidate) => candidate.id === item.variant_id);
+  return getUnitPrice(product, variant);
+}
+
+export function ownCartItems(store: MemoryStore): CartItem[] {
+  return store.cartItems.filter((item) => item.user_id === store.ownerId);
+}
+
+export function createMemoryCart(store: MemoryStore): CartRepository {
+  return {
+    async getItems() {
+      return detach(
+        ownCartItems(store).map((item) => {
+          const product = store.products.find((candidate) => candidate.id === item.product_id);
+          const variant = store.variants.find((candidate) => candidate.id === item.variant_id);
+          return {
+            ...item,
+            product:
+              product && isActive(product)
+                ? {
+                    ...product,
+                    options: store.options.filter((option) => option.product_id === product.id),
+                  }
+                : null,
+            variant: variant && isActive(variant) ? variant : null,
+          };
+        })
+      );
+    },
+
+    async addItem(productId: string, quantity: number, variantId: string | null) {
+      const existing = ownCartItems(store).find(
+        (item) => item.product_id === productId && (item.variant_id ?? null) === variantId
+      );
+      if (existing) {
+        existing.quantity += quantity;
+        return detach(existing);
+      }
+
+      if (!store.products.some((product) => product.id === productId && isActive(product))) {
+        throw new Error(`Product ${productId} not found`);
+      }
+      const item: CartItem = {
+        id: newId(),
+        user_id: store.ownerId,
+        product_id: productId,
+        variant_id: variantId,
+        quantity,
+        price_at_add: null,
+        created_at: timestamp(),
+      };
+      item.price_at_add = currentUnitPrice(store, item);
+      store.cartItems.push(item);
+      return detach(item);
+    },
+
+    async updateQuantity(cartItemId: string, quantity: number) {
+      const item = ownCartItems(store).find((candidate) => candidate.id === cartItemId);
+      if (item) item.quantity = quantity;
+    },
+
+    async removeItem(cartItemId: string) {
+      store.cartItems = store.cartItems.filter(
+        (item) => item.id !== cartItemId || item.user_id !== store.ownerId
+      );
+    },
+
+    async clear() {
+      store.cartItems = store.cartItems.filter((item) => item.user_id !== store.ownerId);
+    },
+
+    async acknowledgeChanges() {
+      ownCartItems(store).forEach((item) => {
+        item.price_at_add = currentUnitPrice(store, item);
+      });
+    },
+
+    async quote(promoCode: string, address: Partial<Address> | null) {
+      const lines = ownCartItems(store).flatMap((item) => {
+        const product = store.products.find((candidate) => candidate.id === item.product_id);
+        if (!product) return [];
+        const variant = store.variants.find((candidate) => candidate.id === item.variant_id);
+        return [{
+          product_id: product.id,
+          price: getUnitPrice(product, variant),
+          quantity: item.quantity,
+          weight_grams: product.weight_grams,
+        }];
+      });
+      return priceLines(store, lines, promoCode, address);
+    },
+  };
+}
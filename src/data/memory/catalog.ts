@@ -0,0 +1,134 @@
+import { compareCategories, getCategoryPath, getCategorySubtreeIds } from '../../lib/categories';
+import { Product } from '../../types';
+import { CatalogRepository, ProductFacetParams, ProductSearchParams } from '../repositories';
+import { detach, isActive, MemoryStore, withVariants } from './store';
+
+// Lower bounds of the price bands get_product_facets counts, in the base currency.
+const PRICE_BANDS = [0, 25, 50, 100, 250, 500];
+
+function words(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+// A stand-in for the full-text ranking: every query word has to prefix a word
+// of the name or description, and name hits count double.
+function rankProduct(product: Product, terms: string[]): number | null {
+  const nameWords = words(product.name);
+  const descriptionWords = words(product.description);
+  let rank = 0;
+  for (const term of terms) {
+    const inName = nameWords.some((word) => word.startsWith(term));
+    const inDescription = descriptionWords.some((word) => word.startsWith(term));
+    if (!inName && !inDescription) return null;
+    rank += inName ? 2 : 1;
+  }
+  return rank;
+}
+
+// Active products passing every filter, with their rank for the query.
+function matchProducts(
+  store: MemoryStore,
+  params: ProductFacetParams
+): { product: Product; rank: number }[] {
+  const terms = words(params.query ?? '');
+  const categoryIds = params.categoryId
+    ? getCategorySubtreeIds(store.categories.filter(isActive), params.categoryId)
+    : null;
+
+  return store.products.flatMap((product) => {
+    if (!isActive(product)) return [];
+    if (categoryIds && !categoryIds.includes(product.category_id)) return [];
+    if (params.minPrice != null && product.price < params.minPrice) return [];
+    if (params.maxPrice != null && product.price > params.maxPrice) return [];
+    if (params.priceBelow != null && product.price >= params.priceBelow) return [];
+    if (params.inStock && product.stock <= 0) return [];
+    const rank = terms.length > 0 ? rankProduct(product, terms) : 0;
+    return rank === null ? [] : [{ product, rank }];
+  });
+}
+
+export function createMemoryCatalog(store: MemoryStore): CatalogRepository {
+  return {
+    async getCategories() {
+      return detach(store.categories.filter(isActive).sort(compareCategories));
+    },
+
+    async getProductById(productId: string) {
+      const product = store.products.find((candidate) => candidate.id === productId);
+      if (!product || !isActive(product)) return null;
+
+      const category = store.categories.find((candidate) => candidate.id === product.category_id);
+      return detach({
+        ...withVariants(store, product),
+        images: store.images
+          .filter((image) => image.product_id === product.id)
+          .sort((a, b) => a.position - b.position),
+        category: category && isActive(category) ? category : null,
+      });
+    },
+
+    // Cursors are offsets into the sorted result.
+    async searchProducts(params: ProductSearchParams) {
+      const terms = words(params.query ?? '');
+      const sort = params.sort || (terms.length > 0 ? 'relevance' : 'newest');
+      const limit = Math.min(Math.max(params.limit ?? 24, 1), 100);
+      const offset = Number(params.cursor) || 0;
+
+      const matches = matchProducts(store, params);
+
+      matches.sort((a, b) => {
+        const byKey =
+          sort === 'price_asc' ? a.product.price - b.product.price
+          : sort === 'price_desc' ? b.product.price - a.product.price
+          : sort === 'newest' ? b.product.created_at.localeCompare(a.product.created_at)
+          : b.rank - a.rank;
+        return byKey || a.product.id.localeCompare(b.product.id);
+      });
+
+      const page = matches.slice(offset, offset + limit);
+      return {
+        items: detach(page.map(({ product }) => withVariants(store, product))),
+        next_cursor: offset + limit < matches.length ? String(offset + limit) : null,
+      };
+    },
+
+    async getFacets(params: ProductFacetParams) {
+      const categories = store.categories.filter(isActive);
+      const counts = new Map<string, number>();
+      matchProducts(store, { ...params, categoryId: undefined }).forEach(({ product }) => {
+        getCategoryPath(categories, product.category_id).forEach((category) => {
+          counts.set(category.id, (counts.get(category.id) ?? 0) + 1);
+        });
+      });
+
+      const priced = matchProducts(store, {
+        ...params,
+        minPrice: undefined,
+        maxPrice: undefined,
+        priceBelow: undefined,
+      });
+      const priceBuckets = PRICE_BANDS.map((min, index) => {
+        const max = PRICE_BANDS[index + 1] ?? null;
+        const count = priced.filter(
+          ({ product }) => product.price >= min && (max === null || product.price < max)
+        ).length;
+        return { min_price: min, max_price: max, count };
+      });
+
+      return {
+        categories: [...counts].map(([categoryId, count]) => ({ category_id: categoryId, count })),
+        price_buckets: priceBuckets.filter((bucket) => bucket.count > 0),
+        in_stock: matchProducts(store, { ...params, inStock: false }).filter(
+          ({ product }) => product.stock > 0
+        ).length,
+        total: matchProducts(store, params).length,
+      };
+    },
+
+    async getCurrencies() {
+      return detach(
+        store.currencies.filter((currency) => currency.active).sort((a, b) => a.code.localeCompare(b.code))
+      );
+    },
+  };
+}
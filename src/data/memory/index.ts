@@ -0,0 +1,29 @@
+import { DEMO_OWNER_ID } from '../../lib/demo';
+import { Repositories } from '../repositories';
+import { createMemoryCart } from './cart';
+import { createMemoryCatalog } from './catalog';
+import { createMemoryOrders } from './orders';
+import { SAMPLE_SEED } from './seed';
+import { createMemoryStore, MemorySeed } from './store';
+
+export { SAMPLE_SEED } from './seed';
+export type { MemorySeed } from './store';
+
+export interface MemoryRepositoryOptions {
+  seed?: MemorySeed;
+  ownerId?: string;
+}
+
+// A self-contained backend for demo mode and tests. Each call starts from a
+// fresh copy of the seed; carts and orders belong to `ownerId`.
+export function createMemoryRepositories({
+  seed = SAMPLE_SEED,
+  ownerId = DEMO_OWNER_ID,
+}: MemoryRepositoryOptions = {}): Repositories {
+  const store = createMemoryStore(seed, ownerId);
+  return {
+    catalog: createMemoryCatalog(store),
+    cart: createMemoryCart(store),
+    orders: createMemoryOrders(store),
+  };
+}
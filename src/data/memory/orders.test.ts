@@ -0,0 +1,98 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { Address } from '../../types';
+import { CheckoutError } from '../errors';
+import { OrderData, Repositories } from '../repositories';
+import { createMemoryRepositories, SAMPLE_SEED } from '.';
+
+const HEADPHONES = SAMPLE_SEED.products[0];
+
+const ADDRESS: Address = {
+  line1: '1 Main St',
+  line2: '',
+  city: 'Springfield',
+  region: 'il',
+  postal_code: '62701',
+  country: 'us',
+};
+
+function orderData(overrides: Partial<OrderData> = {}): OrderData {
+  return {
+    customer_name: 'Jane Doe',
+    customer_email: 'jane@example.com',
+    address: ADDRESS,
+    promo_code: '',
+    idempotency_key: crypto.randomUUID(),
+    currency: 'USD',
+    ...overrides,
+  };
+}
+
+async function stockOf(repositories: Repositories, productId: string): Promise<number | undefined> {
+  return (await repositories.catalog.getProductById(productId))?.stock;
+}
+
+describe('memory orders', () => {
+  let repositories: Repositories;
+
+  beforeEach(() => {
+    repositories = createMemoryRepositories();
+  });
+
+  it('places the cart as a pending order, takes the stock and empties the cart', async () => {
+    await repositories.cart.addItem(HEADPHONES.id, 2, null);
+
+    const order = await repositories.orders.createOrder(orderData());
+
+    expect(order).toMatchObject({
+      status: 'pending',
+      subtotal: 199.98,
+      shipping_amount: 0,
+      total_amount: 199.98,
+      shipping_address: '1 Main St\nSpringfield IL 62701\nUS',
+    });
+    expect(await repositories.orders.getOrderItems(order.id)).toMatchObject([
+      { product_id: HEADPHONES.id, quantity: 2, price: HEADPHONES.price },
+    ]);
+    expect(await repositories.cart.getItems()).toEqual([]);
+    expect(await stockOf(repositories, HEADPHONES.id)).toBe(HEADPHONES.stock - 2);
+  });
+
+  it('returns the existing order when the idempotency key is repeated', async () => {
+    await repositories.cart.addItem(HEADPHONES.id, 1, null);
+    const first = await repositories.orders.createOrder(orderData({ idempotency_key: 'checkout-1' }));
+
+    await repositories.cart.addItem(HEADPHONES.id, 1, null);
+    const second = await repositories.orders.createOrder(orderData({ idempotency_key: 'checkout-1' }));
+
+    expect(second.id).toBe(first.id);
+    expect(await repositories.orders.getOrders()).toHaveLength(1);
+    expect(await stockOf(repositories, HEADPHONES.id)).toBe(HEADPHONES.stock - 1);
+  });
+
+  it('refuses more than is in stock and leaves the stock and cart alone', async () => {
+    await repositories.cart.addItem(HEADPHONES.id, HEADPHONES.stock + 1, null);
+
+    const placing = repositories.orders.createOrder(orderData());
+
+    await expect(placing).rejects.toBeInstanceOf(CheckoutError);
+    await expect(placing).rejects.toMatchObject({
+      code: 'insufficient_stock',
+      lines: [{ product_id: HEADPHONES.id, requested: HEADPHONES.stock + 1, available: HEADPHONES.stock }],
+    });
+    expect(await stockOf(repositories, HEADPHONES.id)).toBe(HEADPHONES.stock);
+    expect(await repositories.cart.getItems()).toHaveLength(1);
+  });
+
+  it('puts the stock back when a pending order is cancelled', async () => {
+    await repositories.cart.addItem(HEADPHONES.id, 3, null);
+    const order = await repositories.orders.createOrder(orderData());
+
+    const cancelled = await repositories.orders.transitionOrder(order.id, 'cancelled', 'Changed my mind');
+
+    expect(cancelled.status).toBe('cancelled');
+    expect(await stockOf(repositories, HEADPHONES.id)).toBe(HEADPHONES.stock);
+    expect(
+      (await repositories.orders.getOrderStatusHistory(order.id)).map((entry) => entry.to_status)
+    ).toEqual(['pending', 'cancelled']);
+  });
+});
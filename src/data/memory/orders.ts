@@ -0,0 +1,236 @@
+import { Address, CheckoutLineError, Order, OrderItem, OrderStatus } from '../../types';
+import { canTransition } from '../../lib/orderStatus';
+import { formatVariantLabel, getUnitPrice } from '../../lib/variants';
+import { CheckoutError, OrderTransitionError } from '../errors';
+import { OrderData, OrderRepository } from '../repositories';
+import { ownCartItems } from './cart';
+import { priceLines } from './pricing';
+import { detach, isActive, MemoryStore, newId, timestamp } from './store';
+
+function isCompleteAddress(address: Address): boolean {
+  return (
+    address.line1.trim() !== '' &&
+    address.city.trim() !== '' &&
+    address.postal_code.trim() !== '' &&
+    /^[A-Za-z]{2}$/.test(address.country.trim())
+  );
+}
+
+// Same layout as format_address.
+function formatAddress(address: Address): string {
+  const locality = [address.city.trim(), address.region.trim().toUpperCase(), address.postal_code.trim()]
+    .filter(Boolean)
+    .join(' ');
+  return [address.line1.trim(), address.line2.trim(), locality, address.country.trim().toUpperCase()]
+    .filter(Boolean)
+    .join('\n');
+}
+
+function restockOrderItems(store: MemoryStore, orderId: string) {
+  store.orderItems
+    .filter((item) => item.order_id === orderId)
+    .forEach((item) => {
+      const variant = item.variant_id && store.variants.find((candidate) => candidate.id === item.variant_id);
+      const product = store.products.find((candidate) => candidate.id === item.product_id);
+      if (variant) variant.stock += item.quantity;
+      else if (!item.variant_id && product) product.stock += item.quantity;
+    });
+}
+
+function recordStatus(store: MemoryStore, orderId: string, from: OrderStatus | null, to: OrderStatus, reason: string) {
+  store.statusHistory.push({
+    id: newId(),
+    order_id: orderId,
+    from_status: from,
+    to_status: to,
+    reason,
+    changed_by: store.ownerId,
+    created_at: timestamp(),
+  });
+}
+
+// Follows place_order: the cart is checked, priced, turned into a pending order
+// and emptied in one step, and stock is taken when the order is placed.
+export function createMemoryOrders(store: MemoryStore): OrderRepository {
+  function findOrder(orderId: string): Order | undefined {
+    return store.orders.find((order) => order.id === orderId && order.user_id === store.ownerId);
+  }
+
+  return {
+    async createOrder(orderData: OrderData) {
+      const previousId = store.idempotencyKeys.get(orderData.idempotency_key);
+      const previous = previousId && findOrder(previousId);
+      if (previous) return detach(previous);
+
+      const currency = store.currencies.find(
+        (candidate) => candidate.code === orderData.currency.trim().toUpperCase() && candidate.active
+      );
+      if (!currency) {
+        throw new CheckoutError('invalid_currency');
+      }
+
+      const { address } = orderData;
+      if (!isCompleteAddress(address)) {
+        throw new CheckoutError('invalid_address');
+      }
+
+      const lines = ownCartItems(store).flatMap((item) => {
+        const product = store.products.find((candidate) => candidate.id === item.product_id);
+        if (!product || item.quantity <= 0) return [];
+        const variant = store.variants.find((candidate) => candidate.id === item.variant_id) ?? null;
+        const hasActiveVariants = store.variants.some(
+          (candidate) => candidate.product_id === product.id && isActive(candidate)
+        );
+        const stock = variant
+          ? (isActive(variant) ? variant.stock : 0)
+          : (hasActiveVariants ? 0 : product.stock);
+        const options = store.options.filter((option) => option.product_id === product.id);
+        return [{
+          item,
+          product,
+          variant,
+          stock,
+          variantLabel: variant ? formatVariantLabel(variant, options) || null : null,
+          price: getUnitPrice(product, variant),
+        }];
+      });
+
+      if (lines.length === 0) {
+        throw new CheckoutError('cart_empty');
+      }
+
+      const shortages: CheckoutLineError[] = lines
+        .filter((line) => line.item.quantity > line.stock)
+        .map((line) => ({
+          product_id: line.product.id,
+          variant_id: line.variant?.id ?? null,
+          product_name: line.variantLabel ? `${line.product.name} (${line.variantLabel})` : line.product.name,
+          requested: line.item.quantity,
+          available: line.stock,
+        }));
+      if (shortages.length > 0) {
+        throw new CheckoutError('insufficient_stock', shortages);
+      }
+
+      const totals = priceLines(
+        store,
+        lines.map((line) => ({
+          product_id: line.product.id,
+          price: line.price,
+          quantity: line.item.quantity,
+          weight_grams: line.product.weight_grams,
+        })),
+        orderData.promo_code,
+        address
+      );
+      if (totals.shipping === null) {
+        throw new CheckoutError('shipping_unavailable');
+      }
+
+      const order: Order = {
+        id: newId(),
+        user_id: store.ownerId,
+        subtotal: totals.subtotal,
+        discount_total: totals.discount_total,
+        total_amount: totals.total,
+        refunded_amount: 0,
+        currency: currency.code,
+        exchange_rate: currency.rate,
+        promo_code: null,
+        free_shipping: totals.free_shipping,
+        shipping_method: totals.shipping_method,
+        shipping_amount: totals.shipping,
+        tax_name: totals.tax_name,
+        tax_rate: totals.tax_rate ?? 0,
+        tax_amount: totals.tax ?? 0,
+        status: 'pending',
+        customer_email: orderData.customer_email,
+        customer_name: orderData.customer_name,
+        shipping_address: formatAddress(address),
+        shipping_line1: address.line1.trim(),
+        shipping_line2: address.line2.trim() || null,
+        shipping_city: address.city.trim(),
+        shipping_region: address.region.trim().toUpperCase() || null,
+        shipping_postal_code: address.postal_code.trim(),
+        shipping_country: address.country.trim().toUpperCase(),
+        created_at: timestamp(),
+      };
+      store.orders.push(order);
+      recordStatus(store, order.id, null, 'pending', 'Order placed');
+
+      lines.forEach((line) => {
+        store.orderItems.push({
+          id: newId(),
+          order_id: order.id,
+          product_id: line.product.id,
+          variant_id: line.variant?.id ?? null,
+          variant_label: line.variantLabel,
+          quantity: line.item.quantity,
+          price: line.price,
+          created_at: order.created_at,
+        });
+        if (line.variant) line.variant.stock -= line.item.quantity;
+        else line.product.stock -= line.item.quantity;
+      });
+
+      const placed = new Set(lines.map((line) => line.item.id));
+      store.cartItems = store.cartItems.filter((item) => !placed.has(item.id));
+      store.idempotencyKeys.set(orderData.idempotency_key, order.id);
+
+      return detach(order);
+    },
+
+    async getOrders() {
+      return detach(
+        store.orders
+          .filter((order) => order.user_id === store.ownerId)
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      );
+    },
+
+    async getOrderById(orderId: string) {
+      return detach(findOrder(orderId) ?? null);
+    },
+
+    async getOrderItems(orderId: string) {
+      if (!findOrder(orderId)) return [];
+      return detach(
+        store.orderItems
+          .filter((item) => item.order_id === orderId)
+          .map((item): OrderItem => {
+            const product = store.products.find((candidate) => candidate.id === item.product_id);
+            return product && isActive(product) ? { ...item, product } : item;
+          })
+      );
+    },
+
+    async getOrderDiscounts(orderId: string) {
+      if (!findOrder(orderId)) return [];
+      return detach(store.orderDiscounts.filter((discount) => discount.order_id === orderId));
+    },
+
+    async getOrderStatusHistory(orderId: string) {
+      if (!findOrder(orderId)) return [];
+      return detach(store.statusHistory.filter((entry) => entry.order_id === orderId));
+    },
+
+    // There are no payments or staff in memory, so every transition the
+    // lifecycle allows goes straight through.
+    async transitionOrder(orderId: string, to: OrderStatus, reason: string) {
+      const order = findOrder(orderId);
+      if (!order) throw new Error(`Order ${orderId} not found`);
+
+      const from = order.status;
+      if (!canTransition(from, to)) {
+        throw new OrderTransitionError(from, to);
+      }
+
+      order.status = to;
+      recordStatus(store, orderId, from, to, reason);
+      if ((to === 'cancelled' || to === 'refunded') && ['pending', 'paid', 'packed'].includes(from)) {
+        restockOrderItems(store, orderId);
+      }
+      return detach(order);
+    },
+  };
+}
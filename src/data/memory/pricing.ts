@@ -0,0 +1,78 @@
+import { PromotionError } from '../../api/promotions';
+import { Address, CartQuote } from '../../types';
+import { MemoryStore, roundMoney } from './store';
+
+export interface PricedLine {
+  product_id: string;
+  price: number;
+  quantity: number;
+  weight_grams: number;
+}
+
+function findShipping(store: MemoryStore, country: string | null, subtotal: number, weight: number) {
+  const candidates = store.shippingRates
+    .filter((rate) => rate.active && (rate.country === null || rate.country === country))
+    .filter((rate) => {
+      if (rate.kind === 'flat') return true;
+      const value = rate.kind === 'weight_tier' ? weight : subtotal;
+      return value >= rate.min_value && (rate.max_value === null || value < rate.max_value);
+    })
+    .map((rate) => ({
+      rate,
+      amount: rate.free_over !== null && subtotal >= rate.free_over ? 0 : rate.amount,
+    }));
+
+  candidates.sort(
+    (a, b) =>
+      Number(a.rate.country === null) - Number(b.rate.country === null) ||
+      a.amount - b.amount ||
+      a.rate.created_at.localeCompare(b.rate.created_at)
+  );
+  return candidates[0] ?? null;
+}
+
+function findTaxRate(store: MemoryStore, country: string, region: string | undefined) {
+  const upperRegion = region?.trim().toUpperCase() || null;
+  const candidates = store.taxRates.filter(
+    (rate) => rate.country === country && (rate.region === null || rate.region === upperRegion)
+  );
+  return candidates.find((rate) => rate.region !== null) ?? candidates[0] ?? null;
+}
+
+// Mirrors calculate_order_totals. The sample data has no promotions, so any code
+// is reported as not found.
+export function priceLines(
+  store: MemoryStore,
+  lines: PricedLine[],
+  promoCode: string,
+  address: Partial<Address> | null
+): CartQuote {
+  if (promoCode.trim()) {
+    throw new PromotionError('promotion_not_found');
+  }
+
+  const subtotal = roundMoney(lines.reduce((sum, line) => sum + line.price * line.quantity, 0));
+  const weight = lines.reduce((sum, line) => sum + line.weight_grams * line.quantity, 0);
+  const country = address?.country?.trim().toUpperCase() || null;
+
+  const shipping = findShipping(store, country, subtotal, weight);
+  const taxRate = country ? findTaxRate(store, country, address?.region) : null;
+  const tax = country
+    ? roundMoney(
+        ((subtotal + (taxRate?.applies_to_shipping ? shipping?.amount ?? 0 : 0)) * (taxRate?.rate ?? 0)) / 100
+      )
+    : null;
+
+  return {
+    subtotal,
+    discounts: [],
+    discount_total: 0,
+    free_shipping: false,
+    shipping_method: shipping?.rate.name ?? null,
+    shipping: shipping?.amount ?? null,
+    tax_name: taxRate?.name ?? null,
+    tax_rate: taxRate?.rate ?? null,
+    tax,
+    total: roundMoney(subtotal + (shipping?.amount ?? 0) + (tax ?? 0)),
+  };
+}
@@ -0,0 +1,166 @@
+import { Category, Currency, Product } from '../../types';
+import { MemorySeed } from './store';
+
+// The sample catalog the schema migrations insert, with fixed ids so demo links
+// and test fixtures stay stable between runs.
+const SEEDED_AT = '2025-11-18T10:26:59.000Z';
+
+const CATEGORIES: Category[] = [
+  {
+    id: '00000000-0000-4000-a000-000000000101',
+    parent_id: null,
+    slug: 'electronics',
+    name: 'Electronics',
+    description: 'Electronic devices and gadgets',
+    position: 0,
+    archived_at: null,
+    created_at: SEEDED_AT,
+  },
+  {
+    id: '00000000-0000-4000-a000-000000000102',
+    parent_id: null,
+    slug: 'clothing',
+    name: 'Clothing',
+    description: 'Fashion and apparel',
+    position: 0,
+    archived_at: null,
+    created_at: SEEDED_AT,
+  },
+  {
+    id: '00000000-0000-4000-a000-000000000103',
+    parent_id: null,
+    slug: 'books',
+    name: 'Books',
+    description: 'Books and literature',
+    position: 0,
+    archived_at: null,
+    created_at: SEEDED_AT,
+  },
+  {
+    id: '00000000-0000-4000-a000-000000000104',
+    parent_id: null,
+    slug: 'home-garden',
+    name: 'Home & Garden',
+    description: 'Home improvement and garden supplies',
+    position: 0,
+    archived_at: null,
+    created_at: SEEDED_AT,
+  },
+];
+
+function sampleProduct(
+  index: number,
+  categoryId: string,
+  name: string,
+  description: string,
+  price: number,
+  imageUrl: string,
+  stock: number
+): Product {
+  const suffix = String(index).padStart(2, '0');
+  return {
+    id: `00000000-0000-4000-a000-0000000002${suffix}`,
+    sku: `SKU-000002${suffix}`,
+    category_id: categoryId,
+    name,
+    description,
+    price,
+    image_url: imageUrl,
+    stock,
+    weight_grams: 0,
+    low_stock_threshold: 5,
+    rating_average: null,
+    rating_count: 0,
+    archived_at: null,
+    updated_at: SEEDED_AT,
+    // A second apart so "newest" has a stable order.
+    created_at: new Date(Date.parse(SEEDED_AT) + index * 1000).toISOString(),
+  };
+}
+
+function sampleCurrency(code: string, name: string, rate: number, roundingIncrement: number): Currency {
+  return { code, name, rate, rounding_increment: roundingIncrement, active: true, updated_at: SEEDED_AT };
+}
+
+const [ELECTRONICS, CLOTHING, BOOKS, HOME_AND_GARDEN] = CATEGORIES.map((category) => category.id);
+
+export const SAMPLE_SEED: MemorySeed = {
+  categories: CATEGORIES,
+  products: [
+    sampleProduct(
+      1,
+      ELECTRONICS,
+      'Wireless Headphones',
+      'High-quality bluetooth headphones with noise cancellation',
+      99.99,
+      'https://images.pexels.com/photos/8000618/pexels-photo-8000618.jpeg?auto=compress&cs=tinysrgb&w=400',
+      50
+    ),
+    sampleProduct(
+      2,
+      ELECTRONICS,
+      'Smart Watch',
+      'Fitness tracking smartwatch with heart rate monitor',
+      199.99,
+      'https://images.pexels.com/photos/437037/pexels-photo-437037.jpeg?auto=compress&cs=tinysrgb&w=400',
+      30
+    ),
+    sampleProduct(
+      3,
+      CLOTHING,
+      'Cotton T-Shirt',
+      'Comfortable cotton t-shirt in various colors',
+      24.99,
+      'https://images.pexels.com/photos/1020585/pexels-photo-1020585.jpeg?auto=compress&cs=tinysrgb&w=400',
+      100
+    ),
+    sampleProduct(
+      4,
+      CLOTHING,
+      'Denim Jeans',
+      'Classic fit denim jeans',
+      59.99,
+      'https://images.pexels.com/photos/1598507/pexels-photo-1598507.jpeg?auto=compress&cs=tinysrgb&w=400',
+      75
+    ),
+    sampleProduct(
+      5,
+      BOOKS,
+      'Programming Guide',
+      'Complete guide to modern web development',
+      39.99,
+      'https://images.pexels.com/photos/1148399/pexels-photo-1148399.jpeg?auto=compress&cs=tinysrgb&w=400',
+      40
+    ),
+    sampleProduct(
+      6,
+      HOME_AND_GARDEN,
+      'Indoor Plant Pot',
+      'Ceramic pot for indoor plants',
+      19.99,
+      'https://images.pexels.com/photos/4503821/pexels-photo-4503821.jpeg?auto=compress&cs=tinysrgb&w=400',
+      60
+    ),
+  ],
+  shippingRates: [
+    {
+      id: '00000000-0000-4000-a000-000000000301',
+      name: 'Standard',
+      country: null,
+      kind: 'flat',
+      min_value: 0,
+      max_value: null,
+      amount: 5.99,
+      free_over: 50,
+      active: true,
+      created_at: SEEDED_AT,
+    },
+  ],
+  currencies: [
+    sampleCurrency('USD', 'US Dollar', 1, 0.01),
+    sampleCurrency('EUR', 'Euro', 0.92, 0.01),
+    sampleCurrency('GBP', 'British Pound', 0.79, 0.01),
+    sampleCurrency('CHF', 'Swiss Franc', 0.88, 0.05),
+    sampleCurrency('JPY', 'Japanese Yen', 151, 1),
+  ],
+};
@@ -0,0 +1,102 @@
+import {
+  CartItem,
+  Category,
+  Currency,
+  Order,
+  OrderDiscount,
+  OrderItem,
+  OrderStatusHistory,
+  Product,
+  ProductImage,
+  ProductOption,
+  ProductVariant,
+  ShippingRate,
+  TaxRate,
+} from '../../types';
+
+// The catalog a memory store starts from. Products are bare rows; options,
+// variants and images are joined onto them the way the database does.
+export interface MemorySeed {
+  categories: Category[];
+  products: Product[];
+  options?: ProductOption[];
+  variants?: ProductVariant[];
+  images?: ProductImage[];
+  shippingRates?: ShippingRate[];
+  taxRates?: TaxRate[];
+  currencies?: Currency[];
+}
+
+// Tables for one in-memory backend. Repositories created from the same store
+// share it, so an order placed through one sees the cart of the other.
+export interface MemoryStore {
+  ownerId: string;
+  categories: Category[];
+  products: Product[];
+  options: ProductOption[];
+  variants: ProductVariant[];
+  images: ProductImage[];
+  shippingRates: ShippingRate[];
+  taxRates: TaxRate[];
+  currencies: Currency[];
+  cartItems: CartItem[];
+  orders: Order[];
+  orderItems: OrderItem[];
+  orderDiscounts: OrderDiscount[];
+  statusHistory: OrderStatusHistory[];
+  idempotencyKeys: Map<string, string>;
+}
+
+export function createMemoryStore(seed: MemorySeed, ownerId: string): MemoryStore {
+  const copy = structuredClone(seed);
+  return {
+    ownerId,
+    categories: copy.categories,
+    products: copy.products,
+    options: copy.options ?? [],
+    variants: copy.variants ?? [],
+    images: copy.images ?? [],
+    shippingRates: copy.shippingRates ?? [],
+    taxRates: copy.taxRates ?? [],
+    currencies: copy.currencies ?? [],
+    cartItems: [],
+    orders: [],
+    orderItems: [],
+    orderDiscounts: [],
+    statusHistory: [],
+    idempotencyKeys: new Map(),
+  };
+}
+
+// Rows handed out are copies, so callers cannot change the store by mutating
+// what they were given.
+export function detach<T>(value: T): T {
+  return structuredClone(value);
+}
+
+export function newId(): string {
+  return crypto.randomUUID();
+}
+
+export function timestamp(): string {
+  return new Date().toISOString();
+}
+
+export function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export function isActive(row: { archived_at?: string | null }): boolean {
+  return !row.archived_at;
+}
+
+// Options and active variants joined onto a product, as the storefront reads it.
+export function withVariants(store: MemoryStore, product: Product): Product {
+  return {
+    ...product,
+    options: store.options.filter((option) => option.product_id === product.id),
+    variants: store.variants
+      .filter((variant) => variant.product_id === product.id && isActive(variant))
+      .sort((a, b) => a.position - b.position),
+  };
+}
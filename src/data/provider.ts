@@ -0,0 +1,20 @@
+import { isDemoMode } from '../lib/demo';
+import { createMemoryRepositories } from './memory';
+import { Repositories } from './repositories';
+import { supabaseRepositories } from './supabase';
+
+let repositories: Repositories | null = null;
+
+// The repositories the api modules delegate to, created on first use.
+export function getRepositories(): Repositories {
+  if (!repositories) {
+    repositories = isDemoMode ? createMemoryRepositories() : supabaseRepositories;
+  }
+  return repositories;
+}
+
+// Swaps in another backend, e.g. a freshly seeded memory backend per test.
+// Passing null goes back to the one the environment selects.
+export function provideRepositories(next: Repositories | null): void {
+  repositories = next;
+}
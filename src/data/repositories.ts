@@ -0,0 +1,111 @@
+import {
+  Address,
+  CartItem,
+  CartQuote,
+  Category,
+  Currency,
+  Order,
+  OrderDiscount,
+  OrderItem,
+  OrderStatus,
+  OrderStatusHistory,
+  Product,
+} from '../types';
+
+export type ProductSort = 'relevance' | 'newest' | 'price_asc' | 'price_desc';
+
+export interface ProductSearchParams {
+  query?: string;
+  // Matches the category's subcategories too.
+  categoryId?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  // Exclusive upper bound, set by the price bands.
+  priceBelow?: number;
+  inStock?: boolean;
+  sort?: ProductSort;
+  cursor?: string | null;
+  limit?: number;
+}
+
+export interface ProductPage {
+  items: Product[];
+  next_cursor: string | null;
+}
+
+export type ProductFacetParams = Pick<
+  ProductSearchParams,
+  'query' | 'categoryId' | 'minPrice' | 'maxPrice' | 'priceBelow' | 'inStock'
+>;
+
+// A price band in the base currency, including min_price but not max_price.
+// The top band has no max_price.
+export interface PriceBucket {
+  min_price: number;
+  max_price: number | null;
+  count: number;
+}
+
+// Each facet is counted with its own filter left out, so the other options of
+// a facet keep their counts once one is chosen.
+export interface ProductFacets {
+  // Matching products in each category's whole subtree.
+  categories: { category_id: string; count: number }[];
+  // Non-empty bands only, cheapest first.
+  price_buckets: PriceBucket[];
+  in_stock: number;
+  total: number;
+}
+
+export interface OrderData {
+  customer_name: string;
+  customer_email: string;
+  address: Address;
+  promo_code: string;
+  idempotency_key: string;
+  // Recorded on the order with its current rate; totals stay in the base currency.
+  currency: string;
+}
+
+export interface CatalogRepository {
+  getCategories(): Promise<Category[]>;
+  // With options, variants, images in display order and the category.
+  getProductById(productId: string): Promise<Product | null>;
+  // Omitting sort orders by relevance when there is a query and by newest
+  // otherwise. Cursors are opaque and only valid for the backend that issued them.
+  searchProducts(params: ProductSearchParams): Promise<ProductPage>;
+  getFacets(params: ProductFacetParams): Promise<ProductFacets>;
+  // Active currencies shoppers can choose, base currency included.
+  getCurrencies(): Promise<Currency[]>;
+}
+
+// Every cart method acts on the current shopper's cart.
+export interface CartRepository {
+  getItems(): Promise<CartItem[]>;
+  // Returns the line the quantity was added to, without its product joins.
+  addItem(productId: string, quantity: number, variantId: string | null): Promise<CartItem>;
+  updateQuantity(cartItemId: string, quantity: number): Promise<void>;
+  removeItem(cartItemId: string): Promise<void>;
+  clear(): Promise<void>;
+  acknowledgeChanges(): Promise<void>;
+  quote(promoCode: string, address: Partial<Address> | null): Promise<CartQuote>;
+}
+
+export interface OrderRepository {
+  // Places the current cart as a pending order. Throws CheckoutError or
+  // PromotionError when the cart cannot be checked out.
+  createOrder(orderData: OrderData): Promise<Order>;
+  getOrders(): Promise<Order[]>;
+  getOrderById(orderId: string): Promise<Order | null>;
+  getOrderItems(orderId: string): Promise<OrderItem[]>;
+  getOrderDiscounts(orderId: string): Promise<OrderDiscount[]>;
+  getOrderStatusHistory(orderId: string): Promise<OrderStatusHistory[]>;
+  // Throws OrderTransitionError when the order cannot move to `to`.
+  transitionOrder(orderId: string, to: OrderStatus, reason: string): Promise<Order>;
+}
+
+export interface Repositories {
+  catalog: CatalogRepository;
+  cart: CartRepository;
+  orders: OrderRepository;
+}
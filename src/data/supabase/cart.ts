@@ -0,0 +1,109 @@
+import { supabase } from '../../lib/supabase';
+import { ensureSession, getOwnerId } from '../../lib/session';
+import { Address } from '../../types';
+import { toPromotionError } from '../../api/promotions';
+import { CartRepository } from '../repositories';
+
+export const supabaseCart: CartRepository = {
+  async getItems() {
+    const userId = await getOwnerId();
+
+    const { data, error } = await supabase
+      .from('cart_items')
+      .select(`
+        *,
+        product:products(*, options:product_options(*)),
+        variant:product_variants(*)
+      `)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async addItem(productId: string, quantity: number, variantId: string | null) {
+    const userId = await getOwnerId();
+
+    let existingQuery = supabase
+      .from('cart_items')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('product_id', productId);
+
+    existingQuery = variantId
+      ? existingQuery.eq('variant_id', variantId)
+      : existingQuery.is('variant_id', null);
+
+    const { data: existingItem, error: existingError } = await existingQuery.maybeSingle();
+
+    if (existingError) throw existingError;
+
+    if (existingItem) {
+      const { data, error } = await supabase
+        .from('cart_items')
+        .update({ quantity: existingItem.quantity + quantity })
+        .eq('id', existingItem.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    }
+
+    const { data, error } = await supabase
+      .from('cart_items')
+      .insert({ user_id: userId, product_id: productId, variant_id: variantId, quantity })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async updateQuantity(cartItemId: string, quantity: number) {
+    const { error } = await supabase
+      .from('cart_items')
+      .update({ quantity })
+      .eq('id', cartItemId);
+
+    if (error) throw error;
+  },
+
+  async removeItem(cartItemId: string) {
+    const { error } = await supabase
+      .from('cart_items')
+      .delete()
+      .eq('id', cartItemId);
+
+    if (error) throw error;
+  },
+
+  async clear() {
+    const userId = await getOwnerId();
+
+    const { error } = await supabase
+      .from('cart_items')
+      .delete()
+      .eq('user_id', userId);
+
+    if (error) throw error;
+  },
+
+  async acknowledgeChanges() {
+    const { error } = await supabase.rpc('acknowledge_cart_changes');
+
+    if (error) throw error;
+  },
+
+  async quote(promoCode: string, address: Partial<Address> | null) {
+    await ensureSession();
+
+    const { data, error } = await supabase.rpc('quote_cart', {
+      p_code: promoCode.trim() || null,
+      p_address: address,
+    });
+
+    if (error) throw toPromotionError(error) || error;
+    return data;
+  },
+};
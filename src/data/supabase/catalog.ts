@@ -0,0 +1,109 @@
+import { supabase } from '../../lib/supabase';
+import { Product, ProductOption, ProductVariant } from '../../types';
+import { CatalogRepository, ProductFacetParams, ProductSearchParams } from '../repositories';
+
+const PRODUCT_WITH_VARIANTS = `
+  *,
+  options:product_options(*),
+  variants:product_variants(*)
+`;
+
+// search_products returns bare product rows; options and variants for a page
+// are fetched in two follow-up queries and attached here.
+async function attachVariants(products: Product[]): Promise<Product[]> {
+  if (products.length === 0) return products;
+  const ids = products.map((product) => product.id);
+
+  const [optionsResult, variantsResult] = await Promise.all([
+    supabase.from('product_options').select('*').in('product_id', ids),
+    supabase
+      .from('product_variants')
+      .select('*')
+      .in('product_id', ids)
+      .is('archived_at', null)
+      .order('position'),
+  ]);
+
+  if (optionsResult.error) throw optionsResult.error;
+  if (variantsResult.error) throw variantsResult.error;
+
+  const options: ProductOption[] = optionsResult.data || [];
+  const variants: ProductVariant[] = variantsResult.data || [];
+
+  return products.map((product) => ({
+    ...product,
+    options: options.filter((option) => option.product_id === product.id),
+    variants: variants.filter((variant) => variant.product_id === product.id),
+  }));
+}
+
+export const supabaseCatalog: CatalogRepository = {
+  async getCategories() {
+    const { data, error } = await supabase
+      .from('categories')
+      .select('*')
+      .order('position')
+      .order('name');
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async getProductById(productId: string) {
+    const { data, error } = await supabase
+      .from('products')
+      .select(`
+        ${PRODUCT_WITH_VARIANTS},
+        images:product_images(*),
+        category:categories(*)
+      `)
+      .eq('id', productId)
+      .order('position', { referencedTable: 'product_images' })
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async searchProducts(params: ProductSearchParams) {
+    const { data, error } = await supabase.rpc('search_products', {
+      p_query: params.query || null,
+      p_category_id: params.categoryId || null,
+      p_min_price: params.minPrice ?? null,
+      p_max_price: params.maxPrice ?? null,
+      p_in_stock: params.inStock ?? false,
+      p_sort: params.sort || null,
+      p_cursor: params.cursor || null,
+      p_limit: params.limit ?? 24,
+      p_price_below: params.priceBelow ?? null,
+    });
+
+    if (error) throw error;
+    return { ...data, items: await attachVariants(data.items) };
+  },
+
+  async getFacets(params: ProductFacetParams) {
+    const { data, error } = await supabase.rpc('get_product_facets', {
+      p_query: params.query || null,
+      p_category_id: params.categoryId || null,
+      p_min_price: params.minPrice ?? null,
+      p_max_price: params.maxPrice ?? null,
+      p_in_stock: params.inStock ?? false,
+      p_price_below: params.priceBelow ?? null,
+    });
+
+    if (error) throw error;
+    return data;
+  },
+
+  async getCurrencies() {
+    const { data, error } = await supabase
+      .from('currencies')
+      .select('*')
+      .eq('active', true)
+      .order('code');
+
+    if (error) throw error;
+    return data || [];
+  },
+};
@@ -0,0 +1,10 @@
+import { Repositories } from '../repositories';
+import { supabaseCart } from './cart';
+import { supabaseCatalog } from './catalog';
+import { supabaseOrders } from './orders';
+
+export const supabaseRepositories: Repositories = {
+  catalog: supabaseCatalog,
+  cart: supabaseCart,
+  orders: supabaseOrders,
+};
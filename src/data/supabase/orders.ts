@@ -0,0 +1,115 @@
+import { supabase } from '../../lib/supabase';
+import { ensureSession, getOwnerId } from '../../lib/session';
+import { OrderStatus } from '../../types';
+import { toPromotionError } from '../../api/promotions';
+import { CheckoutError, OrderTransitionError } from '../errors';
+import { OrderData, OrderRepository } from '../repositories';
+
+function toCheckoutError(error: { message: string; details?: string | null }): CheckoutError | null {
+  if (
+    error.message === 'cart_empty' ||
+    error.message === 'invalid_address' ||
+    error.message === 'shipping_unavailable' ||
+    error.message === 'invalid_currency'
+  ) {
+    return new CheckoutError(error.message);
+  }
+  if (error.message === 'insufficient_stock') {
+    return new CheckoutError('insufficient_stock', JSON.parse(error.details || '[]'));
+  }
+  return null;
+}
+
+export const supabaseOrders: OrderRepository = {
+  async createOrder(orderData: OrderData) {
+    await ensureSession();
+
+    const { data, error } = await supabase.rpc('place_order', {
+      p_customer_name: orderData.customer_name,
+      p_customer_email: orderData.customer_email,
+      p_address: orderData.address,
+      p_promo_code: orderData.promo_code.trim() || null,
+      p_idempotency_key: orderData.idempotency_key,
+      p_currency: orderData.currency,
+    });
+
+    if (error) throw toCheckoutError(error) || toPromotionError(error) || error;
+    return data;
+  },
+
+  async getOrders() {
+    const userId = await getOwnerId();
+
+    const { data, error } = await supabase
+      .from('orders')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async getOrderById(orderId: string) {
+    const { data, error } = await supabase
+      .from('orders')
+      .select('*')
+      .eq('id', orderId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async getOrderItems(orderId: string) {
+    const { data, error } = await supabase
+      .from('order_items')
+      .select(`
+        *,
+        product:products(*)
+      `)
+      .eq('order_id', orderId);
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async getOrderDiscounts(orderId: string) {
+    const { data, error } = await supabase
+      .from('order_discounts')
+      .select('*')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async getOrderStatusHistory(orderId: string) {
+    const { data, error } = await supabase
+      .from('order_status_history')
+      .select('*')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async transitionOrder(orderId: string, to: OrderStatus, reason: string) {
+    const { data, error } = await supabase.rpc('transition_order', {
+      p_order_id: orderId,
+      p_to: to,
+      p_reason: reason,
+    });
+
+    if (error) {
+      if (error.message === 'illegal_transition') {
+        const [from] = (error.details || '').split(' -> ');
+        throw new OrderTransitionError(from as OrderStatus, to);
+      }
+      throw error;
+    }
+    return data;
+  },
+};
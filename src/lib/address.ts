@@ -0,0 +1,33 @@
+import { Address } from '../types';
+
+export const EMPTY_ADDRESS: Address = {
+  line1: '',
+  line2: '',
+  city: '',
+  region: '',
+  postal_code: '',
+  country: 'US',
+};
+
+// Countries offered at checkout. Shipping to a country also needs a matching
+// (or catch-all) shipping rate; tax is only charged where a tax rate exists.
+export const COUNTRIES: { code: string; name: string }[] = [
+  { code: 'US', name: 'United States' },
+  { code: 'CA', name: 'Canada' },
+  { code: 'GB', name: 'United Kingdom' },
+  { code: 'IE', name: 'Ireland' },
+  { code: 'DE', name: 'Germany' },
+  { code: 'FR', name: 'France' },
+  { code: 'NL', name: 'Netherlands' },
+  { code: 'ES', name: 'Spain' },
+  { code: 'IT', name: 'Italy' },
+  { code: 'AU', name: 'Australia' },
+  { code: 'NZ', name: 'New Zealand' },
+  { code: 'BD', name: 'Bangladesh' },
+  { code: 'IN', name: 'India' },
+  { code: 'JP', name: 'Japan' },
+];
+
+export function getCountryName(code: string | null): string {
+  return COUNTRIES.find((country) => country.code === code)?.name ?? code ?? '';
+}
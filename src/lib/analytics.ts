@@ -0,0 +1,66 @@
+import { DateRange } from '../api/analytics';
+import { SalesInterval, SalesPeriod, TopCategoryRow, TopProductRow } from '../types';
+import { toCsv } from './csv';
+
+export type RangePreset = '7d' | '30d' | '90d' | '12m';
+
+export const RANGE_PRESETS: { key: RangePreset; label: string; days: number; interval: SalesInterval }[] = [
+  { key: '7d', label: 'Last 7 days', days: 7, interval: 'day' },
+  { key: '30d', label: 'Last 30 days', days: 30, interval: 'day' },
+  { key: '90d', label: 'Last 90 days', days: 90, interval: 'week' },
+  { key: '12m', label: 'Last 12 months', days: 365, interval: 'month' },
+];
+
+// Reports work in UTC days, matching the database.
+export function toDateInput(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function presetRange(days: number, today = new Date()): DateRange {
+  const from = new Date(today);
+  from.setUTCDate(from.getUTCDate() - (days - 1));
+  return { from: toDateInput(from), to: toDateInput(today) };
+}
+
+// Picks a bucket size that keeps a custom range's chart readable.
+export function intervalForRange(range: DateRange): SalesInterval {
+  const days = (Date.parse(range.to) - Date.parse(range.from)) / 86_400_000 + 1;
+  if (days <= 45) return 'day';
+  if (days <= 200) return 'week';
+  return 'month';
+}
+
+export function formatPeriod(periodStart: string, interval: SalesInterval): string {
+  const date = new Date(`${periodStart}T00:00:00Z`);
+  if (interval === 'month') {
+    return date.toLocaleDateString(undefined, { month: 'short', year: 'numeric', timeZone: 'UTC' });
+  }
+  const label = date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+  return interval === 'week' ? `Week of ${label}` : label;
+}
+
+export function salesToCsv(periods: SalesPeriod[]): string {
+  return toCsv(
+    ['period_start', 'orders', 'revenue', 'average_order_value'],
+    periods.map((period) => [
+      period.period_start,
+      String(period.order_count),
+      Number(period.revenue).toFixed(2),
+      Number(period.average_order_value).toFixed(2),
+    ])
+  );
+}
+
+export function topProductsToCsv(rows: TopProductRow[]): string {
+  return toCsv(
+    ['product_id', 'product', 'units', 'revenue'],
+    rows.map((row) => [row.product_id ?? '', row.product_name, String(row.units), Number(row.revenue).toFixed(2)])
+  );
+}
+
+export function topCategoriesToCsv(rows: TopCategoryRow[]): string {
+  return toCsv(
+    ['category_id', 'category', 'units', 'revenue'],
+    rows.map((row) => [row.category_id ?? '', row.category_name, String(row.units), Number(row.revenue).toFixed(2)])
+  );
+}
@@ -0,0 +1,61 @@
+import { CartItem } from '../types';
+import { formatPrice, t } from './localeStore';
+import { getCartItemPrice } from './variants';
+
+export type CartLineChange =
+  | { kind: 'unavailable' }
+  | { kind: 'sold_out' }
+  | { kind: 'low_stock'; available: number }
+  | { kind: 'price'; from: number; to: number };
+
+function getAvailableStock(item: CartItem): number {
+  return item.variant ? item.variant.stock : (item.product?.stock ?? 0);
+}
+
+// Availability problems come first: a line that cannot be bought at all matters
+// more than one whose price moved.
+export function getCartLineChanges(item: CartItem): CartLineChange[] {
+  if (!item.product || item.product.archived_at || (item.variant_id && !item.variant)) {
+    return [{ kind: 'unavailable' }];
+  }
+
+  const changes: CartLineChange[] = [];
+  const available = getAvailableStock(item);
+  if (available <= 0) {
+    changes.push({ kind: 'sold_out' });
+  } else if (available < item.quantity) {
+    changes.push({ kind: 'low_stock', available });
+  }
+
+  const price = getCartItemPrice(item);
+  if (item.price_at_add != null && Number(item.price_at_add) !== price) {
+    changes.push({ kind: 'price', from: Number(item.price_at_add), to: price });
+  }
+  return changes;
+}
+
+export function describeCartLineChange(change: CartLineChange): string {
+  switch (change.kind) {
+    case 'unavailable':
+      return t('cartChange.unavailable');
+    case 'sold_out':
+      return t('cartChange.soldOut');
+    case 'low_stock':
+      return t('cartChange.lowStock', { count: change.available });
+    case 'price':
+      return t(change.to > change.from ? 'cartChange.priceIncreased' : 'cartChange.priceDropped', {
+        price: formatPrice(change.from),
+      });
+  }
+}
+
+export function hasCartChanges(items: CartItem[]): boolean {
+  return items.some((item) => getCartLineChanges(item).length > 0);
+}
+
+// Lines that would make place_order fail with insufficient_stock.
+export function hasBlockingCartChanges(items: CartItem[]): boolean {
+  return items.some((item) =>
+    getCartLineChanges(item).some((change) => change.kind !== 'price')
+  );
+}
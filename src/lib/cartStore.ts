@@ -0,0 +1,349 @@
+import { useSyncExternalStore } from 'react';
+import { addToCart, getCartItems, updateCartItemQuantity } from '../api/cart';
+import { getOwnerId } from './session';
+import { CartItem, Product, ProductVariant } from '../types';
+
+// Single source of truth for the cart in this tab. Mutations are applied to the
+// local state first and sent to the server one at a time; a rejected mutation
+// undoes only its own change. While offline, mutations are queued in
+// localStorage and replayed when the browser reconnects. Other tabs receive
+// every change over a BroadcastChannel (or storage events where that is missing).
+
+// Shown in the shopper's language by whoever renders the cart.
+export type CartErrorCode = 'update_failed' | 'replay_failed';
+
+export interface CartState {
+  items: CartItem[];
+  loading: boolean;
+  // Mutations waiting for connectivity.
+  queued: number;
+  error: CartErrorCode | null;
+}
+
+type CartMutation =
+  | {
+      type: 'add';
+      productId: string;
+      variantId: string | null;
+      quantity: number;
+      // Id of the optimistic line when the add created one.
+      tempId: string | null;
+    }
+  // A quantity of 0 removes the line.
+  | { type: 'update'; cartItemId: string; quantity: number };
+
+interface QueuedMutations {
+  ownerId: string | null;
+  mutations: CartMutation[];
+}
+
+const ITEMS_KEY = 'cart:items';
+const QUEUE_KEY = 'cart:queue';
+const TEMP_PREFIX = 'temp:';
+
+let state: CartState = { items: readCachedItems(), loading: true, queued: 0, error: null };
+const listeners = new Set<() => void>();
+let channel: BroadcastChannel | null = null;
+let ownerId: string | null = null;
+// Serializes server calls so a line added optimistically exists before it is updated.
+let tail: Promise<void> = Promise.resolve();
+let inFlight = 0;
+let reloadWhenSettled = false;
+// Temporary line ids mapped to the ids the server assigned.
+const resolvedIds = new Map<string, string>();
+
+function readCachedItems(): CartItem[] {
+  try {
+    return JSON.parse(localStorage.getItem(ITEMS_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+function readQueue(): QueuedMutations {
+  try {
+    return JSON.parse(localStorage.getItem(QUEUE_KEY) || 'null') ?? { ownerId: null, mutations: [] };
+  } catch {
+    return { ownerId: null, mutations: [] };
+  }
+}
+
+function writeQueue(queue: QueuedMutations) {
+  if (queue.mutations.length === 0) {
+    localStorage.removeItem(QUEUE_KEY);
+  } else {
+    localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+  }
+  setState({ queued: queue.mutations.length });
+}
+
+function setState(next: Partial<CartState>, broadcast = false) {
+  state = { ...state, ...next };
+  if (next.items) {
+    localStorage.setItem(ITEMS_KEY, JSON.stringify(next.items));
+    if (broadcast) channel?.postMessage({ items: next.items });
+  }
+  listeners.forEach((listener) => listener());
+}
+
+function setItems(update: (items: CartItem[]) => CartItem[]) {
+  setState({ items: update(state.items) }, true);
+}
+
+function isNetworkError(error: unknown): boolean {
+  if (!navigator.onLine) return true;
+  const message = error instanceof Error ? error.message : (error as { message?: string })?.message;
+  return /failed to fetch|networkerror|load failed/i.test(message ?? '');
+}
+
+function resolveId(cartItemId: string): string {
+  return resolvedIds.get(cartItemId) ?? cartItemId;
+}
+
+async function sendMutation(mutation: CartMutation): Promise<void> {
+  if (mutation.type === 'add') {
+    const row = await addToCart(mutation.productId, mutation.quantity, mutation.variantId);
+    if (mutation.tempId) {
+      resolvedIds.set(mutation.tempId, row.id);
+      setItems((items) =>
+        items.map((item) =>
+          item.id === mutation.tempId
+            ? { ...row, product: item.product, variant: item.variant }
+            : item
+        )
+      );
+    }
+    return;
+  }
+
+  const cartItemId = resolveId(mutation.cartItemId);
+  if (cartItemId.startsWith(TEMP_PREFIX)) {
+    // The add that created this line never reached the server.
+    return;
+  }
+  await updateCartItemQuantity(cartItemId, mutation.quantity);
+}
+
+function enqueue(mutation: CartMutation) {
+  const queue = readQueue();
+  writeQueue({ ownerId, mutations: [...queue.mutations, mutation] });
+}
+
+function schedule(mutation: CartMutation, rollback: (items: CartItem[]) => CartItem[]) {
+  if (!navigator.onLine) {
+    enqueue(mutation);
+    return;
+  }
+
+  inFlight++;
+  tail = tail
+    .then(() => sendMutation(mutation))
+    .catch((error) => {
+      if (isNetworkError(error)) {
+        enqueue(mutation);
+        return;
+      }
+      console.error('Error updating cart:', error);
+      setItems(rollback);
+      setState({ error: 'update_failed' });
+    })
+    .finally(() => {
+      inFlight--;
+      if (inFlight === 0 && reloadWhenSettled) {
+        reloadWhenSettled = false;
+        loadCart();
+      }
+    });
+}
+
+// Replays mutations queued while offline, oldest first. Replay stops at the first
+// network failure so the rest stay queued; mutations the server rejects are dropped.
+async function replayQueue(): Promise<void> {
+  const queue = readQueue();
+  if (queue.mutations.length === 0) return;
+
+  const currentOwner = await getOwnerId();
+  if (queue.ownerId && queue.ownerId !== currentOwner) {
+    // Queued by a different shopper on this device.
+    writeQueue({ ownerId: null, mutations: [] });
+    return;
+  }
+
+  let remaining = queue.mutations;
+  while (remaining.length > 0) {
+    try {
+      await sendMutation(remaining[0]);
+    } catch (error) {
+      if (isNetworkError(error)) break;
+      console.error('Error replaying cart change:', error);
+      setState({ error: 'replay_failed' });
+    }
+    remaining = remaining.slice(1);
+    writeQueue({ ownerId: currentOwner, mutations: remaining });
+  }
+}
+
+function flushQueue() {
+  tail = tail
+    .then(() =>
+      // Only one tab replays the shared queue.
+      navigator.locks ? navigator.locks.request('cart-queue', replayQueue) : replayQueue()
+    )
+    .catch((error) => console.error('Error replaying cart changes:', error))
+    .then(() => loadCart());
+}
+
+export function loadCart(): Promise<void> {
+  // A reload while changes are in flight would briefly undo them on screen.
+  if (inFlight > 0) {
+    reloadWhenSettled = true;
+    return Promise.resolve();
+  }
+
+  return Promise.all([getCartItems(), getOwnerId()])
+    .then(([items, owner]) => {
+      ownerId = owner;
+      if (inFlight > 0) {
+        reloadWhenSettled = true;
+        return;
+      }
+      // Changes still queued offline are not on the server yet; keep them on screen.
+      if (readQueue().mutations.length > 0) return;
+      setState({ items, loading: false }, true);
+    })
+    .catch((error) => {
+      console.error('Error loading cart:', error);
+    })
+    .finally(() => {
+      if (state.loading) setState({ loading: false });
+    });
+}
+
+// Resolves once every change made so far has reached the server (or been queued).
+export function whenCartSettled(): Promise<void> {
+  return tail;
+}
+
+export function addCartItem(product: Product, variant: ProductVariant | null, quantity: number = 1) {
+  const existing = state.items.find(
+    (item) => item.product_id === product.id && (item.variant_id ?? null) === (variant?.id ?? null)
+  );
+
+  if (existing) {
+    setItems((items) =>
+      items.map((item) => (item.id === existing.id ? { ...item, quantity: item.quantity + quantity } : item))
+    );
+    schedule(
+      { type: 'add', productId: product.id, variantId: variant?.id ?? null, quantity, tempId: null },
+      (items) =>
+        items.map((item) => (item.id === existing.id ? { ...item, quantity: item.quantity - quantity } : item))
+    );
+    return;
+  }
+
+  const tempId = `${TEMP_PREFIX}${crypto.randomUUID()}`;
+  setItems((items) => [
+    ...items,
+    {
+      id: tempId,
+      product_id: product.id,
+      variant_id: variant?.id ?? null,
+      quantity,
+      price_at_add: variant?.price ?? product.price,
+      created_at: new Date().toISOString(),
+      product,
+      variant,
+    },
+  ]);
+  schedule(
+    { type: 'add', productId: product.id, variantId: variant?.id ?? null, quantity, tempId },
+    (items) => items.filter((item) => item.id !== tempId && item.id !== resolveId(tempId))
+  );
+}
+
+export function setCartItemQuantity(cartItemId: string, quantity: number) {
+  const previous = state.items.find((item) => item.id === cartItemId);
+  if (!previous) return;
+
+  setItems((items) =>
+    quantity <= 0
+      ? items.filter((item) => item.id !== cartItemId)
+      : items.map((item) => (item.id === cartItemId ? { ...item, quantity } : item))
+  );
+  schedule({ type: 'update', cartItemId, quantity: Math.max(quantity, 0) }, (items) =>
+    items.some((item) => item.id === cartItemId)
+      ? items.map((item) => (item.id === cartItemId ? previous : item))
+      : [...items, previous]
+  );
+}
+
+export function removeCartItem(cartItemId: string) {
+  setCartItemQuantity(cartItemId, 0);
+}
+
+// Waits for pending changes and returns the server id of a line that may have been
+// added optimistically, or null when that add has not reached the server yet.
+export async function settleCartItemId(cartItemId: string): Promise<string | null> {
+  await tail;
+  const id = resolveId(cartItemId);
+  return id.startsWith(TEMP_PREFIX) ? null : id;
+}
+
+// Local-only changes for things the server already did: checkout emptied the
+// cart, or another device deleted a line.
+export function clearCartLocally() {
+  setState({ items: [] }, true);
+}
+
+export function dropCartItemLocally(cartItemId: string) {
+  if (state.items.some((item) => item.id === cartItemId)) {
+    setItems((items) => items.filter((item) => item.id !== cartItemId));
+  }
+}
+
+export function dismissCartError() {
+  setState({ error: null });
+}
+
+// Wires up cross-tab sync and offline replay; returns the cleanup.
+export function startCartSync(): () => void {
+  const handleMessage = (event: MessageEvent<{ items: CartItem[] }>) => {
+    setState({ items: event.data.items });
+  };
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === ITEMS_KEY && !channel) {
+      setState({ items: readCachedItems() });
+    } else if (event.key === QUEUE_KEY) {
+      setState({ queued: readQueue().mutations.length });
+    }
+  };
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel('cart');
+    channel.addEventListener('message', handleMessage);
+  }
+  window.addEventListener('storage', handleStorage);
+  window.addEventListener('online', flushQueue);
+
+  setState({ queued: readQueue().mutations.length });
+  flushQueue();
+
+  return () => {
+    channel?.removeEventListener('message', handleMessage);
+    channel?.close();
+    channel = null;
+    window.removeEventListener('storage', handleStorage);
+    window.removeEventListener('online', flushQueue);
+  };
+}
+
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function useCart(): CartState {
+  return useSyncExternalStore(subscribe, () => state);
+}
@@ -0,0 +1,193 @@
+import { parseCsv, toCsv } from './csv';
+
+export type CatalogFormat = 'csv' | 'json';
+
+export const CATALOG_COLUMNS = [
+  'sku',
+  'name',
+  'description',
+  'price',
+  'stock',
+  'category',
+  'image_url',
+] as const;
+
+const REQUIRED_COLUMNS = ['sku', 'name', 'price', 'stock'];
+
+type CatalogColumn = (typeof CATALOG_COLUMNS)[number];
+
+export interface CatalogProduct {
+  sku: string;
+  name: string;
+  description: string;
+  price: number;
+  stock: number;
+  category: string;
+  image_url: string;
+}
+
+type OptionalColumn = 'description' | 'category' | 'image_url';
+
+const OPTIONAL_COLUMNS: OptionalColumn[] = ['description', 'category', 'image_url'];
+
+// `line` is the physical line for CSV files and the 1-based array position for
+// JSON files. Optional columns the file doesn't have are left out, so importing
+// doesn't clear them on existing products.
+export type CatalogRow = Omit<CatalogProduct, OptionalColumn> &
+  Partial<Pick<CatalogProduct, OptionalColumn>> & { line: number };
+
+export interface CatalogRowError {
+  line: number;
+  field: string;
+  message: string;
+}
+
+export interface ParsedCatalog {
+  rows: CatalogRow[];
+  errors: CatalogRowError[];
+}
+
+type RawRecord = { line: number; fields: Partial<Record<CatalogColumn, string>> };
+
+export function detectCatalogFormat(fileName: string): CatalogFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'csv') return 'csv';
+  if (extension === 'json') return 'json';
+  return null;
+}
+
+function readCsvRecords(text: string, errors: CatalogRowError[]): RawRecord[] {
+  const [header, ...records] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) {
+    errors.push({ line: 1, field: 'file', message: 'File is empty' });
+    return [];
+  }
+
+  const columns = header.values.map((value) => value.trim().toLowerCase());
+  const missing = REQUIRED_COLUMNS.filter((column) => !columns.includes(column));
+  if (missing.length > 0) {
+    errors.push({
+      line: header.line,
+      field: 'header',
+      message: `Missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}`,
+    });
+    return [];
+  }
+
+  return records.map((record) => {
+    const fields: RawRecord['fields'] = {};
+    columns.forEach((column, index) => {
+      if ((CATALOG_COLUMNS as readonly string[]).includes(column)) {
+        fields[column as CatalogColumn] = record.values[index] ?? '';
+      }
+    });
+    return { line: record.line, fields };
+  });
+}
+
+function readJsonRecords(text: string, errors: CatalogRowError[]): RawRecord[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    errors.push({ line: 1, field: 'file', message: `Invalid JSON: ${(error as Error).message}` });
+    return [];
+  }
+
+  if (!Array.isArray(data)) {
+    errors.push({ line: 1, field: 'file', message: 'Expected an array of products' });
+    return [];
+  }
+
+  return data.map((item, index) => {
+    const fields: RawRecord['fields'] = {};
+    if (item && typeof item === 'object') {
+      CATALOG_COLUMNS.forEach((column) => {
+        const value = (item as Record<string, unknown>)[column];
+        if (value !== undefined && value !== null) {
+          fields[column] = String(value);
+        }
+      });
+    }
+    return { line: index + 1, fields };
+  });
+}
+
+function isValidUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function validateRecord(
+  record: RawRecord,
+  seenSkus: Set<string>,
+  errors: CatalogRowError[]
+): CatalogRow | null {
+  const { line, fields } = record;
+  const before = errors.length;
+  const fail = (field: string, message: string) => errors.push({ line, field, message });
+
+  const sku = (fields.sku ?? '').trim();
+  const name = (fields.name ?? '').trim();
+  const priceText = (fields.price ?? '').trim();
+  const stockText = (fields.stock ?? '').trim();
+  const imageUrl = (fields.image_url ?? '').trim();
+  const price = Number(priceText);
+  const stock = Number(stockText);
+
+  if (!sku) {
+    fail('sku', 'SKU is required');
+  } else if (seenSkus.has(sku)) {
+    fail('sku', `Duplicate SKU ${sku}`);
+  }
+  if (!name) fail('name', 'Name is required');
+  if (priceText === '' || !Number.isFinite(price) || price < 0) {
+    fail('price', 'Price must be a number of 0 or more');
+  }
+  if (stockText === '' || !Number.isInteger(stock) || stock < 0) {
+    fail('stock', 'Stock must be a whole number of 0 or more');
+  }
+  if (imageUrl && !isValidUrl(imageUrl)) {
+    fail('image_url', 'Image URL must be a valid http(s) URL');
+  }
+
+  if (sku) seenSkus.add(sku);
+  if (errors.length > before) return null;
+
+  const row: CatalogRow = { line, sku, name, price: Math.round(price * 100) / 100, stock };
+  OPTIONAL_COLUMNS.forEach((column) => {
+    const value = fields[column];
+    if (value !== undefined) row[column] = value.trim();
+  });
+  return row;
+}
+
+export function parseCatalogFile(text: string, format: CatalogFormat): ParsedCatalog {
+  const errors: CatalogRowError[] = [];
+  const records = format === 'csv' ? readCsvRecords(text, errors) : readJsonRecords(text, errors);
+  const seenSkus = new Set<string>();
+
+  const rows = records
+    .map((record) => validateRecord(record, seenSkus, errors))
+    .filter((row): row is CatalogRow => row !== null);
+
+  if (records.length === 0 && errors.length === 0) {
+    errors.push({ line: 1, field: 'file', message: 'No products found in file' });
+  }
+
+  return { rows, errors };
+}
+
+export function serializeCatalog(rows: CatalogProduct[], format: CatalogFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(rows, null, 2);
+  }
+  return toCsv(
+    [...CATALOG_COLUMNS],
+    rows.map((row) => CATALOG_COLUMNS.map((column) => String(row[column])))
+  );
+}
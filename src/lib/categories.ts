@@ -0,0 +1,53 @@
+import { Category } from '../types';
+
+export interface CategoryNode extends Category {
+  children: CategoryNode[];
+}
+
+export function compareCategories(a: Category, b: Category): number {
+  return a.position - b.position || a.name.localeCompare(b.name);
+}
+
+// Nests categories under their parents in display order. A category whose
+// parent is missing from the list (archived, for shoppers) is left out with its
+// whole subtree, the way the catalog search treats it.
+export function buildCategoryTree(categories: Category[]): CategoryNode[] {
+  const nodes = new Map<string, CategoryNode>(
+    categories.map((category) => [category.id, { ...category, children: [] }])
+  );
+  const roots: CategoryNode[] = [];
+  for (const node of [...nodes.values()].sort(compareCategories)) {
+    if (node.parent_id === null) {
+      roots.push(node);
+    } else {
+      nodes.get(node.parent_id)?.children.push(node);
+    }
+  }
+  return roots;
+}
+
+// The category followed by all its descendants; empty if it isn't in the list.
+export function getCategorySubtreeIds(categories: Category[], categoryId: string): string[] {
+  if (!categories.some((category) => category.id === categoryId)) return [];
+
+  const ids = [categoryId];
+  for (let index = 0; index < ids.length; index++) {
+    categories.forEach((category) => {
+      if (category.parent_id === ids[index]) ids.push(category.id);
+    });
+  }
+  return ids;
+}
+
+// From the top-level category down to the given one, for breadcrumbs.
+export function getCategoryPath(categories: Category[], categoryId: string): Category[] {
+  const path: Category[] = [];
+  let nextId: string | null = categoryId;
+  while (nextId) {
+    const category = categories.find((candidate) => candidate.id === nextId);
+    if (!category) break;
+    path.unshift(category);
+    nextId = category.parent_id;
+  }
+  return path;
+}
@@ -0,0 +1,8 @@
+// Demo mode runs the storefront offline against the in-memory repositories. It
+// is only switched on with VITE_DATA_BACKEND=memory: orders are paid without a
+// charge, so a missing Supabase project must never fall back to it. Accounts,
+// payments and live updates are unavailable in it.
+export const isDemoMode = import.meta.env.VITE_DATA_BACKEND === 'memory';
+
+// The one shopper demo mode knows about.
+export const DEMO_OWNER_ID = '00000000-0000-4000-a000-000000000001';
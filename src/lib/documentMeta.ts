@@ -0,0 +1,49 @@
+import { useEffect } from 'react';
+
+export const SITE_NAME = 'ShopHub';
+
+export interface DocumentMeta {
+  title: string;
+  description?: string;
+  image?: string;
+}
+
+function setMetaTag(attribute: 'name' | 'property', key: string, content: string) {
+  let tag = document.head.querySelector<HTMLMetaElement>(`meta[${attribute}="${key}"]`);
+  if (!tag) {
+    tag = document.createElement('meta');
+    tag.setAttribute(attribute, key);
+    document.head.appendChild(tag);
+  }
+  tag.content = content;
+}
+
+// Sets the page title and the description/Open Graph tags used when the URL is
+// shared; the title is restored when the page unmounts. Pass null while loading.
+export function useDocumentMeta(meta: DocumentMeta | null) {
+  const title = meta?.title;
+  const description = meta?.description;
+  const image = meta?.image;
+
+  useEffect(() => {
+    if (!title) return;
+    const previousTitle = document.title;
+    const fullTitle = `${title} | ${SITE_NAME}`;
+
+    document.title = fullTitle;
+    setMetaTag('property', 'og:title', fullTitle);
+    setMetaTag('property', 'og:url', window.location.href);
+    if (description) {
+      setMetaTag('name', 'description', description);
+      setMetaTag('property', 'og:description', description);
+    }
+    if (image) {
+      setMetaTag('property', 'og:image', image);
+      setMetaTag('name', 'twitter:image', image);
+    }
+
+    return () => {
+      document.title = previousTitle;
+    };
+  }, [title, description, image]);
+}
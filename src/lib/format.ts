@@ -0,0 +1,30 @@
+import { getLocale, t } from './localeStore';
+
+// Orders are keyed by uuid; shoppers see the first block as their order number.
+export function formatOrderNumber(orderId: string): string {
+  return orderId.split('-')[0].toUpperCase();
+}
+
+export function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString(getLocale(), {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+export function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString(getLocale(), {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+// e.g. "VAT (20%)"; falls back to "Tax" when no rate applies.
+export function formatTaxLabel(name: string | null, rate: number | null): string {
+  if (!name || rate === null) return t('price.tax');
+  return `${name} (${Number(rate)}%)`;
+}
@@ -0,0 +1,124 @@
+import { useSyncExternalStore } from 'react';
+import { getCurrencies } from '../api/currencies';
+import { en, MessageKey, Messages } from '../locales/en';
+import { es } from '../locales/es';
+import { BASE_CURRENCY, convertAmount, CurrencyRounding, formatMoney } from './money';
+import { Currency, Order } from '../types';
+
+// The shopper's language and display currency, remembered in localStorage.
+// Prices stay in the base currency everywhere else; they are only converted
+// when they are formatted here.
+
+export type Locale = 'en-US' | 'es-ES';
+
+export const LOCALES: { code: Locale; label: string }[] = [
+  { code: 'en-US', label: 'English' },
+  { code: 'es-ES', label: 'Español' },
+];
+
+const MESSAGES: Record<Locale, Messages> = { 'en-US': en, 'es-ES': es };
+
+export interface LocaleState {
+  locale: Locale;
+  currencyCode: string;
+  // Active currencies; empty until loadCurrencies resolves.
+  currencies: Currency[];
+}
+
+const LOCALE_KEY = 'preferences:locale';
+const CURRENCY_KEY = 'preferences:currency';
+
+const BASE_ROUNDING: CurrencyRounding = { rate: 1, rounding_increment: 0.01 };
+
+let state: LocaleState = {
+  locale: readLocale(),
+  currencyCode: localStorage.getItem(CURRENCY_KEY) || BASE_CURRENCY,
+  currencies: [],
+};
+const listeners = new Set<() => void>();
+document.documentElement.lang = state.locale;
+
+function readLocale(): Locale {
+  const stored = localStorage.getItem(LOCALE_KEY);
+  if (stored && stored in MESSAGES) return stored as Locale;
+  const language = navigator.language.split('-')[0];
+  return LOCALES.find((locale) => locale.code.startsWith(`${language}-`))?.code ?? 'en-US';
+}
+
+function setState(next: Partial<LocaleState>) {
+  state = { ...state, ...next };
+  document.documentElement.lang = state.locale;
+  listeners.forEach((listener) => listener());
+}
+
+export function setLocale(locale: Locale) {
+  localStorage.setItem(LOCALE_KEY, locale);
+  setState({ locale });
+}
+
+export function setCurrency(currencyCode: string) {
+  localStorage.setItem(CURRENCY_KEY, currencyCode);
+  setState({ currencyCode });
+}
+
+// A remembered currency that has since been deactivated falls back to the base.
+export function loadCurrencies(): Promise<void> {
+  return getCurrencies()
+    .then((currencies) => {
+      const known = currencies.some((currency) => currency.code === state.currencyCode);
+      setState({ currencies, currencyCode: known ? state.currencyCode : BASE_CURRENCY });
+    })
+    .catch((error) => {
+      console.error('Error loading currencies:', error);
+    });
+}
+
+export function getLocale(): Locale {
+  return state.locale;
+}
+
+// Until the rates have loaded, prices are shown in the base currency.
+export function getCurrency(): CurrencyRounding & { code: string } {
+  const currency = state.currencies.find((candidate) => candidate.code === state.currencyCode);
+  return currency ?? { code: BASE_CURRENCY, ...BASE_ROUNDING };
+}
+
+export function t(key: MessageKey, params: Record<string, string | number> = {}): string {
+  const template = MESSAGES[state.locale][key] ?? en[key];
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+}
+
+// A base-currency amount in the shopper's currency.
+export function formatPrice(amount: number): string {
+  const currency = getCurrency();
+  return formatMoney(convertAmount(amount, currency), currency.code, state.locale);
+}
+
+// A base-currency amount without conversion, e.g. what a card is charged.
+export function formatBasePrice(amount: number): string {
+  return formatMoney(Number(amount), BASE_CURRENCY, state.locale);
+}
+
+// Order amounts are shown at the rate recorded when the order was placed, so
+// later rate changes don't rewrite past orders.
+export function formatOrderPrice(amount: number, order: Pick<Order, 'currency' | 'exchange_rate'>): string {
+  const increment = state.currencies.find((currency) => currency.code === order.currency)?.rounding_increment;
+  const converted = convertAmount(amount, {
+    rate: order.exchange_rate,
+    rounding_increment: increment ?? BASE_ROUNDING.rounding_increment,
+  });
+  return formatMoney(converted, order.currency, state.locale);
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function useLocale(): LocaleState {
+  return useSyncExternalStore(subscribe, () => state);
+}
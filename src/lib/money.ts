@@ -0,0 +1,25 @@
+import { Currency } from '../types';
+
+// Catalog prices, carts, payments and reports are all in the base currency.
+// Other currencies are for display: amounts are converted at the currency's rate
+// and rounded to its increment (0.05 for CHF, 1 for JPY).
+export const BASE_CURRENCY = 'USD';
+
+export type CurrencyRounding = Pick<Currency, 'rate' | 'rounding_increment'>;
+
+export function convertAmount(amount: number, currency: CurrencyRounding): number {
+  const increment = Number(currency.rounding_increment) || 0.01;
+  const converted = Math.round((Number(amount) * Number(currency.rate)) / increment) * increment;
+  // Strips float noise such as 12.350000000000001 before formatting.
+  return Number(converted.toFixed(4));
+}
+
+export function formatMoney(amount: number, currencyCode: string, locale: string): string {
+  return new Intl.NumberFormat(locale, { style: 'currency', currency: currencyCode }).format(amount);
+}
+
+// Base-currency amounts converted back from an amount a shopper typed in their
+// own currency, e.g. for price filters.
+export function toBaseAmount(amount: number, currency: Pick<Currency, 'rate'>): number {
+  return Math.round((amount / Number(currency.rate)) * 100) / 100;
+}
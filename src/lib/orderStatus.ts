@@ -0,0 +1,36 @@
+import { OrderStatus } from '../types';
+import { t } from './localeStore';
+
+// Mirrors the order_status_transitions table. The database is authoritative;
+// this copy lets the UI offer only the actions that can succeed.
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['paid', 'cancelled'],
+  paid: ['packed', 'cancelled', 'refunded'],
+  packed: ['shipped', 'cancelled', 'refunded'],
+  shipped: ['delivered'],
+  delivered: ['partially_refunded', 'refunded'],
+  partially_refunded: ['refunded'],
+  cancelled: [],
+  refunded: [],
+};
+
+export function formatOrderStatus(status: OrderStatus): string {
+  return t(`orderStatus.${status}`);
+}
+
+// The happy path an order walks through, used to render progress.
+export const ORDER_FULFILLMENT_STEPS: OrderStatus[] = [
+  'pending',
+  'paid',
+  'packed',
+  'shipped',
+  'delivered',
+];
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
+
+export function isTerminalStatus(status: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[status].length === 0;
+}
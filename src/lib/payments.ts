@@ -0,0 +1,98 @@
+import { isDemoMode } from './demo';
+import { t } from './localeStore';
+
+export interface CardDetails {
+  number: string;
+  expiry: string;
+  cvc: string;
+}
+
+export const EMPTY_CARD: CardDetails = { number: '', expiry: '', cvc: '' };
+
+export type MockCardOutcome =
+  | 'succeeded'
+  | 'card_declined'
+  | 'insufficient_funds'
+  | 'expired_card'
+  | 'processing_error';
+
+// Test cards understood by the mock gateway (supabase/functions/_shared/payments/mock.ts).
+// Any other valid card succeeds.
+export const MOCK_TEST_CARDS: { number: string; outcome: MockCardOutcome }[] = [
+  { number: '4242 4242 4242 4242', outcome: 'succeeded' },
+  { number: '4000 0000 0000 0002', outcome: 'card_declined' },
+  { number: '4000 0000 0000 9995', outcome: 'insufficient_funds' },
+  { number: '4000 0000 0000 0069', outcome: 'expired_card' },
+  { number: '4000 0000 0000 0119', outcome: 'processing_error' },
+];
+
+export function cardDigits(number: string): string {
+  return number.replace(/\D/g, '');
+}
+
+export function formatCardNumber(number: string): string {
+  return cardDigits(number).slice(0, 19).replace(/(\d{4})(?=\d)/g, '$1 ');
+}
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// Returns a message for the first invalid field, or null when the card can be
+// sent to the provider. The provider still has the final say.
+export function validateCard(card: CardDetails, now: Date = new Date()): string | null {
+  const digits = cardDigits(card.number);
+  if (digits.length < 12 || digits.length > 19 || !passesLuhn(digits)) {
+    return t('payment.invalidNumber');
+  }
+
+  const expiry = card.expiry.match(/^(\d{2})\s*\/\s*(\d{2})$/);
+  const month = expiry ? Number(expiry[1]) : 0;
+  if (!expiry || month < 1 || month > 12) {
+    return t('payment.invalidExpiry');
+  }
+  // Cards are valid until the end of their expiry month.
+  if (new Date(2000 + Number(expiry[2]), month, 1) <= now) {
+    return t('payment.cardExpired');
+  }
+
+  if (!/^\d{3,4}$/.test(card.cvc)) {
+    return t('payment.invalidCvc');
+  }
+  return null;
+}
+
+// The mock gateway's stand-in for a provider's client-side tokenizer. The token
+// only names the outcome the gateway should simulate, never the card number.
+async function tokenizeMockCard(card: CardDetails): Promise<string> {
+  const digits = cardDigits(card.number);
+  const testCard = MOCK_TEST_CARDS.find((candidate) => cardDigits(candidate.number) === digits);
+  return `pm_mock_${testCard?.outcome ?? 'succeeded'}`;
+}
+
+// Turns card details into an opaque payment method token before they leave the
+// browser form; only the token is sent to the payments function.
+// VITE_PAYMENT_PROVIDER has to name the same gateway as the function's
+// PAYMENT_PROVIDER, and like it has no default.
+export async function tokenizeCard(card: CardDetails): Promise<string> {
+  // Demo payments are settled in memory and never reach a provider.
+  if (isDemoMode) return 'pm_demo';
+
+  const provider = import.meta.env.VITE_PAYMENT_PROVIDER;
+
+  switch (provider) {
+    case 'mock':
+      return tokenizeMockCard(card);
+    default:
+      throw new Error(`Unknown payment provider: ${provider}`);
+  }
+}
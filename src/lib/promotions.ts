@@ -0,0 +1,30 @@
+import { Promotion, PromotionKind } from '../types';
+
+export const PROMOTION_KIND_LABELS: Record<PromotionKind, string> = {
+  percentage: 'Percentage off',
+  fixed: 'Amount off',
+  free_shipping: 'Free shipping',
+  buy_x_get_y: 'Buy X get Y',
+};
+
+export function describePromotionValue(promotion: Promotion): string {
+  switch (promotion.kind) {
+    case 'percentage':
+      return `${Number(promotion.value)}% off`;
+    case 'fixed':
+      return `$${Number(promotion.value).toFixed(2)} off`;
+    case 'free_shipping':
+      return 'Free shipping';
+    case 'buy_x_get_y':
+      return `Buy ${promotion.buy_quantity} get ${promotion.get_quantity} free`;
+  }
+}
+
+export type PromotionState = 'active' | 'scheduled' | 'expired' | 'disabled';
+
+export function getPromotionState(promotion: Promotion, now: Date = new Date()): PromotionState {
+  if (!promotion.active) return 'disabled';
+  if (promotion.starts_at && new Date(promotion.starts_at) > now) return 'scheduled';
+  if (promotion.ends_at && new Date(promotion.ends_at) <= now) return 'expired';
+  return 'active';
+}
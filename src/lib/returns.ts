@@ -0,0 +1,40 @@
+import { OrderItem, OrderStatus, ReturnRequest, ReturnStatus } from '../types';
+import { t } from './localeStore';
+
+export function formatReturnStatus(status: ReturnStatus): string {
+  return t(`returnStatus.${status}`);
+}
+
+export const RETURN_STATUS_STYLES: Record<ReturnStatus, string> = {
+  requested: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-blue-100 text-blue-800',
+  rejected: 'bg-gray-200 text-gray-700',
+  received: 'bg-indigo-100 text-indigo-800',
+  refunded: 'bg-green-100 text-green-800',
+};
+
+// Mirrors the statuses request_return accepts.
+export function canRequestReturn(status: OrderStatus): boolean {
+  return status === 'delivered' || status === 'partially_refunded';
+}
+
+// Units of each order line that are not already part of a return, keyed by order
+// item id. Rejected returns give their units back.
+export function getReturnableQuantities(
+  items: OrderItem[],
+  returns: ReturnRequest[]
+): Record<string, number> {
+  const returnable: Record<string, number> = {};
+  for (const item of items) {
+    returnable[item.id] = item.quantity;
+  }
+  for (const request of returns) {
+    if (request.status === 'rejected') continue;
+    for (const line of request.items ?? []) {
+      if (line.order_item_id in returnable) {
+        returnable[line.order_item_id] -= line.quantity;
+      }
+    }
+  }
+  return returnable;
+}
@@ -0,0 +1,40 @@
+import { SavedItem } from '../types';
+import { formatPrice, t } from './localeStore';
+import { getUnitPrice } from './variants';
+
+export type SavedItemAlert =
+  | { kind: 'back_in_stock' }
+  | { kind: 'price_drop'; from: number; to: number };
+
+// Compares a saved item against what the shopper last saw, which the database
+// records when the item is saved and resets when its alerts are acknowledged.
+export function getSavedItemAlerts(item: SavedItem): SavedItemAlert[] {
+  if (!item.product || item.product.archived_at || (item.variant_id && !item.variant)) {
+    return [];
+  }
+
+  const alerts: SavedItemAlert[] = [];
+  const stock = item.variant ? item.variant.stock : item.product.stock;
+  if (!item.seen_in_stock && stock > 0) {
+    alerts.push({ kind: 'back_in_stock' });
+  }
+
+  const price = getUnitPrice(item.product, item.variant);
+  if (item.seen_price != null && price < Number(item.seen_price)) {
+    alerts.push({ kind: 'price_drop', from: Number(item.seen_price), to: price });
+  }
+  return alerts;
+}
+
+export function describeSavedItemAlert(alert: SavedItemAlert): string {
+  switch (alert.kind) {
+    case 'back_in_stock':
+      return t('saved.backInStock');
+    case 'price_drop':
+      return t('saved.priceDropped', { from: formatPrice(alert.from), to: formatPrice(alert.to) });
+  }
+}
+
+export function getItemsWithAlerts(items: SavedItem[]): SavedItem[] {
+  return items.filter((item) => getSavedItemAlerts(item).length > 0);
+}
@@ -0,0 +1,149 @@
+import { useSyncExternalStore } from 'react';
+import {
+  acknowledgeSavedItemAlerts,
+  addToWishlist,
+  getSavedItems,
+  moveSavedItemToCart,
+  removeSavedItem,
+  saveCartItemForLater,
+} from '../api/savedItems';
+import { dropCartItemLocally, loadCart, settleCartItemId } from './cartStore';
+import { Product, SavedItem } from '../types';
+
+// Wishlist and saved-for-later items for the current shopper. Changes are shown
+// immediately and undone if the server rejects them; the rejection is rethrown so
+// the caller can tell the shopper.
+
+export interface SavedItemsState {
+  items: SavedItem[];
+  loading: boolean;
+}
+
+const TEMP_PREFIX = 'temp:';
+
+let state: SavedItemsState = { items: [], loading: true };
+const listeners = new Set<() => void>();
+
+function setState(next: Partial<SavedItemsState>) {
+  state = { ...state, ...next };
+  listeners.forEach((listener) => listener());
+}
+
+function setItems(update: (items: SavedItem[]) => SavedItem[]) {
+  setState({ items: update(state.items) });
+}
+
+export function loadSavedItems(): Promise<void> {
+  return getSavedItems()
+    .then((items) => setState({ items, loading: false }))
+    .catch((error) => {
+      console.error('Error loading saved items:', error);
+      setState({ loading: false });
+    });
+}
+
+export function isWishlisted(items: SavedItem[], productId: string): boolean {
+  return items.some((item) => item.list === 'wishlist' && item.product_id === productId);
+}
+
+export async function toggleWishlist(product: Product): Promise<void> {
+  const previous = state.items;
+
+  if (isWishlisted(previous, product.id)) {
+    const removed = previous.filter(
+      (item) => item.list === 'wishlist' && item.product_id === product.id
+    );
+    setItems((items) => items.filter((item) => !removed.includes(item)));
+    try {
+      await Promise.all(
+        removed
+          .filter((item) => !item.id.startsWith(TEMP_PREFIX))
+          .map((item) => removeSavedItem(item.id))
+      );
+    } catch (error) {
+      setState({ items: previous });
+      throw error;
+    }
+    return;
+  }
+
+  setItems((items) => [
+    {
+      id: `${TEMP_PREFIX}${crypto.randomUUID()}`,
+      user_id: '',
+      list: 'wishlist',
+      product_id: product.id,
+      variant_id: null,
+      quantity: 1,
+      seen_price: product.price,
+      seen_in_stock: product.stock > 0,
+      created_at: new Date().toISOString(),
+      product,
+      variant: null,
+    },
+    ...items,
+  ]);
+  try {
+    await addToWishlist(product.id);
+  } catch (error) {
+    setState({ items: previous });
+    throw error;
+  }
+  await loadSavedItems();
+}
+
+export async function removeSaved(savedItemId: string): Promise<void> {
+  const previous = state.items;
+  setItems((items) => items.filter((item) => item.id !== savedItemId));
+  try {
+    await removeSavedItem(savedItemId);
+  } catch (error) {
+    setState({ items: previous });
+    throw error;
+  }
+}
+
+export async function saveForLater(cartItemId: string): Promise<void> {
+  const lineId = await settleCartItemId(cartItemId);
+  if (!lineId) return;
+
+  dropCartItemLocally(lineId);
+  try {
+    await saveCartItemForLater(lineId);
+  } catch (error) {
+    await loadCart();
+    throw error;
+  }
+  await loadSavedItems();
+}
+
+export async function moveToCart(savedItemId: string): Promise<void> {
+  const previous = state.items;
+  setItems((items) => items.filter((item) => item.id !== savedItemId));
+  try {
+    await moveSavedItemToCart(savedItemId);
+  } catch (error) {
+    setState({ items: previous });
+    throw error;
+  }
+  await loadCart();
+}
+
+// Resets what the shopper has seen to the current price and stock, so the same
+// price drop or restock is not reported again.
+export async function dismissSavedItemAlerts(savedItemIds: string[]): Promise<void> {
+  if (savedItemIds.length === 0) return;
+  await acknowledgeSavedItemAlerts(savedItemIds);
+  await loadSavedItems();
+}
+
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function useSavedItems(): SavedItemsState {
+  return useSyncExternalStore(subscribe, () => state);
+}
@@ -0,0 +1,57 @@
+import { Session } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { DEMO_OWNER_ID, isDemoMode } from './demo';
+
+let pendingGuestSession: Promise<Session> | null = null;
+
+// Every visitor has a Supabase session. Guests are signed in anonymously, so RLS
+// scopes their cart and orders by auth.uid() exactly as it does for customers.
+export async function ensureSession(): Promise<Session> {
+  const { data } = await supabase.auth.getSession();
+  if (data.session) return data.session;
+
+  if (!pendingGuestSession) {
+    pendingGuestSession = supabase.auth
+      .signInAnonymously()
+      .then(({ data: guest, error }) => {
+        if (error) throw error;
+        if (!guest.session) throw new Error('Could not start a guest session');
+        return guest.session;
+      })
+      .finally(() => {
+        pendingGuestSession = null;
+      });
+  }
+  return pendingGuestSession;
+}
+
+export async function getOwnerId(): Promise<string> {
+  if (isDemoMode) return DEMO_OWNER_ID;
+
+  const session = await ensureSession();
+  return session.user.id;
+}
+
+export function isGuestSession(session: Session | null): boolean {
+  return !session || session.user.is_anonymous === true;
+}
+
+// Issued while still signed in as the guest; proves ownership of the guest's
+// cart and orders to merge_guest_session once the customer has signed in.
+export async function startGuestTransfer(): Promise<string | null> {
+  const { data } = await supabase.auth.getSession();
+  if (!data.session || !isGuestSession(data.session)) return null;
+
+  const { data: token, error } = await supabase.rpc('start_guest_transfer');
+
+  if (error) throw error;
+  return token;
+}
+
+export async function completeGuestTransfer(token: string | null): Promise<void> {
+  if (!token) return;
+
+  const { error } = await supabase.rpc('merge_guest_session', { p_token: token });
+
+  if (error) throw error;
+}
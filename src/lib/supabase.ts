@@ -1,20 +1,25 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { isDemoMode } from './demo';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
-if (!supabaseUrl || !supabaseAnonKey) {
-  throw new Error('Missing Supabase environment variables');
+if (!isDemoMode && (!supabaseUrl || !supabaseAnonKey)) {
+  throw new Error('Missing Supabase environment variables (set VITE_DATA_BACKEND=memory for demo mode)');
 }
 
-// Singleton Pattern (commented out for demonstration)
+// Singleton Pattern
 // This ensures only one instance of the Supabase client is created
 // and reused throughout the application lifecycle
-let supabaseInstance: ReturnType<typeof createClient> | null = null;
+let supabaseInstance: SupabaseClient | null = null;
 
 export function getSupabaseClient() {
-  // If instance doesn't exist, create it (lazy initialization)
+  // If instance doesn't exist, create it (lazy initialization), so demo mode
+  // can import modules that use the client without a project.
   if (!supabaseInstance) {
+    if (isDemoMode) {
+      throw new Error('Supabase is not available in demo mode');
+    }
     supabaseInstance = createClient(supabaseUrl, supabaseAnonKey);
   }
 
@@ -22,5 +27,11 @@ export function getSupabaseClient() {
   return supabaseInstance;
 }
 
-// Export the singleton instance as the default export
-export const supabase = getSupabaseClient();
+// Stands in for the client and creates it on first use.
+export const supabase = new Proxy({} as SupabaseClient, {
+  get(_target, property) {
+    const client = getSupabaseClient();
+    const value = Reflect.get(client, property);
+    return typeof value === 'function' ? value.bind(client) : value;
+  },
+});
@@ -0,0 +1,87 @@
+import { CartItem, Product, ProductOption, ProductVariant } from '../types';
+import { t } from './localeStore';
+
+export function hasVariants(product: Product): boolean {
+  return (product.variants?.length ?? 0) > 0;
+}
+
+export function sortOptions(options: ProductOption[] = []): ProductOption[] {
+  return [...options].sort((a, b) => a.position - b.position || a.name.localeCompare(b.name));
+}
+
+// Labels follow the product's option order, e.g. "Red / M".
+export function formatVariantLabel(
+  variant: Pick<ProductVariant, 'options'>,
+  options: ProductOption[] = []
+): string {
+  const names = options.length > 0
+    ? sortOptions(options).map((option) => option.name)
+    : Object.keys(variant.options);
+  return names
+    .filter((name) => variant.options[name] !== undefined)
+    .map((name) => variant.options[name])
+    .join(' / ');
+}
+
+export function findVariant(
+  variants: ProductVariant[],
+  selection: Record<string, string>
+): ProductVariant | null {
+  return (
+    variants.find((variant) =>
+      Object.entries(variant.options).every(([name, value]) => selection[name] === value)
+    ) ?? null
+  );
+}
+
+export function getUnitPrice(product: Product, variant?: ProductVariant | null): number {
+  return Number(variant?.price ?? product.price);
+}
+
+export function getCartItemPrice(item: CartItem): number {
+  return item.product ? getUnitPrice(item.product, item.variant) : 0;
+}
+
+export function getCartTotal(items: CartItem[]): number {
+  return items.reduce((sum, item) => sum + getCartItemPrice(item) * item.quantity, 0);
+}
+
+export interface VariantSelection {
+  variant: ProductVariant | null;
+  stock: number;
+  price: number;
+  imageUrl: string;
+  canAdd: boolean;
+  stockLabel: string;
+}
+
+// What a product view shows for the options chosen so far: the matching variant,
+// its stock, price and image, and whether it can be added to the cart.
+export function resolveSelection(
+  product: Product,
+  selection: Record<string, string>
+): VariantSelection {
+  const withVariants = hasVariants(product);
+  const options = sortOptions(product.options);
+  const variant = withVariants ? findVariant(product.variants ?? [], selection) : null;
+  const stock = withVariants ? (variant?.stock ?? product.stock) : product.stock;
+
+  let stockLabel = stock > 0 ? t('stock.inStock', { count: stock }) : t('stock.outOfStock');
+  const missing = options.filter((option) => !selection[option.name]);
+  if (withVariants && missing.length > 0) {
+    stockLabel = t('stock.choose', {
+      options: missing.map((option) => option.name.toLowerCase()).join(t('stock.optionSeparator')),
+    });
+  } else if (withVariants && !variant) {
+    stockLabel = t('stock.unavailableCombination');
+  }
+
+  return {
+    variant,
+    stock,
+    price: getUnitPrice(product, variant),
+    imageUrl: variant?.image_url || product.image_url,
+    canAdd: withVariants ? variant !== null && variant.stock > 0 : product.stock > 0,
+    stockLabel,
+  };
+}
@@ -0,0 +1,301 @@
+// Storefront strings, keyed by screen. `{name}` placeholders are filled in by t().
+// Every other locale has to provide the same keys.
+export const en = {
+  'common.continueShopping': 'Continue shopping',
+  'common.remove': 'Remove',
+  'common.productUnavailable': 'Product no longer available',
+
+  'header.search': 'Search products',
+  'header.admin': 'Admin',
+  'header.orders': 'My Orders',
+  'header.saved': 'Saved items',
+  'header.signIn': 'Sign In',
+  'header.signOut': 'Sign out',
+  'header.language': 'Language',
+  'header.currency': 'Currency',
+
+  'auth.signIn': 'Sign In',
+  'auth.createAccount': 'Create Account',
+  'auth.email': 'Email Address',
+  'auth.password': 'Password',
+  'auth.noAccount': "Don't have an account?",
+  'auth.haveAccount': 'Already have an account?',
+  'auth.createOne': 'Create one',
+  'auth.signInInstead': 'Sign in',
+  'auth.failed': 'Something went wrong',
+  'auth.confirmEmail': 'Check your email to confirm your account',
+
+  'categories.title': 'Categories',
+  'categories.all': 'All Products',
+
+  'filters.minPrice': 'Min price ({currency})',
+  'filters.maxPrice': 'Max price ({currency})',
+  'filters.inStock': 'In stock only',
+  'filters.sortBy': 'Sort by',
+  'filters.bestMatch': 'Best match',
+  'filters.newest': 'Newest',
+  'filters.priceAsc': 'Price: low to high',
+  'filters.priceDesc': 'Price: high to low',
+
+  'facets.price': 'Price',
+  'facets.priceUnder': 'Under {max}',
+  'facets.priceRange': '{min} to {max}',
+  'facets.priceFrom': '{min} and above',
+  'facets.anyPrice': 'Any price',
+  'facets.availability': 'Availability',
+
+  'store.resultsFor': 'Results for "{query}"',
+  'store.clearSearch': 'Clear search',
+  'store.noMatches': 'No products match "{query}"',
+  'store.noProducts': 'No products found in this category',
+  'store.countOne': '1 product',
+  'store.countMany': '{count} products',
+  'store.loadMore': 'Load more',
+  'store.loading': 'Loading...',
+
+  'product.outOfStock': 'Out of Stock',
+  'product.add': 'Add',
+  'product.loading': 'Loading product...',
+  'product.unavailable': 'This product is no longer available',
+  'product.home': 'Home',
+  'product.reviewsOne': '1 review',
+  'product.reviewsMany': '{count} reviews',
+  'product.addToCart': 'Add to Cart',
+  'product.inCart': '{count} in your cart',
+  'product.sku': 'SKU: {sku}',
+  'product.related': 'Related products',
+
+  'reviews.title': 'Reviews',
+  'reviews.average': '{rating} out of 5',
+  'reviews.none': 'No reviews yet',
+  'reviews.signIn': 'Sign in to review',
+  'reviews.write': 'Write a review',
+  'reviews.edit': 'Edit your review',
+  'reviews.rating': 'Rating',
+  'reviews.reviewTitle': 'Title',
+  'reviews.body': 'Review',
+  'reviews.displayName': 'Display name',
+  'reviews.chooseRating': 'Choose a rating',
+  'reviews.saving': 'Saving...',
+  'reviews.submit': 'Submit review',
+  'reviews.cancel': 'Cancel',
+  'reviews.saveFailed': 'Failed to save review',
+  'reviews.hidden': 'Your review has been hidden by our moderators',
+  'reviews.hiddenWithNote': 'Your review has been hidden by our moderators: {note}',
+  'reviews.delete': 'Delete',
+  'reviews.confirmDelete': 'Delete your review?',
+  'reviews.deleteFailed': 'Failed to delete review',
+  'reviews.report': 'Report',
+  'reviews.reportPrompt': 'Why are you reporting this review?',
+  'reviews.reported': 'Thanks, our team will take a look.',
+  'reviews.reportFailed': 'Failed to report review',
+  'reviews.yours': 'Your review',
+  'reviews.verified': 'Verified purchase',
+
+  'reviewSort.newest': 'Newest',
+  'reviewSort.highest': 'Highest rated',
+  'reviewSort.lowest': 'Lowest rated',
+
+  'stock.inStock': '{count} in stock',
+  'stock.outOfStock': 'Out of stock',
+  'stock.choose': 'Choose {options}',
+  'stock.optionSeparator': ' and ',
+  'stock.unavailableCombination': 'This combination is unavailable',
+
+  'cart.title': 'Shopping Cart',
+  'cart.offline': 'You are offline. Your cart changes will be saved when you reconnect.',
+  'cart.empty': 'Your cart is empty',
+  'cart.saveForLater': 'Save for later',
+  'cart.savedForLater': 'Saved for later ({count})',
+  'cart.quantity': 'Qty {quantity}',
+  'cart.moveToCart': 'Move to cart',
+  'cart.changed': 'Some items changed since you added them. Please review your cart.',
+  'cart.estimatedTotal': 'Estimated total:',
+  'cart.promoAtCheckout': 'Promo codes are applied at checkout',
+  'cart.checkout': 'Proceed to Checkout',
+  'cart.update_failed': 'Your cart could not be updated. Please try again.',
+  'cart.replay_failed': 'Some cart changes made while offline could not be saved.',
+
+  'cartChange.unavailable': 'No longer available',
+  'cartChange.soldOut': 'Sold out',
+  'cartChange.lowStock': 'Only {count} left',
+  'cartChange.priceIncreased': 'Price increased from {price}',
+  'cartChange.priceDropped': 'Price dropped from {price}',
+
+  'price.subtotal': 'Subtotal',
+  'price.discount': 'Discount',
+  'price.shipping': 'Shipping',
+  'price.shippingMethod': 'Shipping ({method})',
+  'price.calculatedAtCheckout': 'Calculated at checkout',
+  'price.free': 'Free',
+  'price.tax': 'Tax',
+  'price.total': 'Total:',
+
+  'checkout.title': 'Checkout',
+  'checkout.fullName': 'Full Name',
+  'checkout.email': 'Email Address',
+  'checkout.shippingAddress': 'Shipping Address',
+  'checkout.line1': 'Address line 1',
+  'checkout.line2': 'Address line 2 (optional)',
+  'checkout.city': 'City',
+  'checkout.region': 'State / Region',
+  'checkout.postalCode': 'Postal code',
+  'checkout.shippingUnavailable': 'We do not ship to this address yet',
+  'checkout.promoCode': 'Promo Code',
+  'checkout.applyCode': 'Apply',
+  'checkout.codeFailed': 'Could not apply this code',
+  'checkout.chargedInBase': 'You will be charged {amount}',
+  'checkout.processing': 'Processing payment...',
+  'checkout.placeOrder': 'Place Order',
+  'checkout.blockingChanges':
+    'Some items are sold out or no longer available in the quantity you chose. Please update your cart.',
+  'checkout.confirmPriceChanges': 'Some prices changed since you added them. Continue with the current prices?',
+  'checkout.insufficientStock': 'Some items are no longer available in the requested quantity:\n{lines}',
+  'checkout.stockLine': '{product}: {available} left, {requested} requested',
+  'checkout.invalidAddress': 'Please enter a complete shipping address',
+  'checkout.invalidCurrency': 'This currency is no longer available. Please choose another one.',
+  'checkout.failed': 'Failed to place order',
+  'checkout.paymentFailed': 'Payment failed',
+  'checkout.orderSaved': '{reason}. Your order has been saved and you can complete payment from the order page.',
+
+  'promotion.promotion_not_found': 'This code is not valid',
+  'promotion.promotion_not_started': 'This code is not active yet',
+  'promotion.promotion_expired': 'This code has expired',
+  'promotion.promotion_exhausted': 'This code has reached its usage limit',
+  'promotion.promotion_account_required': 'Sign in to use this code',
+  'promotion.promotion_already_used': 'You have already used this code',
+  'promotion.promotion_min_subtotal': 'Your cart does not reach the minimum for this code',
+  'promotion.promotion_not_applicable': 'This code does not apply to the items in your cart',
+  'promotion.minSubtotal': 'Spend at least {amount} to use this code',
+
+  'payment.title': 'Payment',
+  'payment.cardNumber': 'Card number',
+  'payment.expiry': 'MM/YY',
+  'payment.cvc': 'CVC',
+  'payment.invalidNumber': 'Enter a valid card number',
+  'payment.invalidExpiry': 'Enter the expiry date as MM/YY',
+  'payment.cardExpired': 'This card has expired',
+  'payment.invalidCvc': 'Enter the 3 or 4 digit security code',
+  'payment.card_declined': 'Your card was declined',
+  'payment.insufficient_funds': 'Your card has insufficient funds',
+  'payment.expired_card': 'Your card has expired',
+  'payment.processing_error': 'The card could not be processed, please try again',
+  'payment.invalid_payment_method': 'The card details are not valid',
+  'payment.order_not_payable': 'This order can no longer be paid',
+  'payment.payment_in_progress': 'A payment for this order is already being processed',
+  'payment.idempotency_key_reused': 'This payment attempt was already used for another order',
+  'payment.demo': 'Demo payment',
+  'payment.testCards': 'Test cards: {cards}',
+
+  'orders.title': 'My Orders',
+  'orders.loading': 'Loading orders...',
+  'orders.empty': "You haven't placed any orders yet",
+  'orders.startShopping': 'Start shopping',
+  'orders.number': 'Order #{number}',
+
+  'orderStatus.pending': 'Pending',
+  'orderStatus.paid': 'Paid',
+  'orderStatus.packed': 'Packed',
+  'orderStatus.shipped': 'Shipped',
+  'orderStatus.delivered': 'Delivered',
+  'orderStatus.partially_refunded': 'Partially refunded',
+  'orderStatus.cancelled': 'Cancelled',
+  'orderStatus.refunded': 'Refunded',
+
+  'orderDetail.loading': 'Loading order...',
+  'orderDetail.notFound': 'Order not found',
+  'orderDetail.backToOrders': 'Back to my orders',
+  'orderDetail.placed': 'Placed {date}',
+  'orderDetail.cancel': 'Cancel order',
+  'orderDetail.confirmCancel': 'Cancel this order?',
+  'orderDetail.cancelFailed': 'Failed to cancel order',
+  'orderDetail.cancelledByCustomer': 'Cancelled by customer',
+  'orderDetail.returnItems': 'Return items',
+  'orderDetail.status': 'Status',
+  'orderDetail.payment': 'Payment',
+  'orderDetail.amountRefunded': '{amount} refunded',
+  'orderDetail.pay': 'Pay {amount}',
+  'orderDetail.items': 'Items',
+  'orderDetail.returns': 'Returns',
+  'orderDetail.requested': 'Requested {date}',
+  'orderDetail.refunded': 'Refunded: {amount}',
+  'orderDetail.refundOnReceipt': 'Refund on receipt: {amount}',
+  'orderDetail.shipping': 'Shipping',
+  'orderDetail.chargedIn': 'Payments and refunds are in {currency}',
+
+  'paymentStatus.pending': 'Processing',
+  'paymentStatus.authorized': 'Authorized',
+  'paymentStatus.captured': 'Paid',
+  'paymentStatus.failed': 'Failed',
+  'paymentStatus.refunded': 'Refunded',
+
+  'returns.title': 'Return Items',
+  'returns.each': '{price} each',
+  'returns.reason': 'Reason',
+  'returns.details': 'Details',
+  'returns.estimate': 'Refund of up to {amount} once we receive the items. Shipping and tax are not refunded.',
+  'returns.submit': 'Request Return',
+  'returns.chooseItems': 'Choose at least one item to return',
+  'returns.failed': 'Failed to request return',
+  'returns.return_not_allowed': 'Items can only be returned once the order has been delivered',
+  'returns.reason_required': 'Tell us why you are returning these items',
+  'returns.invalid_return_quantity': 'Some of these items have already been returned',
+
+  'returnReason.changedMind': 'Changed my mind',
+  'returnReason.damaged': 'Arrived damaged',
+  'returnReason.notAsDescribed': 'Not as described',
+  'returnReason.wrongItem': 'Wrong item sent',
+  'returnReason.other': 'Other',
+
+  'returnStatus.requested': 'Requested',
+  'returnStatus.approved': 'Approved',
+  'returnStatus.rejected': 'Rejected',
+  'returnStatus.received': 'Received',
+  'returnStatus.refunded': 'Refunded',
+
+  'confirmation.thanks': 'Thank you for your order!',
+  'confirmation.number': 'Your order number is',
+  'confirmation.updates': "We'll send updates to {email}.",
+  'confirmation.viewOrder': 'View order',
+
+  'recovery.restoring': 'Restoring your cart...',
+  'recovery.restored': 'Your cart is back',
+  'recovery.nothingLeft': 'The items in this cart are no longer available',
+  'recovery.viewCart': 'View cart',
+  'recovery.invalid_signature': 'This link is not valid',
+  'recovery.recovery_not_found': 'This cart could not be found',
+  'recovery.recovery_expired': 'This link has expired',
+  'recovery.failed': 'Your cart could not be restored',
+
+  'saved.wishlist': 'Wishlist',
+  'saved.saved_for_later': 'Saved for later',
+  'saved.loading': 'Loading saved items...',
+  'saved.empty': "You haven't saved any products yet",
+  'saved.startShopping': 'Start shopping',
+  'saved.quantity': 'Quantity: {quantity}',
+  'saved.outOfStock': 'Out of stock',
+  'saved.chooseOptions': 'Choose options',
+  'saved.saveFailed': 'Failed to save item for later',
+  'saved.moveFailed': 'Failed to move item to cart',
+  'saved.removeFailed': 'Failed to remove saved item',
+  'saved.variant_required': 'Choose options for this product before adding it to your cart',
+  'saved.product_unavailable': 'This product is no longer available',
+  'saved.backInStock': 'Back in stock',
+  'saved.priceDropped': 'Price dropped from {from} to {to}',
+  'saved.alertsTitle': 'Updates on your saved items',
+  'saved.dismiss': 'Dismiss',
+  'saved.viewAll': 'View saved items',
+
+  'wishlist.add': 'Add to wishlist',
+  'wishlist.remove': 'Remove from wishlist',
+  'wishlist.failed': 'Failed to update your wishlist',
+
+  'mockCard.succeeded': 'Succeeds',
+  'mockCard.card_declined': 'Declined',
+  'mockCard.insufficient_funds': 'Insufficient funds',
+  'mockCard.expired_card': 'Expired',
+  'mockCard.processing_error': 'Processing error',
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
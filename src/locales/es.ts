@@ -0,0 +1,298 @@
+import { Messages } from './en';
+
+export const es: Messages = {
+  'common.continueShopping': 'Seguir comprando',
+  'common.remove': 'Eliminar',
+  'common.productUnavailable': 'Producto no disponible',
+
+  'header.search': 'Buscar productos',
+  'header.admin': 'Administración',
+  'header.orders': 'Mis pedidos',
+  'header.saved': 'Artículos guardados',
+  'header.signIn': 'Iniciar sesión',
+  'header.signOut': 'Cerrar sesión',
+  'header.language': 'Idioma',
+  'header.currency': 'Moneda',
+
+  'auth.signIn': 'Iniciar sesión',
+  'auth.createAccount': 'Crear cuenta',
+  'auth.email': 'Correo electrónico',
+  'auth.password': 'Contraseña',
+  'auth.noAccount': '¿No tienes cuenta?',
+  'auth.haveAccount': '¿Ya tienes cuenta?',
+  'auth.createOne': 'Crea una',
+  'auth.signInInstead': 'Inicia sesión',
+  'auth.failed': 'Algo ha salido mal',
+  'auth.confirmEmail': 'Revisa tu correo para confirmar tu cuenta',
+
+  'categories.title': 'Categorías',
+  'categories.all': 'Todos los productos',
+
+  'filters.minPrice': 'Precio mín. ({currency})',
+  'filters.maxPrice': 'Precio máx. ({currency})',
+  'filters.inStock': 'Solo con existencias',
+  'filters.sortBy': 'Ordenar por',
+  'filters.bestMatch': 'Más relevantes',
+  'filters.newest': 'Más recientes',
+  'filters.priceAsc': 'Precio: de menor a mayor',
+  'filters.priceDesc': 'Precio: de mayor a menor',
+
+  'facets.price': 'Precio',
+  'facets.priceUnder': 'Menos de {max}',
+  'facets.priceRange': 'De {min} a {max}',
+  'facets.priceFrom': '{min} o más',
+  'facets.anyPrice': 'Cualquier precio',
+  'facets.availability': 'Disponibilidad',
+
+  'store.resultsFor': 'Resultados para "{query}"',
+  'store.clearSearch': 'Borrar búsqueda',
+  'store.noMatches': 'Ningún producto coincide con "{query}"',
+  'store.noProducts': 'No hay productos en esta categoría',
+  'store.countOne': '1 producto',
+  'store.countMany': '{count} productos',
+  'store.loadMore': 'Cargar más',
+  'store.loading': 'Cargando...',
+
+  'product.outOfStock': 'Agotado',
+  'product.add': 'Añadir',
+  'product.loading': 'Cargando producto...',
+  'product.unavailable': 'Este producto ya no está disponible',
+  'product.home': 'Inicio',
+  'product.reviewsOne': '1 reseña',
+  'product.reviewsMany': '{count} reseñas',
+  'product.addToCart': 'Añadir al carrito',
+  'product.inCart': '{count} en tu carrito',
+  'product.sku': 'SKU: {sku}',
+  'product.related': 'Productos relacionados',
+
+  'reviews.title': 'Opiniones',
+  'reviews.average': '{rating} de 5',
+  'reviews.none': 'Todavía no hay opiniones',
+  'reviews.signIn': 'Inicia sesión para opinar',
+  'reviews.write': 'Escribir una opinión',
+  'reviews.edit': 'Editar tu opinión',
+  'reviews.rating': 'Valoración',
+  'reviews.reviewTitle': 'Título',
+  'reviews.body': 'Opinión',
+  'reviews.displayName': 'Nombre visible',
+  'reviews.chooseRating': 'Elige una valoración',
+  'reviews.saving': 'Guardando...',
+  'reviews.submit': 'Enviar opinión',
+  'reviews.cancel': 'Cancelar',
+  'reviews.saveFailed': 'No se pudo guardar la opinión',
+  'reviews.hidden': 'Nuestros moderadores han ocultado tu opinión',
+  'reviews.hiddenWithNote': 'Nuestros moderadores han ocultado tu opinión: {note}',
+  'reviews.delete': 'Eliminar',
+  'reviews.confirmDelete': '¿Eliminar tu opinión?',
+  'reviews.deleteFailed': 'No se pudo eliminar la opinión',
+  'reviews.report': 'Denunciar',
+  'reviews.reportPrompt': '¿Por qué denuncias esta opinión?',
+  'reviews.reported': 'Gracias, nuestro equipo la revisará.',
+  'reviews.reportFailed': 'No se pudo denunciar la opinión',
+  'reviews.yours': 'Tu opinión',
+  'reviews.verified': 'Compra verificada',
+
+  'reviewSort.newest': 'Más recientes',
+  'reviewSort.highest': 'Mejor valoradas',
+  'reviewSort.lowest': 'Peor valoradas',
+
+  'stock.inStock': '{count} disponibles',
+  'stock.outOfStock': 'Agotado',
+  'stock.choose': 'Elige {options}',
+  'stock.optionSeparator': ' y ',
+  'stock.unavailableCombination': 'Esta combinación no está disponible',
+
+  'cart.title': 'Carrito',
+  'cart.offline': 'Estás sin conexión. Los cambios del carrito se guardarán al volver a conectarte.',
+  'cart.empty': 'Tu carrito está vacío',
+  'cart.saveForLater': 'Guardar para después',
+  'cart.savedForLater': 'Guardado para después ({count})',
+  'cart.quantity': 'Cant. {quantity}',
+  'cart.moveToCart': 'Mover al carrito',
+  'cart.changed': 'Algunos artículos han cambiado desde que los añadiste. Revisa tu carrito.',
+  'cart.estimatedTotal': 'Total estimado:',
+  'cart.promoAtCheckout': 'Los códigos promocionales se aplican al pagar',
+  'cart.checkout': 'Tramitar pedido',
+  'cart.update_failed': 'No se pudo actualizar tu carrito. Inténtalo de nuevo.',
+  'cart.replay_failed': 'Algunos cambios hechos en el carrito sin conexión no se pudieron guardar.',
+
+  'cartChange.unavailable': 'Ya no está disponible',
+  'cartChange.soldOut': 'Agotado',
+  'cartChange.lowStock': 'Solo quedan {count}',
+  'cartChange.priceIncreased': 'El precio ha subido desde {price}',
+  'cartChange.priceDropped': 'El precio ha bajado desde {price}',
+
+  'price.subtotal': 'Subtotal',
+  'price.discount': 'Descuento',
+  'price.shipping': 'Envío',
+  'price.shippingMethod': 'Envío ({method})',
+  'price.calculatedAtCheckout': 'Se calcula al pagar',
+  'price.free': 'Gratis',
+  'price.tax': 'Impuestos',
+  'price.total': 'Total:',
+
+  'checkout.title': 'Pago',
+  'checkout.fullName': 'Nombre completo',
+  'checkout.email': 'Correo electrónico',
+  'checkout.shippingAddress': 'Dirección de envío',
+  'checkout.line1': 'Dirección, línea 1',
+  'checkout.line2': 'Dirección, línea 2 (opcional)',
+  'checkout.city': 'Ciudad',
+  'checkout.region': 'Provincia / Región',
+  'checkout.postalCode': 'Código postal',
+  'checkout.shippingUnavailable': 'Todavía no enviamos a esta dirección',
+  'checkout.promoCode': 'Código promocional',
+  'checkout.applyCode': 'Aplicar',
+  'checkout.codeFailed': 'No se ha podido aplicar este código',
+  'checkout.chargedInBase': 'Se te cobrarán {amount}',
+  'checkout.processing': 'Procesando el pago...',
+  'checkout.placeOrder': 'Realizar pedido',
+  'checkout.blockingChanges':
+    'Algunos artículos están agotados o ya no están disponibles en la cantidad elegida. Actualiza tu carrito.',
+  'checkout.confirmPriceChanges': 'Algunos precios han cambiado desde que los añadiste. ¿Continuar con los precios actuales?',
+  'checkout.insufficientStock': 'Algunos artículos ya no están disponibles en la cantidad solicitada:\n{lines}',
+  'checkout.stockLine': '{product}: quedan {available}, pediste {requested}',
+  'checkout.invalidAddress': 'Introduce una dirección de envío completa',
+  'checkout.invalidCurrency': 'Esta moneda ya no está disponible. Elige otra.',
+  'checkout.failed': 'No se ha podido realizar el pedido',
+  'checkout.paymentFailed': 'El pago ha fallado',
+  'checkout.orderSaved': '{reason}. Hemos guardado tu pedido y puedes completar el pago desde la página del pedido.',
+
+  'promotion.promotion_not_found': 'Este código no es válido',
+  'promotion.promotion_not_started': 'Este código todavía no está activo',
+  'promotion.promotion_expired': 'Este código ha caducado',
+  'promotion.promotion_exhausted': 'Este código ha alcanzado su límite de usos',
+  'promotion.promotion_account_required': 'Inicia sesión para usar este código',
+  'promotion.promotion_already_used': 'Ya has usado este código',
+  'promotion.promotion_min_subtotal': 'Tu carrito no alcanza el mínimo de este código',
+  'promotion.promotion_not_applicable': 'Este código no se aplica a los artículos de tu carrito',
+  'promotion.minSubtotal': 'Gasta al menos {amount} para usar este código',
+
+  'payment.title': 'Pago',
+  'payment.cardNumber': 'Número de tarjeta',
+  'payment.expiry': 'MM/AA',
+  'payment.cvc': 'CVC',
+  'payment.invalidNumber': 'Introduce un número de tarjeta válido',
+  'payment.invalidExpiry': 'Introduce la fecha de caducidad como MM/AA',
+  'payment.cardExpired': 'Esta tarjeta ha caducado',
+  'payment.invalidCvc': 'Introduce el código de seguridad de 3 o 4 cifras',
+  'payment.card_declined': 'Tu tarjeta ha sido rechazada',
+  'payment.insufficient_funds': 'Tu tarjeta no tiene fondos suficientes',
+  'payment.expired_card': 'Tu tarjeta ha caducado',
+  'payment.processing_error': 'No se pudo procesar la tarjeta, inténtalo de nuevo',
+  'payment.invalid_payment_method': 'Los datos de la tarjeta no son válidos',
+  'payment.order_not_payable': 'Este pedido ya no se puede pagar',
+  'payment.payment_in_progress': 'Ya se está procesando un pago para este pedido',
+  'payment.idempotency_key_reused': 'Este intento de pago ya se usó para otro pedido',
+  'payment.demo': 'Pago de demostración',
+  'payment.testCards': 'Tarjetas de prueba: {cards}',
+
+  'orders.title': 'Mis pedidos',
+  'orders.loading': 'Cargando pedidos...',
+  'orders.empty': 'Todavía no has hecho ningún pedido',
+  'orders.startShopping': 'Empezar a comprar',
+  'orders.number': 'Pedido n.º {number}',
+
+  'orderStatus.pending': 'Pendiente',
+  'orderStatus.paid': 'Pagado',
+  'orderStatus.packed': 'Empaquetado',
+  'orderStatus.shipped': 'Enviado',
+  'orderStatus.delivered': 'Entregado',
+  'orderStatus.partially_refunded': 'Reembolsado en parte',
+  'orderStatus.cancelled': 'Cancelado',
+  'orderStatus.refunded': 'Reembolsado',
+
+  'orderDetail.loading': 'Cargando pedido...',
+  'orderDetail.notFound': 'Pedido no encontrado',
+  'orderDetail.backToOrders': 'Volver a mis pedidos',
+  'orderDetail.placed': 'Realizado el {date}',
+  'orderDetail.cancel': 'Cancelar pedido',
+  'orderDetail.confirmCancel': '¿Cancelar este pedido?',
+  'orderDetail.cancelFailed': 'No se pudo cancelar el pedido',
+  'orderDetail.cancelledByCustomer': 'Cancelado por el cliente',
+  'orderDetail.returnItems': 'Devolver artículos',
+  'orderDetail.status': 'Estado',
+  'orderDetail.payment': 'Pago',
+  'orderDetail.amountRefunded': '{amount} reembolsado',
+  'orderDetail.pay': 'Pagar {amount}',
+  'orderDetail.items': 'Artículos',
+  'orderDetail.returns': 'Devoluciones',
+  'orderDetail.requested': 'Solicitada el {date}',
+  'orderDetail.refunded': 'Reembolsado: {amount}',
+  'orderDetail.refundOnReceipt': 'Reembolso al recibirlos: {amount}',
+  'orderDetail.shipping': 'Envío',
+  'orderDetail.chargedIn': 'Los pagos y reembolsos se hacen en {currency}',
+
+  'paymentStatus.pending': 'En proceso',
+  'paymentStatus.authorized': 'Autorizado',
+  'paymentStatus.captured': 'Pagado',
+  'paymentStatus.failed': 'Fallido',
+  'paymentStatus.refunded': 'Reembolsado',
+
+  'returns.title': 'Devolver artículos',
+  'returns.each': '{price} cada uno',
+  'returns.reason': 'Motivo',
+  'returns.details': 'Detalles',
+  'returns.estimate': 'Reembolso de hasta {amount} cuando recibamos los artículos. El envío y los impuestos no se reembolsan.',
+  'returns.submit': 'Solicitar devolución',
+  'returns.chooseItems': 'Elige al menos un artículo para devolver',
+  'returns.failed': 'No se pudo solicitar la devolución',
+  'returns.return_not_allowed': 'Los artículos solo se pueden devolver una vez entregado el pedido',
+  'returns.reason_required': 'Dinos por qué devuelves estos artículos',
+  'returns.invalid_return_quantity': 'Algunos de estos artículos ya se han devuelto',
+
+  'returnReason.changedMind': 'He cambiado de opinión',
+  'returnReason.damaged': 'Llegó dañado',
+  'returnReason.notAsDescribed': 'No es como se describía',
+  'returnReason.wrongItem': 'Me enviaron otro artículo',
+  'returnReason.other': 'Otro',
+
+  'returnStatus.requested': 'Solicitada',
+  'returnStatus.approved': 'Aprobada',
+  'returnStatus.rejected': 'Rechazada',
+  'returnStatus.received': 'Recibida',
+  'returnStatus.refunded': 'Reembolsada',
+
+  'confirmation.thanks': '¡Gracias por tu pedido!',
+  'confirmation.number': 'Tu número de pedido es',
+  'confirmation.updates': 'Te enviaremos las novedades a {email}.',
+  'confirmation.viewOrder': 'Ver pedido',
+
+  'recovery.restoring': 'Recuperando tu carrito...',
+  'recovery.restored': 'Tu carrito ha vuelto',
+  'recovery.nothingLeft': 'Los artículos de este carrito ya no están disponibles',
+  'recovery.viewCart': 'Ver carrito',
+  'recovery.invalid_signature': 'Este enlace no es válido',
+  'recovery.recovery_not_found': 'No hemos encontrado este carrito',
+  'recovery.recovery_expired': 'Este enlace ha caducado',
+  'recovery.failed': 'No se ha podido recuperar tu carrito',
+
+  'saved.wishlist': 'Lista de deseos',
+  'saved.saved_for_later': 'Guardado para más tarde',
+  'saved.loading': 'Cargando artículos guardados...',
+  'saved.empty': 'Aún no has guardado ningún producto',
+  'saved.startShopping': 'Empezar a comprar',
+  'saved.quantity': 'Cantidad: {quantity}',
+  'saved.outOfStock': 'Agotado',
+  'saved.chooseOptions': 'Elegir opciones',
+  'saved.saveFailed': 'No se pudo guardar el artículo para más tarde',
+  'saved.moveFailed': 'No se pudo mover el artículo al carrito',
+  'saved.removeFailed': 'No se pudo eliminar el artículo guardado',
+  'saved.variant_required': 'Elige las opciones de este producto antes de añadirlo al carrito',
+  'saved.product_unavailable': 'Este producto ya no está disponible',
+  'saved.backInStock': 'De nuevo disponible',
+  'saved.priceDropped': 'El precio ha bajado de {from} a {to}',
+  'saved.alertsTitle': 'Novedades de tus artículos guardados',
+  'saved.dismiss': 'Descartar',
+  'saved.viewAll': 'Ver artículos guardados',
+
+  'wishlist.add': 'Añadir a la lista de deseos',
+  'wishlist.remove': 'Quitar de la lista de deseos',
+  'wishlist.failed': 'No se pudo actualizar tu lista de deseos',
+
+  'mockCard.succeeded': 'Se aprueba',
+  'mockCard.card_declined': 'Rechazada',
+  'mockCard.insufficient_funds': 'Fondos insuficientes',
+  'mockCard.expired_card': 'Caducada',
+  'mockCard.processing_error': 'Error de procesamiento',
+};
@@ -0,0 +1,89 @@
+import { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { ShoppingBag } from 'lucide-react';
+import { CartRecoveryError, restoreCart } from '../api/cartRecovery';
+import { loadCart } from '../lib/cartStore';
+import { t } from '../lib/localeStore';
+
+interface CartRecoveryPageProps {
+  onOpenCart: () => void;
+}
+
+type RecoveryState =
+  | { status: 'restoring' }
+  | { status: 'restored'; lines: number }
+  | { status: 'failed'; message: string };
+
+// Landing page for the link in an abandoned cart email.
+export function CartRecoveryPage({ onOpenCart }: CartRecoveryPageProps) {
+  const [searchParams] = useSearchParams();
+  const recoveryId = searchParams.get('id');
+  const signature = searchParams.get('sig');
+  const [state, setState] = useState<RecoveryState>({ status: 'restoring' });
+
+  useEffect(() => {
+    if (!recoveryId || !signature) {
+      setState({ status: 'failed', message: t('recovery.invalid_signature') });
+      return;
+    }
+
+    let cancelled = false;
+    restoreCart(recoveryId, signature)
+      .then(async (lines) => {
+        await loadCart();
+        if (!cancelled) setState({ status: 'restored', lines });
+      })
+      .catch((error) => {
+        console.error('Error restoring cart:', error);
+        if (cancelled) return;
+        setState({
+          status: 'failed',
+          message: error instanceof CartRecoveryError ? t(`recovery.${error.code}`) : t('recovery.failed'),
+        });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [recoveryId, signature]);
+
+  return (
+    <div className="max-w-lg mx-auto bg-white rounded-lg shadow-md p-8 text-center">
+      <ShoppingBag size={56} className="mx-auto mb-4 text-blue-600" />
+      {state.status === 'restoring' && <p className="text-gray-600">{t('recovery.restoring')}</p>}
+      {state.status === 'restored' && (
+        <>
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">
+            {state.lines > 0 ? t('recovery.restored') : t('recovery.nothingLeft')}
+          </h2>
+          <div className="flex flex-col sm:flex-row gap-3 justify-center mt-6">
+            {state.lines > 0 && (
+              <button
+                onClick={onOpenCart}
+                className="bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors font-semibold"
+              >
+                {t('recovery.viewCart')}
+              </button>
+            )}
+            <Link
+              to="/"
+              className="bg-gray-100 text-gray-700 px-6 py-3 rounded-lg hover:bg-gray-200 transition-colors font-semibold"
+            >
+              {t('common.continueShopping')}
+            </Link>
+          </div>
+        </>
+      )}
+      {state.status === 'failed' && (
+        <>
+          <h2 className="text-2xl font-bold text-gray-900 mb-6">{state.message}</h2>
+          <Link
+            to="/"
+            className="inline-block bg-gray-100 text-gray-700 px-6 py-3 rounded-lg hover:bg-gray-200 transition-colors font-semibold"
+          >
+            {t('common.continueShopping')}
+          </Link>
+        </>
+      )}
+    </div>
+  );
+}
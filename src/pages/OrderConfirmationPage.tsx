@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { CheckCircle } from 'lucide-react';
+import { getOrderById } from '../api/orders';
+import { Order } from '../types';
+import { formatOrderNumber } from '../lib/format';
+import { t } from '../lib/localeStore';
+
+export function OrderConfirmationPage() {
+  const { orderId } = useParams<{ orderId: string }>();
+  const [order, setOrder] = useState<Order | null>(null);
+
+  useEffect(() => {
+    if (!orderId) return;
+    getOrderById(orderId)
+      .then(setOrder)
+      .catch((error) => console.error('Error loading order:', error));
+  }, [orderId]);
+
+  return (
+    <div className="max-w-lg mx-auto bg-white rounded-lg shadow-md p-8 text-center">
+      <CheckCircle size={56} className="mx-auto mb-4 text-green-600" />
+      <h2 className="text-2xl font-bold text-gray-900 mb-2">{t('confirmation.thanks')}</h2>
+      {orderId && (
+        <p className="text-gray-600 mb-1">
+          {t('confirmation.number')}{' '}
+          <span className="font-semibold text-gray-900">#{formatOrderNumber(orderId)}</span>
+        </p>
+      )}
+      {order && (
+        <p className="text-gray-600 mb-6">
+          {t('confirmation.updates', { email: order.customer_email })}
+        </p>
+      )}
+      <div className="flex flex-col sm:flex-row gap-3 justify-center mt-6">
+        <Link
+          to={`/orders/${orderId}`}
+          className="bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors font-semibold"
+        >
+          {t('confirmation.viewOrder')}
+        </Link>
+        <Link
+          to="/"
+          className="bg-gray-100 text-gray-700 px-6 py-3 rounded-lg hover:bg-gray-200 transition-colors font-semibold"
+        >
+          {t('common.continueShopping')}
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,335 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft } from 'lucide-react';
+import {
+  cancelOrder,
+  getOrderById,
+  getOrderDiscounts,
+  getOrderItems,
+  getOrderStatusHistory,
+} from '../api/orders';
+import { formatPaymentFailure, getOrderPayments, PaymentError, payForOrder } from '../api/payments';
+import { getOrderReturns, requestReturn, ReturnLineInput } from '../api/returns';
+import { Order, OrderDiscount, OrderItem, OrderStatusHistory, Payment, ReturnRequest } from '../types';
+import { OrderStatusBadge } from '../components/OrderStatusBadge';
+import { OrderStatusTimeline } from '../components/OrderStatusTimeline';
+import { PriceBreakdown } from '../components/PriceBreakdown';
+import { CardPaymentFields } from '../components/CardPaymentFields';
+import { ReturnRequestModal } from '../components/ReturnRequestModal';
+import { formatDate, formatOrderNumber, formatTaxLabel } from '../lib/format';
+import { formatBasePrice, formatOrderPrice, t } from '../lib/localeStore';
+import { BASE_CURRENCY } from '../lib/money';
+import { CardDetails, EMPTY_CARD, tokenizeCard, validateCard } from '../lib/payments';
+import {
+  canRequestReturn,
+  formatReturnStatus,
+  getReturnableQuantities,
+  RETURN_STATUS_STYLES,
+} from '../lib/returns';
+
+function formatPaymentStatus(status: Payment['status']): string {
+  return t(`paymentStatus.${status}`);
+}
+
+export function OrderDetailPage() {
+  const { orderId } = useParams<{ orderId: string }>();
+  const [order, setOrder] = useState<Order | null>(null);
+  const [items, setItems] = useState<OrderItem[]>([]);
+  const [discounts, setDiscounts] = useState<OrderDiscount[]>([]);
+  const [history, setHistory] = useState<OrderStatusHistory[]>([]);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [returns, setReturns] = useState<ReturnRequest[]>([]);
+  const [isReturnOpen, setIsReturnOpen] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [card, setCard] = useState<CardDetails>(EMPTY_CARD);
+  const [paymentError, setPaymentError] = useState<string | null>(null);
+  const [paying, setPaying] = useState(false);
+
+  const loadOrder = useCallback(async () => {
+    if (!orderId) return;
+    try {
+      const [orderData, itemsData, discountsData, historyData, paymentsData, returnsData] =
+        await Promise.all([
+          getOrderById(orderId),
+          getOrderItems(orderId),
+          getOrderDiscounts(orderId),
+          getOrderStatusHistory(orderId),
+          getOrderPayments(orderId),
+          getOrderReturns(orderId),
+        ]);
+      setOrder(orderData);
+      setItems(itemsData);
+      setDiscounts(discountsData);
+      setHistory(historyData);
+      setPayments(paymentsData);
+      setReturns(returnsData);
+    } catch (error) {
+      console.error('Error loading order:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [orderId]);
+
+  useEffect(() => {
+    loadOrder();
+  }, [loadOrder]);
+
+  async function handleCancel() {
+    if (!order || !confirm(t('orderDetail.confirmCancel'))) return;
+    try {
+      await cancelOrder(order.id, t('orderDetail.cancelledByCustomer'));
+      await loadOrder();
+    } catch (error) {
+      console.error('Error cancelling order:', error);
+      alert(t('orderDetail.cancelFailed'));
+    }
+  }
+
+  async function handleRequestReturn(lines: ReturnLineInput[], reason: string) {
+    if (!order) return;
+    await requestReturn(order.id, lines, reason);
+    setIsReturnOpen(false);
+    await loadOrder();
+  }
+
+  async function handlePay(e: React.FormEvent) {
+    e.preventDefault();
+    if (!order || paying) return;
+
+    const invalid = validateCard(card);
+    setPaymentError(invalid);
+    if (invalid) return;
+
+    setPaying(true);
+    try {
+      await payForOrder(order.id, await tokenizeCard(card), crypto.randomUUID());
+      setCard(EMPTY_CARD);
+    } catch (error) {
+      console.error('Error paying for order:', error);
+      setPaymentError(error instanceof PaymentError ? error.message : t('checkout.paymentFailed'));
+    } finally {
+      setPaying(false);
+      await loadOrder();
+    }
+  }
+
+  if (loading) {
+    return <p className="text-center py-12 text-gray-600">{t('orderDetail.loading')}</p>;
+  }
+
+  const returnable = getReturnableQuantities(items, returns);
+  // Items and totals are shown in the order's currency; cards are charged and
+  // refunded in the base one.
+  const chargedInBase = !!order && order.currency !== BASE_CURRENCY;
+  const chargedInNote = chargedInBase && (
+    <p className="text-sm text-gray-500 mb-4">{t('orderDetail.chargedIn', { currency: BASE_CURRENCY })}</p>
+  );
+  const canReturn =
+    !!order && canRequestReturn(order.status) && Object.values(returnable).some((quantity) => quantity > 0);
+
+  if (!order) {
+    return (
+      <div className="text-center py-12 text-gray-500">
+        <p className="mb-4">{t('orderDetail.notFound')}</p>
+        <Link to="/orders" className="text-blue-600 hover:text-blue-700 font-medium">
+          {t('orderDetail.backToOrders')}
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Link
+        to="/orders"
+        className="inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+      >
+        <ArrowLeft size={16} />
+        {t('orders.title')}
+      </Link>
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">
+            {t('orders.number', { number: formatOrderNumber(order.id) })}
+          </h2>
+          <p className="text-sm text-gray-500">
+            {t('orderDetail.placed', { date: formatDate(order.created_at) })}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <OrderStatusBadge status={order.status} />
+          {order.status === 'pending' && (
+            <button
+              onClick={handleCancel}
+              className="text-sm text-red-600 hover:text-red-700 font-medium"
+            >
+              {t('orderDetail.cancel')}
+            </button>
+          )}
+          {canReturn && (
+            <button
+              onClick={() => setIsReturnOpen(true)}
+              className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+            >
+              {t('orderDetail.returnItems')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h3 className="text-lg font-semibold mb-4">{t('orderDetail.status')}</h3>
+        <OrderStatusTimeline status={order.status} history={history} />
+      </div>
+
+      {(payments.length > 0 || order.status === 'pending') && (
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h3 className="text-lg font-semibold mb-4">{t('orderDetail.payment')}</h3>
+          {chargedInNote}
+          {payments.length > 0 && (
+            <div className="divide-y mb-4">
+              {payments.map((payment) => (
+                <div key={payment.id} className="flex items-center justify-between py-2 text-sm">
+                  <div>
+                    <p className="text-gray-900">{formatPaymentStatus(payment.status)}</p>
+                    {payment.failure_code && (
+                      <p className="text-red-600">{formatPaymentFailure(payment.failure_code)}</p>
+                    )}
+                  </div>
+                  <div className="text-right">
+                    <p className="font-medium text-gray-900">{formatBasePrice(payment.amount)}</p>
+                    {Number(payment.refunded_amount) > 0 && payment.status !== 'refunded' && (
+                      <p className="text-gray-500">
+                        {t('orderDetail.amountRefunded', {
+                          amount: formatBasePrice(payment.refunded_amount),
+                        })}
+                      </p>
+                    )}
+                    <p className="text-gray-500">{formatDate(payment.created_at)}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          {order.status === 'pending' && !payments.some((payment) => payment.status !== 'failed') && (
+            <form onSubmit={handlePay} className="space-y-4 max-w-md">
+              <CardPaymentFields card={card} onChange={setCard} error={paymentError} />
+              <button
+                type="submit"
+                disabled={paying}
+                className="w-full bg-blue-600 text-white py-3 rounded-lg hover:bg-blue-700 transition-colors font-semibold disabled:bg-gray-400"
+              >
+                {paying
+                  ? t('checkout.processing')
+                  : t('orderDetail.pay', { amount: formatBasePrice(order.total_amount) })}
+              </button>
+            </form>
+          )}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h3 className="text-lg font-semibold mb-4">{t('orderDetail.items')}</h3>
+        <div className="divide-y">
+          {items.map((item) => (
+            <div key={item.id} className="flex items-center gap-4 py-3">
+              {item.product && (
+                <img
+                  src={item.product.image_url}
+                  alt={item.product.name}
+                  className="w-16 h-16 object-cover rounded"
+                />
+              )}
+              <div className="flex-1">
+                <p className="font-medium text-gray-900">
+                  {item.product?.name ?? t('common.productUnavailable')}
+                </p>
+                {item.variant_label && (
+                  <p className="text-sm text-gray-500">{item.variant_label}</p>
+                )}
+                <p className="text-sm text-gray-500">
+                  {item.quantity} × {formatOrderPrice(item.price, order)}
+                </p>
+              </div>
+              <span className="font-semibold text-gray-900">
+                {formatOrderPrice(Number(item.price) * item.quantity, order)}
+              </span>
+            </div>
+          ))}
+        </div>
+        <div className="border-t pt-4 mt-2">
+          <PriceBreakdown
+            subtotal={order.subtotal}
+            discounts={discounts}
+            shipping={order.shipping_amount}
+            shippingMethod={order.shipping_method}
+            freeShipping={order.free_shipping}
+            tax={order.tax_amount}
+            taxLabel={formatTaxLabel(order.tax_name, order.tax_rate)}
+            total={order.total_amount}
+            formatAmount={(amount) => formatOrderPrice(amount, order)}
+          />
+        </div>
+      </div>
+
+      {returns.length > 0 && (
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h3 className="text-lg font-semibold mb-4">{t('orderDetail.returns')}</h3>
+          {chargedInNote}
+          <div className="divide-y">
+            {returns.map((request) => (
+              <div key={request.id} className="py-3 text-sm">
+                <div className="flex items-center justify-between gap-4 mb-1">
+                  <span className="text-gray-500">
+                    {t('orderDetail.requested', { date: formatDate(request.created_at) })}
+                  </span>
+                  <span
+                    className={`inline-block px-3 py-1 rounded-full text-xs font-semibold ${
+                      RETURN_STATUS_STYLES[request.status]
+                    }`}
+                  >
+                    {formatReturnStatus(request.status)}
+                  </span>
+                </div>
+                <ul className="text-gray-900">
+                  {(request.items ?? []).map((line) => (
+                    <li key={line.id}>
+                      {line.quantity} × {line.order_item?.product?.name ?? t('common.productUnavailable')}
+                      {line.order_item?.variant_label && ` (${line.order_item.variant_label})`}
+                    </li>
+                  ))}
+                </ul>
+                <p className="text-gray-500">{request.reason}</p>
+                {request.staff_note && <p className="text-gray-700 mt-1">{request.staff_note}</p>}
+                {request.refund_amount !== null && request.status !== 'rejected' && (
+                  <p className="text-gray-700 mt-1">
+                    {request.status === 'refunded'
+                      ? t('orderDetail.refunded', { amount: formatBasePrice(request.refund_amount) })
+                      : t('orderDetail.refundOnReceipt', { amount: formatBasePrice(request.refund_amount) })}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h3 className="text-lg font-semibold mb-2">{t('orderDetail.shipping')}</h3>
+        <p className="text-gray-900">{order.customer_name}</p>
+        <p className="text-gray-600">{order.customer_email}</p>
+        <p className="text-gray-600 whitespace-pre-line">{order.shipping_address}</p>
+      </div>
+
+      {isReturnOpen && (
+        <ReturnRequestModal
+          items={items}
+          returnable={returnable}
+          onClose={() => setIsReturnOpen(false)}
+          onSubmit={handleRequestReturn}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Package } from 'lucide-react';
+import { getOrders } from '../api/orders';
+import { Order } from '../types';
+import { OrderStatusBadge } from '../components/OrderStatusBadge';
+import { formatDate, formatOrderNumber } from '../lib/format';
+import { formatOrderPrice, t } from '../lib/localeStore';
+
+export function OrdersPage() {
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    getOrders()
+      .then(setOrders)
+      .catch((error) => console.error('Error loading orders:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  if (loading) {
+    return <p className="text-center py-12 text-gray-600">{t('orders.loading')}</p>;
+  }
+
+  return (
+    <div>
+      <h2 className="text-2xl font-bold text-gray-900 mb-6">{t('orders.title')}</h2>
+
+      {orders.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">
+          <Package size={48} className="mx-auto mb-4 opacity-50" />
+          <p className="mb-4">{t('orders.empty')}</p>
+          <Link to="/" className="text-blue-600 hover:text-blue-700 font-medium">
+            {t('orders.startShopping')}
+          </Link>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-md divide-y">
+          {orders.map((order) => (
+            <Link
+              key={order.id}
+              to={`/orders/${order.id}`}
+              className="flex items-center justify-between gap-4 p-4 hover:bg-gray-50 transition-colors"
+            >
+              <div>
+                <p className="font-semibold text-gray-900">
+                  {t('orders.number', { number: formatOrderNumber(order.id) })}
+                </p>
+                <p className="text-sm text-gray-500">{formatDate(order.created_at)}</p>
+              </div>
+              <div className="flex items-center gap-4">
+                <OrderStatusBadge status={order.status} />
+                <span className="font-bold text-gray-900 w-24 text-right">
+                  {formatOrderPrice(order.total_amount, order)}
+                </span>
+              </div>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
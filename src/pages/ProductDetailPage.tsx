@@ -0,0 +1,241 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { User } from '@supabase/supabase-js';
+import { ChevronRight, Minus, Plus, ShoppingCart } from 'lucide-react';
+import { getCategories, getProductById, getRelatedProducts } from '../api/products';
+import { applyProductUpdate, applyVariantUpdate, subscribeToCatalog } from '../api/realtime';
+import { Category, Product, ProductVariant } from '../types';
+import { ProductCard } from '../components/ProductCard';
+import { ProductReviews } from '../components/ProductReviews';
+import { StarRating } from '../components/StarRating';
+import { VariantOptions } from '../components/VariantOptions';
+import { WishlistButton } from '../components/WishlistButton';
+import { useCart } from '../lib/cartStore';
+import { getCategoryPath } from '../lib/categories';
+import { useDocumentMeta } from '../lib/documentMeta';
+import { formatPrice, t } from '../lib/localeStore';
+import { hasVariants, resolveSelection, sortOptions } from '../lib/variants';
+
+interface ProductDetailPageProps {
+  onAddToCart: (product: Product, variant: ProductVariant | null, quantity?: number) => void;
+  user: User | null;
+  onSignInClick: () => void;
+}
+
+export function ProductDetailPage({ onAddToCart, user, onSignInClick }: ProductDetailPageProps) {
+  const { productId } = useParams<{ productId: string }>();
+  const [product, setProduct] = useState<Product | null>(null);
+  const [related, setRelated] = useState<Product[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selection, setSelection] = useState<Record<string, string>>({});
+  const [imageIndex, setImageIndex] = useState(0);
+  const [quantity, setQuantity] = useState(1);
+  const { items: cartItems } = useCart();
+
+  useEffect(() => {
+    if (!productId) return;
+    let cancelled = false;
+    setLoading(true);
+    setSelection({});
+    setImageIndex(0);
+    setQuantity(1);
+
+    getProductById(productId)
+      .then(async (data) => {
+        if (cancelled) return;
+        setProduct(data);
+        setRelated(data ? await getRelatedProducts(data) : []);
+      })
+      .catch((error) => console.error('Error loading product:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [productId]);
+
+  useEffect(() => {
+    getCategories()
+      .then(setCategories)
+      .catch((error) => console.error('Error loading categories:', error));
+  }, []);
+
+  useEffect(
+    () =>
+      subscribeToCatalog({
+        onProduct: (update) => {
+          setProduct((current) => current && applyProductUpdate(current, update));
+          setRelated((current) => current.map((item) => applyProductUpdate(item, update)));
+        },
+        onVariant: (variant) => {
+          setProduct((current) => current && applyVariantUpdate(current, variant));
+          setRelated((current) => current.map((item) => applyVariantUpdate(item, variant)));
+        },
+      }),
+    []
+  );
+
+  useDocumentMeta(
+    product
+      ? { title: product.name, description: product.description, image: product.image_url }
+      : null
+  );
+
+  if (loading) {
+    return <p className="text-center py-12 text-gray-600">{t('product.loading')}</p>;
+  }
+
+  if (!product || product.archived_at) {
+    return (
+      <div className="text-center py-12 text-gray-500">
+        <p className="mb-4">{t('product.unavailable')}</p>
+        <Link to="/" className="text-blue-600 hover:text-blue-700 font-medium">
+          {t('common.continueShopping')}
+        </Link>
+      </div>
+    );
+  }
+
+  const { variant, stock, price, imageUrl, canAdd, stockLabel } = resolveSelection(product, selection);
+  const gallery = [
+    { url: imageUrl, alt: product.name },
+    ...(product.images ?? []).map((image) => ({ url: image.url, alt: image.alt_text || product.name })),
+  ];
+  const currentImage = gallery[Math.min(imageIndex, gallery.length - 1)];
+  // The full trail once the category list is in; until then just the product's own.
+  const categoryPath = product.category_id ? getCategoryPath(categories, product.category_id) : [];
+  if (categoryPath.length === 0 && product.category) categoryPath.push(product.category);
+
+  // Units already in the cart count against the stock on offer.
+  const inCart = cartItems
+    .filter((item) => item.product_id === product.id && (item.variant_id ?? null) === (variant?.id ?? null))
+    .reduce((sum, item) => sum + item.quantity, 0);
+  const maxQuantity = Math.max(stock - inCart, 0);
+  const clampedQuantity = Math.min(quantity, Math.max(maxQuantity, 1));
+
+  return (
+    <div className="space-y-10">
+      <nav className="flex items-center gap-1 text-sm text-gray-500">
+        <Link to="/" className="hover:text-blue-600">
+          {t('product.home')}
+        </Link>
+        {categoryPath.map((category) => (
+          <span key={category.id} className="flex items-center gap-1">
+            <ChevronRight size={14} />
+            <Link to={`/?category=${category.slug}`} className="hover:text-blue-600">
+              {category.name}
+            </Link>
+          </span>
+        ))}
+        <ChevronRight size={14} />
+        <span className="text-gray-900">{product.name}</span>
+      </nav>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        <div>
+          <div className="aspect-square bg-gray-100 rounded-lg overflow-hidden mb-3">
+            <img src={currentImage.url} alt={currentImage.alt} className="w-full h-full object-cover" />
+          </div>
+          {gallery.length > 1 && (
+            <div className="flex gap-2 overflow-x-auto">
+              {gallery.map((image, index) => (
+                <button
+                  key={`${image.url}-${index}`}
+                  onClick={() => setImageIndex(index)}
+                  className={`w-20 h-20 flex-shrink-0 rounded overflow-hidden border-2 ${
+                    index === imageIndex ? 'border-blue-600' : 'border-transparent'
+                  }`}
+                >
+                  <img src={image.url} alt={image.alt} className="w-full h-full object-cover" />
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900 mb-2">{product.name}</h2>
+          {product.rating_count ? (
+            <a href="#reviews" className="flex items-center gap-2 mb-2 text-sm text-gray-600 hover:text-blue-600">
+              <StarRating value={Number(product.rating_average)} />
+              {product.rating_count === 1
+                ? t('product.reviewsOne')
+                : t('product.reviewsMany', { count: product.rating_count })}
+            </a>
+          ) : null}
+          <p className="text-2xl font-bold text-gray-900 mb-4">{formatPrice(price)}</p>
+          <p className="text-gray-700 whitespace-pre-line mb-6">{product.description}</p>
+
+          {hasVariants(product) && (
+            <div className="mb-6">
+              <VariantOptions
+                options={sortOptions(product.options)}
+                variants={product.variants ?? []}
+                selection={selection}
+                onChange={(next) => {
+                  setSelection(next);
+                  setImageIndex(0);
+                }}
+                size="md"
+              />
+            </div>
+          )}
+
+          <div className="flex items-center gap-4 mb-2">
+            <div className="flex items-center border border-gray-300 rounded-lg">
+              <button
+                onClick={() => setQuantity(Math.max(clampedQuantity - 1, 1))}
+                disabled={clampedQuantity <= 1}
+                className="p-2 hover:bg-gray-100 rounded-l-lg disabled:opacity-50"
+              >
+                <Minus size={16} />
+              </button>
+              <span className="w-10 text-center font-medium">{clampedQuantity}</span>
+              <button
+                onClick={() => setQuantity(Math.min(clampedQuantity + 1, maxQuantity))}
+                disabled={clampedQuantity >= maxQuantity}
+                className="p-2 hover:bg-gray-100 rounded-r-lg disabled:opacity-50"
+              >
+                <Plus size={16} />
+              </button>
+            </div>
+            <button
+              onClick={() => {
+                onAddToCart(product, variant, clampedQuantity);
+                setQuantity(1);
+              }}
+              disabled={!canAdd || maxQuantity === 0}
+              className="flex items-center gap-2 bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors font-semibold disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              <ShoppingCart size={18} />
+              {t('product.addToCart')}
+            </button>
+            <WishlistButton product={product} className="border border-gray-300" />
+          </div>
+          <p className="text-sm text-gray-500">
+            {stockLabel}
+            {inCart > 0 && ` · ${t('product.inCart', { count: inCart })}`}
+          </p>
+          <p className="text-xs text-gray-400 mt-4">{t('product.sku', { sku: variant?.sku ?? product.sku })}</p>
+        </div>
+      </div>
+
+      <div id="reviews">
+        <ProductReviews product={product} user={user} onSignInClick={onSignInClick} />
+      </div>
+
+      {related.length > 0 && (
+        <section>
+          <h3 className="text-xl font-semibold text-gray-900 mb-4">{t('product.related')}</h3>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+            {related.map((item) => (
+              <ProductCard key={item.id} product={item} onAddToCart={onAddToCart} />
+            ))}
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
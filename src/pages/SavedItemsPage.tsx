@@ -0,0 +1,127 @@
+import { Link } from 'react-router-dom';
+import { Heart } from 'lucide-react';
+import { SavedItem, SavedList } from '../types';
+import { useSavedItems } from '../lib/savedItemsStore';
+import { describeSavedItemAlert, getSavedItemAlerts } from '../lib/savedItemAlerts';
+import { formatVariantLabel, getUnitPrice, hasVariants } from '../lib/variants';
+import { formatPrice, t } from '../lib/localeStore';
+
+interface SavedItemsPageProps {
+  onMoveToCart: (item: SavedItem) => void;
+  onRemove: (savedItemId: string) => void;
+}
+
+const LISTS: SavedList[] = ['wishlist', 'saved_for_later'];
+
+export function SavedItemsPage({ onMoveToCart, onRemove }: SavedItemsPageProps) {
+  const { items, loading } = useSavedItems();
+
+  if (loading) {
+    return <p className="text-center py-12 text-gray-600">{t('saved.loading')}</p>;
+  }
+
+  if (items.length === 0) {
+    return (
+      <div className="text-center py-12 text-gray-500">
+        <Heart size={48} className="mx-auto mb-4 opacity-50" />
+        <p className="mb-4">{t('saved.empty')}</p>
+        <Link to="/" className="text-blue-600 hover:text-blue-700 font-medium">
+          {t('saved.startShopping')}
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-10">
+      {LISTS.map((list) => {
+        const listItems = items.filter((item) => item.list === list);
+        if (listItems.length === 0) return null;
+        return (
+          <section key={list}>
+            <h2 className="text-2xl font-bold text-gray-900 mb-4">{t(`saved.${list}`)}</h2>
+            <div className="bg-white rounded-lg shadow-md divide-y">
+              {listItems.map((item) => (
+                <SavedItemRow
+                  key={item.id}
+                  item={item}
+                  onMoveToCart={() => onMoveToCart(item)}
+                  onRemove={() => onRemove(item.id)}
+                />
+              ))}
+            </div>
+          </section>
+        );
+      })}
+    </div>
+  );
+}
+
+interface SavedItemRowProps {
+  item: SavedItem;
+  onMoveToCart: () => void;
+  onRemove: () => void;
+}
+
+function SavedItemRow({ item, onMoveToCart, onRemove }: SavedItemRowProps) {
+  const product = item.product;
+  const available = !!product && !product.archived_at && (!item.variant_id || !!item.variant);
+  const stock = item.variant ? item.variant.stock : (product?.stock ?? 0);
+  // A product with variants saved from its card still needs options chosen.
+  const needsOptions = !!product && !item.variant_id && hasVariants(product);
+
+  return (
+    <div className="flex gap-4 p-4">
+      <img
+        src={item.variant?.image_url || product?.image_url}
+        alt={product?.name}
+        className="w-20 h-20 object-cover rounded"
+      />
+      <div className="flex-1">
+        {product ? (
+          <Link to={`/products/${product.id}`} className="font-semibold text-gray-900 hover:text-blue-600">
+            {product.name}
+          </Link>
+        ) : (
+          <p className="font-semibold text-gray-900">{t('common.productUnavailable')}</p>
+        )}
+        {item.variant && (
+          <p className="text-xs text-gray-500">{formatVariantLabel(item.variant, product?.options)}</p>
+        )}
+        {product && (
+          <p className="text-lg font-bold text-gray-900">{formatPrice(getUnitPrice(product, item.variant))}</p>
+        )}
+        {item.list === 'saved_for_later' && (
+          <p className="text-xs text-gray-500">{t('saved.quantity', { quantity: item.quantity })}</p>
+        )}
+        {getSavedItemAlerts(item).map((alert) => (
+          <p key={alert.kind} className="text-sm text-green-700">
+            {describeSavedItemAlert(alert)}
+          </p>
+        ))}
+        {available && stock <= 0 && <p className="text-sm text-gray-500">{t('saved.outOfStock')}</p>}
+      </div>
+      <div className="flex flex-col items-end gap-2">
+        {needsOptions ? (
+          <Link
+            to={`/products/${item.product_id}`}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
+          >
+            {t('saved.chooseOptions')}
+          </Link>
+        ) : (
+          <button
+            onClick={onMoveToCart}
+            disabled={!available || stock <= 0}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            {t('cart.moveToCart')}
+          </button>
+        )}
+        <button onClick={onRemove} className="text-red-600 hover:text-red-700 text-sm">
+          {t('common.remove')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { CategoryFilter } from '../components/CategoryFilter';
+import { FacetFilters } from '../components/FacetFilters';
+import { ProductCard } from '../components/ProductCard';
+import { ProductFilters, ProductFilterValues } from '../components/ProductFilters';
+import {
+  getCategories,
+  getProductFacets,
+  searchProducts,
+  ProductFacets,
+  ProductSearchParams,
+  ProductSort,
+} from '../api/products';
+import { applyProductUpdate, applyVariantUpdate, subscribeToCatalog } from '../api/realtime';
+import { getCurrency, t } from '../lib/localeStore';
+import { toBaseAmount } from '../lib/money';
+import { Category, Product, ProductVariant } from '../types';
+
+interface StorePageProps {
+  onAddToCart: (product: Product, variant: ProductVariant | null) => void;
+  refreshKey: number;
+}
+
+// Price filters are typed in the shopper's currency and searched in the base one.
+function parsePrice(value: string | null, rate: number): number | undefined {
+  if (!value) return undefined;
+  const price = Number(value);
+  return Number.isFinite(price) ? toBaseAmount(price, { rate }) : undefined;
+}
+
+// Search, category and filters all live in the URL so result pages can be shared.
+// Categories are linked by slug; links from before slugs carry the id.
+export function StorePage({ onAddToCart, refreshKey }: StorePageProps) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [categories, setCategories] = useState<Category[] | null>(null);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [facets, setFacets] = useState<ProductFacets | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  const { rate } = getCurrency();
+  const query = searchParams.get('q') || '';
+  const categoryParam = searchParams.get('category');
+  const selectedCategory =
+    categories?.find((category) => category.slug === categoryParam || category.id === categoryParam) ?? null;
+  // The search waits for the categories when it needs one resolved from its slug.
+  const categoryPending = categoryParam !== null && categories === null;
+  const selectedCategoryId = selectedCategory?.id;
+  const filters: ProductFilterValues = {
+    minPrice: searchParams.get('min_price') || '',
+    maxPrice: searchParams.get('max_price') || '',
+    priceBelow: searchParams.get('price_below') || '',
+    inStock: searchParams.get('in_stock') === '1',
+    sort: (searchParams.get('sort') as ProductSort) || '',
+  };
+
+  const params = useMemo<ProductSearchParams>(
+    () => ({
+      query: searchParams.get('q') || undefined,
+      categoryId: selectedCategoryId,
+      minPrice: parsePrice(searchParams.get('min_price'), rate),
+      maxPrice: parsePrice(searchParams.get('max_price'), rate),
+      priceBelow: parsePrice(searchParams.get('price_below'), rate),
+      inStock: searchParams.get('in_stock') === '1',
+      sort: (searchParams.get('sort') as ProductSort) || undefined,
+    }),
+    [searchParams, rate, selectedCategoryId]
+  );
+
+  const categoryCounts = useMemo(
+    () => new Map(facets?.categories.map((facet) => [facet.category_id, facet.count])),
+    [facets]
+  );
+
+  useEffect(() => {
+    getCategories()
+      .then(setCategories)
+      .catch((error) => console.error('Error loading categories:', error));
+  }, []);
+
+  useEffect(() => {
+    if (categoryPending) return;
+    let cancelled = false;
+    searchProducts(params)
+      .then((page) => {
+        if (cancelled) return;
+        setProducts(page.items);
+        setNextCursor(page.next_cursor);
+      })
+      .catch((error) => console.error('Error loading products:', error));
+    getProductFacets(params)
+      .then((result) => {
+        if (!cancelled) setFacets(result);
+      })
+      .catch((error) => console.error('Error loading facets:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [params, categoryPending, refreshKey]);
+
+  // Stock and prices on the grid follow the database live, so sold-out products
+  // stop offering "Add" as soon as the last unit goes.
+  useEffect(
+    () =>
+      subscribeToCatalog({
+        onProduct: (update) =>
+          setProducts((current) =>
+            update.archived_at
+              ? current.filter((product) => product.id !== update.id)
+              : current.map((product) => applyProductUpdate(product, update))
+          ),
+        onVariant: (variant) =>
+          setProducts((current) => current.map((product) => applyVariantUpdate(product, variant))),
+      }),
+    []
+  );
+
+  async function handleLoadMore() {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const page = await searchProducts({ ...params, cursor: nextCursor });
+      setProducts((current) => [...current, ...page.items]);
+      setNextCursor(page.next_cursor);
+    } catch (error) {
+      console.error('Error loading more products:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  }
+
+  function handleFiltersChange(values: ProductFilterValues) {
+    updateParams({
+      min_price: values.minPrice,
+      max_price: values.maxPrice,
+      price_below: values.priceBelow,
+      in_stock: values.inStock ? '1' : null,
+      sort: values.sort,
+    });
+  }
+
+  function updateParams(updates: Record<string, string | null>) {
+    const next = new URLSearchParams(searchParams);
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value) {
+        next.set(key, value);
+      } else {
+        next.delete(key);
+      }
+    });
+    setSearchParams(next, { replace: true });
+  }
+
+  return (
+    <>
+      {query && (
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">
+            {t('store.resultsFor', { query })}
+          </h2>
+          <button
+            onClick={() => updateParams({ q: null, sort: null })}
+            className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+          >
+            {t('store.clearSearch')}
+          </button>
+        </div>
+      )}
+
+      <CategoryFilter
+        categories={categories ?? []}
+        counts={categoryCounts}
+        selectedCategoryId={selectedCategory?.id ?? null}
+        onSelectCategory={(category) => updateParams({ category: category?.slug ?? null })}
+      />
+
+      <div className="flex flex-col lg:flex-row gap-6">
+        <aside className="lg:w-60 shrink-0">
+          <FacetFilters facets={facets} values={filters} onChange={handleFiltersChange} />
+        </aside>
+
+        <div className="flex-1 min-w-0">
+          <ProductFilters values={filters} hasQuery={query !== ''} onChange={handleFiltersChange} />
+
+          {facets && facets.total > 0 && (
+            <p className="text-sm text-gray-500 mb-4">
+              {facets.total === 1
+                ? t('store.countOne')
+                : t('store.countMany', { count: facets.total })}
+            </p>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-6">
+            {products.map((product) => (
+              <ProductCard
+                key={product.id}
+                product={product}
+                onAddToCart={onAddToCart}
+              />
+            ))}
+          </div>
+
+          {products.length === 0 && (
+            <div className="text-center py-12 text-gray-500">
+              <p>{query ? t('store.noMatches', { query }) : t('store.noProducts')}</p>
+            </div>
+          )}
+
+          {nextCursor && (
+            <div className="text-center mt-8">
+              <button
+                onClick={handleLoadMore}
+                disabled={loadingMore}
+                className="bg-white border border-gray-300 text-gray-700 px-6 py-3 rounded-lg hover:bg-gray-50 transition-colors font-semibold disabled:opacity-50"
+              >
+                {loadingMore ? t('store.loading') : t('store.loadMore')}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,253 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Download } from 'lucide-react';
+import {
+  DateRange,
+  getCartConversion,
+  getCartRecovery,
+  getSalesOverTime,
+  getTopCategories,
+  getTopProducts,
+} from '../../api/analytics';
+import {
+  CartConversion,
+  CartRecovery,
+  SalesPeriod,
+  TopCategoryRow,
+  TopProductRow,
+} from '../../types';
+import {
+  intervalForRange,
+  presetRange,
+  RANGE_PRESETS,
+  RangePreset,
+  salesToCsv,
+  topCategoriesToCsv,
+  topProductsToCsv,
+} from '../../lib/analytics';
+import { downloadFile } from '../../lib/download';
+import { SalesChart } from '../../components/admin/SalesChart';
+
+interface RankedRow {
+  key: string;
+  name: string;
+  units: number;
+  revenue: number;
+}
+
+function ExportButton({ onClick }: { onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+    >
+      <Download size={16} />
+      CSV
+    </button>
+  );
+}
+
+function RankedTable({ title, rows, onExport }: { title: string; rows: RankedRow[]; onExport: () => void }) {
+  const maxRevenue = Math.max(...rows.map((row) => Number(row.revenue)), 0);
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-5">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="font-semibold text-gray-900">{title}</h2>
+        {rows.length > 0 && <ExportButton onClick={onExport} />}
+      </div>
+      {rows.length === 0 ? (
+        <p className="text-center py-8 text-gray-500">No sales in this range</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead className="text-left text-gray-600">
+            <tr>
+              <th className="py-2">Name</th>
+              <th className="py-2 text-right">Units</th>
+              <th className="py-2 text-right">Revenue</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {rows.map((row) => (
+              <tr key={row.key}>
+                <td className="py-2 pr-4">
+                  <p>{row.name}</p>
+                  <div className="h-1.5 mt-1 bg-gray-100 rounded">
+                    <div
+                      className="h-full bg-blue-500 rounded"
+                      style={{ width: maxRevenue > 0 ? `${(Number(row.revenue) / maxRevenue) * 100}%` : 0 }}
+                    />
+                  </div>
+                </td>
+                <td className="py-2 text-right">{row.units}</td>
+                <td className="py-2 text-right">${Number(row.revenue).toFixed(2)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+function exportCsv(content: string, report: string, range: DateRange) {
+  downloadFile(content, `${report}-${range.from}-to-${range.to}.csv`, 'text/csv');
+}
+
+export function AdminAnalyticsPage() {
+  const [preset, setPreset] = useState<RangePreset | 'custom'>('30d');
+  const [range, setRange] = useState<DateRange>(() => presetRange(30));
+  const [sales, setSales] = useState<SalesPeriod[]>([]);
+  const [topProducts, setTopProducts] = useState<TopProductRow[]>([]);
+  const [topCategories, setTopCategories] = useState<TopCategoryRow[]>([]);
+  const [conversion, setConversion] = useState<CartConversion | null>(null);
+  const [recovery, setRecovery] = useState<CartRecovery | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const interval =
+    preset === 'custom'
+      ? intervalForRange(range)
+      : RANGE_PRESETS.find((option) => option.key === preset)!.interval;
+
+  const loadReports = useCallback(async () => {
+    try {
+      const [salesData, productData, categoryData, conversionData, recoveryData] =
+        await Promise.all([
+          getSalesOverTime(range, interval),
+          getTopProducts(range),
+          getTopCategories(range),
+          getCartConversion(range),
+          getCartRecovery(range),
+        ]);
+      setSales(salesData);
+      setTopProducts(productData);
+      setTopCategories(categoryData);
+      setConversion(conversionData);
+      setRecovery(recoveryData);
+    } catch (error) {
+      console.error('Error loading analytics:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [range, interval]);
+
+  useEffect(() => {
+    loadReports();
+  }, [loadReports]);
+
+  function selectPreset(key: RangePreset) {
+    const option = RANGE_PRESETS.find((candidate) => candidate.key === key)!;
+    setLoading(true);
+    setPreset(key);
+    setRange(presetRange(option.days));
+  }
+
+  function updateCustomRange(change: Partial<DateRange>) {
+    const next = { ...range, ...change };
+    if (!next.from || !next.to || next.from > next.to) return;
+    setLoading(true);
+    setPreset('custom');
+    setRange(next);
+  }
+
+  const orderCount = sales.reduce((sum, period) => sum + period.order_count, 0);
+  const revenue = sales.reduce((sum, period) => sum + Number(period.revenue), 0);
+  const averageOrderValue = orderCount > 0 ? revenue / orderCount : 0;
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-6">
+        {RANGE_PRESETS.map((option) => (
+          <button
+            key={option.key}
+            onClick={() => selectPreset(option.key)}
+            className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+              preset === option.key ? 'bg-gray-900 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+        <div className="flex items-center gap-2 ml-auto text-sm">
+          <input
+            type="date"
+            value={range.from}
+            max={range.to}
+            onChange={(e) => updateCustomRange({ from: e.target.value })}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <span className="text-gray-500">to</span>
+          <input
+            type="date"
+            value={range.to}
+            min={range.from}
+            onChange={(e) => updateCustomRange({ to: e.target.value })}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+      </div>
+
+      {loading ? (
+        <p className="text-center py-12 text-gray-600">Loading analytics...</p>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
+            {[
+              { label: 'Revenue', value: `$${revenue.toFixed(2)}` },
+              { label: 'Orders', value: String(orderCount) },
+              { label: 'Average order value', value: `$${averageOrderValue.toFixed(2)}` },
+              {
+                label: 'Cart conversion',
+                value: conversion ? `${(Number(conversion.conversion_rate) * 100).toFixed(1)}%` : '—',
+                detail: conversion && `${conversion.converted_carts} of ${conversion.carts} carts`,
+              },
+              {
+                label: 'Cart recovery',
+                value: recovery ? `${(Number(recovery.recovery_rate) * 100).toFixed(1)}%` : '—',
+                detail:
+                  recovery &&
+                  `${recovery.recovered_orders} of ${recovery.emails_sent} emails, $${Number(recovery.recovered_revenue).toFixed(2)}`,
+              },
+            ].map((stat) => (
+              <div key={stat.label} className="bg-white rounded-lg shadow-md p-4">
+                <p className="text-sm text-gray-500">{stat.label}</p>
+                <p className="text-2xl font-bold text-gray-900">{stat.value}</p>
+                {stat.detail && <p className="text-xs text-gray-500 mt-1">{stat.detail}</p>}
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-white rounded-lg shadow-md p-5">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="font-semibold text-gray-900">Revenue</h2>
+              <ExportButton onClick={() => exportCsv(salesToCsv(sales), 'sales', range)} />
+            </div>
+            <SalesChart periods={sales} interval={interval} />
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-6">
+            <RankedTable
+              title="Top products"
+              rows={topProducts.map((row) => ({
+                key: row.product_id ?? 'deleted',
+                name: row.product_name,
+                units: row.units,
+                revenue: row.revenue,
+              }))}
+              onExport={() => exportCsv(topProductsToCsv(topProducts), 'top-products', range)}
+            />
+            <RankedTable
+              title="Top categories"
+              rows={topCategories.map((row) => ({
+                key: row.category_id ?? 'uncategorized',
+                name: row.category_name,
+                units: row.units,
+                revenue: row.revenue,
+              }))}
+              onExport={() => exportCsv(topCategoriesToCsv(topCategories), 'top-categories', range)}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  CategoryInput,
+  createCategory,
+  getAdminCategories,
+  setCategoryArchived,
+  updateCategory,
+} from '../../api/admin';
+import { buildCategoryTree, CategoryNode, getCategorySubtreeIds } from '../../lib/categories';
+import { Category } from '../../types';
+
+const EMPTY_CATEGORY: CategoryInput = {
+  parent_id: null,
+  slug: '',
+  name: '',
+  description: '',
+  position: 0,
+};
+
+// The tree in display order, each category with its depth for indenting.
+function flattenTree(nodes: CategoryNode[], depth = 0): { category: Category; depth: number }[] {
+  return nodes.flatMap((node) => [
+    { category: node, depth },
+    ...flattenTree(node.children, depth + 1),
+  ]);
+}
+
+export function AdminCategoriesPage() {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<CategoryInput>(EMPTY_CATEGORY);
+  const [error, setError] = useState<string | null>(null);
+
+  const rows = useMemo(() => flattenTree(buildCategoryTree(categories)), [categories]);
+  // A category can't be moved under itself or one of its subcategories.
+  const excludedParents = editingId ? getCategorySubtreeIds(categories, editingId) : [];
+
+  const loadCategories = useCallback(async () => {
+    try {
+      setCategories(await getAdminCategories());
+    } catch (err) {
+      console.error('Error loading categories:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCategories();
+  }, [loadCategories]);
+
+  function startEditing(category: Category) {
+    setEditingId(category.id);
+    setFormData({
+      parent_id: category.parent_id,
+      slug: category.slug,
+      name: category.name,
+      description: category.description,
+      position: category.position,
+    });
+    setError(null);
+  }
+
+  function resetForm() {
+    setEditingId(null);
+    setFormData(EMPTY_CATEGORY);
+    setError(null);
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const input = {
+      ...formData,
+      slug: formData.slug.trim(),
+      name: formData.name.trim(),
+      description: formData.description.trim(),
+    };
+    try {
+      if (editingId) {
+        await updateCategory(editingId, input);
+      } else {
+        await createCategory(input);
+      }
+      resetForm();
+      await loadCategories();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save category');
+    }
+  };
+
+  async function handleToggleArchived(category: Category) {
+    try {
+      await setCategoryArchived(category.id, !category.archived_at);
+      await loadCategories();
+    } catch (err) {
+      console.error('Error archiving category:', err);
+      alert('Failed to update category');
+    }
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-md p-4 space-y-4 h-fit">
+        <h3 className="text-lg font-semibold">{editingId ? 'Edit Category' : 'New Category'}</h3>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+          <input
+            type="text"
+            required
+            value={formData.name}
+            onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Slug</label>
+          <input
+            type="text"
+            value={formData.slug}
+            placeholder="Generated from the name"
+            onChange={(e) => setFormData({ ...formData, slug: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div className="grid grid-cols-3 gap-3">
+          <div className="col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Parent</label>
+            <select
+              value={formData.parent_id ?? ''}
+              onChange={(e) => setFormData({ ...formData, parent_id: e.target.value || null })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">None (top level)</option>
+              {rows
+                .filter(({ category }) => !excludedParents.includes(category.id))
+                .map(({ category, depth }) => (
+                  <option key={category.id} value={category.id}>
+                    {'\u00a0\u00a0'.repeat(depth)}
+                    {category.name}
+                  </option>
+                ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Position</label>
+            <input
+              type="number"
+              step="1"
+              value={formData.position}
+              onChange={(e) => setFormData({ ...formData, position: Number(e.target.value) })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+          <textarea
+            value={formData.description}
+            onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+            rows={3}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            className="flex-1 bg-blue-600 text-white py-2 rounded-lg hover:bg-blue-700 transition-colors font-semibold"
+          >
+            {editingId ? 'Save' : 'Create'}
+          </button>
+          {editingId && (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors font-medium"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+
+      <div className="lg:col-span-2 bg-white rounded-lg shadow-md divide-y">
+        {rows.map(({ category, depth }) => (
+          <div
+            key={category.id}
+            className={`flex items-center justify-between gap-4 p-4 ${
+              category.archived_at ? 'text-gray-400' : ''
+            }`}
+            style={{ paddingLeft: `${1 + depth * 1.5}rem` }}
+          >
+            <div>
+              <p className="font-medium">
+                {category.name}
+                <span className="ml-2 text-xs text-gray-400">/{category.slug}</span>
+                {category.archived_at && <span className="ml-2 text-xs">(archived)</span>}
+              </p>
+              <p className="text-sm text-gray-500">{category.description}</p>
+            </div>
+            <div className="flex gap-3 text-sm whitespace-nowrap">
+              <button
+                onClick={() => startEditing(category)}
+                className="text-blue-600 hover:text-blue-700 font-medium"
+              >
+                Edit
+              </button>
+              <button
+                onClick={() => handleToggleArchived(category)}
+                className="text-gray-600 hover:text-gray-800 font-medium"
+              >
+                {category.archived_at ? 'Restore' : 'Archive'}
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useState } from 'react';
+import { Download, FileUp } from 'lucide-react';
+import { exportCatalog, importProducts, ImportResult } from '../../api/admin';
+import {
+  CatalogFormat,
+  CatalogRowError,
+  CatalogRow,
+  detectCatalogFormat,
+  parseCatalogFile,
+} from '../../lib/catalogFile';
+import { downloadFile } from '../../lib/download';
+
+const MIME_TYPES: Record<CatalogFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+};
+
+export function AdminImportPage() {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<CatalogRow[]>([]);
+  const [errors, setErrors] = useState<CatalogRowError[]>([]);
+  const [preview, setPreview] = useState<ImportResult[] | null>(null);
+  const [imported, setImported] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setFileName(file.name);
+    setPreview(null);
+    setImported(false);
+
+    const format = detectCatalogFormat(file.name);
+    if (!format) {
+      setRows([]);
+      setErrors([{ line: 1, field: 'file', message: 'Choose a .csv or .json file' }]);
+      return;
+    }
+
+    const parsed = parseCatalogFile(await file.text(), format);
+    setRows(parsed.rows);
+    setErrors(parsed.errors);
+  };
+
+  async function runImport(dryRun: boolean) {
+    setBusy(true);
+    try {
+      const results = await importProducts(rows, dryRun);
+      setPreview(results);
+      setImported(!dryRun);
+    } catch (error) {
+      console.error('Error importing products:', error);
+      alert(`Import failed: ${error instanceof Error ? error.message : 'unknown error'}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleExport(format: CatalogFormat) {
+    try {
+      const content = await exportCatalog(format);
+      downloadFile(content, `catalog-${new Date().toISOString().slice(0, 10)}.${format}`, MIME_TYPES[format]);
+    } catch (error) {
+      console.error('Error exporting catalog:', error);
+      alert('Failed to export catalog');
+    }
+  }
+
+  const created = preview?.filter((result) => result.action === 'create').length ?? 0;
+  const updated = preview?.filter((result) => result.action === 'update').length ?? 0;
+  const newCategories = preview?.filter((result) => result.category_created).length ?? 0;
+  const stockIgnored = preview?.filter((result) => result.stock_ignored).length ?? 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h3 className="text-lg font-semibold mb-2">Export</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Download active products in the same format the importer accepts.
+        </p>
+        <div className="flex gap-2">
+          {(['csv', 'json'] as CatalogFormat[]).map((format) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors font-medium"
+            >
+              <Download size={18} />
+              {format.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h3 className="text-lg font-semibold mb-2">Import</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Columns: <code>sku, name, description, price, stock, category, image_url</code>.
+          Products are matched by SKU; unknown categories are created.
+        </p>
+        <label className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors cursor-pointer font-medium">
+          <FileUp size={18} />
+          Choose file
+          <input type="file" accept=".csv,.json" onChange={handleFileChange} className="hidden" />
+        </label>
+        {fileName && (
+          <p className="text-sm text-gray-600 mt-3">
+            {fileName}: {rows.length} valid row{rows.length === 1 ? '' : 's'}, {errors.length}{' '}
+            error{errors.length === 1 ? '' : 's'}
+          </p>
+        )}
+
+        {errors.length > 0 && (
+          <div className="mt-4 border border-red-200 rounded-lg overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-red-50 text-left text-red-800">
+                <tr>
+                  <th className="p-2 w-20">Line</th>
+                  <th className="p-2 w-28">Field</th>
+                  <th className="p-2">Problem</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-red-100">
+                {errors.map((error, index) => (
+                  <tr key={index}>
+                    <td className="p-2">{error.line}</td>
+                    <td className="p-2 font-mono">{error.field}</td>
+                    <td className="p-2">{error.message}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {rows.length > 0 && errors.length === 0 && (
+          <div className="flex gap-2 mt-4">
+            <button
+              onClick={() => runImport(true)}
+              disabled={busy}
+              className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors font-medium disabled:opacity-50"
+            >
+              Preview changes
+            </button>
+            <button
+              onClick={() => runImport(false)}
+              disabled={busy || imported}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:bg-gray-400"
+            >
+              Import {rows.length} product{rows.length === 1 ? '' : 's'}
+            </button>
+          </div>
+        )}
+
+        {preview && (
+          <div className="mt-4">
+            <p className="text-sm font-medium text-gray-900 mb-2">
+              {imported ? 'Imported' : 'Dry run'}: {created} new, {updated} updated
+              {newCategories > 0 && `, ${newCategories} row(s) create a new category`}
+            </p>
+            {stockIgnored > 0 && (
+              <p className="text-sm text-amber-700 mb-2">
+                Stock is not imported for {stockIgnored} product(s) with variants; adjust their
+                variants' stock instead.
+              </p>
+            )}
+            <div className="max-h-64 overflow-y-auto border rounded-lg">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left text-gray-600 sticky top-0">
+                  <tr>
+                    <th className="p-2 w-20">Line</th>
+                    <th className="p-2">SKU</th>
+                    <th className="p-2">Action</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {preview.map((result) => (
+                    <tr key={result.line}>
+                      <td className="p-2">{result.line}</td>
+                      <td className="p-2 font-mono">{result.sku}</td>
+                      <td className="p-2">
+                        {result.action === 'create' ? 'Create' : 'Update'}
+                        {result.category_created && ' (new category)'}
+                        {result.stock_ignored && ' (stock not applied: has variants)'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
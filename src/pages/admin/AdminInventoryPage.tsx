@@ -0,0 +1,128 @@
+import { useCallback, useEffect, useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { getInventoryDriftCount, getLowStockReport, reconcileInventory } from '../../api/admin';
+import { LowStockReportRow } from '../../types';
+
+const REPORT_PERIODS = [7, 30, 90];
+
+function formatDaysLeft(row: LowStockReportRow): string {
+  if (row.stock <= 0) return 'Sold out';
+  if (row.days_until_stockout === null) return 'No recent sales';
+  if (row.days_until_stockout < 1) return 'Under a day';
+  return `${Math.floor(row.days_until_stockout)} days`;
+}
+
+export function AdminInventoryPage() {
+  const [days, setDays] = useState(30);
+  const [rows, setRows] = useState<LowStockReportRow[]>([]);
+  const [driftCount, setDriftCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [reconciling, setReconciling] = useState(false);
+
+  const loadReport = useCallback(async () => {
+    try {
+      const [report, drift] = await Promise.all([getLowStockReport(days), getInventoryDriftCount()]);
+      setRows(report);
+      setDriftCount(drift);
+    } catch (error) {
+      console.error('Error loading inventory report:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  async function handleReconcile() {
+    if (!confirm(`Reset ${driftCount} stock ${driftCount === 1 ? 'level' : 'levels'} to match the inventory ledger?`)) {
+      return;
+    }
+    setReconciling(true);
+    try {
+      await reconcileInventory();
+      await loadReport();
+    } catch (error) {
+      console.error('Error reconciling inventory:', error);
+      alert('Failed to reconcile stock');
+    } finally {
+      setReconciling(false);
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <label className="text-sm text-gray-600">Sales over the last</label>
+          <select
+            value={days}
+            onChange={(e) => {
+              setLoading(true);
+              setDays(Number(e.target.value));
+            }}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {REPORT_PERIODS.map((period) => (
+              <option key={period} value={period}>
+                {period} days
+              </option>
+            ))}
+          </select>
+        </div>
+        {driftCount > 0 && (
+          <button
+            onClick={handleReconcile}
+            disabled={reconciling}
+            className="flex items-center gap-2 bg-white text-gray-700 px-4 py-2 rounded-lg shadow-sm hover:bg-gray-100 transition-colors font-medium disabled:text-gray-400"
+          >
+            <RefreshCw size={18} />
+            Reconcile stock with ledger ({driftCount})
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <p className="text-center py-12 text-gray-600">Loading inventory...</p>
+      ) : rows.length === 0 ? (
+        <p className="text-center py-12 text-gray-500">Nothing is below its low-stock threshold</p>
+      ) : (
+        <div className="bg-white rounded-lg shadow-md overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-gray-600">
+              <tr>
+                <th className="p-3">Product</th>
+                <th className="p-3 text-right">Stock</th>
+                <th className="p-3 text-right">Alert at</th>
+                <th className="p-3 text-right">Sold</th>
+                <th className="p-3 text-right">Per day</th>
+                <th className="p-3 text-right">Stock left for</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {rows.map((row) => (
+                <tr key={row.variant_id ?? row.product_id}>
+                  <td className="p-3">
+                    <p className="font-medium">
+                      {row.product_name}
+                      {row.variant_label && ` (${row.variant_label})`}
+                    </p>
+                    <p className="text-xs text-gray-500">{row.sku}</p>
+                  </td>
+                  <td className={`p-3 text-right ${row.stock <= 0 ? 'text-red-600 font-medium' : ''}`}>
+                    {row.stock}
+                  </td>
+                  <td className="p-3 text-right">{row.low_stock_threshold}</td>
+                  <td className="p-3 text-right">{row.units_sold}</td>
+                  <td className="p-3 text-right">{Number(row.daily_sales).toFixed(1)}</td>
+                  <td className="p-3 text-right whitespace-nowrap">{formatDaysLeft(row)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
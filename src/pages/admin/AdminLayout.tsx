@@ -0,0 +1,41 @@
+import { NavLink, Outlet } from 'react-router-dom';
+
+const ADMIN_SECTIONS = [
+  { to: '/admin/products', label: 'Products' },
+  { to: '/admin/inventory', label: 'Inventory' },
+  { to: '/admin/analytics', label: 'Analytics' },
+  { to: '/admin/categories', label: 'Categories' },
+  { to: '/admin/promotions', label: 'Promotions' },
+  { to: '/admin/reviews', label: 'Reviews' },
+  { to: '/admin/returns', label: 'Returns' },
+  { to: '/admin/shipping', label: 'Shipping & Tax' },
+  { to: '/admin/import', label: 'Import / Export' },
+];
+
+export function AdminLayout() {
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">Catalog Admin</h2>
+        <nav className="flex gap-2">
+          {ADMIN_SECTIONS.map((section) => (
+            <NavLink
+              key={section.to}
+              to={section.to}
+              className={({ isActive }) =>
+                `px-4 py-2 rounded-lg font-medium transition-colors ${
+                  isActive
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`
+              }
+            >
+              {section.label}
+            </NavLink>
+          ))}
+        </nav>
+      </div>
+      <Outlet />
+    </div>
+  );
+}
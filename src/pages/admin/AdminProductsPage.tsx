@@ -0,0 +1,222 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Plus } from 'lucide-react';
+import {
+  adjustStock,
+  createProduct,
+  getAdminCategories,
+  getAdminProducts,
+  ProductInput,
+  setProductArchived,
+  StockMovementType,
+  updateProduct,
+} from '../../api/admin';
+import { Category, Product, ProductVariant } from '../../types';
+import { hasVariants } from '../../lib/variants';
+import { ProductFormModal } from '../../components/admin/ProductFormModal';
+import { StockAdjustmentModal } from '../../components/admin/StockAdjustmentModal';
+import { VariantsModal } from '../../components/admin/VariantsModal';
+import { ProductImagesModal } from '../../components/admin/ProductImagesModal';
+
+type ProductDialog =
+  | { kind: 'create' }
+  | { kind: 'edit'; product: Product }
+  | { kind: 'stock'; product: Product; variant?: ProductVariant }
+  | { kind: 'variants'; productId: string }
+  | { kind: 'images'; product: Product };
+
+export function AdminProductsPage() {
+  const [products, setProducts] = useState<Product[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [dialog, setDialog] = useState<ProductDialog | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const loadCatalog = useCallback(async () => {
+    try {
+      const [productsData, categoriesData] = await Promise.all([
+        getAdminProducts(),
+        getAdminCategories(),
+      ]);
+      setProducts(productsData);
+      setCategories(categoriesData);
+    } catch (error) {
+      console.error('Error loading catalog:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCatalog();
+  }, [loadCatalog]);
+
+  async function handleSaveProduct(input: ProductInput) {
+    if (dialog?.kind === 'edit') {
+      await updateProduct(dialog.product.id, input);
+    } else {
+      await createProduct(input);
+    }
+    setDialog(null);
+    await loadCatalog();
+  }
+
+  async function handleAdjustStock(delta: number, reason: string, type: StockMovementType) {
+    if (dialog?.kind !== 'stock') return;
+    await adjustStock(dialog.product.id, delta, reason, dialog.variant?.id ?? null, type);
+    setDialog(dialog.variant ? { kind: 'variants', productId: dialog.product.id } : null);
+    await loadCatalog();
+  }
+
+  async function handleToggleArchived(product: Product) {
+    try {
+      await setProductArchived(product.id, !product.archived_at);
+      await loadCatalog();
+    } catch (error) {
+      console.error('Error archiving product:', error);
+      alert('Failed to update product');
+    }
+  }
+
+  const variantsProduct =
+    dialog?.kind === 'variants' ? products.find((product) => product.id === dialog.productId) : undefined;
+
+  const categoryName = (categoryId: string) =>
+    categories.find((category) => category.id === categoryId)?.name ?? 'Uncategorized';
+
+  if (loading) {
+    return <p className="text-center py-12 text-gray-600">Loading products...</p>;
+  }
+
+  return (
+    <div>
+      <div className="flex justify-end mb-4">
+        <button
+          onClick={() => setDialog({ kind: 'create' })}
+          className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium"
+        >
+          <Plus size={18} />
+          New Product
+        </button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-left text-gray-600">
+            <tr>
+              <th className="p-3">Product</th>
+              <th className="p-3">Category</th>
+              <th className="p-3 text-right">Price</th>
+              <th className="p-3 text-right">Stock</th>
+              <th className="p-3">Status</th>
+              <th className="p-3" />
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {products.map((product) => (
+              <tr key={product.id} className={product.archived_at ? 'text-gray-400' : ''}>
+                <td className="p-3">
+                  <div className="flex items-center gap-3">
+                    <img
+                      src={product.image_url}
+                      alt={product.name}
+                      className="w-10 h-10 object-cover rounded bg-gray-100"
+                    />
+                    <div>
+                      <p className="font-medium">{product.name}</p>
+                      <p className="text-xs text-gray-500">{product.sku}</p>
+                    </div>
+                  </div>
+                </td>
+                <td className="p-3">{categoryName(product.category_id)}</td>
+                <td className="p-3 text-right">${Number(product.price).toFixed(2)}</td>
+                <td
+                  className={`p-3 text-right ${
+                    !product.archived_at && product.stock <= product.low_stock_threshold
+                      ? 'text-red-600 font-medium'
+                      : ''
+                  }`}
+                >
+                  {product.stock}
+                </td>
+                <td className="p-3">{product.archived_at ? 'Archived' : 'Active'}</td>
+                <td className="p-3">
+                  <div className="flex justify-end gap-3 whitespace-nowrap">
+                    <button
+                      onClick={() => setDialog({ kind: 'edit', product })}
+                      className="text-blue-600 hover:text-blue-700 font-medium"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => setDialog({ kind: 'variants', productId: product.id })}
+                      className="text-blue-600 hover:text-blue-700 font-medium"
+                    >
+                      Variants
+                    </button>
+                    <button
+                      onClick={() => setDialog({ kind: 'images', product })}
+                      className="text-blue-600 hover:text-blue-700 font-medium"
+                    >
+                      Images
+                    </button>
+                    {!hasVariants(product) && (
+                      <button
+                        onClick={() => setDialog({ kind: 'stock', product })}
+                        className="text-blue-600 hover:text-blue-700 font-medium"
+                      >
+                        Stock
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleToggleArchived(product)}
+                      className="text-gray-600 hover:text-gray-800 font-medium"
+                    >
+                      {product.archived_at ? 'Restore' : 'Archive'}
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {(dialog?.kind === 'create' || dialog?.kind === 'edit') && (
+        <ProductFormModal
+          product={dialog.kind === 'edit' ? dialog.product : null}
+          categories={categories.filter((category) => !category.archived_at)}
+          onClose={() => setDialog(null)}
+          onSubmit={handleSaveProduct}
+        />
+      )}
+
+      {dialog?.kind === 'stock' && (
+        <StockAdjustmentModal
+          product={dialog.product}
+          variant={dialog.variant}
+          onClose={() => setDialog(null)}
+          onSubmit={handleAdjustStock}
+        />
+      )}
+
+      {dialog?.kind === 'images' && (
+        <ProductImagesModal
+          product={dialog.product}
+          onClose={() => setDialog(null)}
+          onSaved={async () => {
+            setDialog(null);
+            await loadCatalog();
+          }}
+        />
+      )}
+
+      {variantsProduct && (
+        <VariantsModal
+          product={variantsProduct}
+          onClose={() => setDialog(null)}
+          onChanged={loadCatalog}
+          onAdjustStock={(variant) => setDialog({ kind: 'stock', product: variantsProduct, variant })}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Plus } from 'lucide-react';
+import {
+  createPromotion,
+  getAdminCategories,
+  getPromotions,
+  PromotionInput,
+  setPromotionActive,
+  updatePromotion,
+} from '../../api/admin';
+import { Category, Promotion } from '../../types';
+import { describePromotionValue, getPromotionState } from '../../lib/promotions';
+import { formatDate } from '../../lib/format';
+import { PromotionFormModal } from '../../components/admin/PromotionFormModal';
+
+type PromotionDialog = { kind: 'create' } | { kind: 'edit'; promotion: Promotion };
+
+const STATE_STYLES = {
+  active: 'bg-green-100 text-green-800',
+  scheduled: 'bg-blue-100 text-blue-800',
+  expired: 'bg-gray-100 text-gray-600',
+  disabled: 'bg-gray-100 text-gray-600',
+};
+
+export function AdminPromotionsPage() {
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [dialog, setDialog] = useState<PromotionDialog | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const loadPromotions = useCallback(async () => {
+    try {
+      const [promotionsData, categoriesData] = await Promise.all([
+        getPromotions(),
+        getAdminCategories(),
+      ]);
+      setPromotions(promotionsData);
+      setCategories(categoriesData);
+    } catch (error) {
+      console.error('Error loading promotions:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPromotions();
+  }, [loadPromotions]);
+
+  async function handleSavePromotion(input: PromotionInput) {
+    if (dialog?.kind === 'edit') {
+      await updatePromotion(dialog.promotion.id, input);
+    } else {
+      await createPromotion(input);
+    }
+    setDialog(null);
+    await loadPromotions();
+  }
+
+  async function handleToggleActive(promotion: Promotion) {
+    try {
+      await setPromotionActive(promotion.id, !promotion.active);
+      await loadPromotions();
+    } catch (error) {
+      console.error('Error updating promotion:', error);
+      alert('Failed to update promotion');
+    }
+  }
+
+  const categoryName = (categoryId: string | null) =>
+    categoryId
+      ? categories.find((category) => category.id === categoryId)?.name ?? 'Unknown category'
+      : 'All products';
+
+  if (loading) {
+    return <p className="text-center py-12 text-gray-600">Loading promotions...</p>;
+  }
+
+  return (
+    <div>
+      <div className="flex justify-end mb-4">
+        <button
+          onClick={() => setDialog({ kind: 'create' })}
+          className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium"
+        >
+          <Plus size={18} />
+          New Promotion
+        </button>
+      </div>
+
+      {promotions.length === 0 ? (
+        <p className="text-center py-12 text-gray-500">No promotions yet</p>
+      ) : (
+        <div className="bg-white rounded-lg shadow-md overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-gray-600">
+              <tr>
+                <th className="p-3">Code</th>
+                <th className="p-3">Discount</th>
+                <th className="p-3">Applies to</th>
+                <th className="p-3">Valid</th>
+                <th className="p-3">Status</th>
+                <th className="p-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {promotions.map((promotion) => {
+                const state = getPromotionState(promotion);
+                return (
+                  <tr key={promotion.id} className={promotion.active ? '' : 'text-gray-400'}>
+                    <td className="p-3">
+                      <p className="font-medium">{promotion.code}</p>
+                      <p className="text-xs text-gray-500">{promotion.description}</p>
+                    </td>
+                    <td className="p-3">
+                      {describePromotionValue(promotion)}
+                      {Number(promotion.min_subtotal) > 0 && (
+                        <p className="text-xs text-gray-500">
+                          Min. ${Number(promotion.min_subtotal).toFixed(2)}
+                        </p>
+                      )}
+                    </td>
+                    <td className="p-3">{categoryName(promotion.category_id)}</td>
+                    <td className="p-3 whitespace-nowrap">
+                      {promotion.starts_at ? formatDate(promotion.starts_at) : 'Now'}
+                      {' – '}
+                      {promotion.ends_at ? formatDate(promotion.ends_at) : 'No end'}
+                    </td>
+                    <td className="p-3">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${STATE_STYLES[state]}`}>
+                        {state}
+                      </span>
+                    </td>
+                    <td className="p-3">
+                      <div className="flex justify-end gap-3 whitespace-nowrap">
+                        <button
+                          onClick={() => setDialog({ kind: 'edit', promotion })}
+                          className="text-blue-600 hover:text-blue-700 font-medium"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleToggleActive(promotion)}
+                          className="text-gray-600 hover:text-gray-800 font-medium"
+                        >
+                          {promotion.active ? 'Disable' : 'Enable'}
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {dialog && (
+        <PromotionFormModal
+          promotion={dialog.kind === 'edit' ? dialog.promotion : null}
+          categories={categories.filter((category) => !category.archived_at)}
+          onClose={() => setDialog(null)}
+          onSubmit={handleSavePromotion}
+        />
+      )}
+    </div>
+  );
+}
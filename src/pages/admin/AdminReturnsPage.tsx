@@ -0,0 +1,188 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  getReturnsForReview,
+  receiveReturn,
+  refundReturn,
+  ReturnError,
+  ReturnQueueFilter,
+  reviewReturn,
+} from '../../api/returns';
+import { ReturnRequest } from '../../types';
+import { formatDate, formatOrderNumber } from '../../lib/format';
+import { formatReturnStatus, RETURN_STATUS_STYLES } from '../../lib/returns';
+
+const FILTER_LABELS: Record<ReturnQueueFilter, string> = {
+  requested: 'Awaiting decision',
+  approved: 'Awaiting parcel',
+  received: 'Awaiting refund',
+  all: 'All returns',
+};
+
+export function AdminReturnsPage() {
+  const [filter, setFilter] = useState<ReturnQueueFilter>('requested');
+  const [returns, setReturns] = useState<ReturnRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadReturns = useCallback(async () => {
+    try {
+      setReturns(await getReturnsForReview(filter));
+    } catch (error) {
+      console.error('Error loading returns:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [filter]);
+
+  useEffect(() => {
+    loadReturns();
+  }, [loadReturns]);
+
+  async function runAction(request: ReturnRequest, action: () => Promise<unknown>, failure: string) {
+    setBusyId(request.id);
+    try {
+      await action();
+      await loadReturns();
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      alert(error instanceof ReturnError ? error.message : failure);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  function handleApprove(request: ReturnRequest) {
+    runAction(request, () => reviewReturn(request.id, true), 'Failed to approve return');
+  }
+
+  function handleReject(request: ReturnRequest) {
+    const note = prompt('Reason for rejecting this return (shown to the customer):');
+    if (note === null) return;
+    runAction(request, () => reviewReturn(request.id, false, note.trim()), 'Failed to reject return');
+  }
+
+  function handleReceive(request: ReturnRequest) {
+    const restock = confirm('Put the returned items back in stock? Choose Cancel if they cannot be resold.');
+    runAction(request, () => receiveReturn(request.id, restock), 'Failed to record return');
+  }
+
+  function handleRefund(request: ReturnRequest) {
+    if (!confirm(`Refund $${Number(request.refund_amount ?? 0).toFixed(2)} to the customer?`)) return;
+    runAction(request, () => refundReturn(request.id), 'Failed to refund return');
+  }
+
+  return (
+    <div>
+      <div className="flex gap-2 mb-4">
+        {(Object.keys(FILTER_LABELS) as ReturnQueueFilter[]).map((key) => (
+          <button
+            key={key}
+            onClick={() => {
+              setLoading(true);
+              setFilter(key);
+            }}
+            className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+              filter === key ? 'bg-gray-900 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'
+            }`}
+          >
+            {FILTER_LABELS[key]}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <p className="text-center py-12 text-gray-600">Loading returns...</p>
+      ) : returns.length === 0 ? (
+        <p className="text-center py-12 text-gray-500">No returns found</p>
+      ) : (
+        <div className="space-y-4">
+          {returns.map((request) => (
+            <div key={request.id} className="bg-white rounded-lg shadow-md p-5">
+              <div className="flex flex-wrap items-start justify-between gap-4">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-3 mb-1">
+                    <Link
+                      to={`/orders/${request.order_id}`}
+                      className="font-semibold text-blue-600 hover:text-blue-700"
+                    >
+                      Order #{formatOrderNumber(request.order_id)}
+                    </Link>
+                    <span
+                      className={`inline-block px-3 py-1 rounded-full text-xs font-semibold ${
+                        RETURN_STATUS_STYLES[request.status]
+                      }`}
+                    >
+                      {formatReturnStatus(request.status)}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500 mb-2">
+                    {request.order?.customer_name} · requested {formatDate(request.created_at)}
+                  </p>
+                  <ul className="text-sm text-gray-900 mb-2">
+                    {(request.items ?? []).map((line) => (
+                      <li key={line.id}>
+                        {line.quantity} × {line.order_item?.product?.name ?? 'Deleted product'}
+                        {line.order_item?.variant_label && ` (${line.order_item.variant_label})`}
+                        {line.order_item && (
+                          <span className="text-gray-500"> at ${Number(line.order_item.price).toFixed(2)}</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="text-gray-700 whitespace-pre-line">{request.reason}</p>
+                  {request.staff_note && (
+                    <p className="text-sm text-gray-500 mt-2">Note: {request.staff_note}</p>
+                  )}
+                  {request.refund_amount !== null && (
+                    <p className="text-sm text-gray-700 mt-2">
+                      Refund: ${Number(request.refund_amount).toFixed(2)}
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-3 whitespace-nowrap text-sm font-medium">
+                  {request.status === 'requested' && (
+                    <>
+                      <button
+                        onClick={() => handleApprove(request)}
+                        disabled={busyId === request.id}
+                        className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                      >
+                        Approve
+                      </button>
+                      <button
+                        onClick={() => handleReject(request)}
+                        disabled={busyId === request.id}
+                        className="text-red-600 hover:text-red-800 disabled:text-gray-400"
+                      >
+                        Reject
+                      </button>
+                    </>
+                  )}
+                  {request.status === 'approved' && (
+                    <button
+                      onClick={() => handleReceive(request)}
+                      disabled={busyId === request.id}
+                      className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                    >
+                      Mark received
+                    </button>
+                  )}
+                  {request.status === 'received' && (
+                    <button
+                      onClick={() => handleRefund(request)}
+                      disabled={busyId === request.id}
+                      className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                    >
+                      Issue refund
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
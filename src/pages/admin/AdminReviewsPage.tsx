@@ -0,0 +1,165 @@
+import { useCallback, useEffect, useState } from 'react';
+import { BadgeCheck } from 'lucide-react';
+import { getReviewsForModeration, moderateReview, ReviewQueueFilter } from '../../api/admin';
+import { Review } from '../../types';
+import { formatDate } from '../../lib/format';
+import { StarRating } from '../../components/StarRating';
+
+const FILTER_LABELS: Record<ReviewQueueFilter, string> = {
+  reported: 'Reported',
+  hidden: 'Hidden',
+  all: 'All reviews',
+};
+
+export function AdminReviewsPage() {
+  const [filter, setFilter] = useState<ReviewQueueFilter>('reported');
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadReviews = useCallback(async () => {
+    try {
+      setReviews(await getReviewsForModeration(filter));
+    } catch (error) {
+      console.error('Error loading reviews:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [filter]);
+
+  useEffect(() => {
+    loadReviews();
+  }, [loadReviews]);
+
+  async function handleHide(review: Review) {
+    const note = prompt('Reason for hiding this review (shown to its author):');
+    if (note === null) return;
+    try {
+      await moderateReview(review.id, 'hidden', note.trim());
+      await loadReviews();
+    } catch (error) {
+      console.error('Error hiding review:', error);
+      alert('Failed to hide review');
+    }
+  }
+
+  async function handlePublish(review: Review) {
+    try {
+      await moderateReview(review.id, 'published');
+      await loadReviews();
+    } catch (error) {
+      console.error('Error publishing review:', error);
+      alert('Failed to publish review');
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex gap-2 mb-4">
+        {(Object.keys(FILTER_LABELS) as ReviewQueueFilter[]).map((key) => (
+          <button
+            key={key}
+            onClick={() => {
+              setLoading(true);
+              setFilter(key);
+            }}
+            className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+              filter === key ? 'bg-gray-900 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'
+            }`}
+          >
+            {FILTER_LABELS[key]}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <p className="text-center py-12 text-gray-600">Loading reviews...</p>
+      ) : reviews.length === 0 ? (
+        <p className="text-center py-12 text-gray-500">
+          {filter === 'reported' ? 'No reported reviews to moderate' : 'No reviews found'}
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {reviews.map((review) => {
+            const openReports = (review.reports ?? []).filter((report) => !report.resolved_at);
+            return (
+              <div key={review.id} className="bg-white rounded-lg shadow-md p-5">
+                <div className="flex flex-wrap items-start justify-between gap-4">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-gray-500 mb-1">{review.product?.name ?? 'Deleted product'}</p>
+                    <div className="flex items-center gap-3 mb-1">
+                      <StarRating value={review.rating} />
+                      <h3 className="font-semibold text-gray-900">{review.title}</h3>
+                    </div>
+                    <p className="text-xs text-gray-500 mb-2 flex items-center gap-2">
+                      <span>
+                        {review.author_name} · {formatDate(review.created_at)}
+                      </span>
+                      {review.verified_purchase && (
+                        <span className="inline-flex items-center gap-1 text-green-700">
+                          <BadgeCheck size={14} />
+                          Verified purchase
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-gray-700 whitespace-pre-line">{review.body}</p>
+                    {openReports.length > 0 && (
+                      <div className="mt-3 p-3 bg-red-50 rounded-lg">
+                        <p className="text-sm font-medium text-red-800 mb-1">
+                          {openReports.length} open {openReports.length === 1 ? 'report' : 'reports'}
+                        </p>
+                        <ul className="text-sm text-red-700 list-disc list-inside">
+                          {openReports.map((report) => (
+                            <li key={report.id}>{report.reason || 'No reason given'}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    {review.status === 'hidden' && review.moderation_note && (
+                      <p className="text-sm text-gray-500 mt-2">Hidden: {review.moderation_note}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span
+                      className={`px-2 py-1 rounded text-xs font-medium ${
+                        review.status === 'published'
+                          ? 'bg-green-100 text-green-800'
+                          : 'bg-gray-100 text-gray-600'
+                      }`}
+                    >
+                      {review.status === 'published' ? 'Published' : 'Hidden'}
+                    </span>
+                    {review.status === 'published' ? (
+                      <>
+                        {openReports.length > 0 && (
+                          <button
+                            onClick={() => handlePublish(review)}
+                            className="text-gray-600 hover:text-gray-800 font-medium text-sm"
+                          >
+                            Dismiss reports
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleHide(review)}
+                          className="text-red-600 hover:text-red-700 font-medium text-sm"
+                        >
+                          Hide
+                        </button>
+                      </>
+                    ) : (
+                      <button
+                        onClick={() => handlePublish(review)}
+                        className="text-blue-600 hover:text-blue-700 font-medium text-sm"
+                      >
+                        Publish
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,507 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  createShippingRate,
+  createTaxRate,
+  deleteShippingRate,
+  deleteTaxRate,
+  getShippingRates,
+  getTaxRates,
+  updateShippingRate,
+  updateTaxRate,
+} from '../../api/admin';
+import { ShippingRate, ShippingRateKind, TaxRate } from '../../types';
+import { COUNTRIES, getCountryName } from '../../lib/address';
+
+const SHIPPING_KIND_LABELS: Record<ShippingRateKind, string> = {
+  flat: 'Flat rate',
+  weight_tier: 'Weight tier (g)',
+  price_tier: 'Order value tier ($)',
+};
+
+const EMPTY_SHIPPING_FORM = {
+  name: '',
+  country: '',
+  kind: 'flat' as ShippingRateKind,
+  min_value: '0',
+  max_value: '',
+  amount: '',
+  free_over: '',
+  active: true,
+};
+
+const EMPTY_TAX_FORM = {
+  name: 'Tax',
+  country: 'US',
+  region: '',
+  rate: '',
+  applies_to_shipping: false,
+};
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+function describeTier(rate: ShippingRate): string {
+  if (rate.kind === 'flat') return 'Any order';
+  const unit = rate.kind === 'weight_tier' ? 'g' : '';
+  const prefix = rate.kind === 'price_tier' ? '$' : '';
+  const min = `${prefix}${Number(rate.min_value)}${unit}`;
+  return rate.max_value === null
+    ? `${min} and up`
+    : `${min} – under ${prefix}${Number(rate.max_value)}${unit}`;
+}
+
+function ShippingRatesSection() {
+  const [rates, setRates] = useState<ShippingRate[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(EMPTY_SHIPPING_FORM);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRates = useCallback(async () => {
+    try {
+      setRates(await getShippingRates());
+    } catch (err) {
+      console.error('Error loading shipping rates:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRates();
+  }, [loadRates]);
+
+  function startEditing(rate: ShippingRate) {
+    setEditingId(rate.id);
+    setFormData({
+      name: rate.name,
+      country: rate.country ?? '',
+      kind: rate.kind,
+      min_value: String(rate.min_value),
+      max_value: rate.max_value === null ? '' : String(rate.max_value),
+      amount: String(rate.amount),
+      free_over: rate.free_over === null ? '' : String(rate.free_over),
+      active: rate.active,
+    });
+    setError(null);
+  }
+
+  function resetForm() {
+    setEditingId(null);
+    setFormData(EMPTY_SHIPPING_FORM);
+    setError(null);
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const isTier = formData.kind !== 'flat';
+    const input = {
+      name: formData.name.trim(),
+      country: formData.country || null,
+      kind: formData.kind,
+      min_value: isTier ? Number(formData.min_value || 0) : 0,
+      max_value: isTier && formData.max_value !== '' ? Number(formData.max_value) : null,
+      amount: Number(formData.amount),
+      free_over: formData.free_over === '' ? null : Number(formData.free_over),
+      active: formData.active,
+    };
+    try {
+      if (editingId) {
+        await updateShippingRate(editingId, input);
+      } else {
+        await createShippingRate(input);
+      }
+      resetForm();
+      await loadRates();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save shipping rate');
+    }
+  };
+
+  async function handleDelete(rate: ShippingRate) {
+    if (!confirm(`Delete the ${rate.name} shipping rate?`)) return;
+    try {
+      await deleteShippingRate(rate.id);
+      await loadRates();
+    } catch (err) {
+      console.error('Error deleting shipping rate:', err);
+      alert('Failed to delete shipping rate');
+    }
+  }
+
+  return (
+    <section>
+      <h3 className="text-xl font-semibold mb-4">Shipping Rates</h3>
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-md p-4 space-y-4 h-fit">
+          <h4 className="text-lg font-semibold">{editingId ? 'Edit Rate' : 'New Rate'}</h4>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              type="text"
+              required
+              placeholder="e.g. Standard"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Country</label>
+              <select
+                value={formData.country}
+                onChange={(e) => setFormData({ ...formData, country: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">Everywhere else</option>
+                {COUNTRIES.map((country) => (
+                  <option key={country.code} value={country.code}>
+                    {country.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Rule</label>
+              <select
+                value={formData.kind}
+                onChange={(e) =>
+                  setFormData({ ...formData, kind: e.target.value as ShippingRateKind })
+                }
+                className={inputClass}
+              >
+                {Object.entries(SHIPPING_KIND_LABELS).map(([kind, label]) => (
+                  <option key={kind} value={kind}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          {formData.kind !== 'flat' && (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={formData.min_value}
+                  onChange={(e) => setFormData({ ...formData, min_value: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Up to</label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  placeholder="No limit"
+                  value={formData.max_value}
+                  onChange={(e) => setFormData({ ...formData, max_value: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Charge</label>
+              <input
+                type="number"
+                required
+                min={0}
+                step="0.01"
+                value={formData.amount}
+                onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Free over</label>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                placeholder="Never"
+                value={formData.free_over}
+                onChange={(e) => setFormData({ ...formData, free_over: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={formData.active}
+              onChange={(e) => setFormData({ ...formData, active: e.target.checked })}
+              className="rounded border-gray-300"
+            />
+            Active
+          </label>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              className="flex-1 bg-blue-600 text-white py-2 rounded-lg hover:bg-blue-700 transition-colors font-semibold"
+            >
+              {editingId ? 'Save' : 'Create'}
+            </button>
+            {editingId && (
+              <button
+                type="button"
+                onClick={resetForm}
+                className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors font-medium"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </form>
+
+        <div className="lg:col-span-2 bg-white rounded-lg shadow-md divide-y h-fit">
+          {rates.length === 0 && (
+            <p className="p-4 text-sm text-gray-500">
+              No shipping rates. Checkout is unavailable until one is added.
+            </p>
+          )}
+          {rates.map((rate) => (
+            <div
+              key={rate.id}
+              className={`flex items-center justify-between gap-4 p-4 ${
+                rate.active ? '' : 'text-gray-400'
+              }`}
+            >
+              <div>
+                <p className="font-medium">
+                  {rate.name} · {rate.country ? getCountryName(rate.country) : 'Everywhere else'}
+                  {!rate.active && <span className="ml-2 text-xs">(inactive)</span>}
+                </p>
+                <p className="text-sm text-gray-500">
+                  {describeTier(rate)}: ${Number(rate.amount).toFixed(2)}
+                  {rate.free_over !== null && `, free over $${Number(rate.free_over).toFixed(2)}`}
+                </p>
+              </div>
+              <div className="flex gap-3 text-sm whitespace-nowrap">
+                <button
+                  onClick={() => startEditing(rate)}
+                  className="text-blue-600 hover:text-blue-700 font-medium"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleDelete(rate)}
+                  className="text-red-600 hover:text-red-700 font-medium"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+}
+
+function TaxRatesSection() {
+  const [rates, setRates] = useState<TaxRate[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(EMPTY_TAX_FORM);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRates = useCallback(async () => {
+    try {
+      setRates(await getTaxRates());
+    } catch (err) {
+      console.error('Error loading tax rates:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRates();
+  }, [loadRates]);
+
+  function startEditing(rate: TaxRate) {
+    setEditingId(rate.id);
+    setFormData({
+      name: rate.name,
+      country: rate.country,
+      region: rate.region ?? '',
+      rate: String(rate.rate),
+      applies_to_shipping: rate.applies_to_shipping,
+    });
+    setError(null);
+  }
+
+  function resetForm() {
+    setEditingId(null);
+    setFormData(EMPTY_TAX_FORM);
+    setError(null);
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const input = {
+      name: formData.name.trim(),
+      country: formData.country,
+      region: formData.region.trim().toUpperCase() || null,
+      rate: Number(formData.rate),
+      applies_to_shipping: formData.applies_to_shipping,
+    };
+    try {
+      if (editingId) {
+        await updateTaxRate(editingId, input);
+      } else {
+        await createTaxRate(input);
+      }
+      resetForm();
+      await loadRates();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save tax rate');
+    }
+  };
+
+  async function handleDelete(rate: TaxRate) {
+    if (!confirm(`Delete the ${rate.name} rate for ${rate.region ?? rate.country}?`)) return;
+    try {
+      await deleteTaxRate(rate.id);
+      await loadRates();
+    } catch (err) {
+      console.error('Error deleting tax rate:', err);
+      alert('Failed to delete tax rate');
+    }
+  }
+
+  return (
+    <section>
+      <h3 className="text-xl font-semibold mb-4">Tax Rates</h3>
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-md p-4 space-y-4 h-fit">
+          <h4 className="text-lg font-semibold">{editingId ? 'Edit Rate' : 'New Rate'}</h4>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                required
+                placeholder="e.g. VAT"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Rate (%)</label>
+              <input
+                type="number"
+                required
+                min={0}
+                max={100}
+                step="0.001"
+                value={formData.rate}
+                onChange={(e) => setFormData({ ...formData, rate: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Country</label>
+              <select
+                value={formData.country}
+                onChange={(e) => setFormData({ ...formData, country: e.target.value })}
+                className={inputClass}
+              >
+                {COUNTRIES.map((country) => (
+                  <option key={country.code} value={country.code}>
+                    {country.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Region</label>
+              <input
+                type="text"
+                placeholder="Whole country"
+                value={formData.region}
+                onChange={(e) => setFormData({ ...formData, region: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={formData.applies_to_shipping}
+              onChange={(e) =>
+                setFormData({ ...formData, applies_to_shipping: e.target.checked })
+              }
+              className="rounded border-gray-300"
+            />
+            Charge tax on shipping
+          </label>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              className="flex-1 bg-blue-600 text-white py-2 rounded-lg hover:bg-blue-700 transition-colors font-semibold"
+            >
+              {editingId ? 'Save' : 'Create'}
+            </button>
+            {editingId && (
+              <button
+                type="button"
+                onClick={resetForm}
+                className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors font-medium"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </form>
+
+        <div className="lg:col-span-2 bg-white rounded-lg shadow-md divide-y h-fit">
+          {rates.length === 0 && (
+            <p className="p-4 text-sm text-gray-500">No tax rates. Orders are not taxed.</p>
+          )}
+          {rates.map((rate) => (
+            <div key={rate.id} className="flex items-center justify-between gap-4 p-4">
+              <div>
+                <p className="font-medium">
+                  {getCountryName(rate.country)}
+                  {rate.region && ` · ${rate.region}`}
+                </p>
+                <p className="text-sm text-gray-500">
+                  {rate.name} {Number(rate.rate)}%
+                  {rate.applies_to_shipping && ', including shipping'}
+                </p>
+              </div>
+              <div className="flex gap-3 text-sm whitespace-nowrap">
+                <button
+                  onClick={() => startEditing(rate)}
+                  className="text-blue-600 hover:text-blue-700 font-medium"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleDelete(rate)}
+                  className="text-red-600 hover:text-red-700 font-medium"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+}
+
+export function AdminShippingPage() {
+  return (
+    <div className="space-y-8">
+      <ShippingRatesSection />
+      <TaxRatesSection />
+    </div>
+  );
+}
@@ -1,19 +1,123 @@
 export interface Category {
   id: string;
+  parent_id: string | null;
+  slug: string;
   name: string;
   description: string;
+  // Order among siblings; ties are ordered by name.
+  position: number;
+  archived_at?: string | null;
   created_at: string;
 }
 
 export interface Product {
   id: string;
+  sku: string;
   category_id: string;
   name: string;
   description: string;
   price: number;
   image_url: string;
   stock: number;
+  weight_grams: number;
+  low_stock_threshold: number;
+  rating_average?: number | null;
+  rating_count?: number;
+  archived_at?: string | null;
+  updated_at?: string;
   created_at: string;
+  options?: ProductOption[];
+  variants?: ProductVariant[];
+  images?: ProductImage[];
+  category?: Category | null;
+}
+
+export interface ProductImage {
+  id: string;
+  product_id: string;
+  url: string;
+  alt_text: string;
+  position: number;
+  created_at: string;
+}
+
+export interface ProductOption {
+  id: string;
+  product_id: string;
+  name: string;
+  values: string[];
+  position: number;
+  created_at: string;
+}
+
+export interface ProductVariant {
+  id: string;
+  product_id: string;
+  sku: string;
+  options: Record<string, string>;
+  price: number | null;
+  stock: number;
+  image_url: string;
+  position: number;
+  archived_at?: string | null;
+  created_at: string;
+}
+
+export type ReviewStatus = 'published' | 'hidden';
+
+export interface Review {
+  id: string;
+  product_id: string;
+  user_id: string;
+  rating: number;
+  title: string;
+  body: string;
+  author_name: string;
+  verified_purchase: boolean;
+  status: ReviewStatus;
+  moderation_note: string;
+  moderated_at?: string | null;
+  created_at: string;
+  updated_at: string;
+  product?: Pick<Product, 'id' | 'name' | 'image_url'>;
+  reports?: ReviewReport[];
+}
+
+export interface ReviewReport {
+  id: string;
+  review_id: string;
+  user_id: string;
+  reason: string;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+export type MovementType = 'opening' | 'sale' | 'cancellation' | 'return' | 'restock' | 'adjustment';
+
+export interface InventoryMovement {
+  id: string;
+  product_id: string;
+  variant_id?: string | null;
+  type: MovementType;
+  quantity: number;
+  stock_after: number;
+  order_id?: string | null;
+  created_by?: string | null;
+  note: string;
+  created_at: string;
+}
+
+export interface LowStockReportRow {
+  product_id: string;
+  variant_id: string | null;
+  product_name: string;
+  variant_label: string | null;
+  sku: string;
+  stock: number;
+  low_stock_threshold: number;
+  units_sold: number;
+  daily_sales: number;
+  days_until_stockout: number | null;
 }
 
 export interface CartItem {
@@ -21,29 +125,264 @@ export interface CartItem {
   user_id?: string;
   session_id?: string;
   product_id: string;
+  variant_id?: string | null;
   quantity: number;
+  price_at_add?: number | null;
   created_at: string;
-  product?: Product;
+  product?: Product | null;
+  variant?: ProductVariant | null;
+}
+
+export type SavedList = 'wishlist' | 'saved_for_later';
+
+export interface SavedItem {
+  id: string;
+  user_id: string;
+  list: SavedList;
+  product_id: string;
+  variant_id: string | null;
+  quantity: number;
+  seen_price: number | null;
+  seen_in_stock: boolean;
+  created_at: string;
+  product?: Product | null;
+  variant?: ProductVariant | null;
 }
 
+export type OrderStatus =
+  | 'pending'
+  | 'paid'
+  | 'packed'
+  | 'shipped'
+  | 'delivered'
+  | 'partially_refunded'
+  | 'cancelled'
+  | 'refunded';
+
 export interface Order {
   id: string;
   user_id?: string;
   session_id?: string;
+  subtotal: number;
+  discount_total: number;
   total_amount: number;
-  status: 'pending' | 'completed' | 'cancelled';
+  refunded_amount: number;
+  currency: string;
+  exchange_rate: number;
+  promo_code?: string | null;
+  free_shipping: boolean;
+  shipping_method: string | null;
+  shipping_amount: number;
+  tax_name: string | null;
+  tax_rate: number;
+  tax_amount: number;
+  status: OrderStatus;
   customer_email: string;
   customer_name: string;
   shipping_address: string;
+  shipping_line1: string | null;
+  shipping_line2: string | null;
+  shipping_city: string | null;
+  shipping_region: string | null;
+  shipping_postal_code: string | null;
+  shipping_country: string | null;
   created_at: string;
 }
 
+export interface Currency {
+  code: string;
+  name: string;
+  rate: number;
+  rounding_increment: number;
+  active: boolean;
+  updated_at: string;
+}
+
+export type SalesInterval = 'day' | 'week' | 'month';
+
+export interface SalesPeriod {
+  period_start: string;
+  order_count: number;
+  revenue: number;
+  average_order_value: number;
+}
+
+export interface TopProductRow {
+  product_id: string | null;
+  product_name: string;
+  units: number;
+  revenue: number;
+}
+
+export interface TopCategoryRow {
+  category_id: string | null;
+  category_name: string;
+  units: number;
+  revenue: number;
+}
+
+export interface CartConversion {
+  carts: number;
+  converted_carts: number;
+  conversion_rate: number;
+}
+
+export interface CartRecovery {
+  emails_sent: number;
+  restored_carts: number;
+  recovered_orders: number;
+  recovery_rate: number;
+  recovered_revenue: number;
+}
+
+export type PaymentStatus = 'pending' | 'authorized' | 'captured' | 'failed' | 'refunded';
+
+export interface Payment {
+  id: string;
+  order_id: string;
+  provider: string;
+  provider_payment_id: string | null;
+  status: PaymentStatus;
+  amount: number;
+  refunded_amount: number;
+  currency: string;
+  failure_code: string | null;
+  failure_message: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface OrderItem {
   id: string;
   order_id: string;
   product_id: string;
+  variant_id?: string | null;
+  variant_label?: string | null;
   quantity: number;
   price: number;
   created_at: string;
   product?: Product;
 }
+
+export type ReturnStatus = 'requested' | 'approved' | 'rejected' | 'received' | 'refunded';
+
+export interface ReturnRequestItem {
+  id: string;
+  return_id: string;
+  order_item_id: string;
+  quantity: number;
+  order_item?: OrderItem;
+}
+
+export interface ReturnRequest {
+  id: string;
+  order_id: string;
+  status: ReturnStatus;
+  reason: string;
+  staff_note: string;
+  refund_amount: number | null;
+  requested_by?: string | null;
+  decided_by?: string | null;
+  created_at: string;
+  decided_at: string | null;
+  received_at: string | null;
+  refunded_at: string | null;
+  items?: ReturnRequestItem[];
+  order?: Order;
+}
+
+export interface OrderDiscount {
+  id: string;
+  order_id: string;
+  promotion_id?: string | null;
+  code: string;
+  description: string;
+  amount: number;
+  created_at: string;
+}
+
+export interface OrderStatusHistory {
+  id: string;
+  order_id: string;
+  from_status: OrderStatus | null;
+  to_status: OrderStatus;
+  reason: string;
+  changed_by?: string;
+  created_at: string;
+}
+
+export interface CheckoutLineError {
+  product_id: string;
+  variant_id?: string | null;
+  product_name: string;
+  requested: number;
+  available: number;
+}
+
+export type PromotionKind = 'percentage' | 'fixed' | 'free_shipping' | 'buy_x_get_y';
+
+export interface Promotion {
+  id: string;
+  code: string;
+  description: string;
+  kind: PromotionKind;
+  value: number;
+  category_id: string | null;
+  buy_quantity: number | null;
+  get_quantity: number | null;
+  min_subtotal: number;
+  starts_at: string | null;
+  ends_at: string | null;
+  usage_limit: number | null;
+  per_customer_limit: number | null;
+  active: boolean;
+  created_at: string;
+  updated_at?: string;
+}
+
+export interface CartQuote {
+  subtotal: number;
+  discounts: Pick<OrderDiscount, 'code' | 'description' | 'amount'>[];
+  discount_total: number;
+  free_shipping: boolean;
+  shipping_method: string | null;
+  shipping: number | null;
+  tax_name: string | null;
+  tax_rate: number | null;
+  tax: number | null;
+  total: number;
+}
+
+export interface Address {
+  line1: string;
+  line2: string;
+  city: string;
+  region: string;
+  postal_code: string;
+  country: string;
+}
+
+export type ShippingRateKind = 'flat' | 'weight_tier' | 'price_tier';
+
+export interface ShippingRate {
+  id: string;
+  name: string;
+  country: string | null;
+  kind: ShippingRateKind;
+  min_value: number;
+  max_value: number | null;
+  amount: number;
+  free_over: number | null;
+  active: boolean;
+  created_at: string;
+}
+
+export interface TaxRate {
+  id: string;
+  name: string;
+  country: string;
+  region: string | null;
+  rate: number;
+  applies_to_shipping: boolean;
+  created_at: string;
+}
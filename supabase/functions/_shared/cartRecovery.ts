@@ -0,0 +1,48 @@
+// Recovery links carry the recovery id and an HMAC of it, so a link can't be
+// forged for someone else's cart. Expiry is checked by the database.
+
+function getSecret(): string {
+  const secret = Deno.env.get('CART_RECOVERY_SECRET');
+  if (!secret) throw new Error('CART_RECOVERY_SECRET is not set');
+  return secret;
+}
+
+function importKey(usage: 'sign' | 'verify'): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(getSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    [usage]
+  );
+}
+
+function toHex(bytes: ArrayBuffer): string {
+  return Array.from(new Uint8Array(bytes), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(value: string): Uint8Array | null {
+  if (!/^([0-9a-f]{2})+$/i.test(value)) return null;
+  return new Uint8Array(value.match(/../g)!.map((pair) => parseInt(pair, 16)));
+}
+
+export async function signRecoveryId(recoveryId: string): Promise<string> {
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    await importKey('sign'),
+    new TextEncoder().encode(recoveryId)
+  );
+  return toHex(signature);
+}
+
+// crypto.subtle.verify compares in constant time.
+export async function verifyRecoverySignature(recoveryId: string, signature: string): Promise<boolean> {
+  const bytes = fromHex(signature);
+  if (!bytes) return false;
+  return crypto.subtle.verify('HMAC', await importKey('verify'), bytes, new TextEncoder().encode(recoveryId));
+}
+
+export async function getRecoveryUrl(siteUrl: string, recoveryId: string): Promise<string> {
+  const params = new URLSearchParams({ id: recoveryId, sig: await signRecoveryId(recoveryId) });
+  return `${siteUrl}/cart/recover?${params}`;
+}
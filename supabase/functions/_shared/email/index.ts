@@ -0,0 +1,24 @@
+import { createSmtpTransport } from './smtp.ts';
+import { EmailTransport } from './types.ts';
+
+export * from './types.ts';
+export * from './templates.ts';
+
+// EMAIL_TRANSPORT selects the transport; register new transports here.
+export function getEmailTransport(): EmailTransport {
+  const name = Deno.env.get('EMAIL_TRANSPORT') ?? 'smtp';
+
+  switch (name) {
+    case 'smtp':
+      return createSmtpTransport({
+        host: Deno.env.get('SMTP_HOST') ?? 'localhost',
+        port: Number(Deno.env.get('SMTP_PORT') ?? '1025'),
+        secure: Deno.env.get('SMTP_SECURE') === 'true',
+        user: Deno.env.get('SMTP_USER'),
+        password: Deno.env.get('SMTP_PASSWORD'),
+        from: Deno.env.get('EMAIL_FROM') ?? 'ShopHub <orders@shophub.local>',
+      });
+    default:
+      throw new Error(`Unknown email transport: ${name}`);
+  }
+}
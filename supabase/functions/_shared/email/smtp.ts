@@ -0,0 +1,37 @@
+import nodemailer from 'npm:nodemailer@6';
+import { EmailTransport } from './types.ts';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+// Plain SMTP. With the defaults it talks to a local catcher such as MailHog
+// (SMTP on 1025, web UI on 8025), which accepts mail without authentication.
+export function createSmtpTransport(config: SmtpConfig): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user ? { user: config.user, pass: config.password ?? '' } : undefined,
+  });
+
+  return {
+    name: 'smtp',
+
+    async send(message) {
+      const info = await transporter.sendMail({
+        from: config.from,
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+      });
+      return { messageId: info.messageId ?? null };
+    },
+  };
+}
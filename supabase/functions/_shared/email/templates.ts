@@ -0,0 +1,297 @@
+import { EmailMessage } from './types.ts';
+
+// Order emails are rendered from the order row at send time, so a retried email
+// shows the same figures the order page does. Every template produces both an
+// HTML and a plain-text part.
+
+export type OrderEmailTemplate =
+  | 'order_confirmation'
+  | 'order_shipped'
+  | 'order_cancelled'
+  | 'order_refunded';
+
+export interface OrderEmailOrder {
+  id: string;
+  customer_name: string;
+  subtotal: number | null;
+  discount_total: number;
+  shipping_method: string | null;
+  shipping_amount: number;
+  tax_name: string | null;
+  tax_amount: number;
+  total_amount: number;
+  // Amounts are stored in USD; emails show them in the currency the order was
+  // placed in, at the rate recorded then.
+  currency: string;
+  exchange_rate: number;
+  rounding_increment: number;
+  shipping_address: string;
+  shipping_line1: string | null;
+  shipping_line2: string | null;
+  shipping_city: string | null;
+  shipping_region: string | null;
+  shipping_postal_code: string | null;
+  shipping_country: string | null;
+}
+
+export interface OrderEmailItem {
+  product_name: string;
+  variant_label: string | null;
+  quantity: number;
+  price: number;
+}
+
+export interface OrderEmailData {
+  order: OrderEmailOrder;
+  items: OrderEmailItem[];
+  orderUrl: string;
+}
+
+// Items are the cart as it was when it was abandoned, at the prices of the time.
+export interface CartRecoveryEmailData {
+  items: OrderEmailItem[];
+  recoveryUrl: string;
+  expiresAt: string;
+}
+
+interface TemplateCopy {
+  subject: (orderNumber: string) => string;
+  heading: string;
+  intro: string;
+  showAddress: boolean;
+}
+
+const TEMPLATES: Record<OrderEmailTemplate, TemplateCopy> = {
+  order_confirmation: {
+    subject: (orderNumber) => `Your ShopHub order #${orderNumber} is confirmed`,
+    heading: 'Thanks for your order',
+    intro: "We've received your payment and are getting your order ready.",
+    showAddress: true,
+  },
+  order_shipped: {
+    subject: (orderNumber) => `Your ShopHub order #${orderNumber} has shipped`,
+    heading: 'Your order is on its way',
+    intro: 'Your order has left our warehouse and is on its way to you.',
+    showAddress: true,
+  },
+  order_cancelled: {
+    subject: (orderNumber) => `Your ShopHub order #${orderNumber} was cancelled`,
+    heading: 'Your order was cancelled',
+    intro: "Your order has been cancelled. If you paid for it, you won't be charged.",
+    showAddress: false,
+  },
+  order_refunded: {
+    subject: (orderNumber) => `Your ShopHub order #${orderNumber} was refunded`,
+    heading: 'Your refund is on its way',
+    intro: 'We have refunded your order. It can take a few days to appear on your statement.',
+    showAddress: false,
+  },
+};
+
+// Same as the storefront's formatOrderNumber.
+function formatOrderNumber(orderId: string): string {
+  return orderId.split('-')[0].toUpperCase();
+}
+
+type MoneyFormat = Pick<OrderEmailOrder, 'currency' | 'exchange_rate' | 'rounding_increment'>;
+
+// Carts are priced in the base currency; only orders record another one.
+const BASE_MONEY: MoneyFormat = { currency: 'USD', exchange_rate: 1, rounding_increment: 0.01 };
+
+function formatMoney(amount: number, format: MoneyFormat): string {
+  const increment = Number(format.rounding_increment) || 0.01;
+  const converted = Math.round((Number(amount) * Number(format.exchange_rate)) / increment) * increment;
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: format.currency }).format(
+    Number(converted.toFixed(4))
+  );
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function getAddressLines(order: OrderEmailOrder): string[] {
+  if (!order.shipping_line1) {
+    return order.shipping_address ? order.shipping_address.split('\n') : [];
+  }
+  return [
+    order.shipping_line1,
+    order.shipping_line2,
+    [order.shipping_city, order.shipping_region, order.shipping_postal_code].filter(Boolean).join(', '),
+    order.shipping_country,
+  ].filter((line): line is string => !!line);
+}
+
+function getTotals(order: OrderEmailOrder): [string, string][] {
+  const totals: [string, string][] = [];
+  if (order.subtotal !== null) totals.push(['Subtotal', formatMoney(order.subtotal, order)]);
+  if (Number(order.discount_total) > 0) {
+    totals.push(['Discount', `-${formatMoney(order.discount_total, order)}`]);
+  }
+  totals.push([
+    order.shipping_method ? `Shipping (${order.shipping_method})` : 'Shipping',
+    formatMoney(order.shipping_amount, order),
+  ]);
+  if (Number(order.tax_amount) > 0) totals.push([order.tax_name || 'Tax', formatMoney(order.tax_amount, order)]);
+  totals.push(['Total', formatMoney(order.total_amount, order)]);
+  return totals;
+}
+
+function itemName(item: OrderEmailItem): string {
+  return item.variant_label ? `${item.product_name} (${item.variant_label})` : item.product_name;
+}
+
+function renderText(copy: TemplateCopy, data: OrderEmailData, orderNumber: string): string {
+  const { order, items, orderUrl } = data;
+  const lines = [
+    `Hi ${order.customer_name},`,
+    '',
+    copy.intro,
+    '',
+    `Order #${orderNumber}`,
+    '',
+    ...items.map(
+      (item) => `${item.quantity} x ${itemName(item)}  ${formatMoney(item.price * item.quantity, order)}`
+    ),
+    '',
+    ...getTotals(order).map(([label, value]) => `${label}: ${value}`),
+  ];
+  if (copy.showAddress) {
+    lines.push('', 'Shipping to:', ...getAddressLines(order));
+  }
+  lines.push('', `View your order: ${orderUrl}`, '', 'ShopHub');
+  return lines.join('\n');
+}
+
+function renderHtml(copy: TemplateCopy, data: OrderEmailData, orderNumber: string): string {
+  const { order, items, orderUrl } = data;
+  const itemRows = items
+    .map(
+      (item) => `
+        <tr>
+          <td style="padding:8px 0;">${item.quantity} &times; ${escapeHtml(itemName(item))}</td>
+          <td style="padding:8px 0;text-align:right;">${formatMoney(item.price * item.quantity, order)}</td>
+        </tr>`
+    )
+    .join('');
+  const totalRows = getTotals(order)
+    .map(
+      ([label, value]) => `
+        <tr>
+          <td style="padding:4px 0;color:#4b5563;">${escapeHtml(label)}</td>
+          <td style="padding:4px 0;text-align:right;">${escapeHtml(value)}</td>
+        </tr>`
+    )
+    .join('');
+  const address = copy.showAddress
+    ? `<h3 style="font-size:14px;margin:24px 0 8px;">Shipping to</h3>
+      <p style="margin:0;color:#4b5563;">${getAddressLines(order).map(escapeHtml).join('<br>')}</p>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f9fafb;font-family:Arial,sans-serif;color:#111827;">
+    <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px;">
+      <p style="font-size:20px;font-weight:bold;color:#2563eb;margin:0 0 24px;">ShopHub</p>
+      <h1 style="font-size:22px;margin:0 0 8px;">${escapeHtml(copy.heading)}</h1>
+      <p style="margin:0 0 16px;">Hi ${escapeHtml(order.customer_name)}, ${escapeHtml(copy.intro)}</p>
+      <p style="margin:0 0 8px;font-weight:bold;">Order #${orderNumber}</p>
+      <table style="width:100%;border-collapse:collapse;border-top:1px solid #e5e7eb;">${itemRows}
+      </table>
+      <table style="width:100%;border-collapse:collapse;border-top:1px solid #e5e7eb;margin-top:8px;">${totalRows}
+      </table>
+      ${address}
+      <p style="margin:24px 0 0;">
+        <a href="${escapeHtml(orderUrl)}" style="display:inline-block;background:#2563eb;color:#ffffff;padding:10px 16px;border-radius:6px;text-decoration:none;">View your order</a>
+      </p>
+    </div>
+  </body>
+</html>`;
+}
+
+export function renderOrderEmail(
+  template: OrderEmailTemplate,
+  recipient: string,
+  data: OrderEmailData
+): EmailMessage {
+  const copy = TEMPLATES[template];
+  const orderNumber = formatOrderNumber(data.order.id);
+
+  return {
+    to: recipient,
+    subject: copy.subject(orderNumber),
+    html: renderHtml(copy, data, orderNumber),
+    text: renderText(copy, data, orderNumber),
+  };
+}
+
+export function renderCartRecoveryEmail(recipient: string, data: CartRecoveryEmailData): EmailMessage {
+  const { items, recoveryUrl } = data;
+  const subtotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  const expires = new Date(data.expiresAt).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+  const intro = 'You left some items in your cart. They are waiting for you, on this or any other device.';
+
+  const text = [
+    'Hi,',
+    '',
+    intro,
+    '',
+    ...items.map((item) => `${item.quantity} x ${itemName(item)}  ${formatMoney(item.price * item.quantity, BASE_MONEY)}`),
+    '',
+    `Subtotal: ${formatMoney(subtotal, BASE_MONEY)}`,
+    '',
+    `Restore your cart: ${recoveryUrl}`,
+    `This link works until ${expires}.`,
+    '',
+    'ShopHub',
+  ].join('\n');
+
+  const itemRows = items
+    .map(
+      (item) => `
+        <tr>
+          <td style="padding:8px 0;">${item.quantity} &times; ${escapeHtml(itemName(item))}</td>
+          <td style="padding:8px 0;text-align:right;">${formatMoney(item.price * item.quantity, BASE_MONEY)}</td>
+        </tr>`
+    )
+    .join('');
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f9fafb;font-family:Arial,sans-serif;color:#111827;">
+    <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px;">
+      <p style="font-size:20px;font-weight:bold;color:#2563eb;margin:0 0 24px;">ShopHub</p>
+      <h1 style="font-size:22px;margin:0 0 8px;">Still thinking it over?</h1>
+      <p style="margin:0 0 16px;">Hi, ${escapeHtml(intro)}</p>
+      <table style="width:100%;border-collapse:collapse;border-top:1px solid #e5e7eb;">${itemRows}
+      </table>
+      <table style="width:100%;border-collapse:collapse;border-top:1px solid #e5e7eb;margin-top:8px;">
+        <tr>
+          <td style="padding:4px 0;color:#4b5563;">Subtotal</td>
+          <td style="padding:4px 0;text-align:right;">${formatMoney(subtotal, BASE_MONEY)}</td>
+        </tr>
+      </table>
+      <p style="margin:24px 0 0;">
+        <a href="${escapeHtml(recoveryUrl)}" style="display:inline-block;background:#2563eb;color:#ffffff;padding:10px 16px;border-radius:6px;text-decoration:none;">Restore your cart</a>
+      </p>
+      <p style="margin:16px 0 0;font-size:12px;color:#6b7280;">This link works until ${escapeHtml(expires)}.</p>
+    </div>
+  </body>
+</html>`;
+
+  return {
+    to: recipient,
+    subject: 'You left something in your ShopHub cart',
+    html,
+    text,
+  };
+}
@@ -0,0 +1,19 @@
+// Contract every email transport implements. Transports run only inside Edge
+// Functions, where their credentials live.
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface SendResult {
+  messageId: string | null;
+}
+
+export interface EmailTransport {
+  name: string;
+  // Throws when the message could not be handed to the mail server.
+  send(message: EmailMessage): Promise<SendResult>;
+}
@@ -0,0 +1,18 @@
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+export function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// Errors use the same `{ error, message }` shape as RPC failures so the client
+// can map both onto its typed error codes.
+export function errorResponse(error: string, status: number, message = error): Response {
+  return json({ error, message }, status);
+}
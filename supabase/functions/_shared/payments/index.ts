@@ -0,0 +1,24 @@
+import { createMockProvider } from './mock.ts';
+import { PaymentProvider } from './types.ts';
+
+export * from './types.ts';
+
+function requireEnv(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) throw new Error(`${name} is not set`);
+  return value;
+}
+
+// PAYMENT_PROVIDER selects the gateway; register new providers here. There is
+// no default and no fallback secret: a deployment missing either would accept
+// mock cards as real captures or forged webhooks.
+export function getPaymentProvider(): PaymentProvider {
+  const name = requireEnv('PAYMENT_PROVIDER');
+
+  switch (name) {
+    case 'mock':
+      return createMockProvider(requireEnv('MOCK_WEBHOOK_SECRET'));
+    default:
+      throw new Error(`Unknown payment provider: ${name}`);
+  }
+}
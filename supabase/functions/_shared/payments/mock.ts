@@ -0,0 +1,111 @@
+import { PaymentProvider, ProviderResult, WebhookEvent } from './types.ts';
+
+// Deterministic gateway for local development and tests. The storefront's mock
+// tokenizer turns a test card into a `pm_mock_<outcome>` token, so no card number
+// reaches the gateway; outcomes depend only on the token and payment ids only on
+// the idempotency key, so the same request always produces the same result.
+export const MOCK_DECLINES: Record<string, string> = {
+  card_declined: 'Your card was declined',
+  insufficient_funds: 'Your card has insufficient funds',
+  expired_card: 'Your card has expired',
+  processing_error: 'The card could not be processed',
+};
+
+const SIGNATURE_HEADER = 'x-mock-signature';
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function importHmacKey(secret: string, usage: 'sign' | 'verify'): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    [usage]
+  );
+}
+
+async function hmacHex(secret: string, value: string): Promise<string> {
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    await importHmacKey(secret, 'sign'),
+    new TextEncoder().encode(value)
+  );
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// crypto.subtle.verify compares in constant time.
+async function verifyHmacHex(secret: string, value: string, signature: string | null): Promise<boolean> {
+  if (!signature || !/^([0-9a-f]{2})+$/i.test(signature)) return false;
+  const bytes = new Uint8Array(signature.match(/../g)!.map((pair) => parseInt(pair, 16)));
+  return crypto.subtle.verify(
+    'HMAC',
+    await importHmacKey(secret, 'verify'),
+    bytes,
+    new TextEncoder().encode(value)
+  );
+}
+
+// Signs a webhook body the way the mock gateway would, e.g. to replay events locally.
+export function signMockWebhook(secret: string, body: string): Promise<string> {
+  return hmacHex(secret, body);
+}
+
+export function createMockProvider(webhookSecret: string): PaymentProvider {
+  return {
+    name: 'mock',
+
+    async authorize(request): Promise<ProviderResult> {
+      const providerPaymentId = `mock_pay_${(await sha256Hex(request.idempotencyKey)).slice(0, 24)}`;
+      const outcome = request.paymentMethod.match(/^pm_mock_([a-z_]+)$/)?.[1];
+
+      if (!outcome || (outcome !== 'succeeded' && !Object.hasOwn(MOCK_DECLINES, outcome))) {
+        return {
+          status: 'failed',
+          providerPaymentId,
+          failureCode: 'invalid_payment_method',
+          failureMessage: 'The payment method is not valid',
+        };
+      }
+
+      if (outcome !== 'succeeded') {
+        return {
+          status: 'failed',
+          providerPaymentId,
+          failureCode: outcome,
+          failureMessage: MOCK_DECLINES[outcome],
+        };
+      }
+
+      return { status: 'authorized', providerPaymentId };
+    },
+
+    async capture(providerPaymentId): Promise<ProviderResult> {
+      return { status: 'captured', providerPaymentId };
+    },
+
+    async refund(providerPaymentId): Promise<ProviderResult> {
+      return { status: 'refunded', providerPaymentId };
+    },
+
+    async parseWebhook(request): Promise<WebhookEvent> {
+      const body = await request.text();
+      if (!(await verifyHmacHex(webhookSecret, body, request.headers.get(SIGNATURE_HEADER)))) {
+        throw new Error('invalid_signature');
+      }
+
+      const event = JSON.parse(body);
+      return {
+        id: event.id,
+        type: event.type,
+        providerPaymentId: event.payment_id,
+        failureCode: event.failure_code,
+        failureMessage: event.failure_message,
+        payload: event,
+      };
+    },
+  };
+}
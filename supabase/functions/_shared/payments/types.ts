@@ -0,0 +1,46 @@
+// Contract every payment provider implements. Providers run only inside Edge
+// Functions, where their secrets live; the storefront only ever sees the opaque
+// payment method token the provider's client-side tokenizer produced.
+
+export type ProviderPaymentStatus = 'authorized' | 'captured' | 'failed' | 'refunded';
+
+export interface AuthorizeRequest {
+  amount: number;
+  currency: string;
+  paymentMethod: string;
+  idempotencyKey: string;
+  metadata: Record<string, string>;
+}
+
+export interface ProviderResult {
+  status: ProviderPaymentStatus;
+  providerPaymentId: string;
+  failureCode?: string;
+  failureMessage?: string;
+}
+
+export type WebhookEventType = 'payment.captured' | 'payment.failed' | 'payment.refunded';
+
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  providerPaymentId: string;
+  failureCode?: string;
+  failureMessage?: string;
+  payload: unknown;
+}
+
+export interface PaymentProvider {
+  name: string;
+  authorize(request: AuthorizeRequest): Promise<ProviderResult>;
+  capture(providerPaymentId: string, amount: number, idempotencyKey: string): Promise<ProviderResult>;
+  refund(providerPaymentId: string, amount: number, idempotencyKey: string): Promise<ProviderResult>;
+  // Verifies the request really came from the provider; throws otherwise.
+  parseWebhook(request: Request): Promise<WebhookEvent>;
+}
+
+export const WEBHOOK_EVENT_STATUS: Record<WebhookEventType, ProviderPaymentStatus> = {
+  'payment.captured': 'captured',
+  'payment.failed': 'failed',
+  'payment.refunded': 'refunded',
+};
@@ -0,0 +1,72 @@
+import { createClient, User } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders, errorResponse, json } from '../_shared/http.ts';
+import { verifyRecoverySignature } from '../_shared/cartRecovery.ts';
+
+// Restores an abandoned cart from the link in a recovery email into the caller's
+// cart. The caller can be anyone holding the link: the customer on another device,
+// or a guest session that has not signed in yet.
+
+interface RestoreRequest {
+  recovery_id: string;
+  signature: string;
+}
+
+const admin = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  { auth: { persistSession: false } }
+);
+
+const RESTORE_ERRORS: Record<string, number> = {
+  recovery_not_found: 404,
+  recovery_expired: 410,
+};
+
+async function getCaller(request: Request): Promise<User | null> {
+  const token = request.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) return null;
+
+  const { data, error } = await admin.auth.getUser(token);
+  if (error) return null;
+  return data.user;
+}
+
+Deno.serve(async (request) => {
+  if (request.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (request.method !== 'POST') {
+    return errorResponse('method_not_allowed', 405);
+  }
+
+  const user = await getCaller(request);
+  if (!user) return errorResponse('session_required', 401);
+
+  try {
+    const body: RestoreRequest = await request.json();
+    if (!body.recovery_id || !body.signature) {
+      return errorResponse('invalid_request', 400);
+    }
+
+    if (!(await verifyRecoverySignature(body.recovery_id, body.signature))) {
+      return errorResponse('invalid_signature', 403);
+    }
+
+    const { data, error } = await admin.rpc('restore_cart_recovery', {
+      p_recovery_id: body.recovery_id,
+      p_user_id: user.id,
+    });
+
+    if (error) {
+      const status = RESTORE_ERRORS[error.message];
+      if (status) return errorResponse(error.message, status);
+      throw error;
+    }
+
+    return json({ restored: data });
+  } catch (error) {
+    console.error('Cart recovery failed:', error);
+    return errorResponse('recovery_error', 500);
+  }
+});
@@ -0,0 +1,80 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { errorResponse, json } from '../_shared/http.ts';
+import { getPaymentProvider, WEBHOOK_EVENT_STATUS } from '../_shared/payments/index.ts';
+
+// Receives asynchronous payment updates from the provider. Deploy with
+// `--no-verify-jwt`: the provider signs its requests instead of sending a
+// Supabase token, and `parseWebhook` rejects anything unsigned.
+
+const admin = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  { auth: { persistSession: false } }
+);
+
+Deno.serve(async (request) => {
+  if (request.method !== 'POST') {
+    return errorResponse('method_not_allowed', 405);
+  }
+
+  const provider = getPaymentProvider();
+
+  let event;
+  try {
+    event = await provider.parseWebhook(request);
+  } catch (error) {
+    console.error('Rejected payment webhook:', error);
+    return errorResponse('invalid_signature', 401);
+  }
+
+  const status = WEBHOOK_EVENT_STATUS[event.type];
+  if (!status) {
+    return json({ received: true, ignored: true });
+  }
+
+  // Providers redeliver until they get a 2xx; the unique (provider, event_id)
+  // constraint makes each event apply once.
+  const { error: insertError } = await admin.from('payment_events').insert({
+    provider: provider.name,
+    event_id: event.id,
+    type: event.type,
+    payload: event.payload,
+  });
+
+  if (insertError) {
+    if (insertError.code === '23505') {
+      return json({ received: true, duplicate: true });
+    }
+    console.error('Error storing payment webhook:', insertError);
+    return errorResponse('storage_error', 500);
+  }
+
+  const { data: payment, error } = await admin
+    .from('payments')
+    .select('id')
+    .eq('provider', provider.name)
+    .eq('provider_payment_id', event.providerPaymentId)
+    .maybeSingle();
+
+  if (error || !payment) {
+    console.error('Payment webhook for unknown payment:', event.providerPaymentId, error);
+    return json({ received: true, ignored: true });
+  }
+
+  const { error: recordError } = await admin.rpc('record_payment_result', {
+    p_payment_id: payment.id,
+    p_status: status,
+    p_provider_payment_id: event.providerPaymentId,
+    p_failure_code: event.failureCode ?? null,
+    p_failure_message: event.failureMessage ?? null,
+  });
+
+  if (recordError) {
+    console.error('Error applying payment webhook:', recordError);
+    // Let the provider retry: forget the event so the redelivery is not a duplicate.
+    await admin.from('payment_events').delete().eq('provider', provider.name).eq('event_id', event.id);
+    return errorResponse('processing_error', 500);
+  }
+
+  return json({ received: true });
+});
@@ -0,0 +1,265 @@
+import { createClient, User } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders, errorResponse, json } from '../_shared/http.ts';
+import { getPaymentProvider, PaymentProvider } from '../_shared/payments/index.ts';
+
+// Charges and refunds orders. The amount always comes from the order or return row,
+// never from the request. Payment results are recorded through
+// `record_payment_result`, which is the only path that marks an order paid, and
+// refunds of returned items through `record_return_refund`.
+
+interface PayRequest {
+  action: 'pay';
+  order_id: string;
+  payment_method: string;
+  idempotency_key: string;
+}
+
+interface RefundRequest {
+  action: 'refund';
+  order_id: string;
+}
+
+interface RefundReturnRequest {
+  action: 'refund_return';
+  return_id: string;
+}
+
+type PaymentRequest = PayRequest | RefundRequest | RefundReturnRequest;
+
+interface PaymentRow {
+  id: string;
+  order_id: string;
+  provider: string;
+  provider_payment_id: string | null;
+  idempotency_key: string;
+  status: string;
+  amount: number;
+  currency: string;
+}
+
+const admin = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  { auth: { persistSession: false } }
+);
+
+async function getCaller(request: Request): Promise<User | null> {
+  const token = request.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) return null;
+
+  const { data, error } = await admin.auth.getUser(token);
+  if (error) return null;
+  return data.user;
+}
+
+async function recordResult(
+  paymentId: string,
+  status: string,
+  providerPaymentId: string | null,
+  failureCode: string | null = null,
+  failureMessage: string | null = null
+): Promise<PaymentRow> {
+  const { data, error } = await admin.rpc('record_payment_result', {
+    p_payment_id: paymentId,
+    p_status: status,
+    p_provider_payment_id: providerPaymentId,
+    p_failure_code: failureCode,
+    p_failure_message: failureMessage,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+async function pay(provider: PaymentProvider, user: User, body: PayRequest): Promise<Response> {
+  if (!body.order_id || !body.payment_method || !body.idempotency_key) {
+    return errorResponse('invalid_request', 400);
+  }
+
+  const { data: begun, error } = await admin.rpc('begin_payment', {
+    p_order_id: body.order_id,
+    p_user_id: user.id,
+    p_provider: provider.name,
+    p_idempotency_key: body.idempotency_key,
+  });
+
+  if (error) {
+    return errorResponse(error.message, error.code === 'P0002' ? 404 : 409, error.details || error.message);
+  }
+
+  let payment: PaymentRow = begun;
+
+  // A retried request finds the payment it already created; only carry on from
+  // where the first attempt stopped.
+  if (payment.status === 'pending') {
+    const result = await provider.authorize({
+      amount: Number(payment.amount),
+      currency: payment.currency,
+      paymentMethod: body.payment_method,
+      idempotencyKey: payment.idempotency_key,
+      metadata: { order_id: payment.order_id, payment_id: payment.id },
+    });
+
+    payment = await recordResult(
+      payment.id,
+      result.status,
+      result.providerPaymentId,
+      result.failureCode,
+      result.failureMessage
+    );
+  }
+
+  if (payment.status === 'authorized' && payment.provider_payment_id) {
+    const result = await provider.capture(
+      payment.provider_payment_id,
+      Number(payment.amount),
+      `${payment.idempotency_key}:capture`
+    );
+
+    payment = await recordResult(
+      payment.id,
+      result.status,
+      result.providerPaymentId,
+      result.failureCode,
+      result.failureMessage
+    );
+  }
+
+  return json({ payment });
+}
+
+async function refund(provider: PaymentProvider, user: User, body: RefundRequest): Promise<Response> {
+  if (user.app_metadata?.role !== 'staff') {
+    return errorResponse('forbidden', 403);
+  }
+
+  const { data: payment, error } = await admin
+    .from('payments')
+    .select('*')
+    .eq('order_id', body.order_id)
+    .eq('status', 'captured')
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!payment) return errorResponse('no_captured_payment', 409);
+
+  if (payment.provider !== provider.name) {
+    return errorResponse('provider_mismatch', 409);
+  }
+
+  // Once returns have been refunded, the rest is refunded through returns too.
+  if (Number(payment.refunded_amount) > 0) {
+    return errorResponse('partially_refunded', 409);
+  }
+
+  const result = await provider.refund(
+    payment.provider_payment_id,
+    Number(payment.amount),
+    `${payment.idempotency_key}:refund`
+  );
+
+  const updated = await recordResult(
+    payment.id,
+    result.status,
+    result.providerPaymentId,
+    result.failureCode,
+    result.failureMessage
+  );
+
+  if (updated.status !== 'refunded') {
+    return errorResponse('refund_failed', 502, result.failureMessage);
+  }
+
+  return json({ payment: updated });
+}
+
+// Refunds a received return: just the returned items, at the amount fixed when the
+// return was approved.
+async function refundReturn(
+  provider: PaymentProvider,
+  user: User,
+  body: RefundReturnRequest
+): Promise<Response> {
+  if (user.app_metadata?.role !== 'staff') {
+    return errorResponse('forbidden', 403);
+  }
+
+  const { data: returnRequest, error: returnError } = await admin
+    .from('return_requests')
+    .select('*')
+    .eq('id', body.return_id)
+    .maybeSingle();
+
+  if (returnError) throw returnError;
+  if (!returnRequest) return errorResponse('return_not_found', 404);
+  if (returnRequest.status !== 'received') {
+    return errorResponse('return_not_refundable', 409, returnRequest.status);
+  }
+
+  const amount = Number(returnRequest.refund_amount ?? 0);
+
+  if (amount > 0) {
+    const { data: payment, error } = await admin
+      .from('payments')
+      .select('*')
+      .eq('order_id', returnRequest.order_id)
+      .eq('status', 'captured')
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!payment) return errorResponse('no_captured_payment', 409);
+
+    if (payment.provider !== provider.name) {
+      return errorResponse('provider_mismatch', 409);
+    }
+
+    const result = await provider.refund(
+      payment.provider_payment_id,
+      amount,
+      `${payment.idempotency_key}:return:${returnRequest.id}`
+    );
+
+    if (result.status !== 'refunded') {
+      return errorResponse('refund_failed', 502, result.failureMessage);
+    }
+  }
+
+  const { data: refunded, error } = await admin.rpc('record_return_refund', {
+    p_return_id: returnRequest.id,
+  });
+
+  if (error) throw error;
+  return json({ return: refunded });
+}
+
+Deno.serve(async (request) => {
+  if (request.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (request.method !== 'POST') {
+    return errorResponse('method_not_allowed', 405);
+  }
+
+  const user = await getCaller(request);
+  if (!user) return errorResponse('session_required', 401);
+
+  try {
+    const body: PaymentRequest = await request.json();
+    const provider = getPaymentProvider();
+
+    switch (body.action) {
+      case 'pay':
+        return await pay(provider, user, body);
+      case 'refund':
+        return await refund(provider, user, body);
+      case 'refund_return':
+        return await refundReturn(provider, user, body);
+      default:
+        return errorResponse('invalid_request', 400);
+    }
+  } catch (error) {
+    console.error('Payment request failed:', error);
+    return errorResponse('payment_error', 500);
+  }
+});
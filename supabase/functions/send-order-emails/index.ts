@@ -0,0 +1,152 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { errorResponse, json } from '../_shared/http.ts';
+import { getRecoveryUrl } from '../_shared/cartRecovery.ts';
+import {
+  CartRecoveryEmailData,
+  EmailMessage,
+  EmailTransport,
+  getEmailTransport,
+  OrderEmailData,
+  OrderEmailItem,
+  OrderEmailTemplate,
+  renderCartRecoveryEmail,
+  renderOrderEmail,
+} from '../_shared/email/index.ts';
+
+// Drains the email outbox one batch per run. Meant to be called on a schedule with
+// the service role key; emails that fail are retried by later runs with backoff
+// until `complete_order_email` gives up on them. Abandoned cart recovery emails
+// share the outbox and go out the same way.
+
+interface OutboxEmail {
+  id: string;
+  order_id: string | null;
+  cart_recovery_id: string | null;
+  template: OrderEmailTemplate | 'cart_recovery';
+  recipient: string;
+  attempts: number;
+}
+
+interface OrderItemRow {
+  quantity: number;
+  price: number;
+  variant_label: string | null;
+  product: { name: string } | null;
+}
+
+const BATCH_SIZE = 20;
+
+const siteUrl = (Deno.env.get('SITE_URL') ?? 'http://localhost:5173').replace(/\/$/, '');
+
+const admin = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  { auth: { persistSession: false } }
+);
+
+async function loadOrderEmailData(orderId: string): Promise<OrderEmailData> {
+  const { data: order, error } = await admin
+    .from('orders')
+    .select(`
+      *,
+      items:order_items(quantity, price, variant_label, product:products(name)),
+      currency_info:currencies(rounding_increment)
+    `)
+    .eq('id', orderId)
+    .single();
+
+  if (error) throw error;
+
+  return {
+    order: { ...order, rounding_increment: Number(order.currency_info?.rounding_increment ?? 0.01) },
+    items: ((order.items ?? []) as OrderItemRow[]).map((item) => ({
+      product_name: item.product?.name ?? 'Item no longer available',
+      variant_label: item.variant_label,
+      quantity: item.quantity,
+      price: Number(item.price),
+    })),
+    orderUrl: `${siteUrl}/orders/${orderId}`,
+  };
+}
+
+async function loadCartRecoveryEmailData(recoveryId: string): Promise<CartRecoveryEmailData> {
+  const { data: recovery, error } = await admin
+    .from('cart_recoveries')
+    .select('id, items, expires_at')
+    .eq('id', recoveryId)
+    .single();
+
+  if (error) throw error;
+
+  return {
+    items: (recovery.items as OrderEmailItem[]).map((item) => ({
+      product_name: item.product_name,
+      variant_label: item.variant_label,
+      quantity: item.quantity,
+      price: Number(item.price),
+    })),
+    recoveryUrl: await getRecoveryUrl(siteUrl, recovery.id),
+    expiresAt: recovery.expires_at,
+  };
+}
+
+async function renderEmail(email: OutboxEmail): Promise<EmailMessage> {
+  if (email.template === 'cart_recovery') {
+    return renderCartRecoveryEmail(email.recipient, await loadCartRecoveryEmailData(email.cart_recovery_id!));
+  }
+  return renderOrderEmail(email.template, email.recipient, await loadOrderEmailData(email.order_id!));
+}
+
+async function sendEmail(transport: EmailTransport, email: OutboxEmail): Promise<boolean> {
+  let messageId: string | null = null;
+  let failure: string | null = null;
+
+  try {
+    ({ messageId } = await transport.send(await renderEmail(email)));
+  } catch (error) {
+    failure = error instanceof Error ? error.message : String(error);
+    console.error(`Error sending ${email.template} email ${email.id}:`, error);
+  }
+
+  const { error } = await admin.rpc('complete_order_email', {
+    p_email_id: email.id,
+    p_error: failure,
+    p_message_id: messageId,
+  });
+
+  // The claim expires on its own, so the email is retried even if this fails.
+  if (error) console.error('Error recording email result:', error);
+  return failure === null;
+}
+
+Deno.serve(async (request) => {
+  if (request.method !== 'POST') {
+    return errorResponse('method_not_allowed', 405);
+  }
+
+  const token = request.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token || token !== Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+    return errorResponse('forbidden', 403);
+  }
+
+  const { data: emails, error } = await admin.rpc('claim_order_emails', { p_limit: BATCH_SIZE });
+
+  if (error) {
+    console.error('Error claiming emails:', error);
+    return errorResponse('storage_error', 500);
+  }
+
+  const transport = getEmailTransport();
+  let sent = 0;
+  let failed = 0;
+  // One at a time keeps a local catcher or a rate-limited relay happy.
+  for (const email of (emails ?? []) as OutboxEmail[]) {
+    if (await sendEmail(transport, email)) {
+      sent++;
+    } else {
+      failed++;
+    }
+  }
+
+  return json({ claimed: emails?.length ?? 0, sent, failed });
+});
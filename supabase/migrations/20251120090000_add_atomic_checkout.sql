@@ -0,0 +1,134 @@
+/*
+  # Atomic Checkout
+
+  ## Overview
+  Moves order placement into a single transactional Postgres function so the order,
+  its items, the stock decrement and the cart cleanup either all happen or none do.
+
+  ## New Functions
+
+  ### place_order(p_customer_name, p_customer_email, p_shipping_address)
+  - Checks out the cart of the caller's guest session, taken from the `session_id`
+    JWT claim the cart policies already use rather than from an argument
+  - Locks every product referenced by the session's cart (`FOR UPDATE`) so concurrent
+    checkouts of the same product serialize on its stock
+  - Re-prices each line from `products.price`; client-side totals are never trusted
+  - Rejects the whole checkout with `insufficient_stock` when any line asks for more
+    than is available; the error `DETAIL` is a JSON array with one entry per offending
+    line (`product_id`, `product_name`, `requested`, `available`)
+  - Rejects an empty cart with `cart_empty`
+  - Decrements `products.stock`, writes `orders` and `order_items` and clears the cart
+  - Returns the created `orders` row
+
+  ## Security
+  - SECURITY DEFINER so shoppers can decrement stock without UPDATE rights on products
+  - EXECUTE granted to anon and authenticated roles only
+  - The caller can only check out their own session's cart
+
+  ## Important Notes
+  1. Supersedes note 4 of the initial schema: stock is now managed in the database
+  2. `products.stock` can no longer go negative
+*/
+
+ALTER TABLE products
+  ADD CONSTRAINT products_stock_non_negative CHECK (stock >= 0);
+
+CREATE OR REPLACE FUNCTION place_order(
+  p_customer_name text,
+  p_customer_email text,
+  p_shipping_address text
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session_id text := current_setting('request.jwt.claims', true)::json->>'session_id';
+  v_order orders;
+  v_errors jsonb;
+  v_total numeric(10, 2);
+BEGIN
+  IF v_session_id IS NULL OR v_session_id = '' THEN
+    RAISE EXCEPTION 'session_required' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT product_id FROM cart_items WHERE session_id = v_session_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  CREATE TEMP TABLE checkout_lines ON COMMIT DROP AS
+  SELECT
+    c.product_id,
+    p.name AS product_name,
+    p.price,
+    p.stock,
+    SUM(c.quantity)::integer AS quantity
+  FROM cart_items c
+  JOIN products p ON p.id = c.product_id
+  WHERE c.session_id = v_session_id
+  GROUP BY c.product_id, p.name, p.price, p.stock;
+
+  IF NOT EXISTS (SELECT 1 FROM checkout_lines WHERE quantity > 0) THEN
+    RAISE EXCEPTION 'cart_empty' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object(
+    'product_id', product_id,
+    'product_name', product_name,
+    'requested', quantity,
+    'available', stock
+  ))
+  INTO v_errors
+  FROM checkout_lines
+  WHERE quantity > stock;
+
+  IF v_errors IS NOT NULL THEN
+    RAISE EXCEPTION 'insufficient_stock'
+      USING ERRCODE = 'P0001', DETAIL = v_errors::text;
+  END IF;
+
+  SELECT SUM(price * quantity) INTO v_total
+  FROM checkout_lines
+  WHERE quantity > 0;
+
+  INSERT INTO orders (
+    session_id,
+    total_amount,
+    status,
+    customer_name,
+    customer_email,
+    shipping_address
+  )
+  VALUES (
+    v_session_id,
+    v_total,
+    'pending',
+    p_customer_name,
+    p_customer_email,
+    p_shipping_address
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (order_id, product_id, quantity, price)
+  SELECT v_order.id, product_id, quantity, price
+  FROM checkout_lines
+  WHERE quantity > 0;
+
+  UPDATE products p
+  SET stock = p.stock - l.quantity
+  FROM checkout_lines l
+  WHERE p.id = l.product_id AND l.quantity > 0;
+
+  DELETE FROM cart_items WHERE session_id = v_session_id;
+
+  DROP TABLE checkout_lines;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION place_order(text, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION place_order(text, text, text) TO anon, authenticated;
@@ -0,0 +1,221 @@
+/*
+  # Order Lifecycle
+
+  ## Overview
+  Replaces the free-form `orders.status` text with an enforced lifecycle and records
+  every status change with who made it, when and why.
+
+  ## Statuses
+  pending → paid → packed → shipped → delivered, plus the terminal states
+  cancelled and refunded.
+
+  ## New Tables
+
+  ### 1. order_status_transitions
+  - `from_status` (text) - Status the order is leaving
+  - `to_status` (text) - Status the order may move to
+  - Primary key on (`from_status`, `to_status`); the table is the single source of
+    truth for which transitions are legal
+
+  ### 2. order_status_history
+  - `id` (uuid, primary key) - Unique history entry identifier
+  - `order_id` (uuid, foreign key) - Reference to orders table
+  - `from_status` (text) - Previous status (null for the creation entry)
+  - `to_status` (text) - New status
+  - `reason` (text) - Free-text reason supplied with the transition
+  - `changed_by` (uuid) - `auth.uid()` of the actor, null for guests and the system
+  - `created_at` (timestamptz) - When the transition happened
+
+  ## New Functions
+  - `is_staff()` - True when the caller's JWT carries `app_metadata.role = 'staff'`
+  - `transition_order(p_order_id, p_to, p_reason)` - Moves an order to a new status,
+    rejecting illegal transitions with `illegal_transition`. Staff may make any legal
+    transition; the order's owner may only cancel a pending order. A guest owns the
+    orders of the `session_id` in their JWT claims. Orders cancelled or refunded
+    before they shipped have their items restocked.
+
+  ## Triggers
+  - Illegal status updates on `orders` are rejected regardless of the code path
+  - Every new order gets an initial `pending` history entry
+
+  ## Important Notes
+  1. Existing `completed` orders are migrated to `delivered`
+*/
+
+UPDATE orders SET status = 'delivered' WHERE status = 'completed';
+
+ALTER TABLE orders
+  ADD CONSTRAINT orders_status_check CHECK (
+    status IN ('pending', 'paid', 'packed', 'shipped', 'delivered', 'cancelled', 'refunded')
+  );
+
+CREATE TABLE IF NOT EXISTS order_status_transitions (
+  from_status text NOT NULL,
+  to_status text NOT NULL,
+  PRIMARY KEY (from_status, to_status)
+);
+
+INSERT INTO order_status_transitions (from_status, to_status) VALUES
+  ('pending', 'paid'),
+  ('pending', 'cancelled'),
+  ('paid', 'packed'),
+  ('paid', 'cancelled'),
+  ('paid', 'refunded'),
+  ('packed', 'shipped'),
+  ('packed', 'cancelled'),
+  ('packed', 'refunded'),
+  ('shipped', 'delivered'),
+  ('delivered', 'refunded')
+ON CONFLICT DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS order_status_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  from_status text,
+  to_status text NOT NULL,
+  reason text DEFAULT '',
+  changed_by uuid,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS order_status_history_order_id_idx
+  ON order_status_history (order_id, created_at);
+
+ALTER TABLE order_status_transitions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION is_staff()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce(auth.jwt() -> 'app_metadata' ->> 'role', '') = 'staff';
+$$;
+
+CREATE POLICY "Anyone can view order status transitions"
+  ON order_status_transitions FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Users can view status history for their orders"
+  ON order_status_history FOR SELECT
+  TO anon, authenticated
+  USING (
+    is_staff() OR EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_status_history.order_id
+      AND (orders.session_id = current_setting('request.jwt.claims', true)::json->>'session_id' OR orders.user_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Staff can view all orders"
+  ON orders FOR SELECT
+  TO authenticated
+  USING (is_staff());
+
+CREATE POLICY "Staff can view all order items"
+  ON order_items FOR SELECT
+  TO authenticated
+  USING (is_staff());
+
+CREATE OR REPLACE FUNCTION enforce_order_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status AND NOT EXISTS (
+    SELECT 1 FROM order_status_transitions
+    WHERE from_status = OLD.status AND to_status = NEW.status
+  ) THEN
+    RAISE EXCEPTION 'illegal_transition'
+      USING ERRCODE = 'P0001', DETAIL = format('%s -> %s', OLD.status, NEW.status);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER orders_enforce_status_transition
+  BEFORE UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_order_status_transition();
+
+CREATE OR REPLACE FUNCTION record_order_created()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO order_status_history (order_id, from_status, to_status, reason, changed_by)
+  VALUES (NEW.id, NULL, NEW.status, 'Order placed', auth.uid());
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER orders_record_created
+  AFTER INSERT ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION record_order_created();
+
+CREATE OR REPLACE FUNCTION transition_order(
+  p_order_id uuid,
+  p_to text,
+  p_reason text DEFAULT ''
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session_id text := current_setting('request.jwt.claims', true)::json->>'session_id';
+  v_order orders;
+  v_from text;
+  v_is_owner boolean;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'order_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  v_from := v_order.status;
+  v_is_owner := (v_order.user_id IS NOT NULL AND v_order.user_id = auth.uid())
+    OR (v_session_id IS NOT NULL AND v_order.session_id = v_session_id);
+
+  IF NOT is_staff() AND NOT (v_is_owner AND v_from = 'pending' AND p_to = 'cancelled') THEN
+    RAISE EXCEPTION 'forbidden_transition' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM order_status_transitions
+    WHERE from_status = v_from AND to_status = p_to
+  ) THEN
+    RAISE EXCEPTION 'illegal_transition'
+      USING ERRCODE = 'P0001', DETAIL = format('%s -> %s', v_from, p_to);
+  END IF;
+
+  UPDATE orders SET status = p_to WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_status_history (order_id, from_status, to_status, reason, changed_by)
+  VALUES (p_order_id, v_from, p_to, coalesce(p_reason, ''), auth.uid());
+
+  IF p_to IN ('cancelled', 'refunded') AND v_from IN ('pending', 'paid', 'packed') THEN
+    UPDATE products p
+    SET stock = p.stock + i.quantity
+    FROM (
+      SELECT product_id, SUM(quantity)::integer AS quantity
+      FROM order_items
+      WHERE order_id = p_order_id AND product_id IS NOT NULL
+      GROUP BY product_id
+    ) i
+    WHERE p.id = i.product_id;
+  END IF;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION transition_order(uuid, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION transition_order(uuid, text, text) TO anon, authenticated;
@@ -0,0 +1,183 @@
+/*
+  # Customer Accounts
+
+  ## Overview
+  Lets signed-in customers own their cart and orders through `user_id` instead of the
+  guest `session_id`, and folds a guest cart into the account cart on sign-in.
+
+  ## New Functions
+
+  ### merge_guest_cart()
+  - Requires an authenticated caller
+  - The guest cart is the one of the `session_id` in the caller's JWT claims, the
+    same claim the cart policies check; it is never taken from an argument
+  - Adds the guest cart's quantities onto the caller's existing lines for the same
+    `product_id` and moves the remaining guest lines over to the caller
+  - Deletes the guest lines, so the merge is idempotent
+
+  ## Modified Functions
+
+  ### place_order
+  - When called by an authenticated user, checks out the cart keyed by `auth.uid()` and
+    stamps the order with `user_id`; guests keep checking out by their `session_id` claim
+
+  ## Security
+  - Both functions are SECURITY DEFINER and only act on rows owned by the caller
+*/
+
+CREATE INDEX IF NOT EXISTS cart_items_user_id_idx ON cart_items (user_id);
+CREATE INDEX IF NOT EXISTS cart_items_session_id_idx ON cart_items (session_id);
+CREATE INDEX IF NOT EXISTS orders_user_id_idx ON orders (user_id);
+
+CREATE OR REPLACE FUNCTION merge_guest_cart()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_session_id text := current_setting('request.jwt.claims', true)::json->>'session_id';
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_session_id IS NULL OR v_session_id = '' THEN
+    RETURN;
+  END IF;
+
+  UPDATE cart_items u
+  SET quantity = u.quantity + g.quantity
+  FROM (
+    SELECT product_id, SUM(quantity)::integer AS quantity
+    FROM cart_items
+    WHERE session_id = v_session_id AND user_id IS NULL
+    GROUP BY product_id
+  ) g
+  WHERE u.user_id = v_user_id AND u.product_id = g.product_id;
+
+  INSERT INTO cart_items (user_id, product_id, quantity)
+  SELECT v_user_id, product_id, SUM(quantity)::integer
+  FROM cart_items g
+  WHERE g.session_id = v_session_id
+    AND g.user_id IS NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM cart_items u
+      WHERE u.user_id = v_user_id AND u.product_id = g.product_id
+    )
+  GROUP BY product_id;
+
+  DELETE FROM cart_items
+  WHERE session_id = v_session_id AND user_id IS NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION merge_guest_cart() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION merge_guest_cart() TO authenticated;
+
+CREATE OR REPLACE FUNCTION place_order(
+  p_customer_name text,
+  p_customer_email text,
+  p_shipping_address text
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_session_id text := current_setting('request.jwt.claims', true)::json->>'session_id';
+  v_order orders;
+  v_errors jsonb;
+  v_total numeric(10, 2);
+BEGIN
+  IF v_user_id IS NULL AND (v_session_id IS NULL OR v_session_id = '') THEN
+    RAISE EXCEPTION 'session_required' USING ERRCODE = '22023';
+  END IF;
+
+  CREATE TEMP TABLE checkout_cart ON COMMIT DROP AS
+  SELECT id, product_id, quantity
+  FROM cart_items
+  WHERE (v_user_id IS NOT NULL AND user_id = v_user_id)
+     OR (v_user_id IS NULL AND session_id = v_session_id);
+
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT product_id FROM checkout_cart)
+  ORDER BY id
+  FOR UPDATE;
+
+  CREATE TEMP TABLE checkout_lines ON COMMIT DROP AS
+  SELECT
+    c.product_id,
+    p.name AS product_name,
+    p.price,
+    p.stock,
+    SUM(c.quantity)::integer AS quantity
+  FROM checkout_cart c
+  JOIN products p ON p.id = c.product_id
+  GROUP BY c.product_id, p.name, p.price, p.stock;
+
+  IF NOT EXISTS (SELECT 1 FROM checkout_lines WHERE quantity > 0) THEN
+    RAISE EXCEPTION 'cart_empty' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object(
+    'product_id', product_id,
+    'product_name', product_name,
+    'requested', quantity,
+    'available', stock
+  ))
+  INTO v_errors
+  FROM checkout_lines
+  WHERE quantity > stock;
+
+  IF v_errors IS NOT NULL THEN
+    RAISE EXCEPTION 'insufficient_stock'
+      USING ERRCODE = 'P0001', DETAIL = v_errors::text;
+  END IF;
+
+  SELECT SUM(price * quantity) INTO v_total
+  FROM checkout_lines
+  WHERE quantity > 0;
+
+  INSERT INTO orders (
+    user_id,
+    session_id,
+    total_amount,
+    status,
+    customer_name,
+    customer_email,
+    shipping_address
+  )
+  VALUES (
+    v_user_id,
+    v_session_id,
+    v_total,
+    'pending',
+    p_customer_name,
+    p_customer_email,
+    p_shipping_address
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (order_id, product_id, quantity, price)
+  SELECT v_order.id, product_id, quantity, price
+  FROM checkout_lines
+  WHERE quantity > 0;
+
+  UPDATE products p
+  SET stock = p.stock - l.quantity
+  FROM checkout_lines l
+  WHERE p.id = l.product_id AND l.quantity > 0;
+
+  DELETE FROM cart_items WHERE id IN (SELECT id FROM checkout_cart);
+
+  DROP TABLE checkout_lines;
+  DROP TABLE checkout_cart;
+
+  RETURN v_order;
+END;
+$$;
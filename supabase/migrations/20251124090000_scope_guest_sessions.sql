@@ -0,0 +1,360 @@
+/*
+  # Guest Sessions via Anonymous Auth
+
+  ## Overview
+  The original policies compared `session_id` against a `session_id` JWT claim that
+  Supabase never issues, so guests could not reach their own rows. Guests are now
+  signed in with Supabase anonymous auth: every visitor has an `auth.uid()` and all
+  cart and order rows are owned through `user_id`, for guests and customers alike.
+
+  ## New Tables
+
+  ### guest_transfers
+  - `token` (uuid, primary key) - Single-use secret handed to the guest
+  - `guest_user_id` (uuid) - Anonymous user whose data is being handed over
+  - `created_at` (timestamptz) - Record creation timestamp
+  - `expires_at` (timestamptz) - Tokens are only honoured for ten minutes
+
+  ## New Functions
+  - `start_guest_transfer()` - Called by an anonymous user right before signing in;
+    returns a token proving ownership of the guest cart and orders
+  - `merge_guest_session(p_token)` - Called by the signed-in customer; sums the guest
+    cart into theirs by `product_id` and adopts the guest's orders. Replaces
+    `merge_guest_cart()`, which relied on the missing `session_id` claim.
+
+  ## Modified Functions
+  - `place_order(p_customer_name, p_customer_email, p_shipping_address)` - Always
+    checks out the caller's own cart by `auth.uid()`, for guests and customers alike
+  - `transition_order(p_order_id, p_to, p_reason)` - Ownership is
+    `orders.user_id = auth.uid()` only
+
+  ## Security
+  - Cart, order, order item and status history policies scope by `auth.uid()` only
+  - Clients can no longer insert orders directly; `place_order` is the only way in
+
+  ## Important Notes
+  1. Anonymous sign-ins must be enabled in the project's Auth settings
+  2. Rows created under the old `session_id` scheme stay readable by staff only
+*/
+
+DROP POLICY IF EXISTS "Users can view their own cart items by session" ON cart_items;
+DROP POLICY IF EXISTS "Users can insert their own cart items" ON cart_items;
+DROP POLICY IF EXISTS "Users can update their own cart items" ON cart_items;
+DROP POLICY IF EXISTS "Users can delete their own cart items" ON cart_items;
+DROP POLICY IF EXISTS "Users can view their own orders" ON orders;
+DROP POLICY IF EXISTS "Users can create orders" ON orders;
+DROP POLICY IF EXISTS "Users can view order items for their orders" ON order_items;
+DROP POLICY IF EXISTS "Users can view status history for their orders" ON order_status_history;
+
+CREATE POLICY "Users can view their own cart items"
+  ON cart_items FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert their own cart items"
+  ON cart_items FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own cart items"
+  ON cart_items FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own cart items"
+  ON cart_items FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can view their own orders"
+  ON orders FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can view order items for their orders"
+  ON order_items FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_items.order_id
+      AND orders.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view status history for their orders"
+  ON order_status_history FOR SELECT
+  TO authenticated
+  USING (
+    is_staff() OR EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_status_history.order_id
+      AND orders.user_id = auth.uid()
+    )
+  );
+
+CREATE TABLE IF NOT EXISTS guest_transfers (
+  token uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  guest_user_id uuid NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  expires_at timestamptz DEFAULT now() + interval '10 minutes'
+);
+
+ALTER TABLE guest_transfers ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION is_anonymous_user()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce((auth.jwt() ->> 'is_anonymous')::boolean, false);
+$$;
+
+CREATE OR REPLACE FUNCTION start_guest_transfer()
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_token uuid;
+BEGIN
+  IF auth.uid() IS NULL OR NOT is_anonymous_user() THEN
+    RAISE EXCEPTION 'not_a_guest' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM guest_transfers WHERE expires_at < now();
+
+  INSERT INTO guest_transfers (guest_user_id)
+  VALUES (auth.uid())
+  RETURNING token INTO v_token;
+
+  RETURN v_token;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS merge_guest_cart();
+
+CREATE OR REPLACE FUNCTION merge_guest_session(p_token uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_guest_id uuid;
+BEGIN
+  IF v_user_id IS NULL OR is_anonymous_user() THEN
+    RAISE EXCEPTION 'not_authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM guest_transfers
+  WHERE token = p_token AND expires_at >= now()
+  RETURNING guest_user_id INTO v_guest_id;
+
+  IF v_guest_id IS NULL OR v_guest_id = v_user_id THEN
+    RETURN;
+  END IF;
+
+  UPDATE cart_items u
+  SET quantity = u.quantity + g.quantity
+  FROM (
+    SELECT product_id, SUM(quantity)::integer AS quantity
+    FROM cart_items
+    WHERE user_id = v_guest_id
+    GROUP BY product_id
+  ) g
+  WHERE u.user_id = v_user_id AND u.product_id = g.product_id;
+
+  INSERT INTO cart_items (user_id, product_id, quantity)
+  SELECT v_user_id, product_id, SUM(quantity)::integer
+  FROM cart_items g
+  WHERE g.user_id = v_guest_id
+    AND NOT EXISTS (
+      SELECT 1 FROM cart_items u
+      WHERE u.user_id = v_user_id AND u.product_id = g.product_id
+    )
+  GROUP BY product_id;
+
+  DELETE FROM cart_items WHERE user_id = v_guest_id;
+
+  UPDATE orders SET user_id = v_user_id WHERE user_id = v_guest_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION start_guest_transfer() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION start_guest_transfer() TO authenticated;
+REVOKE ALL ON FUNCTION merge_guest_session(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION merge_guest_session(uuid) TO authenticated;
+
+DROP FUNCTION IF EXISTS place_order(text, text, text);
+
+CREATE OR REPLACE FUNCTION place_order(
+  p_customer_name text,
+  p_customer_email text,
+  p_shipping_address text
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_order orders;
+  v_errors jsonb;
+  v_total numeric(10, 2);
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'session_required' USING ERRCODE = '42501';
+  END IF;
+
+  CREATE TEMP TABLE checkout_cart ON COMMIT DROP AS
+  SELECT id, product_id, quantity
+  FROM cart_items
+  WHERE user_id = v_user_id;
+
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT product_id FROM checkout_cart)
+  ORDER BY id
+  FOR UPDATE;
+
+  CREATE TEMP TABLE checkout_lines ON COMMIT DROP AS
+  SELECT
+    c.product_id,
+    p.name AS product_name,
+    p.price,
+    p.stock,
+    SUM(c.quantity)::integer AS quantity
+  FROM checkout_cart c
+  JOIN products p ON p.id = c.product_id
+  GROUP BY c.product_id, p.name, p.price, p.stock;
+
+  IF NOT EXISTS (SELECT 1 FROM checkout_lines WHERE quantity > 0) THEN
+    RAISE EXCEPTION 'cart_empty' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object(
+    'product_id', product_id,
+    'product_name', product_name,
+    'requested', quantity,
+    'available', stock
+  ))
+  INTO v_errors
+  FROM checkout_lines
+  WHERE quantity > stock;
+
+  IF v_errors IS NOT NULL THEN
+    RAISE EXCEPTION 'insufficient_stock'
+      USING ERRCODE = 'P0001', DETAIL = v_errors::text;
+  END IF;
+
+  SELECT SUM(price * quantity) INTO v_total
+  FROM checkout_lines
+  WHERE quantity > 0;
+
+  INSERT INTO orders (
+    user_id,
+    total_amount,
+    status,
+    customer_name,
+    customer_email,
+    shipping_address
+  )
+  VALUES (
+    v_user_id,
+    v_total,
+    'pending',
+    p_customer_name,
+    p_customer_email,
+    p_shipping_address
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (order_id, product_id, quantity, price)
+  SELECT v_order.id, product_id, quantity, price
+  FROM checkout_lines
+  WHERE quantity > 0;
+
+  UPDATE products p
+  SET stock = p.stock - l.quantity
+  FROM checkout_lines l
+  WHERE p.id = l.product_id AND l.quantity > 0;
+
+  DELETE FROM cart_items WHERE id IN (SELECT id FROM checkout_cart);
+
+  DROP TABLE checkout_lines;
+  DROP TABLE checkout_cart;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION place_order(text, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION place_order(text, text, text) TO authenticated;
+
+DROP FUNCTION IF EXISTS transition_order(uuid, text, text);
+
+CREATE OR REPLACE FUNCTION transition_order(
+  p_order_id uuid,
+  p_to text,
+  p_reason text DEFAULT ''
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+  v_from text;
+  v_is_owner boolean;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'order_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  v_from := v_order.status;
+  v_is_owner := v_order.user_id IS NOT NULL AND v_order.user_id = auth.uid();
+
+  IF NOT is_staff() AND NOT (v_is_owner AND v_from = 'pending' AND p_to = 'cancelled') THEN
+    RAISE EXCEPTION 'forbidden_transition' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM order_status_transitions
+    WHERE from_status = v_from AND to_status = p_to
+  ) THEN
+    RAISE EXCEPTION 'illegal_transition'
+      USING ERRCODE = 'P0001', DETAIL = format('%s -> %s', v_from, p_to);
+  END IF;
+
+  UPDATE orders SET status = p_to WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_status_history (order_id, from_status, to_status, reason, changed_by)
+  VALUES (p_order_id, v_from, p_to, coalesce(p_reason, ''), auth.uid());
+
+  IF p_to IN ('cancelled', 'refunded') AND v_from IN ('pending', 'paid', 'packed') THEN
+    UPDATE products p
+    SET stock = p.stock + i.quantity
+    FROM (
+      SELECT product_id, SUM(quantity)::integer AS quantity
+      FROM order_items
+      WHERE order_id = p_order_id AND product_id IS NOT NULL
+      GROUP BY product_id
+    ) i
+    WHERE p.id = i.product_id;
+  END IF;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION transition_order(uuid, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION transition_order(uuid, text, text) TO authenticated;
@@ -0,0 +1,194 @@
+/*
+  # Product Search
+
+  ## Overview
+  Replaces client-side `ilike` filtering with ranked full-text search and moves the
+  catalog listing to keyset (cursor) pagination.
+
+  ## Modified Tables
+
+  ### products
+  - `search_vector` (tsvector) - Weighted document built from the product name (A),
+    its category name (B) and description (C); maintained by trigger
+
+  ## Indexes
+  - GIN index on `products.search_vector`
+  - B-tree indexes backing the price and newest sort orders
+
+  ## New Functions
+
+  ### build_prefix_tsquery(p_query)
+  - Splits free text into words and ANDs them as prefix terms (`word:*`), so partial
+    words match while typing and punctuation in the input cannot break the query
+
+  ### search_products(p_query, p_category_id, p_min_price, p_max_price, p_in_stock, p_sort, p_cursor, p_limit)
+  - Matches on the full-text vector, falling back to trigram word similarity against
+    the product name so misspellings still find results
+  - Filters by category, price range and availability
+  - Sorts by `relevance` (default with a query), `newest` (default without),
+    `price_asc` or `price_desc`
+  - Returns `{ items, next_cursor }`; pass `next_cursor` back to fetch the next page.
+    Cursors are opaque and only valid for the sort they were issued with.
+
+  ## Important Notes
+  1. Requires the `pg_trgm` extension
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS search_vector tsvector;
+
+CREATE OR REPLACE FUNCTION build_product_search_vector(
+  p_name text,
+  p_description text,
+  p_category_id uuid
+)
+RETURNS tsvector
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    setweight(to_tsvector('english', coalesce(p_name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(
+      (SELECT name FROM categories WHERE id = p_category_id), ''
+    )), 'B') ||
+    setweight(to_tsvector('english', coalesce(p_description, '')), 'C');
+$$;
+
+CREATE OR REPLACE FUNCTION update_product_search_vector()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.search_vector := build_product_search_vector(NEW.name, NEW.description, NEW.category_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER products_update_search_vector
+  BEFORE INSERT OR UPDATE OF name, description, category_id ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION update_product_search_vector();
+
+CREATE OR REPLACE FUNCTION refresh_category_product_search_vectors()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE products
+  SET search_vector = build_product_search_vector(name, description, category_id)
+  WHERE category_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER categories_refresh_product_search_vectors
+  AFTER UPDATE OF name ON categories
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_category_product_search_vectors();
+
+UPDATE products
+SET search_vector = build_product_search_vector(name, description, category_id);
+
+CREATE INDEX IF NOT EXISTS products_search_vector_idx ON products USING gin (search_vector);
+CREATE INDEX IF NOT EXISTS products_price_idx ON products (price, id);
+CREATE INDEX IF NOT EXISTS products_created_at_idx ON products (created_at DESC, id);
+CREATE INDEX IF NOT EXISTS products_category_id_idx ON products (category_id);
+
+CREATE OR REPLACE FUNCTION build_prefix_tsquery(p_query text)
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT to_tsquery('english', string_agg(word || ':*', ' & '))
+  FROM regexp_split_to_table(lower(coalesce(p_query, '')), '[^[:alnum:]]+') AS word
+  WHERE word <> '';
+$$;
+
+CREATE OR REPLACE FUNCTION search_products(
+  p_query text DEFAULT NULL,
+  p_category_id uuid DEFAULT NULL,
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_in_stock boolean DEFAULT false,
+  p_sort text DEFAULT NULL,
+  p_cursor text DEFAULT NULL,
+  p_limit integer DEFAULT 24
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_query text := nullif(trim(coalesce(p_query, '')), '');
+  v_tsquery tsquery := build_prefix_tsquery(p_query);
+  v_sort text := coalesce(p_sort, CASE WHEN v_query IS NULL THEN 'newest' ELSE 'relevance' END);
+  v_limit integer := least(greatest(coalesce(p_limit, 24), 1), 100);
+  v_after_key numeric;
+  v_after_id uuid;
+  v_result jsonb;
+BEGIN
+  IF v_sort NOT IN ('relevance', 'newest', 'price_asc', 'price_desc') THEN
+    RAISE EXCEPTION 'invalid_sort' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_cursor IS NOT NULL THEN
+    v_after_key := split_part(p_cursor, '|', 1)::numeric;
+    v_after_id := split_part(p_cursor, '|', 2)::uuid;
+  END IF;
+
+  -- Every sort is expressed as an ascending numeric key so one keyset
+  -- comparison on (sort_key, id) serves all of them.
+  WITH matches AS (
+    SELECT
+      p.*,
+      CASE WHEN v_query IS NULL THEN 0
+        ELSE coalesce(ts_rank(p.search_vector, v_tsquery), 0) + word_similarity(v_query, p.name)
+      END AS rank
+    FROM products p
+    WHERE (
+        v_query IS NULL
+        OR p.search_vector @@ v_tsquery
+        OR word_similarity(v_query, p.name) >= 0.4
+      )
+      AND (p_category_id IS NULL OR p.category_id = p_category_id)
+      AND (p_min_price IS NULL OR p.price >= p_min_price)
+      AND (p_max_price IS NULL OR p.price <= p_max_price)
+      AND (NOT coalesce(p_in_stock, false) OR p.stock > 0)
+  ),
+  keyed AS (
+    SELECT
+      m.*,
+      round(CASE v_sort
+        WHEN 'price_asc' THEN m.price
+        WHEN 'price_desc' THEN -m.price
+        WHEN 'newest' THEN -extract(epoch FROM m.created_at)
+        ELSE -m.rank::numeric
+      END, 6) AS sort_key
+    FROM matches m
+  ),
+  page AS (
+    SELECT k.*, row_number() OVER (ORDER BY k.sort_key, k.id) AS position
+    FROM keyed k
+    WHERE v_after_id IS NULL OR (k.sort_key, k.id) > (v_after_key, v_after_id)
+    ORDER BY k.sort_key, k.id
+    LIMIT v_limit + 1
+  )
+  SELECT jsonb_build_object(
+    'items', coalesce(
+      jsonb_agg(to_jsonb(page) - 'search_vector' - 'sort_key' - 'position' ORDER BY position)
+        FILTER (WHERE position <= v_limit),
+      '[]'::jsonb
+    ),
+    'next_cursor', CASE WHEN count(*) > v_limit
+      THEN max(CASE WHEN position = v_limit THEN sort_key::text || '|' || id::text END)
+    END
+  )
+  INTO v_result
+  FROM page;
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_products(text, uuid, numeric, numeric, boolean, text, text, integer) TO anon, authenticated;
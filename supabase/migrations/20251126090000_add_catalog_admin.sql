@@ -0,0 +1,230 @@
+/*
+  # Catalog Administration
+
+  ## Overview
+  Gives staff (users whose `app_metadata.role` is `staff`, see `is_staff()`) write access
+  to the catalog: create, edit and archive products and categories, adjust stock with a
+  reason, and upload product images to Supabase Storage.
+
+  ## Modified Tables
+
+  ### categories
+  - `archived_at` (timestamptz) - Set when the category is archived; hidden from shoppers
+
+  ### products
+  - `archived_at` (timestamptz) - Set when the product is archived; hidden from shoppers
+    and removed from every cart
+  - `updated_at` (timestamptz) - Last modification timestamp
+
+  ## New Tables
+
+  ### stock_adjustments
+  - `id` (uuid, primary key) - Unique adjustment identifier
+  - `product_id` (uuid, foreign key) - Reference to products table
+  - `delta` (integer) - Change applied to `products.stock`
+  - `stock_after` (integer) - Stock level after the change
+  - `reason` (text) - Why the stock was changed
+  - `adjusted_by` (uuid) - Staff user who made the change
+  - `created_at` (timestamptz) - Record creation timestamp
+
+  ## New Functions
+  - `adjust_stock(p_product_id, p_delta, p_reason)` - Staff only; applies a stock delta,
+    rejects changes that would make stock negative and records the adjustment
+
+  ## Storage
+  - Public `product-images` bucket; only staff may upload, replace or delete objects
+
+  ## Security
+  - Shoppers only see categories and products that are not archived; staff see all
+  - Staff may insert and update categories and products. `products.stock` is not
+    directly updatable by clients; it changes through checkout and `adjust_stock`.
+  - Shoppers cannot add archived products to their cart
+
+  ## Important Notes
+  1. Grant the staff role with the service key, e.g.
+     `UPDATE auth.users SET raw_app_meta_data = raw_app_meta_data || '{"role": "staff"}'
+      WHERE email = 'merchandiser@example.com';`
+*/
+
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS archived_at timestamptz;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS archived_at timestamptz;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+
+CREATE OR REPLACE FUNCTION touch_updated_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER products_touch_updated_at
+  BEFORE UPDATE ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_updated_at();
+
+CREATE OR REPLACE FUNCTION remove_archived_product_from_carts()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.archived_at IS NOT NULL AND OLD.archived_at IS NULL THEN
+    DELETE FROM cart_items WHERE product_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER products_remove_archived_from_carts
+  AFTER UPDATE OF archived_at ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION remove_archived_product_from_carts();
+
+DROP POLICY IF EXISTS "Anyone can view categories" ON categories;
+DROP POLICY IF EXISTS "Anyone can view products" ON products;
+
+CREATE POLICY "Anyone can view active categories"
+  ON categories FOR SELECT
+  TO anon, authenticated
+  USING (archived_at IS NULL OR is_staff());
+
+CREATE POLICY "Anyone can view active products"
+  ON products FOR SELECT
+  TO anon, authenticated
+  USING (archived_at IS NULL OR is_staff());
+
+CREATE POLICY "Staff can create categories"
+  ON categories FOR INSERT
+  TO authenticated
+  WITH CHECK (is_staff());
+
+CREATE POLICY "Staff can update categories"
+  ON categories FOR UPDATE
+  TO authenticated
+  USING (is_staff())
+  WITH CHECK (is_staff());
+
+CREATE POLICY "Staff can create products"
+  ON products FOR INSERT
+  TO authenticated
+  WITH CHECK (is_staff());
+
+CREATE POLICY "Staff can update products"
+  ON products FOR UPDATE
+  TO authenticated
+  USING (is_staff())
+  WITH CHECK (is_staff());
+
+REVOKE UPDATE ON products FROM anon, authenticated;
+GRANT UPDATE (category_id, name, description, price, image_url, archived_at)
+  ON products TO authenticated;
+
+-- Renaming a category rewrites products.search_vector, which staff cannot update directly.
+ALTER FUNCTION refresh_category_product_search_vectors() SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Users can insert their own cart items" ON cart_items;
+
+CREATE POLICY "Users can insert their own cart items"
+  ON cart_items FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM products
+      WHERE products.id = cart_items.product_id
+      AND products.archived_at IS NULL
+    )
+  );
+
+CREATE TABLE IF NOT EXISTS stock_adjustments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  delta integer NOT NULL,
+  stock_after integer NOT NULL,
+  reason text NOT NULL,
+  adjusted_by uuid,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS stock_adjustments_product_id_idx
+  ON stock_adjustments (product_id, created_at DESC);
+
+ALTER TABLE stock_adjustments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view stock adjustments"
+  ON stock_adjustments FOR SELECT
+  TO authenticated
+  USING (is_staff());
+
+CREATE OR REPLACE FUNCTION adjust_stock(
+  p_product_id uuid,
+  p_delta integer,
+  p_reason text
+)
+RETURNS products
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product products;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'forbidden' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_delta = 0 THEN
+    RAISE EXCEPTION 'empty_adjustment' USING ERRCODE = '22023';
+  END IF;
+
+  IF coalesce(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'reason_required' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_product FROM products WHERE id = p_product_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'product_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_product.stock + p_delta < 0 THEN
+    RAISE EXCEPTION 'insufficient_stock'
+      USING ERRCODE = 'P0001', DETAIL = format('%s in stock', v_product.stock);
+  END IF;
+
+  UPDATE products SET stock = stock + p_delta
+  WHERE id = p_product_id
+  RETURNING * INTO v_product;
+
+  INSERT INTO stock_adjustments (product_id, delta, stock_after, reason, adjusted_by)
+  VALUES (p_product_id, p_delta, v_product.stock, trim(p_reason), auth.uid());
+
+  RETURN v_product;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION adjust_stock(uuid, integer, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION adjust_stock(uuid, integer, text) TO authenticated;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('product-images', 'product-images', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Staff can upload product images"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'product-images' AND is_staff());
+
+CREATE POLICY "Staff can update product images"
+  ON storage.objects FOR UPDATE
+  TO authenticated
+  USING (bucket_id = 'product-images' AND is_staff());
+
+CREATE POLICY "Staff can delete product images"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'product-images' AND is_staff());
@@ -0,0 +1,167 @@
+/*
+  # Bulk Catalog Import
+
+  ## Overview
+  Adds a stable SKU to products and a staff-only bulk upsert keyed on it, so large
+  catalogs can be loaded from CSV or JSON files instead of one product at a time.
+
+  ## Modified Tables
+
+  ### products
+  - `sku` (text, unique, not null) - Stable stock keeping unit; existing products are
+    backfilled with a generated `SKU-XXXXXXXX` value
+
+  ## New Functions
+
+  ### import_products(p_rows, p_dry_run)
+  - Staff only
+  - `p_rows` is a JSON array of objects with `sku`, `name`, `description`, `price`,
+    `stock`, `category` (matched case-insensitively by name) and `image_url`
+  - Missing categories are created
+  - Products are matched by `sku`: new SKUs are inserted, existing ones updated.
+    `description`, `category` and `image_url` are optional: an existing product keeps
+    its value for a key the row leaves out, while an empty value clears it
+  - Stock differences are applied through `stock_adjustments` with the reason
+    `Bulk import`, so imports stay auditable
+  - With `p_dry_run` nothing is written; the result describes what would happen
+  - Returns one entry per row: `{ line, sku, action, category_created }` where `action`
+    is `create` or `update`
+  - Any invalid row aborts the whole import
+*/
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS sku text;
+
+UPDATE products
+SET sku = 'SKU-' || upper(substr(replace(id::text, '-', ''), 1, 8))
+WHERE sku IS NULL;
+
+ALTER TABLE products
+  ALTER COLUMN sku SET DEFAULT 'SKU-' || upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 8)),
+  ALTER COLUMN sku SET NOT NULL,
+  ADD CONSTRAINT products_sku_key UNIQUE (sku);
+
+GRANT UPDATE (sku) ON products TO authenticated;
+
+CREATE OR REPLACE FUNCTION import_products(
+  p_rows jsonb,
+  p_dry_run boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row jsonb;
+  v_line integer;
+  v_sku text;
+  v_price numeric;
+  v_stock integer;
+  v_category_name text;
+  v_category_id uuid;
+  v_category_created boolean;
+  v_new_categories text[] := '{}';
+  v_product products;
+  v_results jsonb := '[]'::jsonb;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'forbidden' USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(p_rows) <> 'array' THEN
+    RAISE EXCEPTION 'invalid_rows' USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_row, v_line IN
+    SELECT value, coalesce((value ->> 'line')::integer, ordinality::integer)
+    FROM jsonb_array_elements(p_rows) WITH ORDINALITY
+  LOOP
+    v_sku := nullif(trim(v_row ->> 'sku'), '');
+    v_price := (v_row ->> 'price')::numeric;
+    v_stock := (v_row ->> 'stock')::integer;
+    v_category_name := nullif(trim(v_row ->> 'category'), '');
+    v_category_id := NULL;
+    v_category_created := false;
+
+    IF v_sku IS NULL OR nullif(trim(v_row ->> 'name'), '') IS NULL
+      OR v_price IS NULL OR v_price < 0 OR v_stock IS NULL OR v_stock < 0 THEN
+      RAISE EXCEPTION 'invalid_row'
+        USING ERRCODE = '22023', DETAIL = format('line %s', v_line);
+    END IF;
+
+    IF v_category_name IS NOT NULL THEN
+      SELECT id INTO v_category_id
+      FROM categories
+      WHERE lower(name) = lower(v_category_name)
+      ORDER BY archived_at NULLS FIRST, created_at
+      LIMIT 1;
+
+      -- A dry run inserts nothing, so later rows naming the same new category
+      -- would not find it; only the first of them reports creating it.
+      IF v_category_id IS NULL THEN
+        v_category_created := NOT lower(v_category_name) = ANY (v_new_categories);
+        v_new_categories := v_new_categories || lower(v_category_name);
+        IF NOT p_dry_run THEN
+          INSERT INTO categories (name) VALUES (v_category_name)
+          RETURNING id INTO v_category_id;
+        END IF;
+      END IF;
+    END IF;
+
+    SELECT * INTO v_product FROM products WHERE sku = v_sku FOR UPDATE;
+
+    v_results := v_results || jsonb_build_object(
+      'line', v_line,
+      'sku', v_sku,
+      'action', CASE WHEN v_product.id IS NULL THEN 'create' ELSE 'update' END,
+      'category_created', v_category_created
+    );
+
+    IF p_dry_run THEN
+      CONTINUE;
+    END IF;
+
+    IF v_product.id IS NULL THEN
+      INSERT INTO products (sku, category_id, name, description, price, image_url, stock)
+      VALUES (
+        v_sku,
+        v_category_id,
+        trim(v_row ->> 'name'),
+        coalesce(v_row ->> 'description', ''),
+        v_price,
+        coalesce(v_row ->> 'image_url', ''),
+        0
+      )
+      RETURNING * INTO v_product;
+    ELSE
+      -- Optional columns the file leaves out keep the product's current values.
+      UPDATE products
+      SET category_id = CASE WHEN v_row ? 'category' THEN v_category_id ELSE category_id END,
+          name = trim(v_row ->> 'name'),
+          description = CASE
+            WHEN v_row ? 'description' THEN coalesce(v_row ->> 'description', '')
+            ELSE description
+          END,
+          price = v_price,
+          image_url = CASE
+            WHEN v_row ? 'image_url' THEN coalesce(v_row ->> 'image_url', '')
+            ELSE image_url
+          END
+      WHERE id = v_product.id
+      RETURNING * INTO v_product;
+    END IF;
+
+    IF v_stock <> v_product.stock THEN
+      UPDATE products SET stock = v_stock WHERE id = v_product.id;
+
+      INSERT INTO stock_adjustments (product_id, delta, stock_after, reason, adjusted_by)
+      VALUES (v_product.id, v_stock - v_product.stock, v_stock, 'Bulk import', auth.uid());
+    END IF;
+  END LOOP;
+
+  RETURN v_results;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION import_products(jsonb, boolean) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION import_products(jsonb, boolean) TO authenticated;
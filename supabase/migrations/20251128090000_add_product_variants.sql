@@ -0,0 +1,540 @@
+/*
+  # Product Variants
+
+  ## Overview
+  Lets a product be sold in several variants (e.g. colour and size), each with its own
+  SKU, price, stock and image. Carts, checkout, restocking and stock adjustments all
+  work at variant granularity.
+
+  ## New Tables
+
+  ### 1. product_options
+  - `id` (uuid, primary key) - Unique option identifier
+  - `product_id` (uuid, foreign key) - Reference to products table
+  - `name` (text) - Option axis, e.g. `Color`
+  - `values` (text[]) - Allowed values in display order, e.g. `{Red,Blue}`
+  - `position` (integer) - Display order of the axis
+  - `created_at` (timestamptz) - Record creation timestamp
+
+  ### 2. product_variants
+  - `id` (uuid, primary key) - Unique variant identifier
+  - `product_id` (uuid, foreign key) - Reference to products table
+  - `sku` (text, unique) - Variant stock keeping unit
+  - `options` (jsonb) - Chosen value per axis, e.g. `{"Color": "Red", "Size": "M"}`
+  - `price` (numeric) - Variant price; null means the product price applies
+  - `stock` (integer) - Available stock for this variant
+  - `image_url` (text) - Variant image; empty means the product image applies
+  - `position` (integer) - Display order
+  - `archived_at` (timestamptz) - Set when the variant is withdrawn from sale
+  - `created_at` (timestamptz) - Record creation timestamp
+
+  ## Modified Tables
+  - `cart_items.variant_id` - Chosen variant, null for products without variants
+  - `order_items.variant_id` / `order_items.variant_label` - Variant sold and a snapshot
+    of its option values at purchase time
+  - `stock_adjustments.variant_id` - Variant whose stock was adjusted
+
+  ## Stock
+  - For products with variants, `products.stock` is kept equal to the sum of the active
+    variants' stock so listings and the in-stock filter keep working
+
+  ## Modified Functions
+  - `place_order` - Prices and checks stock per variant; products with variants cannot
+    be bought without choosing one
+  - `transition_order` - Restocks the variant that was sold
+  - `merge_guest_session` - Merges cart lines per product and variant
+  - `adjust_stock(p_product_id, p_delta, p_reason, p_variant_id)` - Optional variant
+
+  ## Security
+  - Options and active variants are publicly readable; staff can read and write all
+  - `product_variants.stock` is not directly updatable by clients
+*/
+
+CREATE TABLE IF NOT EXISTS product_options (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  values text[] NOT NULL DEFAULT '{}',
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (product_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS product_variants (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  sku text NOT NULL UNIQUE,
+  options jsonb NOT NULL DEFAULT '{}',
+  price numeric(10, 2) CHECK (price >= 0),
+  stock integer NOT NULL DEFAULT 0 CHECK (stock >= 0),
+  image_url text DEFAULT '',
+  position integer NOT NULL DEFAULT 0,
+  archived_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS product_variants_product_id_idx ON product_variants (product_id, position);
+
+ALTER TABLE cart_items
+  ADD COLUMN IF NOT EXISTS variant_id uuid REFERENCES product_variants(id) ON DELETE CASCADE;
+ALTER TABLE order_items
+  ADD COLUMN IF NOT EXISTS variant_id uuid REFERENCES product_variants(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS variant_label text;
+ALTER TABLE stock_adjustments
+  ADD COLUMN IF NOT EXISTS variant_id uuid REFERENCES product_variants(id) ON DELETE CASCADE;
+
+ALTER TABLE product_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE product_variants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view product options"
+  ON product_options FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Staff can manage product options"
+  ON product_options FOR ALL
+  TO authenticated
+  USING (is_staff())
+  WITH CHECK (is_staff());
+
+CREATE POLICY "Anyone can view active variants"
+  ON product_variants FOR SELECT
+  TO anon, authenticated
+  USING (archived_at IS NULL OR is_staff());
+
+CREATE POLICY "Staff can create variants"
+  ON product_variants FOR INSERT
+  TO authenticated
+  WITH CHECK (is_staff());
+
+CREATE POLICY "Staff can update variants"
+  ON product_variants FOR UPDATE
+  TO authenticated
+  USING (is_staff())
+  WITH CHECK (is_staff());
+
+REVOKE UPDATE ON product_variants FROM anon, authenticated;
+GRANT UPDATE (sku, options, price, image_url, position, archived_at)
+  ON product_variants TO authenticated;
+
+DROP POLICY IF EXISTS "Users can insert their own cart items" ON cart_items;
+
+CREATE POLICY "Users can insert their own cart items"
+  ON cart_items FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM products
+      WHERE products.id = cart_items.product_id
+      AND products.archived_at IS NULL
+    )
+    AND (
+      cart_items.variant_id IS NULL OR EXISTS (
+        SELECT 1 FROM product_variants
+        WHERE product_variants.id = cart_items.variant_id
+        AND product_variants.product_id = cart_items.product_id
+        AND product_variants.archived_at IS NULL
+      )
+    )
+  );
+
+-- products.stock mirrors the sum of active variant stock for variant products.
+CREATE OR REPLACE FUNCTION variant_stock_total(p_product_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT SUM(stock)::integer
+  FROM product_variants
+  WHERE product_id = p_product_id AND archived_at IS NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION sync_product_stock_from_variants()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product_id uuid := coalesce(NEW.product_id, OLD.product_id);
+BEGIN
+  UPDATE products
+  SET stock = coalesce(variant_stock_total(v_product_id), 0)
+  WHERE id = v_product_id;
+
+  IF TG_OP = 'UPDATE' AND NEW.archived_at IS NOT NULL AND OLD.archived_at IS NULL THEN
+    DELETE FROM cart_items WHERE variant_id = NEW.id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER product_variants_sync_product_stock
+  AFTER INSERT OR DELETE OR UPDATE OF stock, archived_at ON product_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_product_stock_from_variants();
+
+CREATE OR REPLACE FUNCTION enforce_variant_product_stock()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_total integer := variant_stock_total(NEW.id);
+BEGIN
+  IF v_total IS NOT NULL THEN
+    NEW.stock := v_total;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER products_enforce_variant_stock
+  BEFORE UPDATE OF stock ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_variant_product_stock();
+
+CREATE OR REPLACE FUNCTION format_variant_label(p_product_id uuid, p_options jsonb)
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT string_agg(p_options ->> o.name, ' / ' ORDER BY o.position, o.name)
+  FROM product_options o
+  WHERE o.product_id = p_product_id AND p_options ? o.name;
+$$;
+
+CREATE OR REPLACE FUNCTION place_order(
+  p_customer_name text,
+  p_customer_email text,
+  p_shipping_address text
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_order orders;
+  v_errors jsonb;
+  v_total numeric(10, 2);
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'session_required' USING ERRCODE = '42501';
+  END IF;
+
+  CREATE TEMP TABLE checkout_cart ON COMMIT DROP AS
+  SELECT id, product_id, variant_id, quantity
+  FROM cart_items
+  WHERE user_id = v_user_id;
+
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT product_id FROM checkout_cart)
+  ORDER BY id
+  FOR UPDATE;
+
+  PERFORM 1
+  FROM product_variants
+  WHERE id IN (SELECT variant_id FROM checkout_cart)
+  ORDER BY id
+  FOR UPDATE;
+
+  CREATE TEMP TABLE checkout_lines ON COMMIT DROP AS
+  SELECT
+    c.product_id,
+    c.variant_id,
+    p.name AS product_name,
+    format_variant_label(p.id, v.options) AS variant_label,
+    coalesce(v.price, p.price) AS price,
+    CASE
+      WHEN v.id IS NOT NULL AND v.archived_at IS NULL THEN v.stock
+      WHEN v.id IS NULL AND variant_stock_total(p.id) IS NULL THEN p.stock
+      ELSE 0
+    END AS stock,
+    SUM(c.quantity)::integer AS quantity
+  FROM checkout_cart c
+  JOIN products p ON p.id = c.product_id
+  LEFT JOIN product_variants v ON v.id = c.variant_id
+  GROUP BY c.product_id, c.variant_id, p.id, p.name, p.price, p.stock, v.id, v.options, v.price, v.stock, v.archived_at;
+
+  IF NOT EXISTS (SELECT 1 FROM checkout_lines WHERE quantity > 0) THEN
+    RAISE EXCEPTION 'cart_empty' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object(
+    'product_id', product_id,
+    'variant_id', variant_id,
+    'product_name', product_name || coalesce(' (' || variant_label || ')', ''),
+    'requested', quantity,
+    'available', stock
+  ))
+  INTO v_errors
+  FROM checkout_lines
+  WHERE quantity > stock;
+
+  IF v_errors IS NOT NULL THEN
+    RAISE EXCEPTION 'insufficient_stock'
+      USING ERRCODE = 'P0001', DETAIL = v_errors::text;
+  END IF;
+
+  SELECT SUM(price * quantity) INTO v_total
+  FROM checkout_lines
+  WHERE quantity > 0;
+
+  INSERT INTO orders (
+    user_id,
+    total_amount,
+    status,
+    customer_name,
+    customer_email,
+    shipping_address
+  )
+  VALUES (
+    v_user_id,
+    v_total,
+    'pending',
+    p_customer_name,
+    p_customer_email,
+    p_shipping_address
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (order_id, product_id, variant_id, variant_label, quantity, price)
+  SELECT v_order.id, product_id, variant_id, variant_label, quantity, price
+  FROM checkout_lines
+  WHERE quantity > 0;
+
+  UPDATE product_variants v
+  SET stock = v.stock - l.quantity
+  FROM checkout_lines l
+  WHERE v.id = l.variant_id AND l.quantity > 0;
+
+  UPDATE products p
+  SET stock = p.stock - l.quantity
+  FROM checkout_lines l
+  WHERE p.id = l.product_id AND l.variant_id IS NULL AND l.quantity > 0;
+
+  DELETE FROM cart_items WHERE id IN (SELECT id FROM checkout_cart);
+
+  DROP TABLE checkout_lines;
+  DROP TABLE checkout_cart;
+
+  RETURN v_order;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION restock_order_items(p_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE product_variants v
+  SET stock = v.stock + i.quantity
+  FROM (
+    SELECT variant_id, SUM(quantity)::integer AS quantity
+    FROM order_items
+    WHERE order_id = p_order_id AND variant_id IS NOT NULL
+    GROUP BY variant_id
+  ) i
+  WHERE v.id = i.variant_id;
+
+  UPDATE products p
+  SET stock = p.stock + i.quantity
+  FROM (
+    SELECT product_id, SUM(quantity)::integer AS quantity
+    FROM order_items
+    WHERE order_id = p_order_id AND product_id IS NOT NULL AND variant_id IS NULL
+    GROUP BY product_id
+  ) i
+  WHERE p.id = i.product_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION restock_order_items(uuid) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION transition_order(
+  p_order_id uuid,
+  p_to text,
+  p_reason text DEFAULT ''
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+  v_from text;
+  v_is_owner boolean;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'order_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  v_from := v_order.status;
+  v_is_owner := v_order.user_id IS NOT NULL AND v_order.user_id = auth.uid();
+
+  IF NOT is_staff() AND NOT (v_is_owner AND v_from = 'pending' AND p_to = 'cancelled') THEN
+    RAISE EXCEPTION 'forbidden_transition' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM order_status_transitions
+    WHERE from_status = v_from AND to_status = p_to
+  ) THEN
+    RAISE EXCEPTION 'illegal_transition'
+      USING ERRCODE = 'P0001', DETAIL = format('%s -> %s', v_from, p_to);
+  END IF;
+
+  UPDATE orders SET status = p_to WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_status_history (order_id, from_status, to_status, reason, changed_by)
+  VALUES (p_order_id, v_from, p_to, coalesce(p_reason, ''), auth.uid());
+
+  IF p_to IN ('cancelled', 'refunded') AND v_from IN ('pending', 'paid', 'packed') THEN
+    PERFORM restock_order_items(p_order_id);
+  END IF;
+
+  RETURN v_order;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION merge_guest_session(p_token uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_guest_id uuid;
+BEGIN
+  IF v_user_id IS NULL OR is_anonymous_user() THEN
+    RAISE EXCEPTION 'not_authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM guest_transfers
+  WHERE token = p_token AND expires_at >= now()
+  RETURNING guest_user_id INTO v_guest_id;
+
+  IF v_guest_id IS NULL OR v_guest_id = v_user_id THEN
+    RETURN;
+  END IF;
+
+  UPDATE cart_items u
+  SET quantity = u.quantity + g.quantity
+  FROM (
+    SELECT product_id, variant_id, SUM(quantity)::integer AS quantity
+    FROM cart_items
+    WHERE user_id = v_guest_id
+    GROUP BY product_id, variant_id
+  ) g
+  WHERE u.user_id = v_user_id
+    AND u.product_id = g.product_id
+    AND u.variant_id IS NOT DISTINCT FROM g.variant_id;
+
+  INSERT INTO cart_items (user_id, product_id, variant_id, quantity)
+  SELECT v_user_id, product_id, variant_id, SUM(quantity)::integer
+  FROM cart_items g
+  WHERE g.user_id = v_guest_id
+    AND NOT EXISTS (
+      SELECT 1 FROM cart_items u
+      WHERE u.user_id = v_user_id
+        AND u.product_id = g.product_id
+        AND u.variant_id IS NOT DISTINCT FROM g.variant_id
+    )
+  GROUP BY product_id, variant_id;
+
+  DELETE FROM cart_items WHERE user_id = v_guest_id;
+
+  UPDATE orders SET user_id = v_user_id WHERE user_id = v_guest_id;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS adjust_stock(uuid, integer, text);
+
+CREATE OR REPLACE FUNCTION adjust_stock(
+  p_product_id uuid,
+  p_delta integer,
+  p_reason text,
+  p_variant_id uuid DEFAULT NULL
+)
+RETURNS products
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product products;
+  v_variant product_variants;
+  v_stock_after integer;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'forbidden' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_delta = 0 THEN
+    RAISE EXCEPTION 'empty_adjustment' USING ERRCODE = '22023';
+  END IF;
+
+  IF coalesce(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'reason_required' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_product FROM products WHERE id = p_product_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'product_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_variant_id IS NOT NULL THEN
+    SELECT * INTO v_variant
+    FROM product_variants
+    WHERE id = p_variant_id AND product_id = p_product_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'variant_not_found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_variant.stock + p_delta < 0 THEN
+      RAISE EXCEPTION 'insufficient_stock'
+        USING ERRCODE = 'P0001', DETAIL = format('%s in stock', v_variant.stock);
+    END IF;
+
+    UPDATE product_variants SET stock = stock + p_delta
+    WHERE id = p_variant_id
+    RETURNING stock INTO v_stock_after;
+  ELSE
+    IF variant_stock_total(p_product_id) IS NOT NULL THEN
+      RAISE EXCEPTION 'variant_required' USING ERRCODE = '22023';
+    END IF;
+
+    IF v_product.stock + p_delta < 0 THEN
+      RAISE EXCEPTION 'insufficient_stock'
+        USING ERRCODE = 'P0001', DETAIL = format('%s in stock', v_product.stock);
+    END IF;
+
+    UPDATE products SET stock = stock + p_delta
+    WHERE id = p_product_id
+    RETURNING stock INTO v_stock_after;
+  END IF;
+
+  INSERT INTO stock_adjustments (product_id, variant_id, delta, stock_after, reason, adjusted_by)
+  VALUES (p_product_id, p_variant_id, p_delta, v_stock_after, trim(p_reason), auth.uid());
+
+  SELECT * INTO v_product FROM products WHERE id = p_product_id;
+  RETURN v_product;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION adjust_stock(uuid, integer, text, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION adjust_stock(uuid, integer, text, uuid) TO authenticated;
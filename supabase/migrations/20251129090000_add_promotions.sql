@@ -0,0 +1,507 @@
+/*
+  # Promotions
+
+  ## Overview
+  Adds promotion codes that are validated and priced server-side, both for the checkout
+  preview (`quote_cart`) and inside the `place_order` transaction, so the discount a
+  shopper sees is the discount they get. Orders keep the subtotal, each discount line and
+  the applied code so totals can be audited later.
+
+  ## New Tables
+
+  ### 1. promotions
+  - `id` (uuid, primary key) - Unique promotion identifier
+  - `code` (text, unique) - Code entered at checkout, stored upper case
+  - `description` (text) - Shown to the shopper on the discount line
+  - `kind` (text) - One of:
+    - `percentage` - `value` percent off the eligible subtotal
+    - `fixed` - `value` off the eligible subtotal, never more than it
+    - `free_shipping` - Waives shipping on the order
+    - `buy_x_get_y` - For every `buy_quantity` + `get_quantity` eligible units, the
+      cheapest `get_quantity` are free
+  - `value` (numeric) - Percentage or amount, depending on `kind`
+  - `category_id` (uuid, foreign key) - Limits the discount to one category; null means
+    the whole cart is eligible
+  - `buy_quantity` / `get_quantity` (integer) - Only for `buy_x_get_y`
+  - `min_subtotal` (numeric) - Cart subtotal required before the code applies
+  - `starts_at` / `ends_at` (timestamptz) - Optional validity window
+  - `usage_limit` (integer) - Maximum number of orders across all customers; null means
+    unlimited
+  - `per_customer_limit` (integer) - Maximum number of orders per customer; codes with
+    a limit need a signed-in account, since a guest could start a new session per order
+  - `active` (boolean) - Inactive codes behave as if they did not exist
+  - `created_at` / `updated_at` (timestamptz)
+
+  ### 2. order_discounts
+  - `id` (uuid, primary key) - Unique discount line identifier
+  - `order_id` (uuid, foreign key) - Reference to orders table
+  - `promotion_id` (uuid, foreign key) - Promotion that produced the line
+  - `code` (text) - Snapshot of the code
+  - `description` (text) - Snapshot of the description
+  - `amount` (numeric) - Amount taken off the order
+  - `created_at` (timestamptz) - Record creation timestamp
+
+  ## Modified Tables
+
+  ### orders
+  - `subtotal` (numeric) - Sum of the order lines before discounts; backfilled from
+    `total_amount` for existing orders
+  - `discount_total` (numeric) - Sum of the order's discount lines
+  - `promo_code` (text) - Code applied at checkout
+  - `free_shipping` (boolean) - Whether a promotion waived shipping
+
+  ## New Functions
+  - `promotion_covers_category(p_promotion_category_id, p_category_id)` - Internal;
+    whether a line in a category is eligible for a promotion limited to another one
+  - `evaluate_promotion(p_code, p_user_id, p_lines)` - Internal; validates a code against
+    priced cart lines and returns its discount line
+  - `quote_cart(p_code)` - Prices the caller's cart with an optional code for display
+
+  ## Modified Functions
+  - `place_order(p_customer_name, p_customer_email, p_shipping_address, p_promo_code)` -
+    Applies the code inside the checkout transaction
+
+  ## Errors
+  Raised by `quote_cart` and `place_order` when a code cannot be applied:
+  `promotion_not_found`, `promotion_not_started`, `promotion_expired`,
+  `promotion_exhausted`, `promotion_account_required`, `promotion_already_used`,
+  `promotion_min_subtotal` (DETAIL is the required subtotal) and
+  `promotion_not_applicable`.
+
+  ## Security
+  - Only staff can read or manage promotions, so codes cannot be enumerated
+  - Shoppers can read discount lines of their own orders; staff can read all
+
+  ## Important Notes
+  1. Usage counts are derived from the discount lines of orders that were not cancelled
+     or refunded, so cancelling or refunding an order gives the use back
+*/
+
+CREATE TABLE IF NOT EXISTS promotions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL UNIQUE CHECK (code = upper(code) AND code <> ''),
+  description text NOT NULL DEFAULT '',
+  kind text NOT NULL CHECK (kind IN ('percentage', 'fixed', 'free_shipping', 'buy_x_get_y')),
+  value numeric(10, 2) NOT NULL DEFAULT 0 CHECK (value >= 0),
+  category_id uuid REFERENCES categories(id),
+  buy_quantity integer CHECK (buy_quantity > 0),
+  get_quantity integer CHECK (get_quantity > 0),
+  min_subtotal numeric(10, 2) NOT NULL DEFAULT 0 CHECK (min_subtotal >= 0),
+  starts_at timestamptz,
+  ends_at timestamptz,
+  usage_limit integer CHECK (usage_limit > 0),
+  per_customer_limit integer CHECK (per_customer_limit > 0),
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (kind <> 'percentage' OR value <= 100),
+  CHECK (kind <> 'buy_x_get_y' OR (buy_quantity IS NOT NULL AND get_quantity IS NOT NULL)),
+  CHECK (starts_at IS NULL OR ends_at IS NULL OR starts_at < ends_at)
+);
+
+CREATE TRIGGER promotions_touch_updated_at
+  BEFORE UPDATE ON promotions
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_updated_at();
+
+CREATE TABLE IF NOT EXISTS order_discounts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  promotion_id uuid REFERENCES promotions(id) ON DELETE SET NULL,
+  code text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  amount numeric(10, 2) NOT NULL CHECK (amount >= 0),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS order_discounts_order_id_idx ON order_discounts (order_id);
+CREATE INDEX IF NOT EXISTS order_discounts_promotion_id_idx ON order_discounts (promotion_id);
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS subtotal numeric(10, 2);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS discount_total numeric(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS promo_code text;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS free_shipping boolean NOT NULL DEFAULT false;
+
+UPDATE orders SET subtotal = total_amount WHERE subtotal IS NULL;
+
+ALTER TABLE orders
+  ALTER COLUMN subtotal SET DEFAULT 0,
+  ALTER COLUMN subtotal SET NOT NULL;
+
+ALTER TABLE promotions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_discounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view promotions"
+  ON promotions FOR SELECT
+  TO authenticated
+  USING (is_staff());
+
+CREATE POLICY "Staff can create promotions"
+  ON promotions FOR INSERT
+  TO authenticated
+  WITH CHECK (is_staff());
+
+CREATE POLICY "Staff can update promotions"
+  ON promotions FOR UPDATE
+  TO authenticated
+  USING (is_staff())
+  WITH CHECK (is_staff());
+
+CREATE POLICY "Users can view discounts for their orders"
+  ON order_discounts FOR SELECT
+  TO authenticated
+  USING (
+    is_staff() OR EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_discounts.order_id
+      AND orders.user_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION promotion_covers_category(
+  p_promotion_category_id uuid,
+  p_category_id uuid
+)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT p_promotion_category_id IS NULL OR p_category_id = p_promotion_category_id;
+$$;
+
+-- p_lines is a JSON array of { product_id, category_id, price, quantity }.
+CREATE OR REPLACE FUNCTION evaluate_promotion(
+  p_code text,
+  p_user_id uuid,
+  p_lines jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_promotion promotions;
+  v_used integer;
+  v_subtotal numeric(10, 2);
+  v_eligible numeric(10, 2);
+  v_units integer;
+  v_amount numeric(10, 2) := 0;
+BEGIN
+  SELECT * INTO v_promotion
+  FROM promotions
+  WHERE code = upper(trim(p_code)) AND active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'promotion_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_promotion.starts_at IS NOT NULL AND now() < v_promotion.starts_at THEN
+    RAISE EXCEPTION 'promotion_not_started' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_promotion.ends_at IS NOT NULL AND now() >= v_promotion.ends_at THEN
+    RAISE EXCEPTION 'promotion_expired' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_promotion.usage_limit IS NOT NULL THEN
+    SELECT count(*) INTO v_used
+    FROM order_discounts d
+    JOIN orders o ON o.id = d.order_id
+    WHERE d.promotion_id = v_promotion.id AND o.status NOT IN ('cancelled', 'refunded');
+
+    IF v_used >= v_promotion.usage_limit THEN
+      RAISE EXCEPTION 'promotion_exhausted' USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  IF v_promotion.per_customer_limit IS NOT NULL THEN
+    IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = p_user_id AND NOT is_anonymous) THEN
+      RAISE EXCEPTION 'promotion_account_required' USING ERRCODE = 'P0001';
+    END IF;
+
+    SELECT count(*) INTO v_used
+    FROM order_discounts d
+    JOIN orders o ON o.id = d.order_id
+    WHERE d.promotion_id = v_promotion.id
+      AND o.user_id = p_user_id
+      AND o.status NOT IN ('cancelled', 'refunded');
+
+    IF v_used >= v_promotion.per_customer_limit THEN
+      RAISE EXCEPTION 'promotion_already_used' USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  SELECT
+    coalesce(SUM((l ->> 'price')::numeric * (l ->> 'quantity')::integer), 0),
+    coalesce(SUM((l ->> 'price')::numeric * (l ->> 'quantity')::integer) FILTER (
+      WHERE promotion_covers_category(v_promotion.category_id, (l ->> 'category_id')::uuid)
+    ), 0),
+    coalesce(SUM((l ->> 'quantity')::integer) FILTER (
+      WHERE promotion_covers_category(v_promotion.category_id, (l ->> 'category_id')::uuid)
+    ), 0)
+  INTO v_subtotal, v_eligible, v_units
+  FROM jsonb_array_elements(p_lines) AS l;
+
+  IF v_subtotal < v_promotion.min_subtotal THEN
+    RAISE EXCEPTION 'promotion_min_subtotal'
+      USING ERRCODE = 'P0001', DETAIL = v_promotion.min_subtotal::text;
+  END IF;
+
+  CASE v_promotion.kind
+    WHEN 'percentage' THEN
+      v_amount := round(v_eligible * v_promotion.value / 100, 2);
+    WHEN 'fixed' THEN
+      v_amount := least(v_promotion.value, v_eligible);
+    WHEN 'buy_x_get_y' THEN
+      SELECT coalesce(SUM(price), 0) INTO v_amount
+      FROM (
+        SELECT (l ->> 'price')::numeric AS price
+        FROM jsonb_array_elements(p_lines) AS l,
+          generate_series(1, (l ->> 'quantity')::integer)
+        WHERE promotion_covers_category(v_promotion.category_id, (l ->> 'category_id')::uuid)
+        ORDER BY 1
+        LIMIT (v_units / (v_promotion.buy_quantity + v_promotion.get_quantity))
+          * v_promotion.get_quantity
+      ) free_units;
+    ELSE
+      v_amount := 0;
+  END CASE;
+
+  IF v_promotion.kind = 'free_shipping' THEN
+    IF v_eligible = 0 THEN
+      RAISE EXCEPTION 'promotion_not_applicable' USING ERRCODE = 'P0001';
+    END IF;
+  ELSIF v_amount = 0 THEN
+    RAISE EXCEPTION 'promotion_not_applicable' USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'promotion_id', v_promotion.id,
+    'code', v_promotion.code,
+    'description', v_promotion.description,
+    'amount', v_amount,
+    'free_shipping', v_promotion.kind = 'free_shipping'
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION promotion_covers_category(uuid, uuid) FROM PUBLIC;
+REVOKE ALL ON FUNCTION evaluate_promotion(text, uuid, jsonb) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION quote_cart(p_code text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_lines jsonb;
+  v_subtotal numeric(10, 2);
+  v_discount jsonb;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'session_required' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT
+    coalesce(jsonb_agg(jsonb_build_object(
+      'product_id', c.product_id,
+      'category_id', p.category_id,
+      'price', coalesce(v.price, p.price),
+      'quantity', c.quantity
+    )), '[]'::jsonb),
+    coalesce(SUM(coalesce(v.price, p.price) * c.quantity), 0)
+  INTO v_lines, v_subtotal
+  FROM cart_items c
+  JOIN products p ON p.id = c.product_id
+  LEFT JOIN product_variants v ON v.id = c.variant_id
+  WHERE c.user_id = v_user_id;
+
+  IF nullif(trim(coalesce(p_code, '')), '') IS NOT NULL THEN
+    v_discount := evaluate_promotion(p_code, v_user_id, v_lines);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'subtotal', v_subtotal,
+    'discounts', CASE WHEN v_discount IS NULL THEN '[]'::jsonb
+      ELSE jsonb_build_array(v_discount - 'promotion_id' - 'free_shipping') END,
+    'discount_total', coalesce((v_discount ->> 'amount')::numeric, 0),
+    'free_shipping', coalesce((v_discount ->> 'free_shipping')::boolean, false),
+    'total', v_subtotal - coalesce((v_discount ->> 'amount')::numeric, 0)
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION quote_cart(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION quote_cart(text) TO authenticated;
+
+DROP FUNCTION IF EXISTS place_order(text, text, text);
+
+CREATE OR REPLACE FUNCTION place_order(
+  p_customer_name text,
+  p_customer_email text,
+  p_shipping_address text,
+  p_promo_code text DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_order orders;
+  v_errors jsonb;
+  v_subtotal numeric(10, 2);
+  v_lines jsonb;
+  v_discount jsonb;
+  v_discount_total numeric(10, 2) := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'session_required' USING ERRCODE = '42501';
+  END IF;
+
+  CREATE TEMP TABLE checkout_cart ON COMMIT DROP AS
+  SELECT id, product_id, variant_id, quantity
+  FROM cart_items
+  WHERE user_id = v_user_id;
+
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT product_id FROM checkout_cart)
+  ORDER BY id
+  FOR UPDATE;
+
+  PERFORM 1
+  FROM product_variants
+  WHERE id IN (SELECT variant_id FROM checkout_cart)
+  ORDER BY id
+  FOR UPDATE;
+
+  CREATE TEMP TABLE checkout_lines ON COMMIT DROP AS
+  SELECT
+    c.product_id,
+    c.variant_id,
+    p.category_id,
+    p.name AS product_name,
+    format_variant_label(p.id, v.options) AS variant_label,
+    coalesce(v.price, p.price) AS price,
+    CASE
+      WHEN v.id IS NOT NULL AND v.archived_at IS NULL THEN v.stock
+      WHEN v.id IS NULL AND variant_stock_total(p.id) IS NULL THEN p.stock
+      ELSE 0
+    END AS stock,
+    SUM(c.quantity)::integer AS quantity
+  FROM checkout_cart c
+  JOIN products p ON p.id = c.product_id
+  LEFT JOIN product_variants v ON v.id = c.variant_id
+  GROUP BY c.product_id, c.variant_id, p.id, p.category_id, p.name, p.price, p.stock,
+    v.id, v.options, v.price, v.stock, v.archived_at;
+
+  IF NOT EXISTS (SELECT 1 FROM checkout_lines WHERE quantity > 0) THEN
+    RAISE EXCEPTION 'cart_empty' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object(
+    'product_id', product_id,
+    'variant_id', variant_id,
+    'product_name', product_name || coalesce(' (' || variant_label || ')', ''),
+    'requested', quantity,
+    'available', stock
+  ))
+  INTO v_errors
+  FROM checkout_lines
+  WHERE quantity > stock;
+
+  IF v_errors IS NOT NULL THEN
+    RAISE EXCEPTION 'insufficient_stock'
+      USING ERRCODE = 'P0001', DETAIL = v_errors::text;
+  END IF;
+
+  SELECT
+    SUM(price * quantity),
+    jsonb_agg(jsonb_build_object(
+      'product_id', product_id,
+      'category_id', category_id,
+      'price', price,
+      'quantity', quantity
+    ))
+  INTO v_subtotal, v_lines
+  FROM checkout_lines
+  WHERE quantity > 0;
+
+  IF nullif(trim(coalesce(p_promo_code, '')), '') IS NOT NULL THEN
+    -- Serialises redemptions of the same code so usage limits cannot be overrun.
+    PERFORM 1 FROM promotions WHERE code = upper(trim(p_promo_code)) FOR UPDATE;
+
+    v_discount := evaluate_promotion(p_promo_code, v_user_id, v_lines);
+    v_discount_total := (v_discount ->> 'amount')::numeric;
+  END IF;
+
+  INSERT INTO orders (
+    user_id,
+    subtotal,
+    discount_total,
+    total_amount,
+    promo_code,
+    free_shipping,
+    status,
+    customer_name,
+    customer_email,
+    shipping_address
+  )
+  VALUES (
+    v_user_id,
+    v_subtotal,
+    v_discount_total,
+    v_subtotal - v_discount_total,
+    v_discount ->> 'code',
+    coalesce((v_discount ->> 'free_shipping')::boolean, false),
+    'pending',
+    p_customer_name,
+    p_customer_email,
+    p_shipping_address
+  )
+  RETURNING * INTO v_order;
+
+  IF v_discount IS NOT NULL THEN
+    INSERT INTO order_discounts (order_id, promotion_id, code, description, amount)
+    VALUES (
+      v_order.id,
+      (v_discount ->> 'promotion_id')::uuid,
+      v_discount ->> 'code',
+      v_discount ->> 'description',
+      v_discount_total
+    );
+  END IF;
+
+  INSERT INTO order_items (order_id, product_id, variant_id, variant_label, quantity, price)
+  SELECT v_order.id, product_id, variant_id, variant_label, quantity, price
+  FROM checkout_lines
+  WHERE quantity > 0;
+
+  UPDATE product_variants v
+  SET stock = v.stock - l.quantity
+  FROM checkout_lines l
+  WHERE v.id = l.variant_id AND l.quantity > 0;
+
+  UPDATE products p
+  SET stock = p.stock - l.quantity
+  FROM checkout_lines l
+  WHERE p.id = l.product_id AND l.variant_id IS NULL AND l.quantity > 0;
+
+  DELETE FROM cart_items WHERE id IN (SELECT id FROM checkout_cart);
+
+  DROP TABLE checkout_lines;
+  DROP TABLE checkout_cart;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION place_order(text, text, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION place_order(text, text, text, text) TO authenticated;
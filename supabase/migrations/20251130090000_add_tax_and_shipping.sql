@@ -0,0 +1,542 @@
+/*
+  # Tax and Shipping
+
+  ## Overview
+  Replaces the free-text shipping address with a structured one and prices shipping and
+  tax server-side from configurable rules. Orders persist every component of the total
+  (subtotal, discount, shipping, tax) next to `total_amount`.
+
+  ## New Tables
+
+  ### 1. shipping_rates
+  - `id` (uuid, primary key) - Unique rate identifier
+  - `name` (text) - Shown to the shopper, e.g. `Standard`
+  - `country` (text) - ISO 3166-1 alpha-2 code; null means the rate applies anywhere
+    without a country-specific rate
+  - `kind` (text) - One of:
+    - `flat` - Always `amount`
+    - `weight_tier` - `amount` when the cart weight in grams is in [`min_value`, `max_value`)
+    - `price_tier` - `amount` when the discounted subtotal is in [`min_value`, `max_value`)
+  - `min_value` / `max_value` (numeric) - Tier bounds; a null `max_value` is open-ended
+  - `amount` (numeric) - Shipping charge
+  - `free_over` (numeric) - Shipping is free when the discounted subtotal reaches it
+  - `active` (boolean) - Inactive rates are ignored
+  - `created_at` (timestamptz) - Record creation timestamp
+
+  ### 2. tax_rates
+  - `id` (uuid, primary key) - Unique rate identifier
+  - `name` (text) - Shown to the shopper, e.g. `VAT`
+  - `country` (text) - ISO 3166-1 alpha-2 code
+  - `region` (text) - State or province code; null covers the whole country
+  - `rate` (numeric) - Percentage, e.g. `8.25`
+  - `applies_to_shipping` (boolean) - Whether shipping is part of the taxable amount
+  - `created_at` (timestamptz) - Record creation timestamp
+
+  ## Modified Tables
+
+  ### products
+  - `weight_grams` (integer) - Shipping weight used by `weight_tier` rates
+
+  ### orders
+  - `shipping_line1`, `shipping_line2`, `shipping_city`, `shipping_region`,
+    `shipping_postal_code`, `shipping_country` (text) - Structured shipping address;
+    `shipping_address` keeps a formatted copy
+  - `shipping_method` (text) - Name of the shipping rate charged
+  - `shipping_amount` (numeric) - Shipping charged
+  - `tax_name` (text) - Name of the tax rate applied
+  - `tax_rate` (numeric) - Tax percentage applied
+  - `tax_amount` (numeric) - Tax charged
+
+  ## New Functions
+  - `calculate_shipping(p_country, p_subtotal, p_weight_grams)` - Cheapest matching rate,
+    preferring country-specific rates over catch-all ones; null when none applies
+  - `find_tax_rate(p_country, p_region)` - Regional rate if present, else the country rate
+  - `calculate_order_totals(p_user_id, p_lines, p_promo_code, p_address)` - Internal;
+    the single pricing routine behind both `quote_cart` and `place_order`
+
+  ## Modified Functions
+  - `quote_cart(p_code, p_address)` - Adds shipping and tax. Without an address only
+    catch-all shipping rates are considered and tax is left null.
+  - `place_order(p_customer_name, p_customer_email, p_address, p_promo_code)` - Takes the
+    address as JSON `{ line1, line2, city, region, postal_code, country }`; raises
+    `invalid_address` or `shipping_unavailable`
+
+  ## Security
+  - Shipping and tax rates are publicly readable so the storefront can explain them;
+    only staff can write them
+
+  ## Important Notes
+  1. A catch-all `Standard` rate (5.99, free over 50) is seeded so checkout keeps working
+  2. No tax rates are seeded; orders to countries without one are charged no tax
+*/
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS weight_grams integer NOT NULL DEFAULT 0
+  CHECK (weight_grams >= 0);
+
+GRANT UPDATE (weight_grams) ON products TO authenticated;
+
+CREATE TABLE IF NOT EXISTS shipping_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  country text CHECK (country = upper(country) AND length(country) = 2),
+  kind text NOT NULL DEFAULT 'flat' CHECK (kind IN ('flat', 'weight_tier', 'price_tier')),
+  min_value numeric(12, 2) NOT NULL DEFAULT 0 CHECK (min_value >= 0),
+  max_value numeric(12, 2) CHECK (max_value > min_value),
+  amount numeric(10, 2) NOT NULL DEFAULT 0 CHECK (amount >= 0),
+  free_over numeric(10, 2) CHECK (free_over >= 0),
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS tax_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL DEFAULT 'Tax',
+  country text NOT NULL CHECK (country = upper(country) AND length(country) = 2),
+  region text CHECK (region = upper(region)),
+  rate numeric(6, 3) NOT NULL CHECK (rate >= 0 AND rate <= 100),
+  applies_to_shipping boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS tax_rates_country_region_key
+  ON tax_rates (country, coalesce(region, ''));
+
+ALTER TABLE shipping_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tax_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view shipping rates"
+  ON shipping_rates FOR SELECT
+  TO anon, authenticated
+  USING (active OR is_staff());
+
+CREATE POLICY "Staff can create shipping rates"
+  ON shipping_rates FOR INSERT
+  TO authenticated
+  WITH CHECK (is_staff());
+
+CREATE POLICY "Staff can update shipping rates"
+  ON shipping_rates FOR UPDATE
+  TO authenticated
+  USING (is_staff())
+  WITH CHECK (is_staff());
+
+CREATE POLICY "Staff can delete shipping rates"
+  ON shipping_rates FOR DELETE
+  TO authenticated
+  USING (is_staff());
+
+CREATE POLICY "Anyone can view tax rates"
+  ON tax_rates FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Staff can create tax rates"
+  ON tax_rates FOR INSERT
+  TO authenticated
+  WITH CHECK (is_staff());
+
+CREATE POLICY "Staff can update tax rates"
+  ON tax_rates FOR UPDATE
+  TO authenticated
+  USING (is_staff())
+  WITH CHECK (is_staff());
+
+CREATE POLICY "Staff can delete tax rates"
+  ON tax_rates FOR DELETE
+  TO authenticated
+  USING (is_staff());
+
+INSERT INTO shipping_rates (name, kind, amount, free_over)
+VALUES ('Standard', 'flat', 5.99, 50);
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS shipping_line1 text;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS shipping_line2 text;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS shipping_city text;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS shipping_region text;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS shipping_postal_code text;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS shipping_country text;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS shipping_method text;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS shipping_amount numeric(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS tax_name text;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS tax_rate numeric(6, 3) NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS tax_amount numeric(10, 2) NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION calculate_shipping(
+  p_country text,
+  p_subtotal numeric,
+  p_weight_grams integer
+)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'name', name,
+    'amount', CASE WHEN free_over IS NOT NULL AND p_subtotal >= free_over THEN 0 ELSE amount END
+  )
+  FROM shipping_rates
+  WHERE active
+    AND (country = upper(p_country) OR country IS NULL)
+    AND CASE kind
+      WHEN 'weight_tier' THEN
+        p_weight_grams >= min_value AND (max_value IS NULL OR p_weight_grams < max_value)
+      WHEN 'price_tier' THEN
+        p_subtotal >= min_value AND (max_value IS NULL OR p_subtotal < max_value)
+      ELSE true
+    END
+  ORDER BY
+    country IS NULL,
+    CASE WHEN free_over IS NOT NULL AND p_subtotal >= free_over THEN 0 ELSE amount END,
+    created_at
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION find_tax_rate(p_country text, p_region text)
+RETURNS tax_rates
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT *
+  FROM tax_rates
+  WHERE country = upper(p_country)
+    AND (region IS NULL OR region = upper(nullif(trim(p_region), '')))
+  ORDER BY region IS NULL
+  LIMIT 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION calculate_shipping(text, numeric, integer) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION find_tax_rate(text, text) TO anon, authenticated;
+
+-- p_lines is a JSON array of { product_id, category_id, price, quantity, weight_grams }.
+CREATE OR REPLACE FUNCTION calculate_order_totals(
+  p_user_id uuid,
+  p_lines jsonb,
+  p_promo_code text,
+  p_address jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_subtotal numeric(10, 2);
+  v_weight integer;
+  v_discount jsonb;
+  v_discount_total numeric(10, 2) := 0;
+  v_country text := upper(nullif(trim(coalesce(p_address ->> 'country', '')), ''));
+  v_shipping jsonb;
+  v_tax_rate tax_rates;
+  v_tax numeric(10, 2);
+BEGIN
+  SELECT
+    coalesce(SUM((l ->> 'price')::numeric * (l ->> 'quantity')::integer), 0),
+    coalesce(SUM(coalesce((l ->> 'weight_grams')::integer, 0) * (l ->> 'quantity')::integer), 0)
+  INTO v_subtotal, v_weight
+  FROM jsonb_array_elements(p_lines) AS l;
+
+  IF nullif(trim(coalesce(p_promo_code, '')), '') IS NOT NULL THEN
+    v_discount := evaluate_promotion(p_promo_code, p_user_id, p_lines);
+    v_discount_total := (v_discount ->> 'amount')::numeric;
+  END IF;
+
+  v_shipping := calculate_shipping(v_country, v_subtotal - v_discount_total, v_weight);
+
+  IF v_shipping IS NOT NULL AND coalesce((v_discount ->> 'free_shipping')::boolean, false) THEN
+    v_shipping := jsonb_set(v_shipping, '{amount}', '0');
+  END IF;
+
+  IF v_country IS NOT NULL THEN
+    v_tax_rate := find_tax_rate(v_country, p_address ->> 'region');
+    v_tax := round(
+      (v_subtotal - v_discount_total
+        + CASE WHEN v_tax_rate.applies_to_shipping
+          THEN coalesce((v_shipping ->> 'amount')::numeric, 0) ELSE 0 END)
+      * coalesce(v_tax_rate.rate, 0) / 100,
+      2
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'subtotal', v_subtotal,
+    'discount', v_discount,
+    'discount_total', v_discount_total,
+    'free_shipping', coalesce((v_discount ->> 'free_shipping')::boolean, false),
+    'shipping_method', v_shipping ->> 'name',
+    'shipping', (v_shipping ->> 'amount')::numeric,
+    'tax_name', v_tax_rate.name,
+    'tax_rate', v_tax_rate.rate,
+    'tax', v_tax,
+    'total', v_subtotal - v_discount_total
+      + coalesce((v_shipping ->> 'amount')::numeric, 0) + coalesce(v_tax, 0)
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION calculate_order_totals(uuid, jsonb, text, jsonb) FROM PUBLIC;
+
+DROP FUNCTION IF EXISTS quote_cart(text);
+
+CREATE OR REPLACE FUNCTION quote_cart(
+  p_code text DEFAULT NULL,
+  p_address jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_lines jsonb;
+  v_totals jsonb;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'session_required' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT coalesce(jsonb_agg(jsonb_build_object(
+    'product_id', c.product_id,
+    'category_id', p.category_id,
+    'price', coalesce(v.price, p.price),
+    'quantity', c.quantity,
+    'weight_grams', p.weight_grams
+  )), '[]'::jsonb)
+  INTO v_lines
+  FROM cart_items c
+  JOIN products p ON p.id = c.product_id
+  LEFT JOIN product_variants v ON v.id = c.variant_id
+  WHERE c.user_id = v_user_id;
+
+  v_totals := calculate_order_totals(v_user_id, v_lines, p_code, p_address);
+
+  RETURN v_totals - 'discount' || jsonb_build_object(
+    'discounts', CASE WHEN v_totals -> 'discount' = 'null'::jsonb THEN '[]'::jsonb
+      ELSE jsonb_build_array(v_totals -> 'discount' - 'promotion_id' - 'free_shipping') END
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION quote_cart(text, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION quote_cart(text, jsonb) TO authenticated;
+
+CREATE OR REPLACE FUNCTION format_address(p_address jsonb)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT concat_ws(E'\n',
+    nullif(trim(p_address ->> 'line1'), ''),
+    nullif(trim(p_address ->> 'line2'), ''),
+    concat_ws(' ',
+      nullif(trim(p_address ->> 'city'), ''),
+      nullif(upper(trim(p_address ->> 'region')), ''),
+      nullif(trim(p_address ->> 'postal_code'), '')
+    ),
+    upper(trim(p_address ->> 'country'))
+  );
+$$;
+
+DROP FUNCTION IF EXISTS place_order(text, text, text, text);
+
+CREATE OR REPLACE FUNCTION place_order(
+  p_customer_name text,
+  p_customer_email text,
+  p_address jsonb,
+  p_promo_code text DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_order orders;
+  v_errors jsonb;
+  v_lines jsonb;
+  v_totals jsonb;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'session_required' USING ERRCODE = '42501';
+  END IF;
+
+  IF coalesce(trim(p_address ->> 'line1'), '') = ''
+    OR coalesce(trim(p_address ->> 'city'), '') = ''
+    OR coalesce(trim(p_address ->> 'postal_code'), '') = ''
+    OR coalesce(trim(p_address ->> 'country'), '') !~ '^[A-Za-z]{2}$' THEN
+    RAISE EXCEPTION 'invalid_address' USING ERRCODE = '22023';
+  END IF;
+
+  CREATE TEMP TABLE checkout_cart ON COMMIT DROP AS
+  SELECT id, product_id, variant_id, quantity
+  FROM cart_items
+  WHERE user_id = v_user_id;
+
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT product_id FROM checkout_cart)
+  ORDER BY id
+  FOR UPDATE;
+
+  PERFORM 1
+  FROM product_variants
+  WHERE id IN (SELECT variant_id FROM checkout_cart)
+  ORDER BY id
+  FOR UPDATE;
+
+  CREATE TEMP TABLE checkout_lines ON COMMIT DROP AS
+  SELECT
+    c.product_id,
+    c.variant_id,
+    p.category_id,
+    p.weight_grams,
+    p.name AS product_name,
+    format_variant_label(p.id, v.options) AS variant_label,
+    coalesce(v.price, p.price) AS price,
+    CASE
+      WHEN v.id IS NOT NULL AND v.archived_at IS NULL THEN v.stock
+      WHEN v.id IS NULL AND variant_stock_total(p.id) IS NULL THEN p.stock
+      ELSE 0
+    END AS stock,
+    SUM(c.quantity)::integer AS quantity
+  FROM checkout_cart c
+  JOIN products p ON p.id = c.product_id
+  LEFT JOIN product_variants v ON v.id = c.variant_id
+  GROUP BY c.product_id, c.variant_id, p.id, p.category_id, p.weight_grams, p.name, p.price,
+    p.stock, v.id, v.options, v.price, v.stock, v.archived_at;
+
+  IF NOT EXISTS (SELECT 1 FROM checkout_lines WHERE quantity > 0) THEN
+    RAISE EXCEPTION 'cart_empty' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object(
+    'product_id', product_id,
+    'variant_id', variant_id,
+    'product_name', product_name || coalesce(' (' || variant_label || ')', ''),
+    'requested', quantity,
+    'available', stock
+  ))
+  INTO v_errors
+  FROM checkout_lines
+  WHERE quantity > stock;
+
+  IF v_errors IS NOT NULL THEN
+    RAISE EXCEPTION 'insufficient_stock'
+      USING ERRCODE = 'P0001', DETAIL = v_errors::text;
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object(
+    'product_id', product_id,
+    'category_id', category_id,
+    'price', price,
+    'quantity', quantity,
+    'weight_grams', weight_grams
+  ))
+  INTO v_lines
+  FROM checkout_lines
+  WHERE quantity > 0;
+
+  IF nullif(trim(coalesce(p_promo_code, '')), '') IS NOT NULL THEN
+    -- Serialises redemptions of the same code so usage limits cannot be overrun.
+    PERFORM 1 FROM promotions WHERE code = upper(trim(p_promo_code)) FOR UPDATE;
+  END IF;
+
+  v_totals := calculate_order_totals(v_user_id, v_lines, p_promo_code, p_address);
+
+  IF v_totals -> 'shipping' = 'null'::jsonb THEN
+    RAISE EXCEPTION 'shipping_unavailable'
+      USING ERRCODE = 'P0001', DETAIL = upper(trim(p_address ->> 'country'));
+  END IF;
+
+  INSERT INTO orders (
+    user_id,
+    subtotal,
+    discount_total,
+    shipping_method,
+    shipping_amount,
+    tax_name,
+    tax_rate,
+    tax_amount,
+    total_amount,
+    promo_code,
+    free_shipping,
+    status,
+    customer_name,
+    customer_email,
+    shipping_address,
+    shipping_line1,
+    shipping_line2,
+    shipping_city,
+    shipping_region,
+    shipping_postal_code,
+    shipping_country
+  )
+  VALUES (
+    v_user_id,
+    (v_totals ->> 'subtotal')::numeric,
+    (v_totals ->> 'discount_total')::numeric,
+    v_totals ->> 'shipping_method',
+    (v_totals ->> 'shipping')::numeric,
+    v_totals ->> 'tax_name',
+    coalesce((v_totals ->> 'tax_rate')::numeric, 0),
+    coalesce((v_totals ->> 'tax')::numeric, 0),
+    (v_totals ->> 'total')::numeric,
+    v_totals -> 'discount' ->> 'code',
+    (v_totals ->> 'free_shipping')::boolean,
+    'pending',
+    p_customer_name,
+    p_customer_email,
+    format_address(p_address),
+    trim(p_address ->> 'line1'),
+    nullif(trim(p_address ->> 'line2'), ''),
+    trim(p_address ->> 'city'),
+    nullif(upper(trim(p_address ->> 'region')), ''),
+    trim(p_address ->> 'postal_code'),
+    upper(trim(p_address ->> 'country'))
+  )
+  RETURNING * INTO v_order;
+
+  IF v_totals -> 'discount' <> 'null'::jsonb THEN
+    INSERT INTO order_discounts (order_id, promotion_id, code, description, amount)
+    VALUES (
+      v_order.id,
+      (v_totals -> 'discount' ->> 'promotion_id')::uuid,
+      v_totals -> 'discount' ->> 'code',
+      v_totals -> 'discount' ->> 'description',
+      (v_totals -> 'discount' ->> 'amount')::numeric
+    );
+  END IF;
+
+  INSERT INTO order_items (order_id, product_id, variant_id, variant_label, quantity, price)
+  SELECT v_order.id, product_id, variant_id, variant_label, quantity, price
+  FROM checkout_lines
+  WHERE quantity > 0;
+
+  UPDATE product_variants v
+  SET stock = v.stock - l.quantity
+  FROM checkout_lines l
+  WHERE v.id = l.variant_id AND l.quantity > 0;
+
+  UPDATE products p
+  SET stock = p.stock - l.quantity
+  FROM checkout_lines l
+  WHERE p.id = l.product_id AND l.variant_id IS NULL AND l.quantity > 0;
+
+  DELETE FROM cart_items WHERE id IN (SELECT id FROM checkout_cart);
+
+  DROP TABLE checkout_lines;
+  DROP TABLE checkout_cart;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION place_order(text, text, jsonb, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION place_order(text, text, jsonb, text) TO authenticated;
@@ -0,0 +1,354 @@
+/*
+  # Payments
+
+  ## Overview
+  Adds a payment step after order placement. Card details never reach the database:
+  the storefront tokenizes them with the configured provider and the `payments` Edge
+  Function authorizes and captures server-side, then records the verified result here.
+  An order only becomes `paid` through a recorded capture.
+
+  ## New Tables
+
+  ### 1. payments
+  - `id` (uuid, primary key) - Unique payment identifier
+  - `order_id` (uuid, foreign key) - Reference to orders table
+  - `provider` (text) - Provider that processed the payment, e.g. `mock`
+  - `provider_payment_id` (text) - The provider's reference for the payment
+  - `idempotency_key` (text, unique) - Client-supplied key; retries with the same key
+    return the existing payment instead of charging again
+  - `status` (text) - `pending`, `authorized`, `captured`, `failed` or `refunded`
+  - `amount` (numeric) - Amount charged, copied from the order total
+  - `currency` (text) - ISO 4217 code
+  - `failure_code` / `failure_message` (text) - Why the provider declined
+  - `created_at` / `updated_at` (timestamptz)
+
+  ### 2. payment_events
+  - `id` (uuid, primary key) - Unique record identifier
+  - `provider` (text) - Provider that sent the webhook
+  - `event_id` (text) - Provider event identifier; unique per provider so redelivered
+    webhooks are applied once
+  - `type` (text) - Event type, e.g. `payment.captured`
+  - `payload` (jsonb) - Raw event body
+  - `received_at` (timestamptz) - When the webhook arrived
+
+  ## Modified Tables
+
+  ### orders
+  - `idempotency_key` (text) - Checkout attempt key, unique per user
+
+  ## New Functions
+  - `begin_payment(p_order_id, p_user_id, p_provider, p_idempotency_key)` - Service role
+    only; creates the pending payment for an unpaid order, or returns the payment
+    already created with that key. Raises `order_not_payable` when the order is no
+    longer pending and `payment_in_progress` when another attempt has not finished.
+  - `record_payment_result(p_payment_id, p_status, p_provider_payment_id, p_failure_code,
+    p_failure_message)` - Service role only; applies a provider result, moving the
+    order to `paid` on capture and to `refunded` (with restock) on refund. Results that
+    would move a payment backwards (e.g. a late webhook) are ignored.
+
+  ## Modified Functions
+  - `place_order(..., p_idempotency_key)` - Returns the caller's existing order for a
+    repeated key instead of placing a second one. The previous implementation is kept
+    as the internal `create_order_from_cart`.
+  - `transition_order` - Refuses `paid`, and refuses `cancelled` and `refunded` while
+    the order has a captured payment; both go through the payment provider instead,
+    so the customer is refunded before the stock is put back
+
+  ## Security
+  - Shoppers can read payments for their own orders; staff can read all
+  - Only the service role can write payments or read payment events
+*/
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS idempotency_key text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS orders_user_idempotency_key
+  ON orders (user_id, idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  provider text NOT NULL,
+  provider_payment_id text,
+  idempotency_key text NOT NULL UNIQUE,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'authorized', 'captured', 'failed', 'refunded')),
+  amount numeric(10, 2) NOT NULL CHECK (amount >= 0),
+  currency text NOT NULL DEFAULT 'USD',
+  failure_code text,
+  failure_message text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (provider, provider_payment_id)
+);
+
+CREATE INDEX IF NOT EXISTS payments_order_id_idx ON payments (order_id, created_at DESC);
+
+CREATE TRIGGER payments_touch_updated_at
+  BEFORE UPDATE ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_updated_at();
+
+CREATE TABLE IF NOT EXISTS payment_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider text NOT NULL,
+  event_id text NOT NULL,
+  type text NOT NULL,
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  received_at timestamptz DEFAULT now(),
+  UNIQUE (provider, event_id)
+);
+
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view payments for their orders"
+  ON payments FOR SELECT
+  TO authenticated
+  USING (
+    is_staff() OR EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = payments.order_id
+      AND orders.user_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION begin_payment(
+  p_order_id uuid,
+  p_user_id uuid,
+  p_provider text,
+  p_idempotency_key text
+)
+RETURNS payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+  v_payment payments;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR v_order.user_id IS DISTINCT FROM p_user_id THEN
+    RAISE EXCEPTION 'order_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_payment FROM payments WHERE idempotency_key = p_idempotency_key;
+
+  IF FOUND THEN
+    IF v_payment.order_id <> p_order_id THEN
+      RAISE EXCEPTION 'idempotency_key_reused' USING ERRCODE = '22023';
+    END IF;
+    RETURN v_payment;
+  END IF;
+
+  IF v_order.status <> 'pending' THEN
+    RAISE EXCEPTION 'order_not_payable'
+      USING ERRCODE = 'P0001', DETAIL = v_order.status;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM payments
+    WHERE order_id = p_order_id AND status IN ('pending', 'authorized', 'captured')
+  ) THEN
+    RAISE EXCEPTION 'payment_in_progress' USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO payments (order_id, provider, idempotency_key, amount)
+  VALUES (p_order_id, p_provider, p_idempotency_key, v_order.total_amount)
+  RETURNING * INTO v_payment;
+
+  RETURN v_payment;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_payment_result(
+  p_payment_id uuid,
+  p_status text,
+  p_provider_payment_id text DEFAULT NULL,
+  p_failure_code text DEFAULT NULL,
+  p_failure_message text DEFAULT NULL
+)
+RETURNS payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payment payments;
+  v_order orders;
+  v_allowed text[];
+BEGIN
+  SELECT * INTO v_payment FROM payments WHERE id = p_payment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'payment_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  v_allowed := CASE v_payment.status
+    WHEN 'pending' THEN ARRAY['authorized', 'captured', 'failed']
+    WHEN 'authorized' THEN ARRAY['captured', 'failed']
+    WHEN 'captured' THEN ARRAY['refunded']
+    ELSE ARRAY[]::text[]
+  END;
+
+  IF NOT p_status = ANY (v_allowed) THEN
+    RETURN v_payment;
+  END IF;
+
+  UPDATE payments
+  SET status = p_status,
+      provider_payment_id = coalesce(p_provider_payment_id, provider_payment_id),
+      failure_code = p_failure_code,
+      failure_message = p_failure_message
+  WHERE id = p_payment_id
+  RETURNING * INTO v_payment;
+
+  SELECT * INTO v_order FROM orders WHERE id = v_payment.order_id FOR UPDATE;
+
+  IF p_status = 'captured' AND v_order.status = 'pending' THEN
+    UPDATE orders SET status = 'paid' WHERE id = v_order.id;
+
+    INSERT INTO order_status_history (order_id, from_status, to_status, reason)
+    VALUES (v_order.id, 'pending', 'paid', 'Payment captured');
+  ELSIF p_status = 'refunded' AND EXISTS (
+    SELECT 1 FROM order_status_transitions
+    WHERE from_status = v_order.status AND to_status = 'refunded'
+  ) THEN
+    UPDATE orders SET status = 'refunded' WHERE id = v_order.id;
+
+    INSERT INTO order_status_history (order_id, from_status, to_status, reason)
+    VALUES (v_order.id, v_order.status, 'refunded', 'Payment refunded');
+
+    IF v_order.status IN ('pending', 'paid', 'packed') THEN
+      PERFORM restock_order_items(v_order.id);
+    END IF;
+  END IF;
+
+  RETURN v_payment;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION begin_payment(uuid, uuid, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION record_payment_result(uuid, text, text, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION begin_payment(uuid, uuid, text, text) TO service_role;
+GRANT EXECUTE ON FUNCTION record_payment_result(uuid, text, text, text, text) TO service_role;
+
+ALTER FUNCTION place_order(text, text, jsonb, text) RENAME TO create_order_from_cart;
+REVOKE ALL ON FUNCTION create_order_from_cart(text, text, jsonb, text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION place_order(
+  p_customer_name text,
+  p_customer_email text,
+  p_address jsonb,
+  p_promo_code text DEFAULT NULL,
+  p_idempotency_key text DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_order orders;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'session_required' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_idempotency_key IS NOT NULL THEN
+    -- One checkout at a time per shopper, so a repeated key always sees the
+    -- order the first attempt created.
+    PERFORM pg_advisory_xact_lock(hashtext('place_order:' || v_user_id::text));
+
+    SELECT * INTO v_order
+    FROM orders
+    WHERE user_id = v_user_id AND idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      RETURN v_order;
+    END IF;
+  END IF;
+
+  v_order := create_order_from_cart(p_customer_name, p_customer_email, p_address, p_promo_code);
+
+  IF p_idempotency_key IS NOT NULL THEN
+    UPDATE orders SET idempotency_key = p_idempotency_key
+    WHERE id = v_order.id
+    RETURNING * INTO v_order;
+  END IF;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION place_order(text, text, jsonb, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION place_order(text, text, jsonb, text, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION transition_order(
+  p_order_id uuid,
+  p_to text,
+  p_reason text DEFAULT ''
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+  v_from text;
+  v_is_owner boolean;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'order_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  v_from := v_order.status;
+  v_is_owner := v_order.user_id IS NOT NULL AND v_order.user_id = auth.uid();
+
+  IF NOT is_staff() AND NOT (v_is_owner AND v_from = 'pending' AND p_to = 'cancelled') THEN
+    RAISE EXCEPTION 'forbidden_transition' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM order_status_transitions
+    WHERE from_status = v_from AND to_status = p_to
+  ) THEN
+    RAISE EXCEPTION 'illegal_transition'
+      USING ERRCODE = 'P0001', DETAIL = format('%s -> %s', v_from, p_to);
+  END IF;
+
+  IF p_to = 'paid' THEN
+    RAISE EXCEPTION 'payment_required' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_to IN ('cancelled', 'refunded') AND EXISTS (
+    SELECT 1 FROM payments WHERE order_id = p_order_id AND status = 'captured'
+  ) THEN
+    RAISE EXCEPTION 'refund_required' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_to = 'cancelled' AND EXISTS (
+    SELECT 1 FROM payments WHERE order_id = p_order_id AND status IN ('pending', 'authorized')
+  ) THEN
+    RAISE EXCEPTION 'payment_in_progress' USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE orders SET status = p_to WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_status_history (order_id, from_status, to_status, reason, changed_by)
+  VALUES (p_order_id, v_from, p_to, coalesce(p_reason, ''), auth.uid());
+
+  IF p_to IN ('cancelled', 'refunded') AND v_from IN ('pending', 'paid', 'packed') THEN
+    PERFORM restock_order_items(p_order_id);
+  END IF;
+
+  RETURN v_order;
+END;
+$$;
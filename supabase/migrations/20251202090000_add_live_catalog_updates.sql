@@ -0,0 +1,92 @@
+/*
+  # Live Catalog Updates
+
+  ## Overview
+  Streams product, variant and cart changes to the storefront over Supabase Realtime
+  so stock and prices stay current without reloading, and remembers the price each
+  cart line was added at so the cart can flag lines that changed since.
+
+  ## Modified Tables
+
+  ### cart_items
+  - `price_at_add` (numeric) - Unit price when the line was added (or last
+    acknowledged). Set by the database; only used to tell the shopper a price moved,
+    never to charge
+
+  ## New Functions
+  - `acknowledge_cart_changes()` - Resets `price_at_add` to the current price on the
+    caller's cart lines once they have seen the changes
+
+  ## Realtime
+  - `products`, `product_variants` and `cart_items` are added to the `supabase_realtime`
+    publication. Row level security still applies, so shoppers only receive their own
+    cart lines and active catalog rows
+
+  ## Security
+  - `cart_items.price_at_add` is not writable by clients; only `quantity` is updatable
+  - `current_unit_price` is internal: clients cannot call it, and the price trigger
+    runs as SECURITY DEFINER to use it
+*/
+
+ALTER TABLE cart_items ADD COLUMN IF NOT EXISTS price_at_add numeric(10, 2);
+
+CREATE OR REPLACE FUNCTION current_unit_price(p_product_id uuid, p_variant_id uuid)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(v.price, p.price)
+  FROM products p
+  LEFT JOIN product_variants v ON v.id = p_variant_id AND v.product_id = p.id
+  WHERE p.id = p_product_id;
+$$;
+
+REVOKE ALL ON FUNCTION current_unit_price(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION set_cart_item_price_at_add()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.price_at_add := current_unit_price(NEW.product_id, NEW.variant_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER cart_items_set_price_at_add
+  BEFORE INSERT ON cart_items
+  FOR EACH ROW
+  EXECUTE FUNCTION set_cart_item_price_at_add();
+
+UPDATE cart_items
+SET price_at_add = current_unit_price(product_id, variant_id)
+WHERE price_at_add IS NULL;
+
+REVOKE UPDATE ON cart_items FROM anon, authenticated;
+GRANT UPDATE (quantity) ON cart_items TO authenticated;
+
+CREATE OR REPLACE FUNCTION acknowledge_cart_changes()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'session_required' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE cart_items
+  SET price_at_add = current_unit_price(product_id, variant_id)
+  WHERE user_id = auth.uid();
+END;
+$$;
+
+REVOKE ALL ON FUNCTION acknowledge_cart_changes() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION acknowledge_cart_changes() TO authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE products, product_variants, cart_items;
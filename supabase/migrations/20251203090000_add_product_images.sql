@@ -0,0 +1,51 @@
+/*
+  # Product Images
+
+  ## Overview
+  Adds a gallery of additional images per product for the product detail page. The
+  existing `products.image_url` stays the cover image used on cards and in the cart;
+  gallery images are shown after it.
+
+  ## New Tables
+
+  ### product_images
+  - `id` (uuid, primary key) - Unique image identifier
+  - `product_id` (uuid, foreign key) - Reference to products table
+  - `url` (text) - Public image URL, usually in the `product-images` bucket
+  - `alt_text` (text) - Description for screen readers
+  - `position` (integer) - Display order in the gallery
+  - `created_at` (timestamptz) - Record creation timestamp
+
+  ## Security
+  - Images of active products are publicly readable; staff can read and write all
+*/
+
+CREATE TABLE IF NOT EXISTS product_images (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  url text NOT NULL,
+  alt_text text NOT NULL DEFAULT '',
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS product_images_product_id_idx ON product_images (product_id, position);
+
+ALTER TABLE product_images ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view images of active products"
+  ON product_images FOR SELECT
+  TO anon, authenticated
+  USING (
+    is_staff() OR EXISTS (
+      SELECT 1 FROM products
+      WHERE products.id = product_images.product_id
+      AND products.archived_at IS NULL
+    )
+  );
+
+CREATE POLICY "Staff can manage product images"
+  ON product_images FOR ALL
+  TO authenticated
+  USING (is_staff())
+  WITH CHECK (is_staff());
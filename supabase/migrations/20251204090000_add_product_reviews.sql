@@ -0,0 +1,253 @@
+/*
+  # Product Reviews
+
+  ## Overview
+  Lets signed-in customers rate and review products. Reviews from customers who
+  bought the product are marked as verified purchases, each product carries its
+  average rating and review count, and staff can hide abusive reviews from a
+  moderation queue fed by shopper reports.
+
+  ## New Tables
+
+  ### 1. reviews
+  - `id` (uuid, primary key) - Unique review identifier
+  - `product_id` (uuid, foreign key) - Reviewed product
+  - `user_id` (uuid, foreign key) - Author; one review per product per customer
+  - `rating` (integer) - 1 to 5 stars
+  - `title` (text) - Short headline
+  - `body` (text) - Review text
+  - `author_name` (text) - Name shown with the review
+  - `verified_purchase` (boolean) - Set by the database when the author has a paid
+    order containing the product
+  - `status` (text) - `published` or `hidden`
+  - `moderation_note` (text) - Why staff hid the review
+  - `moderated_by` / `moderated_at` - Who last moderated it and when
+  - `created_at` / `updated_at` (timestamptz)
+
+  ### 2. review_reports
+  - `id` (uuid, primary key) - Unique report identifier
+  - `review_id` (uuid, foreign key) - Reported review
+  - `user_id` (uuid, foreign key) - Reporter; one report per review per user
+  - `reason` (text) - What the reporter found wrong
+  - `resolved_at` (timestamptz) - Set once staff have moderated the review
+  - `created_at` (timestamptz)
+
+  ## Modified Tables
+
+  ### products
+  - `rating_average` (numeric) - Average of published ratings, null without reviews
+  - `rating_count` (integer) - Number of published reviews
+
+  ## New Functions
+  - `moderate_review(p_review_id, p_status, p_note)` - Staff only; publishes or hides a
+    review and resolves its open reports
+
+  ## Security
+  - Anyone can read published reviews; authors also see their own hidden reviews and
+    staff see all
+  - Only signed-in (non-guest) customers can write, and only their own reviews; rating,
+    title, body and author name are the only editable columns
+  - Reports are visible to staff only
+  - `has_purchased_product` is internal so purchases cannot be probed through the API;
+    the verified purchase trigger runs as SECURITY DEFINER to use it
+*/
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS rating_average numeric(3, 2),
+  ADD COLUMN IF NOT EXISTS rating_count integer NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS reviews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  rating integer NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  title text NOT NULL DEFAULT '',
+  body text NOT NULL DEFAULT '',
+  author_name text NOT NULL,
+  verified_purchase boolean NOT NULL DEFAULT false,
+  status text NOT NULL DEFAULT 'published' CHECK (status IN ('published', 'hidden')),
+  moderation_note text NOT NULL DEFAULT '',
+  moderated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  moderated_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (product_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS reviews_product_id_idx ON reviews (product_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS review_reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id uuid NOT NULL REFERENCES reviews(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  reason text NOT NULL DEFAULT '',
+  resolved_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (review_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS review_reports_open_idx ON review_reports (review_id) WHERE resolved_at IS NULL;
+
+CREATE TRIGGER reviews_touch_updated_at
+  BEFORE UPDATE ON reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_updated_at();
+
+-- Whether a customer has a paid (or further along) order containing the product.
+CREATE OR REPLACE FUNCTION has_purchased_product(p_user_id uuid, p_product_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    WHERE o.user_id = p_user_id
+      AND oi.product_id = p_product_id
+      AND o.status IN ('paid', 'packed', 'shipped', 'delivered')
+  );
+$$;
+
+REVOKE ALL ON FUNCTION has_purchased_product(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION set_review_verified_purchase()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.verified_purchase := has_purchased_product(NEW.user_id, NEW.product_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reviews_set_verified_purchase
+  BEFORE INSERT OR UPDATE OF rating, title, body ON reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION set_review_verified_purchase();
+
+CREATE OR REPLACE FUNCTION refresh_product_rating()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product_id uuid := coalesce(NEW.product_id, OLD.product_id);
+BEGIN
+  UPDATE products p
+  SET rating_average = r.average,
+      rating_count = r.count
+  FROM (
+    SELECT round(avg(rating), 2) AS average, count(*)::integer AS count
+    FROM reviews
+    WHERE product_id = v_product_id AND status = 'published'
+  ) r
+  WHERE p.id = v_product_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER reviews_refresh_product_rating
+  AFTER INSERT OR DELETE OR UPDATE OF rating, status ON reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_product_rating();
+
+ALTER TABLE reviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE review_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view published reviews"
+  ON reviews FOR SELECT
+  TO anon, authenticated
+  USING (status = 'published' OR user_id = auth.uid() OR is_staff());
+
+CREATE POLICY "Customers can write their own reviews"
+  ON reviews FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND NOT is_anonymous_user()
+    AND status = 'published'
+    AND EXISTS (
+      SELECT 1 FROM products
+      WHERE products.id = reviews.product_id
+      AND products.archived_at IS NULL
+    )
+  );
+
+CREATE POLICY "Customers can edit their own reviews"
+  ON reviews FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid() AND NOT is_anonymous_user())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Customers can delete their own reviews"
+  ON reviews FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+REVOKE INSERT, UPDATE ON reviews FROM anon, authenticated;
+GRANT INSERT (product_id, rating, title, body, author_name) ON reviews TO authenticated;
+GRANT UPDATE (rating, title, body, author_name) ON reviews TO authenticated;
+
+CREATE POLICY "Customers can report reviews"
+  ON review_reports FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid() AND NOT is_anonymous_user());
+
+CREATE POLICY "Staff can view review reports"
+  ON review_reports FOR SELECT
+  TO authenticated
+  USING (is_staff());
+
+REVOKE INSERT, UPDATE ON review_reports FROM anon, authenticated;
+GRANT INSERT (review_id, reason) ON review_reports TO authenticated;
+
+CREATE OR REPLACE FUNCTION moderate_review(
+  p_review_id uuid,
+  p_status text,
+  p_note text DEFAULT ''
+)
+RETURNS reviews
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_review reviews;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'forbidden' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_status NOT IN ('published', 'hidden') THEN
+    RAISE EXCEPTION 'invalid_status' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE reviews
+  SET status = p_status,
+      moderation_note = coalesce(p_note, ''),
+      moderated_by = auth.uid(),
+      moderated_at = now()
+  WHERE id = p_review_id
+  RETURNING * INTO v_review;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'review_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE review_reports
+  SET resolved_at = now()
+  WHERE review_id = p_review_id AND resolved_at IS NULL;
+
+  RETURN v_review;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION moderate_review(uuid, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION moderate_review(uuid, text, text) TO authenticated;
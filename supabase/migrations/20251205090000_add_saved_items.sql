@@ -0,0 +1,333 @@
+/*
+  # Wishlists and Saved-for-Later Items
+
+  ## Overview
+  Shoppers can heart products into a wishlist and move cart lines to a "saved for
+  later" list. Both lists are owned through `user_id` like `cart_items`, so guests keep
+  theirs for the session and hand them over on sign-in. Each saved item remembers the
+  price and availability the shopper last saw, so the storefront can tell them when a
+  saved product drops in price or comes back in stock.
+
+  ## New Tables
+
+  ### saved_items
+  - `id` (uuid, primary key) - Unique saved item identifier
+  - `user_id` (uuid) - Owner (guest or customer)
+  - `list` (text) - `wishlist` or `saved_for_later`
+  - `product_id` (uuid, foreign key) - Saved product
+  - `variant_id` (uuid, foreign key) - Saved variant; wishlist items are usually saved
+    without one
+  - `quantity` (integer) - Quantity to restore when moved back to the cart
+  - `seen_price` (numeric) - Unit price when saved or last acknowledged. Set by the
+    database; a lower current price means the price dropped
+  - `seen_in_stock` (boolean) - Whether the item was in stock when saved or last
+    acknowledged. Cleared by the database when the item sells out, so a restock is
+    always reported
+  - `created_at` (timestamptz)
+
+  ## New Functions
+  - `save_cart_item_for_later(p_cart_item_id)` - Moves one of the caller's cart lines
+    to their saved-for-later list, adding to the quantity already saved
+  - `move_saved_item_to_cart(p_saved_item_id)` - Moves a saved item back into the
+    cart, adding to an existing line for the same product and variant. Raises
+    `variant_required` for a product with variants saved without one
+  - `acknowledge_saved_item_alerts(p_item_ids)` - Resets `seen_price` and
+    `seen_in_stock` to the current values once the shopper has seen the alerts
+
+  ## Modified Functions
+  - `merge_guest_session(p_token)` - Also adopts the guest's saved items, skipping
+    ones the customer already saved
+
+  ## Security
+  - Shoppers read, add and delete only their own saved items; saved items cannot be
+    updated directly
+  - The sold-out trigger is SECURITY DEFINER because it touches every shopper's items
+  - `current_unit_in_stock` is internal; the seen state trigger runs as SECURITY
+    DEFINER to use it and `current_unit_price`
+*/
+
+CREATE TABLE IF NOT EXISTS saved_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL DEFAULT auth.uid(),
+  list text NOT NULL CHECK (list IN ('wishlist', 'saved_for_later')),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  variant_id uuid REFERENCES product_variants(id) ON DELETE CASCADE,
+  quantity integer NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  seen_price numeric(10, 2),
+  seen_in_stock boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE NULLS NOT DISTINCT (user_id, list, product_id, variant_id)
+);
+
+CREATE INDEX IF NOT EXISTS saved_items_product_id_idx ON saved_items (product_id);
+CREATE INDEX IF NOT EXISTS saved_items_variant_id_idx ON saved_items (variant_id);
+
+ALTER TABLE saved_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own saved items"
+  ON saved_items FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert their own saved items"
+  ON saved_items FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM products
+      WHERE products.id = saved_items.product_id
+      AND products.archived_at IS NULL
+    )
+    AND (
+      saved_items.variant_id IS NULL OR EXISTS (
+        SELECT 1 FROM product_variants
+        WHERE product_variants.id = saved_items.variant_id
+        AND product_variants.product_id = saved_items.product_id
+      )
+    )
+  );
+
+CREATE POLICY "Users can delete their own saved items"
+  ON saved_items FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+REVOKE UPDATE ON saved_items FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION current_unit_in_stock(p_product_id uuid, p_variant_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(v.stock, p.stock) > 0
+  FROM products p
+  LEFT JOIN product_variants v ON v.id = p_variant_id AND v.product_id = p.id
+  WHERE p.id = p_product_id;
+$$;
+
+REVOKE ALL ON FUNCTION current_unit_in_stock(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION set_saved_item_seen_state()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.seen_price := current_unit_price(NEW.product_id, NEW.variant_id);
+  NEW.seen_in_stock := coalesce(current_unit_in_stock(NEW.product_id, NEW.variant_id), false);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER saved_items_set_seen_state
+  BEFORE INSERT ON saved_items
+  FOR EACH ROW
+  EXECUTE FUNCTION set_saved_item_seen_state();
+
+-- Product-level items follow products.stock, which already mirrors the variant total
+-- for variant products; variant-level items follow their variant.
+CREATE OR REPLACE FUNCTION mark_saved_items_sold_out()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'products' THEN
+    UPDATE saved_items SET seen_in_stock = false
+    WHERE product_id = NEW.id AND variant_id IS NULL AND seen_in_stock;
+  ELSE
+    UPDATE saved_items SET seen_in_stock = false
+    WHERE variant_id = NEW.id AND seen_in_stock;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER products_mark_saved_items_sold_out
+  AFTER UPDATE OF stock ON products
+  FOR EACH ROW
+  WHEN (NEW.stock = 0 AND OLD.stock > 0)
+  EXECUTE FUNCTION mark_saved_items_sold_out();
+
+CREATE TRIGGER product_variants_mark_saved_items_sold_out
+  AFTER UPDATE OF stock ON product_variants
+  FOR EACH ROW
+  WHEN (NEW.stock = 0 AND OLD.stock > 0)
+  EXECUTE FUNCTION mark_saved_items_sold_out();
+
+CREATE OR REPLACE FUNCTION save_cart_item_for_later(p_cart_item_id uuid)
+RETURNS saved_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_line cart_items;
+  v_saved saved_items;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'session_required' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM cart_items
+  WHERE id = p_cart_item_id AND user_id = auth.uid()
+  RETURNING * INTO v_line;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'cart_item_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO saved_items (user_id, list, product_id, variant_id, quantity)
+  VALUES (auth.uid(), 'saved_for_later', v_line.product_id, v_line.variant_id, v_line.quantity)
+  ON CONFLICT (user_id, list, product_id, variant_id)
+  DO UPDATE SET quantity = saved_items.quantity + EXCLUDED.quantity
+  RETURNING * INTO v_saved;
+
+  RETURN v_saved;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION move_saved_item_to_cart(p_saved_item_id uuid)
+RETURNS cart_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_saved saved_items;
+  v_line cart_items;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'session_required' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM saved_items
+  WHERE id = p_saved_item_id AND user_id = auth.uid()
+  RETURNING * INTO v_saved;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'saved_item_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM products WHERE id = v_saved.product_id AND archived_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'product_unavailable' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_saved.variant_id IS NULL AND variant_stock_total(v_saved.product_id) IS NOT NULL THEN
+    RAISE EXCEPTION 'variant_required' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE cart_items
+  SET quantity = quantity + v_saved.quantity
+  WHERE user_id = auth.uid()
+    AND product_id = v_saved.product_id
+    AND variant_id IS NOT DISTINCT FROM v_saved.variant_id
+  RETURNING * INTO v_line;
+
+  IF NOT FOUND THEN
+    INSERT INTO cart_items (user_id, product_id, variant_id, quantity)
+    VALUES (auth.uid(), v_saved.product_id, v_saved.variant_id, v_saved.quantity)
+    RETURNING * INTO v_line;
+  END IF;
+
+  RETURN v_line;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION acknowledge_saved_item_alerts(p_item_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'session_required' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE saved_items
+  SET
+    seen_price = current_unit_price(product_id, variant_id),
+    seen_in_stock = coalesce(current_unit_in_stock(product_id, variant_id), false)
+  WHERE user_id = auth.uid() AND id = ANY (p_item_ids);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION save_cart_item_for_later(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION save_cart_item_for_later(uuid) TO authenticated;
+REVOKE ALL ON FUNCTION move_saved_item_to_cart(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION move_saved_item_to_cart(uuid) TO authenticated;
+REVOKE ALL ON FUNCTION acknowledge_saved_item_alerts(uuid[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION acknowledge_saved_item_alerts(uuid[]) TO authenticated;
+
+CREATE OR REPLACE FUNCTION merge_guest_session(p_token uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_guest_id uuid;
+BEGIN
+  IF v_user_id IS NULL OR is_anonymous_user() THEN
+    RAISE EXCEPTION 'not_authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM guest_transfers
+  WHERE token = p_token AND expires_at >= now()
+  RETURNING guest_user_id INTO v_guest_id;
+
+  IF v_guest_id IS NULL OR v_guest_id = v_user_id THEN
+    RETURN;
+  END IF;
+
+  UPDATE cart_items u
+  SET quantity = u.quantity + g.quantity
+  FROM (
+    SELECT product_id, variant_id, SUM(quantity)::integer AS quantity
+    FROM cart_items
+    WHERE user_id = v_guest_id
+    GROUP BY product_id, variant_id
+  ) g
+  WHERE u.user_id = v_user_id
+    AND u.product_id = g.product_id
+    AND u.variant_id IS NOT DISTINCT FROM g.variant_id;
+
+  INSERT INTO cart_items (user_id, product_id, variant_id, quantity)
+  SELECT v_user_id, product_id, variant_id, SUM(quantity)::integer
+  FROM cart_items g
+  WHERE g.user_id = v_guest_id
+    AND NOT EXISTS (
+      SELECT 1 FROM cart_items u
+      WHERE u.user_id = v_user_id
+        AND u.product_id = g.product_id
+        AND u.variant_id IS NOT DISTINCT FROM g.variant_id
+    )
+  GROUP BY product_id, variant_id;
+
+  DELETE FROM cart_items WHERE user_id = v_guest_id;
+
+  UPDATE saved_items g
+  SET user_id = v_user_id
+  WHERE g.user_id = v_guest_id
+    AND NOT EXISTS (
+      SELECT 1 FROM saved_items u
+      WHERE u.user_id = v_user_id
+        AND u.list = g.list
+        AND u.product_id = g.product_id
+        AND u.variant_id IS NOT DISTINCT FROM g.variant_id
+    );
+
+  DELETE FROM saved_items WHERE user_id = v_guest_id;
+
+  UPDATE orders SET user_id = v_user_id WHERE user_id = v_guest_id;
+END;
+$$;
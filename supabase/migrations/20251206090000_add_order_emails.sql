@@ -0,0 +1,181 @@
+/*
+  # Transactional Order Emails
+
+  ## Overview
+  Queues an email whenever an order reaches a status the customer should hear about:
+  confirmation once it is paid, then shipping, cancellation and refund notices. The
+  queue is an outbox table written by a trigger in the same transaction as the status
+  change, so an email is never lost or sent for a change that rolled back. The
+  `send-order-emails` Edge Function drains it, retrying failed sends with backoff.
+
+  ## New Tables
+
+  ### email_outbox
+  - `id` (uuid, primary key) - Unique email identifier
+  - `order_id` (uuid, foreign key) - Order the email is about
+  - `template` (text) - `order_confirmation`, `order_shipped`, `order_cancelled` or
+    `order_refunded`; unique per order so a status reached twice sends one email
+  - `recipient` (text) - `orders.customer_email` when the email was queued
+  - `status` (text) - `pending`, `sending`, `sent` or `failed`
+  - `attempts` (integer) - Send attempts so far
+  - `max_attempts` (integer) - Attempts before the email is marked `failed`
+  - `next_attempt_at` (timestamptz) - Earliest time the next attempt may run
+  - `locked_at` (timestamptz) - When a worker claimed the email; claims older than
+    ten minutes are considered abandoned and picked up again
+  - `last_error` (text) - Error from the most recent failed attempt
+  - `message_id` (text) - Message id returned by the transport
+  - `sent_at` / `created_at` (timestamptz)
+
+  ## New Functions
+  - `claim_order_emails(p_limit)` - Service role only; marks up to `p_limit` due emails
+    as `sending` and returns them. Uses SKIP LOCKED so concurrent workers never claim
+    the same email.
+  - `complete_order_email(p_email_id, p_error, p_message_id)` - Service role only;
+    records a successful send, or schedules a retry after 1, 2, 4, 8... minutes
+    until `max_attempts` is reached
+
+  ## Security
+  - Staff can read the outbox; only the service role can claim or complete emails
+
+  ## Important Notes
+  1. Schedule `send-order-emails` to run every minute (e.g. Supabase Cron calling the
+     function with the service role key); each run sends one batch
+  2. The SMTP transport is configured through the function's environment; point it at
+     MailHog (`SMTP_HOST`, `SMTP_PORT=1025`) to develop without a mail provider
+*/
+
+CREATE TABLE IF NOT EXISTS email_outbox (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  template text NOT NULL CHECK (
+    template IN ('order_confirmation', 'order_shipped', 'order_cancelled', 'order_refunded')
+  ),
+  recipient text NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 5,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  locked_at timestamptz,
+  last_error text,
+  message_id text,
+  sent_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (order_id, template)
+);
+
+CREATE INDEX IF NOT EXISTS email_outbox_due_idx
+  ON email_outbox (next_attempt_at)
+  WHERE status IN ('pending', 'sending');
+
+ALTER TABLE email_outbox ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view the email outbox"
+  ON email_outbox FOR SELECT
+  TO authenticated
+  USING (is_staff());
+
+CREATE OR REPLACE FUNCTION enqueue_order_email()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_template text;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  v_template := CASE NEW.status
+    WHEN 'paid' THEN 'order_confirmation'
+    WHEN 'shipped' THEN 'order_shipped'
+    WHEN 'cancelled' THEN 'order_cancelled'
+    WHEN 'refunded' THEN 'order_refunded'
+  END;
+
+  IF v_template IS NULL OR coalesce(trim(NEW.customer_email), '') = '' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO email_outbox (order_id, template, recipient)
+  VALUES (NEW.id, v_template, trim(NEW.customer_email))
+  ON CONFLICT (order_id, template) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER orders_enqueue_email
+  AFTER INSERT OR UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION enqueue_order_email();
+
+CREATE OR REPLACE FUNCTION claim_order_emails(p_limit integer DEFAULT 10)
+RETURNS SETOF email_outbox
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE email_outbox e
+  SET status = 'sending', attempts = e.attempts + 1, locked_at = now()
+  WHERE e.id IN (
+    SELECT id FROM email_outbox
+    WHERE (status = 'pending' AND next_attempt_at <= now())
+      OR (status = 'sending' AND locked_at < now() - interval '10 minutes')
+    ORDER BY next_attempt_at
+    LIMIT greatest(p_limit, 1)
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING e.*;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION complete_order_email(
+  p_email_id uuid,
+  p_error text DEFAULT NULL,
+  p_message_id text DEFAULT NULL
+)
+RETURNS email_outbox
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_email email_outbox;
+BEGIN
+  SELECT * INTO v_email FROM email_outbox WHERE id = p_email_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'email_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_error IS NULL THEN
+    UPDATE email_outbox
+    SET status = 'sent', sent_at = now(), locked_at = NULL, last_error = NULL,
+      message_id = p_message_id
+    WHERE id = p_email_id
+    RETURNING * INTO v_email;
+  ELSIF v_email.attempts >= v_email.max_attempts THEN
+    UPDATE email_outbox
+    SET status = 'failed', locked_at = NULL, last_error = p_error
+    WHERE id = p_email_id
+    RETURNING * INTO v_email;
+  ELSE
+    UPDATE email_outbox
+    SET status = 'pending', locked_at = NULL, last_error = p_error,
+      next_attempt_at = now() + make_interval(mins => power(2, v_email.attempts - 1)::integer)
+    WHERE id = p_email_id
+    RETURNING * INTO v_email;
+  END IF;
+
+  RETURN v_email;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION claim_order_emails(integer) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION complete_order_email(uuid, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_order_emails(integer) TO service_role;
+GRANT EXECUTE ON FUNCTION complete_order_email(uuid, text, text) TO service_role;
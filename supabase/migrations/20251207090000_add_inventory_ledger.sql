@@ -0,0 +1,594 @@
+/*
+  # Inventory Ledger and Low-Stock Alerts
+
+  ## Overview
+  Every change to `products.stock` and `product_variants.stock` is now recorded in an
+  append-only ledger, whoever makes it: checkout, cancellations and refunds, staff
+  adjustments, bulk imports or a direct update. The stock columns become a cache of the
+  ledger that staff can reconcile against it. Products get a low-stock threshold, and a
+  staff report lists everything at or below it with its sales velocity.
+
+  ## New Tables
+
+  ### inventory_movements
+  - `id` (uuid, primary key) - Unique movement identifier
+  - `product_id` (uuid, foreign key) - Product whose stock moved
+  - `variant_id` (uuid, foreign key) - Variant whose stock moved; products with variants
+    are tracked per variant only, since `products.stock` just mirrors their total
+  - `type` (text) - `opening`, `sale`, `cancellation`, `return`, `restock` or
+    `adjustment`
+  - `quantity` (integer) - Signed change in units
+  - `stock_after` (integer) - Stock level after the movement
+  - `order_id` (uuid, foreign key) - Order behind a sale, cancellation or return
+  - `created_by` (uuid) - User who caused the movement (shopper or staff)
+  - `note` (text) - Free-form reason, e.g. the adjustment reason
+  - `created_at` (timestamptz)
+
+  ## Modified Tables
+
+  ### products
+  - `low_stock_threshold` (integer) - Stock at or below this is reported as low;
+    variants use their product's threshold
+
+  ## New Functions
+  - `set_inventory_context(p_type, p_order_id, p_note)` - Internal; describes the stock
+    changes made by the rest of the transaction to the ledger trigger. Changes made
+    without a context are recorded as `opening` (new rows) or `adjustment`.
+  - `get_low_stock_report(p_days)` - Staff only; active products and variants at or
+    below their threshold, with units sold over the last `p_days` days (net of
+    cancellations and returns), average daily sales and estimated days until they sell out
+  - `get_inventory_drift()` - Staff only; stock levels that disagree with the ledger
+  - `reconcile_inventory()` - Staff only; resets drifted stock levels to the ledger
+    total and returns how many were fixed
+
+  ## Modified Functions
+  - `adjust_stock(..., p_type)` - Records the movement as `restock`, `return` or
+    `adjustment` with the reason as its note; no longer writes `stock_adjustments`
+  - `restock_order_items(p_order_id)` - Records the stock given back by a cancelled
+    or refunded order as a `cancellation` against the order
+  - `import_products(p_rows, p_dry_run)` - Records stock differences with the note
+    `Bulk import` instead of writing `stock_adjustments`. Products with variants keep
+    their stock, which is the sum of their variants'; rows giving them a different
+    stock report `stock_ignored` instead, in dry runs too.
+  - Placing an order records each unit sold against the new order
+
+  ## Security
+  - Staff can read the ledger; nobody can write it directly
+
+  ## Important Notes
+  1. Current stock levels are recorded as `opening` movements. `stock_adjustments` is
+     kept read-only as the pre-ledger history.
+  2. Sales velocity only counts movements since the ledger started, so the report
+     shortens its window to the ledger's age until it has `p_days` of history.
+*/
+
+CREATE TABLE IF NOT EXISTS inventory_movements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  variant_id uuid REFERENCES product_variants(id) ON DELETE CASCADE,
+  type text NOT NULL CHECK (type IN ('opening', 'sale', 'cancellation', 'return', 'restock', 'adjustment')),
+  quantity integer NOT NULL CHECK (quantity <> 0),
+  stock_after integer NOT NULL,
+  order_id uuid REFERENCES orders(id) ON DELETE SET NULL,
+  created_by uuid,
+  note text NOT NULL DEFAULT '',
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS inventory_movements_product_id_idx
+  ON inventory_movements (product_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS inventory_movements_variant_id_idx
+  ON inventory_movements (variant_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS inventory_movements_order_id_idx
+  ON inventory_movements (order_id);
+
+ALTER TABLE inventory_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view inventory movements"
+  ON inventory_movements FOR SELECT
+  TO authenticated
+  USING (is_staff());
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS low_stock_threshold integer NOT NULL DEFAULT 5
+    CHECK (low_stock_threshold >= 0);
+
+GRANT UPDATE (low_stock_threshold) ON products TO authenticated;
+
+INSERT INTO inventory_movements (product_id, variant_id, type, quantity, stock_after, note)
+SELECT p.id, NULL, 'opening', p.stock, p.stock, 'Stock when the ledger started'
+FROM products p
+WHERE p.stock <> 0 AND variant_stock_total(p.id) IS NULL
+UNION ALL
+SELECT v.product_id, v.id, 'opening', v.stock, v.stock, 'Stock when the ledger started'
+FROM product_variants v
+WHERE v.stock <> 0;
+
+-- Settings are transaction-local, so a context never leaks into another request.
+CREATE OR REPLACE FUNCTION set_inventory_context(
+  p_type text,
+  p_order_id uuid DEFAULT NULL,
+  p_note text DEFAULT ''
+)
+RETURNS void
+LANGUAGE sql
+AS $$
+  SELECT
+    set_config('inventory.movement_type', p_type, true),
+    set_config('inventory.order_id', coalesce(p_order_id::text, ''), true),
+    set_config('inventory.note', coalesce(p_note, ''), true);
+$$;
+
+REVOKE ALL ON FUNCTION set_inventory_context(text, uuid, text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION record_inventory_movement()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_type text := nullif(current_setting('inventory.movement_type', true), '');
+  v_delta integer;
+  v_variant_id uuid;
+BEGIN
+  v_delta := CASE WHEN TG_OP = 'INSERT' THEN NEW.stock ELSE NEW.stock - OLD.stock END;
+
+  -- Reconciliation moves the stock to the ledger total; recording it would undo it.
+  IF v_delta = 0 OR v_type = 'reconciliation' THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_TABLE_NAME = 'products' THEN
+    IF variant_stock_total(NEW.id) IS NOT NULL THEN
+      RETURN NULL;
+    END IF;
+  ELSE
+    v_variant_id := NEW.id;
+  END IF;
+
+  INSERT INTO inventory_movements (
+    product_id, variant_id, type, quantity, stock_after, order_id, created_by, note
+  )
+  VALUES (
+    CASE WHEN TG_TABLE_NAME = 'products' THEN NEW.id ELSE NEW.product_id END,
+    v_variant_id,
+    coalesce(v_type, CASE WHEN TG_OP = 'INSERT' THEN 'opening' ELSE 'adjustment' END),
+    v_delta,
+    NEW.stock,
+    nullif(current_setting('inventory.order_id', true), '')::uuid,
+    auth.uid(),
+    coalesce(current_setting('inventory.note', true), '')
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER products_record_inventory_movement
+  AFTER INSERT OR UPDATE OF stock ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION record_inventory_movement();
+
+CREATE TRIGGER product_variants_record_inventory_movement
+  AFTER INSERT OR UPDATE OF stock ON product_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION record_inventory_movement();
+
+-- Orders are only created by checkout, which takes the stock for the new order in
+-- the same transaction.
+CREATE OR REPLACE FUNCTION set_sale_inventory_context()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_inventory_context('sale', NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER orders_set_sale_inventory_context
+  AFTER INSERT ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION set_sale_inventory_context();
+
+CREATE OR REPLACE FUNCTION restock_order_items(p_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_inventory_context('cancellation', p_order_id);
+
+  UPDATE product_variants v
+  SET stock = v.stock + i.quantity
+  FROM (
+    SELECT variant_id, SUM(quantity)::integer AS quantity
+    FROM order_items
+    WHERE order_id = p_order_id AND variant_id IS NOT NULL
+    GROUP BY variant_id
+  ) i
+  WHERE v.id = i.variant_id;
+
+  UPDATE products p
+  SET stock = p.stock + i.quantity
+  FROM (
+    SELECT product_id, SUM(quantity)::integer AS quantity
+    FROM order_items
+    WHERE order_id = p_order_id AND product_id IS NOT NULL AND variant_id IS NULL
+    GROUP BY product_id
+  ) i
+  WHERE p.id = i.product_id;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS adjust_stock(uuid, integer, text, uuid);
+
+CREATE OR REPLACE FUNCTION adjust_stock(
+  p_product_id uuid,
+  p_delta integer,
+  p_reason text,
+  p_variant_id uuid DEFAULT NULL,
+  p_type text DEFAULT 'adjustment'
+)
+RETURNS products
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product products;
+  v_variant product_variants;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'forbidden' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_delta = 0 THEN
+    RAISE EXCEPTION 'empty_adjustment' USING ERRCODE = '22023';
+  END IF;
+
+  IF coalesce(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'reason_required' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_type NOT IN ('restock', 'return', 'adjustment') THEN
+    RAISE EXCEPTION 'invalid_movement_type' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_product FROM products WHERE id = p_product_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'product_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM set_inventory_context(p_type, NULL, trim(p_reason));
+
+  IF p_variant_id IS NOT NULL THEN
+    SELECT * INTO v_variant
+    FROM product_variants
+    WHERE id = p_variant_id AND product_id = p_product_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'variant_not_found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_variant.stock + p_delta < 0 THEN
+      RAISE EXCEPTION 'insufficient_stock'
+        USING ERRCODE = 'P0001', DETAIL = format('%s in stock', v_variant.stock);
+    END IF;
+
+    UPDATE product_variants SET stock = stock + p_delta
+    WHERE id = p_variant_id;
+  ELSE
+    IF variant_stock_total(p_product_id) IS NOT NULL THEN
+      RAISE EXCEPTION 'variant_required' USING ERRCODE = '22023';
+    END IF;
+
+    IF v_product.stock + p_delta < 0 THEN
+      RAISE EXCEPTION 'insufficient_stock'
+        USING ERRCODE = 'P0001', DETAIL = format('%s in stock', v_product.stock);
+    END IF;
+
+    UPDATE products SET stock = stock + p_delta
+    WHERE id = p_product_id;
+  END IF;
+
+  SELECT * INTO v_product FROM products WHERE id = p_product_id;
+  RETURN v_product;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION adjust_stock(uuid, integer, text, uuid, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION adjust_stock(uuid, integer, text, uuid, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION import_products(
+  p_rows jsonb,
+  p_dry_run boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row jsonb;
+  v_line integer;
+  v_sku text;
+  v_price numeric;
+  v_stock integer;
+  v_category_name text;
+  v_category_id uuid;
+  v_category_created boolean;
+  v_new_categories text[] := '{}';
+  v_product products;
+  v_stock_ignored boolean;
+  v_results jsonb := '[]'::jsonb;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'forbidden' USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(p_rows) <> 'array' THEN
+    RAISE EXCEPTION 'invalid_rows' USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_row, v_line IN
+    SELECT value, coalesce((value ->> 'line')::integer, ordinality::integer)
+    FROM jsonb_array_elements(p_rows) WITH ORDINALITY
+  LOOP
+    v_sku := nullif(trim(v_row ->> 'sku'), '');
+    v_price := (v_row ->> 'price')::numeric;
+    v_stock := (v_row ->> 'stock')::integer;
+    v_category_name := nullif(trim(v_row ->> 'category'), '');
+    v_category_id := NULL;
+    v_category_created := false;
+
+    IF v_sku IS NULL OR nullif(trim(v_row ->> 'name'), '') IS NULL
+      OR v_price IS NULL OR v_price < 0 OR v_stock IS NULL OR v_stock < 0 THEN
+      RAISE EXCEPTION 'invalid_row'
+        USING ERRCODE = '22023', DETAIL = format('line %s', v_line);
+    END IF;
+
+    IF v_category_name IS NOT NULL THEN
+      SELECT id INTO v_category_id
+      FROM categories
+      WHERE lower(name) = lower(v_category_name)
+      ORDER BY archived_at NULLS FIRST, created_at
+      LIMIT 1;
+
+      -- A dry run inserts nothing, so later rows naming the same new category
+      -- would not find it; only the first of them reports creating it.
+      IF v_category_id IS NULL THEN
+        v_category_created := NOT lower(v_category_name) = ANY (v_new_categories);
+        v_new_categories := v_new_categories || lower(v_category_name);
+        IF NOT p_dry_run THEN
+          INSERT INTO categories (name) VALUES (v_category_name)
+          RETURNING id INTO v_category_id;
+        END IF;
+      END IF;
+    END IF;
+
+    SELECT * INTO v_product FROM products WHERE sku = v_sku FOR UPDATE;
+
+    -- Stock of a product with variants follows its variants; setting it here
+    -- would be undone by products_enforce_variant_stock.
+    v_stock_ignored := v_product.id IS NOT NULL
+      AND variant_stock_total(v_product.id) IS NOT NULL
+      AND v_stock <> v_product.stock;
+
+    v_results := v_results || jsonb_build_object(
+      'line', v_line,
+      'sku', v_sku,
+      'action', CASE WHEN v_product.id IS NULL THEN 'create' ELSE 'update' END,
+      'category_created', v_category_created,
+      'stock_ignored', v_stock_ignored
+    );
+
+    IF p_dry_run THEN
+      CONTINUE;
+    END IF;
+
+    IF v_product.id IS NULL THEN
+      INSERT INTO products (sku, category_id, name, description, price, image_url, stock)
+      VALUES (
+        v_sku,
+        v_category_id,
+        trim(v_row ->> 'name'),
+        coalesce(v_row ->> 'description', ''),
+        v_price,
+        coalesce(v_row ->> 'image_url', ''),
+        0
+      )
+      RETURNING * INTO v_product;
+    ELSE
+      -- Optional columns the file leaves out keep the product's current values.
+      UPDATE products
+      SET category_id = CASE WHEN v_row ? 'category' THEN v_category_id ELSE category_id END,
+          name = trim(v_row ->> 'name'),
+          description = CASE
+            WHEN v_row ? 'description' THEN coalesce(v_row ->> 'description', '')
+            ELSE description
+          END,
+          price = v_price,
+          image_url = CASE
+            WHEN v_row ? 'image_url' THEN coalesce(v_row ->> 'image_url', '')
+            ELSE image_url
+          END
+      WHERE id = v_product.id
+      RETURNING * INTO v_product;
+    END IF;
+
+    IF v_stock <> v_product.stock AND NOT v_stock_ignored THEN
+      PERFORM set_inventory_context('adjustment', NULL, 'Bulk import');
+      UPDATE products SET stock = v_stock WHERE id = v_product.id;
+    END IF;
+  END LOOP;
+
+  RETURN v_results;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION import_products(jsonb, boolean) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION import_products(jsonb, boolean) TO authenticated;
+
+CREATE OR REPLACE FUNCTION get_low_stock_report(p_days integer DEFAULT 30)
+RETURNS TABLE (
+  product_id uuid,
+  variant_id uuid,
+  product_name text,
+  variant_label text,
+  sku text,
+  stock integer,
+  low_stock_threshold integer,
+  units_sold integer,
+  daily_sales numeric,
+  days_until_stockout numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_since timestamptz;
+  v_days numeric;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'forbidden' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_days IS NULL OR p_days < 1 THEN
+    RAISE EXCEPTION 'invalid_period' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT greatest(now() - make_interval(days => p_days), coalesce(min(created_at), now()))
+  INTO v_since
+  FROM inventory_movements;
+
+  v_days := greatest(extract(epoch FROM now() - v_since) / 86400, 1);
+
+  RETURN QUERY
+  WITH units AS (
+    SELECT p.id AS product_id, NULL::uuid AS variant_id, p.name AS product_name,
+      NULL::text AS variant_label, p.sku, p.stock, p.low_stock_threshold
+    FROM products p
+    WHERE p.archived_at IS NULL AND variant_stock_total(p.id) IS NULL
+    UNION ALL
+    SELECT p.id, v.id, p.name, format_variant_label(p.id, v.options), v.sku, v.stock,
+      p.low_stock_threshold
+    FROM product_variants v
+    JOIN products p ON p.id = v.product_id
+    WHERE v.archived_at IS NULL AND p.archived_at IS NULL
+  ),
+  sold AS (
+    SELECT m.product_id, m.variant_id, greatest(-SUM(m.quantity), 0)::integer AS units
+    FROM inventory_movements m
+    WHERE m.type IN ('sale', 'cancellation', 'return') AND m.order_id IS NOT NULL AND m.created_at >= v_since
+    GROUP BY m.product_id, m.variant_id
+  )
+  SELECT
+    u.product_id,
+    u.variant_id,
+    u.product_name,
+    u.variant_label,
+    u.sku,
+    u.stock,
+    u.low_stock_threshold,
+    coalesce(s.units, 0),
+    round(coalesce(s.units, 0) / v_days, 2),
+    CASE WHEN coalesce(s.units, 0) > 0 THEN round(u.stock / (s.units / v_days), 1) END
+  FROM units u
+  LEFT JOIN sold s
+    ON s.product_id = u.product_id AND s.variant_id IS NOT DISTINCT FROM u.variant_id
+  WHERE u.stock <= u.low_stock_threshold
+  ORDER BY
+    u.stock = 0 DESC,
+    CASE WHEN coalesce(s.units, 0) > 0 THEN u.stock / (s.units / v_days) END NULLS LAST,
+    u.product_name,
+    u.variant_label;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_inventory_drift()
+RETURNS TABLE (
+  product_id uuid,
+  variant_id uuid,
+  stock integer,
+  ledger_stock integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'forbidden' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH ledger AS (
+    SELECT m.product_id, m.variant_id, SUM(m.quantity)::integer AS total
+    FROM inventory_movements m
+    GROUP BY m.product_id, m.variant_id
+  ),
+  units AS (
+    SELECT p.id AS product_id, NULL::uuid AS variant_id, p.stock
+    FROM products p
+    WHERE variant_stock_total(p.id) IS NULL
+    UNION ALL
+    SELECT v.product_id, v.id, v.stock
+    FROM product_variants v
+  )
+  SELECT u.product_id, u.variant_id, u.stock, coalesce(l.total, 0)
+  FROM units u
+  LEFT JOIN ledger l
+    ON l.product_id = u.product_id AND l.variant_id IS NOT DISTINCT FROM u.variant_id
+  WHERE u.stock <> coalesce(l.total, 0);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reconcile_inventory()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_drift record;
+  v_fixed integer := 0;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'forbidden' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM set_inventory_context('reconciliation');
+
+  FOR v_drift IN SELECT * FROM get_inventory_drift() LOOP
+    IF v_drift.variant_id IS NOT NULL THEN
+      UPDATE product_variants SET stock = greatest(v_drift.ledger_stock, 0)
+      WHERE id = v_drift.variant_id;
+    ELSE
+      UPDATE products SET stock = greatest(v_drift.ledger_stock, 0)
+      WHERE id = v_drift.product_id;
+    END IF;
+    v_fixed := v_fixed + 1;
+  END LOOP;
+
+  RETURN v_fixed;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION get_low_stock_report(integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_low_stock_report(integer) TO authenticated;
+REVOKE ALL ON FUNCTION get_inventory_drift() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_inventory_drift() TO authenticated;
+REVOKE ALL ON FUNCTION reconcile_inventory() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION reconcile_inventory() TO authenticated;
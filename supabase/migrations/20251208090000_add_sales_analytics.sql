@@ -0,0 +1,254 @@
+/*
+  # Sales Analytics
+
+  ## Overview
+  Staff-only reporting over orders, order items and carts: revenue, order count and
+  average order value over time, best-selling products and categories, and how many
+  shoppers who start a cart go on to place an order.
+
+  ## New Views
+  - `sales_orders` - Orders that count as sales: paid and later, excluding cancelled
+    and refunded orders
+  - `sales_order_lines` - The line items of those orders with their product and
+    category; revenue uses the price stored on the order item
+
+  ## New Functions
+  - `get_sales_over_time(p_from, p_to, p_interval)` - Staff only; orders, revenue and
+    average order value per day, week or month, including periods without sales
+  - `get_top_products(p_from, p_to, p_limit)` - Staff only; products ranked by revenue
+  - `get_top_categories(p_from, p_to, p_limit)` - Staff only; categories ranked by
+    revenue
+  - `get_cart_conversion(p_from, p_to)` - Staff only; shoppers who started a cart in
+    the range and how many of them placed an order
+
+  ## Security
+  - The views run with the caller's permissions, so RLS on orders still applies; they
+    are not exposed to the API and are read through the functions above
+
+  ## Important Notes
+  1. Ranges are whole days from `p_from` to `p_to` inclusive, in the database time
+     zone (UTC)
+  2. Revenue is the order total, including shipping and tax, net of discounts
+  3. Checkout empties the cart, so a cart that converted is only visible through its
+     order. A shopper counts as having started a cart if they still have items added
+     in the range or placed an order in it.
+*/
+
+CREATE OR REPLACE VIEW sales_orders
+WITH (security_invoker = true)
+AS
+SELECT id, user_id, status, subtotal, discount_total, shipping_amount, tax_amount,
+  total_amount, created_at
+FROM orders
+WHERE status IN ('paid', 'packed', 'shipped', 'delivered');
+
+CREATE OR REPLACE VIEW sales_order_lines
+WITH (security_invoker = true)
+AS
+SELECT
+  i.order_id,
+  i.product_id,
+  i.variant_id,
+  coalesce(p.name, 'Deleted product') AS product_name,
+  p.category_id,
+  coalesce(c.name, 'Uncategorized') AS category_name,
+  i.quantity,
+  i.price,
+  i.quantity * i.price AS revenue,
+  o.created_at
+FROM order_items i
+JOIN sales_orders o ON o.id = i.order_id
+LEFT JOIN products p ON p.id = i.product_id
+LEFT JOIN categories c ON c.id = p.category_id;
+
+REVOKE ALL ON sales_orders FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON sales_order_lines FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION get_sales_over_time(
+  p_from date,
+  p_to date,
+  p_interval text DEFAULT 'day'
+)
+RETURNS TABLE (
+  period_start date,
+  order_count integer,
+  revenue numeric,
+  average_order_value numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'forbidden' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_interval NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'invalid_interval' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_from IS NULL OR p_to IS NULL OR p_from > p_to THEN
+    RAISE EXCEPTION 'invalid_range' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH periods AS (
+    SELECT generate_series(
+      date_trunc(p_interval, p_from::timestamp),
+      date_trunc(p_interval, p_to::timestamp),
+      ('1 ' || p_interval)::interval
+    )::date AS period_start
+  ),
+  sales AS (
+    SELECT
+      date_trunc(p_interval, o.created_at AT TIME ZONE 'UTC')::date AS period_start,
+      count(*)::integer AS order_count,
+      SUM(o.total_amount) AS revenue
+    FROM sales_orders o
+    WHERE o.created_at >= p_from::timestamp AT TIME ZONE 'UTC'
+      AND o.created_at < (p_to + 1)::timestamp AT TIME ZONE 'UTC'
+    GROUP BY 1
+  )
+  SELECT
+    p.period_start,
+    coalesce(s.order_count, 0),
+    coalesce(s.revenue, 0),
+    CASE WHEN s.order_count > 0 THEN round(s.revenue / s.order_count, 2) ELSE 0 END
+  FROM periods p
+  LEFT JOIN sales s ON s.period_start = p.period_start
+  ORDER BY p.period_start;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_top_products(
+  p_from date,
+  p_to date,
+  p_limit integer DEFAULT 10
+)
+RETURNS TABLE (
+  product_id uuid,
+  product_name text,
+  units integer,
+  revenue numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'forbidden' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_from IS NULL OR p_to IS NULL OR p_from > p_to THEN
+    RAISE EXCEPTION 'invalid_range' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  SELECT l.product_id, min(l.product_name), SUM(l.quantity)::integer, SUM(l.revenue)
+  FROM sales_order_lines l
+  WHERE l.created_at >= p_from::timestamp AT TIME ZONE 'UTC'
+    AND l.created_at < (p_to + 1)::timestamp AT TIME ZONE 'UTC'
+  GROUP BY l.product_id
+  ORDER BY SUM(l.revenue) DESC, SUM(l.quantity) DESC
+  LIMIT greatest(p_limit, 1);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_top_categories(
+  p_from date,
+  p_to date,
+  p_limit integer DEFAULT 10
+)
+RETURNS TABLE (
+  category_id uuid,
+  category_name text,
+  units integer,
+  revenue numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'forbidden' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_from IS NULL OR p_to IS NULL OR p_from > p_to THEN
+    RAISE EXCEPTION 'invalid_range' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  SELECT l.category_id, min(l.category_name), SUM(l.quantity)::integer, SUM(l.revenue)
+  FROM sales_order_lines l
+  WHERE l.created_at >= p_from::timestamp AT TIME ZONE 'UTC'
+    AND l.created_at < (p_to + 1)::timestamp AT TIME ZONE 'UTC'
+  GROUP BY l.category_id
+  ORDER BY SUM(l.revenue) DESC, SUM(l.quantity) DESC
+  LIMIT greatest(p_limit, 1);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_cart_conversion(p_from date, p_to date)
+RETURNS TABLE (
+  carts integer,
+  converted_carts integer,
+  conversion_rate numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_from timestamptz := p_from::timestamp AT TIME ZONE 'UTC';
+  v_to timestamptz := (p_to + 1)::timestamp AT TIME ZONE 'UTC';
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'forbidden' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_from IS NULL OR p_to IS NULL OR p_from > p_to THEN
+    RAISE EXCEPTION 'invalid_range' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH ordered AS (
+    SELECT DISTINCT coalesce(o.user_id::text, o.id::text) AS shopper
+    FROM orders o
+    WHERE o.created_at >= v_from AND o.created_at < v_to
+  ),
+  started AS (
+    SELECT DISTINCT c.user_id::text AS shopper
+    FROM cart_items c
+    WHERE c.user_id IS NOT NULL AND c.created_at >= v_from AND c.created_at < v_to
+    UNION
+    SELECT shopper FROM ordered
+  )
+  SELECT
+    (SELECT count(*) FROM started)::integer,
+    (SELECT count(*) FROM ordered)::integer,
+    CASE
+      WHEN (SELECT count(*) FROM started) > 0
+        THEN round((SELECT count(*) FROM ordered)::numeric / (SELECT count(*) FROM started), 4)
+      ELSE 0
+    END;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION get_sales_over_time(date, date, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_sales_over_time(date, date, text) TO authenticated;
+REVOKE ALL ON FUNCTION get_top_products(date, date, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_top_products(date, date, integer) TO authenticated;
+REVOKE ALL ON FUNCTION get_top_categories(date, date, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_top_categories(date, date, integer) TO authenticated;
+REVOKE ALL ON FUNCTION get_cart_conversion(date, date) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_cart_conversion(date, date) TO authenticated;
@@ -0,0 +1,527 @@
+/*
+  # Returns and Refunds
+
+  ## Overview
+  Customers can ask to return some or all of the items on a delivered order. Staff
+  approve or reject the request, record when the parcel arrives (putting the items back
+  in stock), and refund the returned items at the price stored on the order. Orders
+  move to `partially_refunded` or `refunded`, and every step is recorded in the order's
+  status history.
+
+  ## New Tables
+
+  ### 1. return_requests
+  - `id` (uuid, primary key) - Unique return identifier
+  - `order_id` (uuid, foreign key) - Order the items come from
+  - `status` (text) - `requested`, `approved`, `rejected`, `received` or `refunded`
+  - `reason` (text) - Why the customer is returning the items
+  - `staff_note` (text) - Staff note on the decision, shown to the customer
+  - `refund_amount` (numeric) - Set on approval: the returned quantities at their
+    stored order item prices, capped at what is left to refund on the order
+  - `requested_by` / `decided_by` (uuid) - Customer and staff member involved
+  - `created_at` / `decided_at` / `received_at` / `refunded_at` (timestamptz)
+
+  ### 2. return_request_items
+  - `id` (uuid, primary key) - Unique line identifier
+  - `return_id` (uuid, foreign key) - Reference to return_requests
+  - `order_item_id` (uuid, foreign key) - Order line being returned
+  - `quantity` (integer) - Units of that line being returned
+
+  ## Modified Tables
+
+  ### orders
+  - `status` - Adds `partially_refunded`, reachable from `delivered`; it can move on
+    to `refunded` once everything has been returned
+  - `refunded_amount` (numeric) - Total refunded through returns
+
+  ### payments
+  - `refunded_amount` (numeric) - Amount refunded through returns; the payment becomes
+    `refunded` once the whole amount has been refunded
+
+  ## New Functions
+  - `request_return(p_order_id, p_items, p_reason)` - The order's owner asks to return
+    `[{ "order_item_id", "quantity" }]` from a delivered order. Raises
+    `return_not_allowed`, `reason_required` or `invalid_return_quantity`.
+  - `review_return(p_return_id, p_approve, p_note)` - Staff only; approves or rejects a
+    requested return
+  - `receive_return(p_return_id, p_restock)` - Staff only; records that an approved
+    return arrived and, unless `p_restock` is false (e.g. damaged goods), restocks it
+  - `record_return_refund(p_return_id)` - Service role only; called by the `payments`
+    Edge Function once the provider has refunded a received return
+
+  ## Modified Functions
+  - `record_payment_result` - Ignores a provider `refunded` result for a payment that
+    has been partially refunded through returns
+  - `sales_orders` / `sales_order_lines` views - Count partially refunded orders, net
+    of what was refunded and returned
+
+  ## Security
+  - Customers can read returns on their own orders; staff can read all
+  - Returns are only written through the functions above
+
+  ## Important Notes
+  1. Shipping and tax are not refunded by item returns
+  2. Quantities already in a request that was not rejected cannot be requested again
+*/
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_status_check;
+ALTER TABLE orders
+  ADD CONSTRAINT orders_status_check CHECK (
+    status IN (
+      'pending', 'paid', 'packed', 'shipped', 'delivered', 'partially_refunded', 'cancelled',
+      'refunded'
+    )
+  );
+
+INSERT INTO order_status_transitions (from_status, to_status) VALUES
+  ('delivered', 'partially_refunded'),
+  ('partially_refunded', 'refunded')
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS refunded_amount numeric(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS refunded_amount numeric(10, 2) NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS return_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'requested'
+    CHECK (status IN ('requested', 'approved', 'rejected', 'received', 'refunded')),
+  reason text NOT NULL,
+  staff_note text NOT NULL DEFAULT '',
+  refund_amount numeric(10, 2),
+  requested_by uuid,
+  decided_by uuid,
+  created_at timestamptz DEFAULT now(),
+  decided_at timestamptz,
+  received_at timestamptz,
+  refunded_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS return_requests_order_id_idx ON return_requests (order_id);
+CREATE INDEX IF NOT EXISTS return_requests_status_idx ON return_requests (status, created_at);
+
+CREATE TABLE IF NOT EXISTS return_request_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  return_id uuid NOT NULL REFERENCES return_requests(id) ON DELETE CASCADE,
+  order_item_id uuid NOT NULL REFERENCES order_items(id) ON DELETE CASCADE,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  UNIQUE (return_id, order_item_id)
+);
+
+CREATE INDEX IF NOT EXISTS return_request_items_order_item_id_idx
+  ON return_request_items (order_item_id);
+
+ALTER TABLE return_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE return_request_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view returns for their orders"
+  ON return_requests FOR SELECT
+  TO authenticated
+  USING (
+    is_staff() OR EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = return_requests.order_id
+      AND orders.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view returned items for their orders"
+  ON return_request_items FOR SELECT
+  TO authenticated
+  USING (
+    is_staff() OR EXISTS (
+      SELECT 1 FROM return_requests r
+      JOIN orders ON orders.id = r.order_id
+      WHERE r.id = return_request_items.return_id
+      AND orders.user_id = auth.uid()
+    )
+  );
+
+-- Units of an order line already claimed by returns that were not rejected.
+CREATE OR REPLACE FUNCTION returned_quantity(p_order_item_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce(SUM(i.quantity), 0)::integer
+  FROM return_request_items i
+  JOIN return_requests r ON r.id = i.return_id
+  WHERE i.order_item_id = p_order_item_id AND r.status <> 'rejected';
+$$;
+
+CREATE OR REPLACE FUNCTION request_return(
+  p_order_id uuid,
+  p_items jsonb,
+  p_reason text
+)
+RETURNS return_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+  v_return return_requests;
+  v_line jsonb;
+  v_item order_items;
+  v_quantity integer;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR v_order.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'order_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_order.status NOT IN ('delivered', 'partially_refunded') THEN
+    RAISE EXCEPTION 'return_not_allowed'
+      USING ERRCODE = 'P0001', DETAIL = v_order.status;
+  END IF;
+
+  IF coalesce(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'reason_required' USING ERRCODE = '22023';
+  END IF;
+
+  IF jsonb_typeof(p_items) IS DISTINCT FROM 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'invalid_return_quantity' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO return_requests (order_id, reason, requested_by)
+  VALUES (p_order_id, trim(p_reason), auth.uid())
+  RETURNING * INTO v_return;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+    SELECT * INTO v_item
+    FROM order_items
+    WHERE id = (v_line ->> 'order_item_id')::uuid AND order_id = p_order_id;
+
+    v_quantity := (v_line ->> 'quantity')::integer;
+
+    IF NOT FOUND OR v_quantity IS NULL OR v_quantity < 1
+      OR v_quantity > v_item.quantity - returned_quantity(v_item.id) THEN
+      RAISE EXCEPTION 'invalid_return_quantity'
+        USING ERRCODE = '22023', DETAIL = coalesce(v_line ->> 'order_item_id', '');
+    END IF;
+
+    INSERT INTO return_request_items (return_id, order_item_id, quantity)
+    VALUES (v_return.id, v_item.id, v_quantity);
+  END LOOP;
+
+  RETURN v_return;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION review_return(
+  p_return_id uuid,
+  p_approve boolean,
+  p_note text DEFAULT ''
+)
+RETURNS return_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_return return_requests;
+  v_order orders;
+  v_amount numeric;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'forbidden' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_return FROM return_requests WHERE id = p_return_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'return_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_return.status <> 'requested' THEN
+    RAISE EXCEPTION 'illegal_return_transition'
+      USING ERRCODE = 'P0001', DETAIL = format('%s -> %s', v_return.status,
+        CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END);
+  END IF;
+
+  IF p_approve THEN
+    SELECT * INTO v_order FROM orders WHERE id = v_return.order_id FOR UPDATE;
+
+    SELECT SUM(i.quantity * oi.price) INTO v_amount
+    FROM return_request_items i
+    JOIN order_items oi ON oi.id = i.order_item_id
+    WHERE i.return_id = p_return_id;
+
+    -- Discounts can leave the order total below the sum of its item prices.
+    v_amount := least(
+      v_amount,
+      v_order.total_amount - v_order.refunded_amount - coalesce((
+        SELECT SUM(refund_amount) FROM return_requests
+        WHERE order_id = v_order.id AND status IN ('approved', 'received')
+      ), 0)
+    );
+
+    UPDATE return_requests
+    SET status = 'approved', refund_amount = greatest(v_amount, 0),
+      staff_note = coalesce(trim(p_note), ''), decided_by = auth.uid(), decided_at = now()
+    WHERE id = p_return_id
+    RETURNING * INTO v_return;
+  ELSE
+    UPDATE return_requests
+    SET status = 'rejected', staff_note = coalesce(trim(p_note), ''),
+      decided_by = auth.uid(), decided_at = now()
+    WHERE id = p_return_id
+    RETURNING * INTO v_return;
+  END IF;
+
+  RETURN v_return;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION receive_return(p_return_id uuid, p_restock boolean DEFAULT true)
+RETURNS return_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_return return_requests;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'forbidden' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_return FROM return_requests WHERE id = p_return_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'return_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_return.status <> 'approved' THEN
+    RAISE EXCEPTION 'illegal_return_transition'
+      USING ERRCODE = 'P0001', DETAIL = format('%s -> received', v_return.status);
+  END IF;
+
+  IF p_restock THEN
+    PERFORM set_inventory_context(
+      'return', v_return.order_id, format('Return %s', upper(split_part(p_return_id::text, '-', 1)))
+    );
+
+    UPDATE product_variants v
+    SET stock = v.stock + i.quantity
+    FROM (
+      SELECT oi.variant_id, SUM(ri.quantity)::integer AS quantity
+      FROM return_request_items ri
+      JOIN order_items oi ON oi.id = ri.order_item_id
+      WHERE ri.return_id = p_return_id AND oi.variant_id IS NOT NULL
+      GROUP BY oi.variant_id
+    ) i
+    WHERE v.id = i.variant_id;
+
+    UPDATE products p
+    SET stock = p.stock + i.quantity
+    FROM (
+      SELECT oi.product_id, SUM(ri.quantity)::integer AS quantity
+      FROM return_request_items ri
+      JOIN order_items oi ON oi.id = ri.order_item_id
+      WHERE ri.return_id = p_return_id AND oi.product_id IS NOT NULL AND oi.variant_id IS NULL
+      GROUP BY oi.product_id
+    ) i
+    WHERE p.id = i.product_id;
+  END IF;
+
+  UPDATE return_requests
+  SET status = 'received', received_at = now()
+  WHERE id = p_return_id
+  RETURNING * INTO v_return;
+
+  RETURN v_return;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_return_refund(p_return_id uuid)
+RETURNS return_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_return return_requests;
+  v_order orders;
+  v_to text;
+  v_fully_returned boolean;
+BEGIN
+  SELECT * INTO v_return FROM return_requests WHERE id = p_return_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'return_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- A retried refund must not be applied twice.
+  IF v_return.status = 'refunded' THEN
+    RETURN v_return;
+  END IF;
+
+  IF v_return.status <> 'received' THEN
+    RAISE EXCEPTION 'return_not_refundable'
+      USING ERRCODE = 'P0001', DETAIL = v_return.status;
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = v_return.order_id FOR UPDATE;
+
+  UPDATE payments
+  SET refunded_amount = refunded_amount + v_return.refund_amount,
+      status = CASE
+        WHEN refunded_amount + v_return.refund_amount >= amount THEN 'refunded'
+        ELSE status
+      END
+  WHERE order_id = v_order.id AND status = 'captured';
+
+  UPDATE return_requests
+  SET status = 'refunded', refunded_at = now()
+  WHERE id = p_return_id
+  RETURNING * INTO v_return;
+
+  v_fully_returned := NOT EXISTS (
+    SELECT 1 FROM order_items oi
+    WHERE oi.order_id = v_order.id
+    AND oi.quantity > (
+      SELECT coalesce(SUM(ri.quantity), 0)
+      FROM return_request_items ri
+      JOIN return_requests r ON r.id = ri.return_id
+      WHERE ri.order_item_id = oi.id AND r.status = 'refunded'
+    )
+  );
+
+  v_to := CASE WHEN v_fully_returned THEN 'refunded' ELSE 'partially_refunded' END;
+
+  UPDATE orders
+  SET refunded_amount = refunded_amount + v_return.refund_amount, status = v_to
+  WHERE id = v_order.id;
+
+  INSERT INTO order_status_history (order_id, from_status, to_status, reason)
+  VALUES (
+    v_order.id,
+    v_order.status,
+    v_to,
+    format(
+      'Return %s refunded ($%s)',
+      upper(split_part(p_return_id::text, '-', 1)),
+      to_char(v_return.refund_amount, 'FM999999990.00')
+    )
+  );
+
+  RETURN v_return;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_payment_result(
+  p_payment_id uuid,
+  p_status text,
+  p_provider_payment_id text DEFAULT NULL,
+  p_failure_code text DEFAULT NULL,
+  p_failure_message text DEFAULT NULL
+)
+RETURNS payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payment payments;
+  v_order orders;
+  v_allowed text[];
+BEGIN
+  SELECT * INTO v_payment FROM payments WHERE id = p_payment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'payment_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Refunds of returned items are recorded by record_return_refund; the provider's
+  -- notification of one must not be mistaken for a refund of the whole payment.
+  v_allowed := CASE
+    WHEN v_payment.status = 'pending' THEN ARRAY['authorized', 'captured', 'failed']
+    WHEN v_payment.status = 'authorized' THEN ARRAY['captured', 'failed']
+    WHEN v_payment.status = 'captured' AND v_payment.refunded_amount = 0 THEN ARRAY['refunded']
+    ELSE ARRAY[]::text[]
+  END;
+
+  IF NOT p_status = ANY (v_allowed) THEN
+    RETURN v_payment;
+  END IF;
+
+  UPDATE payments
+  SET status = p_status,
+      provider_payment_id = coalesce(p_provider_payment_id, provider_payment_id),
+      failure_code = p_failure_code,
+      failure_message = p_failure_message
+  WHERE id = p_payment_id
+  RETURNING * INTO v_payment;
+
+  SELECT * INTO v_order FROM orders WHERE id = v_payment.order_id FOR UPDATE;
+
+  IF p_status = 'captured' AND v_order.status = 'pending' THEN
+    UPDATE orders SET status = 'paid' WHERE id = v_order.id;
+
+    INSERT INTO order_status_history (order_id, from_status, to_status, reason)
+    VALUES (v_order.id, 'pending', 'paid', 'Payment captured');
+  ELSIF p_status = 'refunded' AND EXISTS (
+    SELECT 1 FROM order_status_transitions
+    WHERE from_status = v_order.status AND to_status = 'refunded'
+  ) THEN
+    UPDATE orders SET status = 'refunded' WHERE id = v_order.id;
+
+    INSERT INTO order_status_history (order_id, from_status, to_status, reason)
+    VALUES (v_order.id, v_order.status, 'refunded', 'Payment refunded');
+
+    IF v_order.status IN ('pending', 'paid', 'packed') THEN
+      PERFORM restock_order_items(v_order.id);
+    END IF;
+  END IF;
+
+  RETURN v_payment;
+END;
+$$;
+
+-- The view columns keep their names and types; only the figures change.
+CREATE OR REPLACE VIEW sales_orders
+WITH (security_invoker = true)
+AS
+SELECT id, user_id, status, subtotal, discount_total, shipping_amount, tax_amount,
+  (total_amount - refunded_amount)::numeric(10, 2) AS total_amount, created_at
+FROM orders
+WHERE status IN ('paid', 'packed', 'shipped', 'delivered', 'partially_refunded');
+
+CREATE OR REPLACE VIEW sales_order_lines
+WITH (security_invoker = true)
+AS
+SELECT
+  i.order_id,
+  i.product_id,
+  i.variant_id,
+  coalesce(p.name, 'Deleted product') AS product_name,
+  p.category_id,
+  coalesce(c.name, 'Uncategorized') AS category_name,
+  i.quantity - coalesce(r.quantity, 0) AS quantity,
+  i.price,
+  (i.quantity - coalesce(r.quantity, 0)) * i.price AS revenue,
+  o.created_at
+FROM order_items i
+JOIN sales_orders o ON o.id = i.order_id
+LEFT JOIN products p ON p.id = i.product_id
+LEFT JOIN categories c ON c.id = p.category_id
+LEFT JOIN (
+  SELECT ri.order_item_id, SUM(ri.quantity)::integer AS quantity
+  FROM return_request_items ri
+  JOIN return_requests rr ON rr.id = ri.return_id
+  WHERE rr.status = 'refunded'
+  GROUP BY ri.order_item_id
+) r ON r.order_item_id = i.id;
+
+REVOKE ALL ON FUNCTION returned_quantity(uuid) FROM PUBLIC;
+REVOKE ALL ON FUNCTION request_return(uuid, jsonb, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION request_return(uuid, jsonb, text) TO authenticated;
+REVOKE ALL ON FUNCTION review_return(uuid, boolean, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION review_return(uuid, boolean, text) TO authenticated;
+REVOKE ALL ON FUNCTION receive_return(uuid, boolean) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION receive_return(uuid, boolean) TO authenticated;
+REVOKE ALL ON FUNCTION record_return_refund(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_return_refund(uuid) TO service_role;
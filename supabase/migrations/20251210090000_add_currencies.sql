@@ -0,0 +1,149 @@
+/*
+  # Currencies
+
+  ## Overview
+  Shoppers can browse and check out with prices shown in their own currency. Catalog
+  prices, carts, payments and reports stay in the base currency (USD); the storefront
+  converts them for display with the rates kept here, rounding each currency to its
+  own increment. Orders record the currency and rate in effect when they were placed,
+  so the order page and emails keep showing the figures the customer saw.
+
+  ## New Tables
+
+  ### 1. currencies
+  - `code` (text, primary key) - ISO 4217 code, e.g. `EUR`
+  - `name` (text) - Display name
+  - `rate` (numeric) - Units of this currency per 1 USD; always 1 for USD
+  - `rounding_increment` (numeric) - Converted amounts are rounded to a multiple of
+    this, e.g. 0.01 for EUR, 1 for JPY, 0.05 for CHF
+  - `active` (boolean) - Whether shoppers can choose it
+  - `updated_at` (timestamptz) - When the rate last changed
+
+  ## Modified Tables
+
+  ### orders
+  - `currency` (text, foreign key) - Currency the shopper checked out in
+  - `exchange_rate` (numeric) - That currency's rate when the order was placed
+
+  ## Modified Functions
+  - `place_order(..., p_currency)` - Records the shopper's currency and its current
+    rate on the order. Raises `invalid_currency` for an unknown or inactive currency.
+
+  ## Security
+  - Anyone can read active currencies; staff can read all and manage rates
+  - The rate on an order is looked up server-side, never taken from the client
+
+  ## Important Notes
+  1. Orders are still charged and refunded in USD; the recorded currency and rate are
+     for display only
+  2. Existing orders are recorded as USD at a rate of 1
+*/
+
+CREATE TABLE IF NOT EXISTS currencies (
+  code text PRIMARY KEY CHECK (code ~ '^[A-Z]{3}$'),
+  name text NOT NULL,
+  rate numeric(14, 6) NOT NULL CHECK (rate > 0),
+  rounding_increment numeric(10, 4) NOT NULL DEFAULT 0.01 CHECK (rounding_increment > 0),
+  active boolean NOT NULL DEFAULT true,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT currencies_base_rate CHECK (code <> 'USD' OR (rate = 1 AND active))
+);
+
+INSERT INTO currencies (code, name, rate, rounding_increment) VALUES
+  ('USD', 'US Dollar', 1, 0.01),
+  ('EUR', 'Euro', 0.92, 0.01),
+  ('GBP', 'British Pound', 0.79, 0.01),
+  ('CHF', 'Swiss Franc', 0.88, 0.05),
+  ('JPY', 'Japanese Yen', 151, 1)
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE currencies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active currencies"
+  ON currencies FOR SELECT
+  TO anon, authenticated
+  USING (active OR is_staff());
+
+CREATE POLICY "Staff can create currencies"
+  ON currencies FOR INSERT
+  TO authenticated
+  WITH CHECK (is_staff());
+
+CREATE POLICY "Staff can update currencies"
+  ON currencies FOR UPDATE
+  TO authenticated
+  USING (is_staff())
+  WITH CHECK (is_staff());
+
+CREATE TRIGGER currencies_touch_updated_at
+  BEFORE UPDATE ON currencies
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_updated_at();
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'USD'
+    REFERENCES currencies (code) ON UPDATE CASCADE;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS exchange_rate numeric(14, 6) NOT NULL DEFAULT 1;
+
+DROP FUNCTION IF EXISTS place_order(text, text, jsonb, text, text);
+
+CREATE OR REPLACE FUNCTION place_order(
+  p_customer_name text,
+  p_customer_email text,
+  p_address jsonb,
+  p_promo_code text DEFAULT NULL,
+  p_idempotency_key text DEFAULT NULL,
+  p_currency text DEFAULT 'USD'
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_order orders;
+  v_currency currencies;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'session_required' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_currency
+  FROM currencies
+  WHERE code = upper(trim(coalesce(p_currency, 'USD'))) AND active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'invalid_currency' USING ERRCODE = '22023', DETAIL = p_currency;
+  END IF;
+
+  IF p_idempotency_key IS NOT NULL THEN
+    -- One checkout at a time per shopper, so a repeated key always sees the
+    -- order the first attempt created.
+    PERFORM pg_advisory_xact_lock(hashtext('place_order:' || v_user_id::text));
+
+    SELECT * INTO v_order
+    FROM orders
+    WHERE user_id = v_user_id AND idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      RETURN v_order;
+    END IF;
+  END IF;
+
+  v_order := create_order_from_cart(p_customer_name, p_customer_email, p_address, p_promo_code);
+
+  UPDATE orders
+  SET
+    idempotency_key = p_idempotency_key,
+    currency = v_currency.code,
+    exchange_rate = v_currency.rate
+  WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION place_order(text, text, jsonb, text, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION place_order(text, text, jsonb, text, text, text) TO authenticated;
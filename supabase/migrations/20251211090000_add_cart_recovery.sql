@@ -0,0 +1,391 @@
+/*
+  # Abandoned Cart Expiry and Recovery
+
+  ## Overview
+  Cart lines used to live forever. A scheduled job now deletes guest carts that have
+  not been touched for a configurable time, and emails signed-in customers whose
+  cart has sat untouched a link that puts the same items back in a cart on any
+  device. Orders placed after a recovery email are attributed to it, so staff can
+  see how many abandoned carts the emails win back.
+
+  ## New Tables
+
+  ### cart_recovery_settings
+  Single row holding the schedule's thresholds:
+  - `guest_cart_ttl` (interval) - Guest carts idle this long are deleted (30 days)
+  - `abandoned_after` (interval) - Customer carts idle this long count as abandoned
+    (24 hours)
+  - `link_ttl` (interval) - How long a recovery link works (7 days); carts idle for
+    longer than this are not emailed at all
+  - `attribution_window` (interval) - Orders placed this long after a recovery email
+    count as recovered (7 days)
+  - `updated_at` (timestamptz)
+
+  ### cart_recoveries
+  - `id` (uuid, primary key) - Also the id the recovery link is signed over
+  - `user_id` (uuid, foreign key) - Customer whose cart was abandoned
+  - `recipient` (text) - Email address the link was sent to
+  - `items` (jsonb) - Snapshot of the cart: `product_id`, `variant_id`, `quantity`,
+    plus `product_name`, `variant_label` and `price` for the email
+  - `cart_updated_at` (timestamptz) - Last change to the cart when it was snapshotted;
+    a cart is emailed once per period of inactivity
+  - `expires_at` (timestamptz) - Links are refused after this
+  - `restored_at` / `restored_by` - First time the link was used, and by which
+    (possibly anonymous) user
+  - `recovered_order_id` / `recovered_at` - First order attributed to the email
+  - `created_at` (timestamptz)
+
+  ## Modified Tables
+
+  ### cart_items
+  - `updated_at` (timestamptz) - Touched on every change, so idle time covers quantity
+    changes and not just when a line was added
+
+  ### email_outbox
+  - `order_id` is now optional and `cart_recovery_id` references the recovery an email
+    is about; `cart_recovery` emails carry the latter, order emails the former
+
+  ## New Functions
+  - `process_abandoned_carts()` - Service role only; deletes idle guest carts and
+    queues a recovery email for each newly abandoned customer cart. Returns the
+    number of deleted lines and queued emails.
+  - `restore_cart_recovery(p_recovery_id, p_user_id)` - Service role only; merges the
+    snapshot into the user's cart, skipping archived products and variants and never
+    lowering a quantity already in the cart. The `cart-recovery` Edge Function calls it
+    after checking the link's signature.
+  - `get_cart_recovery(p_from, p_to)` - Staff only; recovery emails sent in the range,
+    how many were opened into a cart and how many led to an order, with the revenue
+    of those orders
+
+  ## Security
+  - Staff can read and change the settings and read recoveries; nothing else can
+    touch either table
+  - Links are signed in the Edge Function with `CART_RECOVERY_SECRET`; the database
+    never sees the secret
+
+  ## Important Notes
+  1. Guest carts are carts of anonymous users, plus lines left over from the old
+     `session_id` scheme
+  2. `process_abandoned_carts` runs every 15 minutes through pg_cron; recovery emails
+     go out with the order emails through `send-order-emails`
+  3. A recovery counts once per email: the first order its customer, or whoever
+     opened its link, places within the attribution window. Recovered revenue only
+     includes those orders once they count as sales (see `sales_orders`).
+  4. Both `send-order-emails` and `cart-recovery` need the same `CART_RECOVERY_SECRET`
+*/
+
+CREATE TABLE IF NOT EXISTS cart_recovery_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  guest_cart_ttl interval NOT NULL DEFAULT interval '30 days' CHECK (guest_cart_ttl > interval '0'),
+  abandoned_after interval NOT NULL DEFAULT interval '24 hours' CHECK (abandoned_after > interval '0'),
+  link_ttl interval NOT NULL DEFAULT interval '7 days' CHECK (link_ttl > interval '0'),
+  attribution_window interval NOT NULL DEFAULT interval '7 days' CHECK (attribution_window > interval '0'),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO cart_recovery_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+CREATE TRIGGER cart_recovery_settings_touch_updated_at
+  BEFORE UPDATE ON cart_recovery_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_updated_at();
+
+ALTER TABLE cart_recovery_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view cart recovery settings"
+  ON cart_recovery_settings FOR SELECT
+  TO authenticated
+  USING (is_staff());
+
+CREATE POLICY "Staff can update cart recovery settings"
+  ON cart_recovery_settings FOR UPDATE
+  TO authenticated
+  USING (is_staff())
+  WITH CHECK (is_staff());
+
+CREATE TABLE IF NOT EXISTS cart_recoveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  recipient text NOT NULL,
+  items jsonb NOT NULL,
+  cart_updated_at timestamptz NOT NULL,
+  expires_at timestamptz NOT NULL,
+  restored_at timestamptz,
+  restored_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  recovered_order_id uuid REFERENCES orders(id) ON DELETE SET NULL,
+  recovered_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS cart_recoveries_user_id_idx ON cart_recoveries (user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS cart_recoveries_restored_by_idx ON cart_recoveries (restored_by, created_at DESC);
+CREATE INDEX IF NOT EXISTS cart_recoveries_created_at_idx ON cart_recoveries (created_at);
+
+ALTER TABLE cart_recoveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view cart recoveries"
+  ON cart_recoveries FOR SELECT
+  TO authenticated
+  USING (is_staff());
+
+ALTER TABLE cart_items ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+
+-- Existing lines were last touched no later than they were added.
+UPDATE cart_items SET updated_at = coalesce(created_at, now());
+
+CREATE TRIGGER cart_items_touch_updated_at
+  BEFORE UPDATE ON cart_items
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_updated_at();
+
+ALTER TABLE email_outbox
+  ALTER COLUMN order_id DROP NOT NULL,
+  ADD COLUMN IF NOT EXISTS cart_recovery_id uuid UNIQUE REFERENCES cart_recoveries(id) ON DELETE CASCADE;
+
+ALTER TABLE email_outbox DROP CONSTRAINT IF EXISTS email_outbox_template_check;
+
+ALTER TABLE email_outbox
+  ADD CONSTRAINT email_outbox_template_check CHECK (
+    template IN ('order_confirmation', 'order_shipped', 'order_cancelled', 'order_refunded', 'cart_recovery')
+  ),
+  ADD CONSTRAINT email_outbox_subject_check CHECK (
+    CASE template
+      WHEN 'cart_recovery' THEN cart_recovery_id IS NOT NULL AND order_id IS NULL
+      ELSE order_id IS NOT NULL AND cart_recovery_id IS NULL
+    END
+  );
+
+CREATE OR REPLACE FUNCTION process_abandoned_carts()
+RETURNS TABLE (
+  expired_lines integer,
+  queued_emails integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings cart_recovery_settings;
+  v_expired integer;
+  v_queued integer;
+BEGIN
+  SELECT * INTO v_settings FROM cart_recovery_settings WHERE id;
+
+  WITH guest_carts AS (
+    SELECT coalesce(c.user_id::text, c.session_id) AS owner
+    FROM cart_items c
+    LEFT JOIN auth.users u ON u.id = c.user_id
+    WHERE c.user_id IS NULL OR u.id IS NULL OR u.is_anonymous
+    GROUP BY 1
+    HAVING max(coalesce(c.updated_at, c.created_at)) < now() - v_settings.guest_cart_ttl
+  ),
+  deleted AS (
+    DELETE FROM cart_items c
+    USING guest_carts g
+    WHERE coalesce(c.user_id::text, c.session_id) = g.owner
+    RETURNING c.id
+  )
+  SELECT count(*)::integer INTO v_expired FROM deleted;
+
+  WITH abandoned AS (
+    SELECT
+      c.user_id,
+      u.email,
+      max(coalesce(c.updated_at, c.created_at)) AS cart_updated_at,
+      jsonb_agg(jsonb_build_object(
+        'product_id', c.product_id,
+        'variant_id', c.variant_id,
+        'quantity', c.quantity,
+        'product_name', p.name,
+        'variant_label', format_variant_label(p.id, v.options),
+        'price', coalesce(v.price, p.price)
+      ) ORDER BY c.created_at) AS items
+    FROM cart_items c
+    JOIN auth.users u ON u.id = c.user_id
+    JOIN products p ON p.id = c.product_id
+    LEFT JOIN product_variants v ON v.id = c.variant_id
+    WHERE NOT u.is_anonymous
+      AND coalesce(trim(u.email), '') <> ''
+      AND c.quantity > 0
+    GROUP BY c.user_id, u.email
+    HAVING max(coalesce(c.updated_at, c.created_at)) < now() - v_settings.abandoned_after
+      AND max(coalesce(c.updated_at, c.created_at)) >= now() - v_settings.link_ttl
+  ),
+  recoveries AS (
+    INSERT INTO cart_recoveries (user_id, recipient, items, cart_updated_at, expires_at)
+    SELECT a.user_id, trim(a.email), a.items, a.cart_updated_at, now() + v_settings.link_ttl
+    FROM abandoned a
+    WHERE NOT EXISTS (
+      SELECT 1 FROM cart_recoveries r
+      WHERE r.user_id = a.user_id AND r.cart_updated_at >= a.cart_updated_at
+    )
+    RETURNING id, recipient
+  ),
+  queued AS (
+    INSERT INTO email_outbox (cart_recovery_id, template, recipient)
+    SELECT id, 'cart_recovery', recipient
+    FROM recoveries
+    RETURNING id
+  )
+  SELECT count(*)::integer INTO v_queued FROM queued;
+
+  RETURN QUERY SELECT v_expired, v_queued;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION restore_cart_recovery(p_recovery_id uuid, p_user_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_recovery cart_recoveries;
+  v_restored integer;
+BEGIN
+  SELECT * INTO v_recovery FROM cart_recoveries WHERE id = p_recovery_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'recovery_not_found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_recovery.expires_at < now() THEN
+    RAISE EXCEPTION 'recovery_expired' USING ERRCODE = 'P0001';
+  END IF;
+
+  CREATE TEMP TABLE recovered_lines ON COMMIT DROP AS
+  SELECT s.product_id, s.variant_id, SUM(s.quantity)::integer AS quantity
+  FROM jsonb_to_recordset(v_recovery.items) AS s(product_id uuid, variant_id uuid, quantity integer)
+  JOIN products p ON p.id = s.product_id AND p.archived_at IS NULL
+  LEFT JOIN product_variants v ON v.id = s.variant_id
+  WHERE s.quantity > 0
+    AND (s.variant_id IS NULL OR (v.id IS NOT NULL AND v.archived_at IS NULL))
+  GROUP BY s.product_id, s.variant_id;
+
+  UPDATE cart_items c
+  SET quantity = l.quantity
+  FROM recovered_lines l
+  WHERE c.user_id = p_user_id
+    AND c.product_id = l.product_id
+    AND c.variant_id IS NOT DISTINCT FROM l.variant_id
+    AND c.quantity < l.quantity;
+
+  INSERT INTO cart_items (user_id, product_id, variant_id, quantity)
+  SELECT p_user_id, l.product_id, l.variant_id, l.quantity
+  FROM recovered_lines l
+  WHERE NOT EXISTS (
+    SELECT 1 FROM cart_items c
+    WHERE c.user_id = p_user_id
+      AND c.product_id = l.product_id
+      AND c.variant_id IS NOT DISTINCT FROM l.variant_id
+  );
+
+  SELECT count(*)::integer INTO v_restored FROM recovered_lines;
+
+  UPDATE cart_recoveries
+  SET restored_at = coalesce(restored_at, now()),
+    restored_by = coalesce(restored_by, p_user_id)
+  WHERE id = p_recovery_id;
+
+  DROP TABLE recovered_lines;
+
+  RETURN v_restored;
+END;
+$$;
+
+-- Credits the newest recovery email the ordering user received, or opened the
+-- link of, within the attribution window.
+CREATE OR REPLACE FUNCTION attribute_cart_recovery()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE cart_recoveries
+  SET recovered_order_id = NEW.id, recovered_at = now()
+  WHERE id = (
+    SELECT r.id
+    FROM cart_recoveries r
+    JOIN email_outbox e ON e.cart_recovery_id = r.id AND e.status = 'sent'
+    CROSS JOIN cart_recovery_settings s
+    WHERE (r.user_id = NEW.user_id OR r.restored_by = NEW.user_id)
+      AND r.recovered_order_id IS NULL
+      AND e.sent_at >= now() - s.attribution_window
+    ORDER BY e.sent_at DESC
+    LIMIT 1
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER orders_attribute_cart_recovery
+  AFTER INSERT ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION attribute_cart_recovery();
+
+CREATE OR REPLACE FUNCTION get_cart_recovery(p_from date, p_to date)
+RETURNS TABLE (
+  emails_sent integer,
+  restored_carts integer,
+  recovered_orders integer,
+  recovery_rate numeric,
+  recovered_revenue numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_from timestamptz := p_from::timestamp AT TIME ZONE 'UTC';
+  v_to timestamptz := (p_to + 1)::timestamp AT TIME ZONE 'UTC';
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'forbidden' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_from IS NULL OR p_to IS NULL OR p_from > p_to THEN
+    RAISE EXCEPTION 'invalid_range' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH sent AS (
+    SELECT r.restored_at, r.recovered_order_id
+    FROM cart_recoveries r
+    JOIN email_outbox e ON e.cart_recovery_id = r.id
+    WHERE e.status = 'sent' AND e.sent_at >= v_from AND e.sent_at < v_to
+  )
+  SELECT
+    count(*)::integer,
+    count(s.restored_at)::integer,
+    count(s.recovered_order_id)::integer,
+    CASE
+      WHEN count(*) > 0 THEN round(count(s.recovered_order_id)::numeric / count(*), 4)
+      ELSE 0
+    END,
+    coalesce(SUM(o.total_amount), 0)
+  FROM sent s
+  LEFT JOIN sales_orders o ON o.id = s.recovered_order_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION process_abandoned_carts() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION process_abandoned_carts() TO service_role;
+REVOKE ALL ON FUNCTION restore_cart_recovery(uuid, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION restore_cart_recovery(uuid, uuid) TO service_role;
+REVOKE ALL ON FUNCTION get_cart_recovery(date, date) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_cart_recovery(date, date) TO authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+SELECT cron.schedule(
+  'process-abandoned-carts',
+  '*/15 * * * *',
+  'SELECT process_abandoned_carts()'
+);
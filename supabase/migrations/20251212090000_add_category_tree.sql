@@ -0,0 +1,328 @@
+/*
+  # Category Tree and Product Facets
+
+  ## Overview
+  Categories can be nested. Filtering the catalog by a category includes the products
+  of all its subcategories, and the storefront shows product counts per category and
+  price and availability facets next to the results.
+
+  ## Modified Tables
+
+  ### categories
+  - `parent_id` (uuid, foreign key, nullable) - Parent category; null for top-level
+    categories. A category cannot be moved under itself or one of its descendants.
+  - `slug` (text, unique) - URL name, e.g. `home-garden`. Generated from the name
+    when left blank and kept when the category is renamed, so links don't break.
+  - `position` (integer) - Display order among siblings; ties are ordered by name
+
+  ## New Functions
+
+  ### slugify(p_text)
+  - Lower-cases the text and joins its runs of letters and digits with `-`
+
+  ### category_subtree(p_category_id)
+  - The category and all its descendants, skipping archived categories and
+    everything below them
+
+  ### match_products(p_query, p_category_id, p_min_price, p_max_price, p_in_stock, p_price_below)
+  - The products matching a catalog search, unranked; shared by `search_products`
+    and `get_product_facets` so both filter the same way
+  - `p_price_below` - Exclusive upper bound, set when a price band is chosen, so
+    the band shows exactly the products it counted
+
+  ### get_product_facets(p_query, p_category_id, p_min_price, p_max_price, p_in_stock, p_price_below)
+  - Returns `{ categories, price_buckets, in_stock, total }`:
+    - `categories` - `{ category_id, count }` per category, counting the products of
+      its whole subtree that match the search with every filter except the category
+    - `price_buckets` - `{ min_price, max_price, count }` for each non-empty price
+      band, with every filter except the price range and `p_price_below`;
+      `max_price` is null for the top band
+    - `in_stock` - How many matches are in stock, ignoring the in-stock filter
+    - `total` - How many products match with every filter applied
+
+  ## Modified Functions
+  - `search_products` - `p_category_id` now matches the whole subtree; takes
+    `p_price_below`
+  - `promotion_covers_category` - A category promotion covers the whole subtree
+
+  ## Important Notes
+  1. Existing categories stay top-level and get slugs generated from their names
+  2. Archiving a category hides its whole subtree from the storefront
+  3. Price bands are in the base currency: under 25, 25-50, 50-100, 100-250,
+     250-500 and 500 and above. A band includes its lower bound but not its upper one,
+     so a product priced exactly at an edge counts in the higher band only.
+*/
+
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS parent_id uuid REFERENCES categories(id);
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS slug text;
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS position integer NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS categories_parent_id_idx ON categories (parent_id, position, name);
+
+CREATE OR REPLACE FUNCTION slugify(p_text text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT trim(BOTH '-' FROM regexp_replace(lower(coalesce(p_text, '')), '[^a-z0-9]+', '-', 'g'));
+$$;
+
+-- Staff-entered slugs are normalised; blank ones are generated from the name,
+-- with a numeric suffix when another category already has it.
+CREATE OR REPLACE FUNCTION set_category_slug()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_base text;
+  v_suffix integer := 1;
+BEGIN
+  NEW.slug := slugify(NEW.slug);
+  IF NEW.slug <> '' THEN
+    RETURN NEW;
+  END IF;
+
+  v_base := coalesce(nullif(slugify(NEW.name), ''), 'category');
+  NEW.slug := v_base;
+  WHILE EXISTS (SELECT 1 FROM categories WHERE slug = NEW.slug AND id <> NEW.id) LOOP
+    v_suffix := v_suffix + 1;
+    NEW.slug := v_base || '-' || v_suffix;
+  END LOOP;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER categories_set_slug
+  BEFORE INSERT OR UPDATE OF slug ON categories
+  FOR EACH ROW
+  EXECUTE FUNCTION set_category_slug();
+
+UPDATE categories SET slug = NULL;
+
+ALTER TABLE categories ALTER COLUMN slug SET NOT NULL;
+ALTER TABLE categories ADD CONSTRAINT categories_slug_key UNIQUE (slug);
+
+CREATE OR REPLACE FUNCTION check_category_parent()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL AND EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_id FROM categories WHERE id = NEW.parent_id
+      UNION ALL
+      SELECT c.id, c.parent_id
+      FROM categories c
+      JOIN ancestors a ON c.id = a.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'category_cycle' USING ERRCODE = '23514';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER categories_check_parent
+  BEFORE INSERT OR UPDATE OF parent_id ON categories
+  FOR EACH ROW
+  EXECUTE FUNCTION check_category_parent();
+
+CREATE OR REPLACE FUNCTION category_subtree(p_category_id uuid)
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+AS $$
+  WITH RECURSIVE subtree AS (
+    SELECT id FROM categories WHERE id = p_category_id AND archived_at IS NULL
+    UNION ALL
+    SELECT c.id
+    FROM categories c
+    JOIN subtree s ON c.parent_id = s.id
+    WHERE c.archived_at IS NULL
+  )
+  SELECT id FROM subtree;
+$$;
+
+CREATE OR REPLACE FUNCTION promotion_covers_category(
+  p_promotion_category_id uuid,
+  p_category_id uuid
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT p_promotion_category_id IS NULL
+    OR p_category_id IN (SELECT category_subtree(p_promotion_category_id));
+$$;
+
+CREATE OR REPLACE FUNCTION match_products(
+  p_query text DEFAULT NULL,
+  p_category_id uuid DEFAULT NULL,
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_in_stock boolean DEFAULT false,
+  p_price_below numeric DEFAULT NULL
+)
+RETURNS SETOF products
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT p.*
+  FROM products p
+  WHERE (
+      nullif(trim(coalesce(p_query, '')), '') IS NULL
+      OR p.search_vector @@ build_prefix_tsquery(p_query)
+      OR word_similarity(trim(p_query), p.name) >= 0.4
+    )
+    AND (p_category_id IS NULL OR p.category_id IN (SELECT category_subtree(p_category_id)))
+    AND (p_min_price IS NULL OR p.price >= p_min_price)
+    AND (p_max_price IS NULL OR p.price <= p_max_price)
+    AND (p_price_below IS NULL OR p.price < p_price_below)
+    AND (NOT coalesce(p_in_stock, false) OR p.stock > 0);
+$$;
+
+DROP FUNCTION IF EXISTS search_products(text, uuid, numeric, numeric, boolean, text, text, integer);
+
+CREATE OR REPLACE FUNCTION search_products(
+  p_query text DEFAULT NULL,
+  p_category_id uuid DEFAULT NULL,
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_in_stock boolean DEFAULT false,
+  p_sort text DEFAULT NULL,
+  p_cursor text DEFAULT NULL,
+  p_limit integer DEFAULT 24,
+  p_price_below numeric DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_query text := nullif(trim(coalesce(p_query, '')), '');
+  v_tsquery tsquery := build_prefix_tsquery(p_query);
+  v_sort text := coalesce(p_sort, CASE WHEN v_query IS NULL THEN 'newest' ELSE 'relevance' END);
+  v_limit integer := least(greatest(coalesce(p_limit, 24), 1), 100);
+  v_after_key numeric;
+  v_after_id uuid;
+  v_result jsonb;
+BEGIN
+  IF v_sort NOT IN ('relevance', 'newest', 'price_asc', 'price_desc') THEN
+    RAISE EXCEPTION 'invalid_sort' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_cursor IS NOT NULL THEN
+    v_after_key := split_part(p_cursor, '|', 1)::numeric;
+    v_after_id := split_part(p_cursor, '|', 2)::uuid;
+  END IF;
+
+  -- Every sort is expressed as an ascending numeric key so one keyset
+  -- comparison on (sort_key, id) serves all of them.
+  WITH matches AS (
+    SELECT
+      p.*,
+      CASE WHEN v_query IS NULL THEN 0
+        ELSE coalesce(ts_rank(p.search_vector, v_tsquery), 0) + word_similarity(v_query, p.name)
+      END AS rank
+    FROM match_products(p_query, p_category_id, p_min_price, p_max_price, p_in_stock, p_price_below) p
+  ),
+  keyed AS (
+    SELECT
+      m.*,
+      round(CASE v_sort
+        WHEN 'price_asc' THEN m.price
+        WHEN 'price_desc' THEN -m.price
+        WHEN 'newest' THEN -extract(epoch FROM m.created_at)
+        ELSE -m.rank::numeric
+      END, 6) AS sort_key
+    FROM matches m
+  ),
+  page AS (
+    SELECT k.*, row_number() OVER (ORDER BY k.sort_key, k.id) AS position
+    FROM keyed k
+    WHERE v_after_id IS NULL OR (k.sort_key, k.id) > (v_after_key, v_after_id)
+    ORDER BY k.sort_key, k.id
+    LIMIT v_limit + 1
+  )
+  SELECT jsonb_build_object(
+    'items', coalesce(
+      jsonb_agg(to_jsonb(page) - 'search_vector' - 'sort_key' - 'position' ORDER BY position)
+        FILTER (WHERE position <= v_limit),
+      '[]'::jsonb
+    ),
+    'next_cursor', CASE WHEN count(*) > v_limit
+      THEN max(CASE WHEN position = v_limit THEN sort_key::text || '|' || id::text END)
+    END
+  )
+  INTO v_result
+  FROM page;
+
+  RETURN v_result;
+END;
+$$;
+
+-- Each facet is counted with its own filter left out, so choosing a price band
+-- still shows how many products the other bands have.
+CREATE OR REPLACE FUNCTION get_product_facets(
+  p_query text DEFAULT NULL,
+  p_category_id uuid DEFAULT NULL,
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_in_stock boolean DEFAULT false,
+  p_price_below numeric DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  WITH RECURSIVE tree AS (
+    SELECT id AS ancestor_id, id AS category_id
+    FROM categories
+    WHERE archived_at IS NULL
+    UNION ALL
+    SELECT t.ancestor_id, c.id
+    FROM tree t
+    JOIN categories c ON c.parent_id = t.category_id
+    WHERE c.archived_at IS NULL
+  ),
+  category_counts AS (
+    SELECT t.ancestor_id AS category_id, count(*)::integer AS count
+    FROM match_products(p_query, NULL, p_min_price, p_max_price, p_in_stock, p_price_below) p
+    JOIN tree t ON t.category_id = p.category_id
+    GROUP BY t.ancestor_id
+  ),
+  bands AS (
+    SELECT edge AS min_price, lead(edge) OVER (ORDER BY edge) AS max_price
+    FROM unnest(ARRAY[0, 25, 50, 100, 250, 500]::numeric[]) AS edge
+  ),
+  band_counts AS (
+    SELECT b.min_price, b.max_price, count(*)::integer AS count
+    FROM bands b
+    JOIN match_products(p_query, p_category_id, NULL, NULL, p_in_stock) p
+      ON p.price >= b.min_price AND (b.max_price IS NULL OR p.price < b.max_price)
+    GROUP BY b.min_price, b.max_price
+  )
+  SELECT jsonb_build_object(
+    'categories', (
+      SELECT coalesce(jsonb_agg(to_jsonb(cc)), '[]'::jsonb) FROM category_counts cc
+    ),
+    'price_buckets', (
+      SELECT coalesce(jsonb_agg(to_jsonb(bc) ORDER BY bc.min_price), '[]'::jsonb) FROM band_counts bc
+    ),
+    'in_stock', (
+      SELECT count(*)::integer
+      FROM match_products(p_query, p_category_id, p_min_price, p_max_price, false, p_price_below)
+      WHERE stock > 0
+    ),
+    'total', (
+      SELECT count(*)::integer
+      FROM match_products(p_query, p_category_id, p_min_price, p_max_price, p_in_stock, p_price_below)
+    )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION category_subtree(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION match_products(text, uuid, numeric, numeric, boolean, numeric) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_products(text, uuid, numeric, numeric, boolean, text, text, integer, numeric) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_product_facets(text, uuid, numeric, numeric, boolean, numeric) TO anon, authenticated;